@@ -0,0 +1,23 @@
+import { generateKeyPairSync } from 'crypto';
+import { SigningKeyConfig } from '../src/types/token.types';
+
+/**
+ * Prints a new RS256 key as a JWT_SIGNING_KEYS entry.
+ *
+ * To rotate: add the entry to JWT_SIGNING_KEYS next to the current key, point
+ * JWT_ACTIVE_KID at it, and remove the old entry once the access tokens it
+ * signed have expired.
+ */
+function generateJwtKey() {
+  const kid = process.argv[2] || new Date().toISOString().slice(0, 10);
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  const entry: SigningKeyConfig = {
+    kid,
+    private_key: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString(),
+  };
+
+  console.log(JSON.stringify(entry));
+}
+
+generateJwtKey();
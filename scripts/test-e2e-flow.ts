@@ -2,7 +2,7 @@
  * End-to-End Device Registration Flow Test
  * 
  * This script demonstrates the complete user journey:
- * 1. User logs in with wallet address
+ * 1. User signs in with Ethereum (nonce -> EIP-4361 message -> signature)
  * 2. Fetches available cities
  * 3. Selects a city and fetches its stations
  * 4. Selects a station and fetches available sensors
@@ -13,6 +13,9 @@
  */
 
 import axios, { AxiosError } from 'axios';
+import { Hex } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { createSiweMessage } from 'viem/siwe';
 
 const API_BASE_URL = 'http://localhost:3000/api/v1';
 
@@ -69,7 +72,8 @@ async function sleep(ms: number) {
 
 async function runE2EFlow() {
   let accessToken = '';
-  const walletAddress = '0x1234567890abcdef1234567890abcdef12345678';
+  const account = privateKeyToAccount((process.env.E2E_PRIVATE_KEY as Hex) || generatePrivateKey());
+  const walletAddress = account.address;
   const registeredDevices: string[] = [];
 
   try {
@@ -77,8 +81,23 @@ async function runE2EFlow() {
     logStep(1, 'USER LOGIN');
     logInfo(`Attempting login with wallet: ${walletAddress}`);
     
+    const nonceResponse = await axios.get<ApiResponse>(`${API_BASE_URL}/auth/nonce`);
+    const challenge = nonceResponse.data.data;
+    const message = createSiweMessage({
+      address: account.address,
+      domain: challenge.domain,
+      uri: challenge.uri,
+      chainId: challenge.chain_id,
+      nonce: challenge.nonce,
+      statement: challenge.statement,
+      version: '1',
+      issuedAt: new Date(),
+    });
+    const signature = await account.signMessage({ message });
+
     const loginResponse = await axios.post<ApiResponse>(`${API_BASE_URL}/auth/login`, {
-      wallet_address: walletAddress,
+      message,
+      signature,
     });
 
     if (loginResponse.data.success) {
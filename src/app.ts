@@ -8,12 +8,20 @@ import deviceRoutes from '@/routes/device.routes';
 import configRoutes from '@/routes/config.routes';
 import ingestRoutes from '@/routes/ingest.routes';
 import marketplaceRoutes from '@/routes/marketplace.routes';
+import adminRoutes from '@/routes/admin.routes';
+import wellKnownRoutes from '@/routes/well-known.routes';
+import { BACKFILL_CONFIG, RATE_LIMIT_CONFIG } from '@/config/constants';
 
 dotenv.config();
 
 const app = express();
 
+// Behind a proxy req.ip is the client address from X-Forwarded-For, which rate limits are keyed on
+app.set('trust proxy', RATE_LIMIT_CONFIG.TRUST_PROXY);
+
 // Middleware
+// Bulk uploads are parsed first with their own limit; the general parser skips bodies already parsed
+app.use('/api/v1/ingest/bulk', express.json({ limit: BACKFILL_CONFIG.BULK_BODY_LIMIT }));
 app.use(express.json({ limit: '10kb' }));
 app.use(helmet());
 app.use(cors({ origin: true }));
@@ -24,6 +32,8 @@ app.use('/api/v1/devices', deviceRoutes);
 app.use('/api/v1/config', configRoutes);
 app.use('/api/v1', ingestRoutes);
 app.use('/api/v1/marketplace', marketplaceRoutes);
+app.use('/api/v1/admin', adminRoutes);
+app.use('/.well-known', wellKnownRoutes);
 
 // Health check
 app.get('/health', (req, res) => {
@@ -2,8 +2,6 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
-export const MAX_DEVICES_PER_PROVIDER = parseInt(process.env.MAX_DEVICES_PER_PROVIDER || '3', 10);
-
 export const TOKEN_CONFIG = {
   ACCESS_TOKEN_EXPIRY: '1d',           // 1 day
   ACCESS_TOKEN_EXPIRY_SECONDS: 86400,  // For Redis TTL
@@ -14,15 +12,253 @@ export const TOKEN_CONFIG = {
   TOKEN_FAMILY_LENGTH: 16,             // Random string length for family ID
   JTI_LENGTH: 32,                      // JWT ID length
 
+  SESSION_TOUCH_INTERVAL_SECONDS: 60,  // Minimum gap between last-used updates per session
+
+  // Access tokens are signed with RS256 keys from JWT_SIGNING_KEYS and published at /.well-known/jwks.json.
+  // Refresh tokens never leave ClearSky and stay HS256 with JWT_REFRESH_SECRET.
+  ACCESS_TOKEN_ALGORITHM: 'RS256',
+  ISSUER: process.env.JWT_ISSUER || 'clearsky',
+  AUDIENCE: process.env.JWT_AUDIENCE || 'clearsky-api',
+  // HS256 access tokens signed with JWT_SECRET before the switch: off unless turned on, and never
+  // after LEGACY_HS256_UNTIL (set it to the expiry of the last legacy token; unset means never)
+  ACCEPT_LEGACY_HS256: process.env.JWT_ACCEPT_LEGACY_HS256 === 'true',
+  LEGACY_HS256_UNTIL: Date.parse(process.env.JWT_LEGACY_HS256_UNTIL || ''),
+  JWKS_CACHE_SECONDS: 300,
+
   REDIS_KEY_PREFIX: {
     ACCESS_TOKEN: 'access',
     REFRESH_TOKEN: 'refresh',
     USER_SESSION: 'user',
     BLACKLIST: 'blacklist',
+    NONCE: 'nonce',
+    TOKEN_FAMILY: 'family',
+    INGEST_NONCE: 'ingest_nonce',
+    RATE_LIMIT: 'ratelimit',
+  },
+} as const;
+
+// Sign-In with Ethereum (EIP-4361) Configuration
+export const SIWE_CONFIG = {
+  DOMAIN: process.env.SIWE_DOMAIN || 'localhost:3000',
+  URI: process.env.SIWE_URI || 'http://localhost:3000',
+  CHAIN_ID: parseInt(process.env.SIWE_CHAIN_ID || '1315', 10), // Story Aeneid testnet
+  STATEMENT: process.env.SIGNATURE_MESSAGE || 'Login to ClearSky',
+  NONCE_LENGTH: 16,                    // Random bytes, hex encoded (32 chars)
+  NONCE_TTL_SECONDS: 300,              // Nonce must be used within 5 minutes
+  MAX_CLOCK_SKEW_SECONDS: 60,          // Tolerance for issuedAt in the future
+} as const;
+
+// Device quota tiers. Every wallet holds one tier, and only active devices count against it
+export const QUOTA_CONFIG = {
+  TIERS: ['community', 'institutional', 'partner'],
+  DEFAULT_TIER: 'community',
+  MAX_ACTIVE_DEVICES: {
+    community: parseInt(process.env.QUOTA_COMMUNITY_MAX_DEVICES || '3', 10),
+    institutional: parseInt(process.env.QUOTA_INSTITUTIONAL_MAX_DEVICES || '50', 10),
+    partner: parseInt(process.env.QUOTA_PARTNER_MAX_DEVICES || '500', 10),
   },
 } as const;
 
-export const DEVICE_LIMIT = 3;
+// Per-device ingestion credentials (API keys)
+export const DEVICE_CREDENTIAL_CONFIG = {
+  HEADER: 'x-device-key',
+  KEY_PREFIX: 'csk',                   // Keys look like csk_<key_id>_<secret>
+  KEY_ID_LENGTH: 8,                    // Random bytes, hex encoded (16 chars)
+  SECRET_LENGTH: 32,                   // Random bytes, base64url encoded
+  MAX_ROTATION_GRACE_SECONDS: 86400,   // Old keys may keep working up to 1 day after rotation
+  LAST_USED_UPDATE_INTERVAL_SECONDS: 60,
+} as const;
+
+// How far back sample timestamps are accepted, and bulk uploads of buffered samples
+export const BACKFILL_CONFIG = {
+  // POST /ingest always, and bulk uploads from devices without their own backfill_window_seconds
+  DEFAULT_WINDOW_SECONDS: 24 * 60 * 60,
+  MIN_WINDOW_SECONDS: 60 * 60,
+  MAX_WINDOW_SECONDS: parseInt(process.env.MAX_BACKFILL_WINDOW_SECONDS || String(30 * 24 * 60 * 60), 10),
+  MAX_FUTURE_SECONDS: 15 * 60,         // Allowed clock skew
+  BULK_MAX_SAMPLES: parseInt(process.env.BULK_INGEST_MAX_SAMPLES || '5000', 10),
+  BULK_BODY_LIMIT: process.env.BULK_INGEST_BODY_LIMIT || '2mb',
+  WRITE_RETRIES: 5,                    // Attempts when a batch changes between read and write
+} as const;
+
+// Length of the batch windows samples are grouped into; set per device or per station
+export const BATCH_WINDOW_CONFIG = {
+  DEFAULT_MINUTES: 60,
+  ALLOWED_MINUTES: [15, 30, 60, 120, 180, 360],   // Each divides a day, so windows align to UTC midnight
+} as const;
+
+// Samples for a batch window whose batch was already picked up for verification
+export const LATE_DATA_CONFIG = {
+  // 'supplemental': stored in a supplemental batch linked to the original, with its own proof; 'reject': refused
+  POLICY: (process.env.LATE_DATA_POLICY === 'reject' ? 'reject' : 'supplemental') as 'supplemental' | 'reject',
+  // Per batch window; late samples past the last one are refused
+  MAX_SUPPLEMENTAL_BATCHES: parseInt(process.env.MAX_SUPPLEMENTAL_BATCHES || '10', 10),
+} as const;
+
+// Signed readings from devices
+export const INGESTION_SIGNATURE_CONFIG = {
+  // When true, devices without a registered signing key can no longer ingest
+  REQUIRE_SIGNATURES: process.env.REQUIRE_DEVICE_SIGNATURES === 'true',
+  ALGORITHMS: ['ed25519', 'secp256k1'],
+  NONCE_MIN_LENGTH: 8,
+  NONCE_MAX_LENGTH: 128,
+  // Covers the whole accepted timestamp range (24h back, 15m ahead) so a nonce cannot be replayed inside it.
+  // Devices with a longer backfill window keep their nonces for that window instead
+  NONCE_TTL_SECONDS: 25 * 60 * 60,
+} as const;
+
+// Retries of POST /ingest, recognised by an Idempotency-Key header or a sequence number
+export const IDEMPOTENCY_CONFIG = {
+  HEADER: 'Idempotency-Key',
+  KEY_PATTERN: /^[A-Za-z0-9_.:-]{1,128}$/,
+  REPLAYED_HEADER: 'Idempotent-Replayed',
+} as const;
+
+// Conversion of ingested values to the catalog's canonical units
+export const SENSOR_UNITS_CONFIG = {
+  TEMPERATURE_SENSOR: 'Temperature',
+  // Gas conversions use the sample's own temperature, or this one without it
+  REFERENCE_TEMPERATURE_C: 25,
+} as const;
+
+// Quality checks run on each batch before it is verified
+export const QUALITY_CONFIG = {
+  VERSION: 1,                          // Bumped when the checks or the score change
+  // Cadence devices are expected to sample at; sensors with less than MIN_COVERAGE of it are flagged
+  EXPECTED_SAMPLE_INTERVAL_SECONDS: parseInt(process.env.EXPECTED_SAMPLE_INTERVAL_SECONDS || '60', 10),
+  MIN_COVERAGE: 0.5,
+  BASELINE_HOURS: 24,                  // Earlier batches of the device that spikes are measured against
+  BASELINE_MIN_SAMPLES: 10,            // With fewer earlier values the batch is its own baseline
+  SPIKE_THRESHOLD: 6,                  // Robust z-score (distance from the median in scaled MADs)
+  SPIKE_MIN_SPREAD_FRACTION: 0.01,     // Spread floor, as a share of the sensor's plausible range
+  FLATLINE_MIN_SAMPLES: 15,            // Identical consecutive values taken as a stuck sensor
+  // [lower, upper]: values sampled at the same time where lower may not exceed upper
+  CONSISTENT_PAIRS: [['PM2.5', 'PM10'], ['NO2', 'NOX'], ['NO', 'NOX']],
+} as const;
+
+// Per-device calibration profiles applied at ingestion
+export const CALIBRATION_CONFIG = {
+  MANAGER_ROLES: ['operator', 'admin'], // May calibrate devices they do not own
+  HUMIDITY_SENSOR: 'RH',
+  HUMIDITY_CORRECTED_SENSORS: ['PM2.5', 'PM10'],
+  // The growth factor diverges as RH approaches 100%, so higher samples are capped
+  MAX_RELATIVE_HUMIDITY: 95,
+  MAX_KAPPA: 1,
+  PAGE_SIZE: 50,
+} as const;
+
+// Express 'trust proxy': a hop count ("1" behind one load balancer), "true", or
+// comma-separated addresses or subnets. Unset trusts no proxy, so req.ip is the direct peer
+const parseTrustProxy = (value = ''): boolean | number | string => {
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  if (value === '' || value === 'false') {
+    return false;
+  }
+  return value === 'true' ? true : value;
+};
+
+// Rate limiting (sliding window, per route)
+export const RATE_LIMIT_CONFIG = {
+  // IP-keyed limits need the client address, not the load balancer's
+  TRUST_PROXY: parseTrustProxy(process.env.TRUST_PROXY),
+  // Off under Jest so suites that log in many times are not throttled
+  ENABLED: process.env.RATE_LIMIT_ENABLED
+    ? process.env.RATE_LIMIT_ENABLED === 'true'
+    : process.env.NODE_ENV !== 'test',
+  NONCE: { LIMIT: parseInt(process.env.RATE_LIMIT_NONCE || '30', 10), WINDOW_SECONDS: 60 },
+  LOGIN: { LIMIT: parseInt(process.env.RATE_LIMIT_LOGIN || '10', 10), WINDOW_SECONDS: 60 },
+  REFRESH: { LIMIT: parseInt(process.env.RATE_LIMIT_REFRESH || '30', 10), WINDOW_SECONDS: 60 },
+  INGEST: { LIMIT: parseInt(process.env.RATE_LIMIT_INGEST || '120', 10), WINDOW_SECONDS: 60 },
+  INGEST_BULK: { LIMIT: parseInt(process.env.RATE_LIMIT_INGEST_BULK || '10', 10), WINDOW_SECONDS: 60 },
+  PURCHASE: { LIMIT: parseInt(process.env.RATE_LIMIT_PURCHASE || '5', 10), WINDOW_SECONDS: 60 },
+  PURCHASE_IP: { LIMIT: parseInt(process.env.RATE_LIMIT_PURCHASE_IP || '20', 10), WINDOW_SECONDS: 60 },
+  VERIFY_PROOF: { LIMIT: parseInt(process.env.RATE_LIMIT_VERIFY_PROOF || '60', 10), WINDOW_SECONDS: 60 },
+  // Samples one device may add to an hour-long batch window; scaled to the window's length
+  MAX_SAMPLES_PER_BATCH_WINDOW: parseInt(process.env.MAX_SAMPLES_PER_BATCH_WINDOW || '720', 10),
+} as const;
+
+// Role-Based Access Control
+export const RBAC_CONFIG = {
+  ROLES: ['data_provider', 'buyer', 'operator', 'admin'],
+  DEFAULT_ROLES: ['data_provider', 'buyer'],
+  ADMIN_ROUTE_ROLES: ['operator', 'admin'],
+  // Wallets promoted to admin at login, so a fresh deployment has someone who can assign roles
+  BOOTSTRAP_ADMINS: (process.env.ADMIN_WALLET_ADDRESSES || '')
+    .split(',')
+    .map(address => address.trim().toLowerCase())
+    .filter(Boolean),
+} as const;
+
+// Station catalog: admin edits store a new catalog version
+export const STATION_CATALOG_CONFIG = {
+  WRITE_RETRIES: 5,                    // Attempts when another writer stores a version first
+  MAX_PENDING_PROPOSALS_PER_WALLET: parseInt(process.env.MAX_PENDING_STATION_PROPOSALS || '5', 10),
+  PROPOSAL_PAGE_SIZE: 100,
+} as const;
+
+// GET /config/stations/nearby
+export const NEARBY_SEARCH_CONFIG = {
+  DEFAULT_RADIUS_KM: 10,
+  MAX_RADIUS_KM: 100,
+  MAX_RESULTS: 50,                     // Per list (stations, devices)
+} as const;
+
+// Audit Log Configuration
+export const AUDIT_CONFIG = {
+  // prev_hash of the first event in the chain
+  GENESIS_HASH: '0'.repeat(64),
+  ACTIONS: [
+    'auth.login',
+    'auth.logout',
+    'auth.sessions_revoked',
+    'user.roles_changed',
+    'user.tier_changed',
+    'device.registered',
+    'device.updated',
+    'device.decommissioned',
+    'device.transfer_initiated',
+    'device.transfer_cancelled',
+    'device.ownership_transferred',
+    'device.deleted',
+    'device.signing_key_updated',
+    'device.credential_rotated',
+    'device.credential_revoked',
+    'device.calibration_updated',
+    'reading.batch_created',
+    'reading.batch_closed',
+    'reading.bulk_ingested',
+    'station.created',
+    'station.updated',
+    'station.retired',
+    'station.proposed',
+    'station.proposal_reviewed',
+    'marketplace.derivative_purchased',
+    'marketplace.user_derivative_created',
+    'marketplace.user_derivative_purchased',
+  ],
+  DEFAULT_PAGE_SIZE: 50,
+  MAX_PAGE_SIZE: 500,
+  // Attempts when another instance appends the same sequence number concurrently
+  APPEND_RETRIES: 5,
+} as const;
+
+// Device Ownership Transfer Configuration
+export const DEVICE_TRANSFER_CONFIG = {
+  // An unanswered transfer lapses after this long
+  EXPIRES_AFTER_SECONDS: parseInt(process.env.DEVICE_TRANSFER_EXPIRES_AFTER_SECONDS || '604800', 10),
+} as const;
+
+// Device Heartbeat Configuration
+export const DEVICE_HEALTH_CONFIG = {
+  // An active device that sent nothing for this long is marked offline
+  OFFLINE_AFTER_SECONDS: parseInt(process.env.DEVICE_OFFLINE_AFTER_SECONDS || '3600', 10),
+  // A declared sensor missing from every sample for this long marks the device degraded
+  SENSOR_SILENCE_SECONDS: parseInt(process.env.DEVICE_SENSOR_SILENCE_SECONDS || '3600', 10),
+  // last_seen_at is written at most this often for devices that authenticate without ingesting
+  LAST_SEEN_UPDATE_INTERVAL_SECONDS: 60,
+} as const;
 
 // IPFS / Pinata Configuration
 export const IPFS_CONFIG = {
@@ -68,10 +304,12 @@ export const STORY_CONFIG = {
 // Cron Job Configuration
 export const CRON_CONFIG = {
   DATA_INGESTION: process.env.CRON_DATA_INGESTION || '*/10 * * * *',
-  BATCH_PROCESSOR: process.env.CRON_BATCH_PROCESSOR || '*/20 * * * *',
+  BATCH_PROCESSOR: process.env.CRON_BATCH_PROCESSOR || '*/5 * * * *',   // Well within the shortest batch window (15 min)
   VERIFIER: process.env.CRON_VERIFIER || '*/30 * * * *',
   DERIVATIVE_INDIVIDUAL: process.env.CRON_DERIVATIVE_INDIVIDUAL || '*/15 * * * *',
   DERIVATIVE_META: process.env.CRON_DERIVATIVE_META || '*/1 * * * *',
+  DEVICE_HEALTH: process.env.CRON_DEVICE_HEALTH || '*/5 * * * *',
+  STATION_CATALOG_REFRESH: process.env.CRON_STATION_CATALOG_REFRESH || '* * * * *',
 } as const;
 
 // Data Ingestion Configuration
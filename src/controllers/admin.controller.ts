@@ -0,0 +1,378 @@
+import { Request, Response } from 'express';
+import * as adminService from '@/services/admin.service';
+import * as auditService from '@/services/audit.service';
+import * as stationCatalogService from '@/services/station-catalog.service';
+import * as stationProposalService from '@/services/station-proposal.service';
+import { UpdateRolesRequest, UpdateTierRequest, UserRole } from '@/types/user.types';
+import { AuditAction } from '@/types/audit.types';
+import {
+  CreateStationRequest,
+  ReviewStationProposalRequest,
+  StationProposalStatus,
+  UpdateStationRequest,
+} from '@/types/device.types';
+import { logger } from '@/utils/logger';
+
+const handleAdminError = (res: Response, error: any, context: string): void => {
+  if (error.message === 'USER_NOT_FOUND') {
+    res.status(404).json({
+      success: false,
+      error: { code: 'USER_NOT_FOUND', message: 'User not found' },
+    });
+    return;
+  }
+
+  if (error.message === 'STATION_NOT_FOUND') {
+    res.status(404).json({
+      success: false,
+      error: { code: 'STATION_NOT_FOUND', message: 'Station not found' },
+    });
+    return;
+  }
+
+  if (error.message === 'STATION_EXISTS') {
+    res.status(409).json({
+      success: false,
+      error: { code: 'STATION_EXISTS', message: 'A station with this station_id already exists' },
+    });
+    return;
+  }
+
+  if (error.message === 'STATION_CATALOG_CONFLICT') {
+    res.status(409).json({
+      success: false,
+      error: { code: 'STATION_CATALOG_CONFLICT', message: 'Station catalog is being changed by other requests, please retry' },
+    });
+    return;
+  }
+
+  if (error.message === 'PROPOSAL_NOT_FOUND') {
+    res.status(404).json({
+      success: false,
+      error: { code: 'PROPOSAL_NOT_FOUND', message: 'Station proposal not found' },
+    });
+    return;
+  }
+
+  if (error.message === 'PROPOSAL_ALREADY_REVIEWED') {
+    res.status(409).json({
+      success: false,
+      error: { code: 'PROPOSAL_ALREADY_REVIEWED', message: 'Station proposal has already been reviewed' },
+    });
+    return;
+  }
+
+  if (error.message.startsWith('VALIDATION_ERROR')) {
+    res.status(400).json({
+      success: false,
+      error: { message: error.message.replace('VALIDATION_ERROR: ', '') },
+    });
+    return;
+  }
+
+  logger.error(`${context} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: { message: 'Server error' },
+  });
+};
+
+export const listUsers = async (req: Request, res: Response): Promise<void> => {
+  const role = req.query.role as UserRole | undefined;
+
+  try {
+    const users = await adminService.listUsers(role);
+    res.status(200).json({
+      success: true,
+      data: users,
+    });
+  } catch (error: any) {
+    handleAdminError(res, error, 'List users');
+  }
+};
+
+export const getUser = async (req: Request, res: Response): Promise<void> => {
+  const walletAddress = req.params.walletAddress as string;
+
+  try {
+    const user = await adminService.getUser(walletAddress);
+    res.status(200).json({
+      success: true,
+      data: user,
+    });
+  } catch (error: any) {
+    handleAdminError(res, error, 'Get user');
+  }
+};
+
+export const updateUserRoles = async (req: Request, res: Response): Promise<void> => {
+  const actor = req.user?.walletAddress;
+  const walletAddress = req.params.walletAddress as string;
+  const { roles, reason }: UpdateRolesRequest = req.body;
+
+  if (!actor) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' },
+    });
+    return;
+  }
+
+  try {
+    const user = await adminService.updateUserRoles(actor, walletAddress, roles, reason);
+    res.status(200).json({
+      success: true,
+      data: user,
+    });
+  } catch (error: any) {
+    handleAdminError(res, error, 'Update roles');
+  }
+};
+
+export const updateUserTier = async (req: Request, res: Response): Promise<void> => {
+  const actor = req.user?.walletAddress;
+  const walletAddress = req.params.walletAddress as string;
+  const { tier, reason }: UpdateTierRequest = req.body ?? {};
+
+  if (!actor) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' },
+    });
+    return;
+  }
+
+  try {
+    const user = await adminService.updateUserTier(actor, walletAddress, tier, reason);
+    res.status(200).json({
+      success: true,
+      data: user,
+    });
+  } catch (error: any) {
+    handleAdminError(res, error, 'Update tier');
+  }
+};
+
+export const revokeUserSessions = async (req: Request, res: Response): Promise<void> => {
+  const actor = req.user?.walletAddress;
+  const walletAddress = req.params.walletAddress as string;
+
+  if (!actor) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' },
+    });
+    return;
+  }
+
+  try {
+    await adminService.forceLogout(actor, walletAddress);
+    res.status(200).json({
+      success: true,
+      message: 'User sessions revoked successfully',
+    });
+  } catch (error: any) {
+    handleAdminError(res, error, 'Revoke user sessions');
+  }
+};
+
+export const listAuditEvents = async (req: Request, res: Response): Promise<void> => {
+  const { actor, action, target_id, from, to, before_sequence, limit } = req.query;
+
+  try {
+    const page = await auditService.queryAuditEvents({
+      actor: actor as string | undefined,
+      action: action as AuditAction | undefined,
+      target_id: target_id as string | undefined,
+      from: from ? new Date(from as string) : undefined,
+      to: to ? new Date(to as string) : undefined,
+      before_sequence: before_sequence ? Number(before_sequence) : undefined,
+      limit: limit ? Number(limit) : undefined,
+    });
+    res.status(200).json({
+      success: true,
+      data: page,
+    });
+  } catch (error: any) {
+    handleAdminError(res, error, 'List audit events');
+  }
+};
+
+export const verifyAuditLog = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await auditService.verifyAuditChain();
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    handleAdminError(res, error, 'Verify audit log');
+  }
+};
+
+export const listStations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const catalog = await stationCatalogService.getStationCatalog();
+    res.status(200).json({
+      success: true,
+      data: catalog,
+    });
+  } catch (error: any) {
+    handleAdminError(res, error, 'List stations');
+  }
+};
+
+export const createStation = async (req: Request, res: Response): Promise<void> => {
+  const actor = req.user?.walletAddress;
+
+  if (!actor) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' },
+    });
+    return;
+  }
+
+  try {
+    const station = await stationCatalogService.createStation(actor, req.body as CreateStationRequest);
+    res.status(201).json({
+      success: true,
+      data: station,
+    });
+  } catch (error: any) {
+    handleAdminError(res, error, 'Create station');
+  }
+};
+
+export const updateStation = async (req: Request, res: Response): Promise<void> => {
+  const actor = req.user?.walletAddress;
+  const station_id = req.params.station_id as string;
+
+  if (!actor) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' },
+    });
+    return;
+  }
+
+  try {
+    const station = await stationCatalogService.updateStation(actor, station_id, req.body as UpdateStationRequest);
+    res.status(200).json({
+      success: true,
+      data: station,
+    });
+  } catch (error: any) {
+    handleAdminError(res, error, 'Update station');
+  }
+};
+
+export const retireStation = async (req: Request, res: Response): Promise<void> => {
+  const actor = req.user?.walletAddress;
+  const station_id = req.params.station_id as string;
+  const { reason } = req.body ?? {};
+
+  if (!actor) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' },
+    });
+    return;
+  }
+
+  try {
+    const station = await stationCatalogService.retireStation(actor, station_id, reason);
+    res.status(200).json({
+      success: true,
+      data: station,
+    });
+  } catch (error: any) {
+    handleAdminError(res, error, 'Retire station');
+  }
+};
+
+export const listStationProposals = async (req: Request, res: Response): Promise<void> => {
+  const status = req.query.status as StationProposalStatus | undefined;
+
+  try {
+    const proposals = await stationProposalService.listStationProposals(status);
+    res.status(200).json({
+      success: true,
+      data: proposals,
+    });
+  } catch (error: any) {
+    handleAdminError(res, error, 'List station proposals');
+  }
+};
+
+export const approveStationProposal = async (req: Request, res: Response): Promise<void> => {
+  const actor = req.user?.walletAddress;
+  const proposal_id = req.params.proposal_id as string;
+  const { note }: ReviewStationProposalRequest = req.body ?? {};
+
+  if (!actor) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' },
+    });
+    return;
+  }
+
+  try {
+    const proposal = await stationProposalService.approveStationProposal(actor, proposal_id, note);
+    res.status(200).json({
+      success: true,
+      data: proposal,
+    });
+  } catch (error: any) {
+    handleAdminError(res, error, 'Approve station proposal');
+  }
+};
+
+export const mergeStationProposal = async (req: Request, res: Response): Promise<void> => {
+  const actor = req.user?.walletAddress;
+  const proposal_id = req.params.proposal_id as string;
+  const { station_id, note }: ReviewStationProposalRequest = req.body ?? {};
+
+  if (!actor) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' },
+    });
+    return;
+  }
+
+  try {
+    const proposal = await stationProposalService.mergeStationProposal(actor, proposal_id, station_id as string, note);
+    res.status(200).json({
+      success: true,
+      data: proposal,
+    });
+  } catch (error: any) {
+    handleAdminError(res, error, 'Merge station proposal');
+  }
+};
+
+export const rejectStationProposal = async (req: Request, res: Response): Promise<void> => {
+  const actor = req.user?.walletAddress;
+  const proposal_id = req.params.proposal_id as string;
+  const { note }: ReviewStationProposalRequest = req.body ?? {};
+
+  if (!actor) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' },
+    });
+    return;
+  }
+
+  try {
+    const proposal = await stationProposalService.rejectStationProposal(actor, proposal_id, note);
+    res.status(200).json({
+      success: true,
+      data: proposal,
+    });
+  } catch (error: any) {
+    handleAdminError(res, error, 'Reject station proposal');
+  }
+};
@@ -1,15 +1,21 @@
 import { Request, Response } from 'express';
 import {
   ingestReading,
+  ingestBulkReadings,
   getDeviceReadings,
   getReadingsByStatus,
-  getReadingById
+  getReadingById,
+  getDeviceBatchWindow
 } from '@/services/aqi-ingestion.service';
-import { DataIngestionRequest } from '@/types/aqi-reading.types';
+import { getSampleProof, verifySampleProof } from '@/services/merkle-proof.service';
+import { recordAuditEvent } from '@/services/audit.service';
+import { BulkIngestionRequest, DataIngestionRequest, VerifyProofRequest } from '@/types/aqi-reading.types';
+import { IDEMPOTENCY_CONFIG } from '@/config/constants';
+import { getBatchSampleLimit } from '@/utils/time-window.utils';
 import { logger } from '@/utils/logger';
 
 export const ingestData = async (req: Request, res: Response): Promise<void> => {
-  const owner_id = req.user?.walletAddress;
+  const owner_id = req.device?.owner_id ?? req.user?.walletAddress;
   const ingestionRequest: DataIngestionRequest = req.body;
 
   if (!owner_id) {
@@ -20,6 +26,18 @@ export const ingestData = async (req: Request, res: Response): Promise<void> =>
     return;
   }
 
+  // A device key can only post readings for its own device
+  if (req.device) {
+    if (ingestionRequest.device_id && ingestionRequest.device_id !== req.device.device_id) {
+      res.status(403).json({
+        success: false,
+        error: { message: 'Device key does not match device_id' }
+      });
+      return;
+    }
+    ingestionRequest.device_id = req.device.device_id;
+  }
+
   // Validate request body
   const { device_id, sensor_data, timestamp } = ingestionRequest;
   if (!device_id || !sensor_data || !timestamp) {
@@ -31,20 +49,20 @@ export const ingestData = async (req: Request, res: Response): Promise<void> =>
   }
 
   try {
-    const reading = await ingestReading(owner_id, ingestionRequest);
+    const { response, replayed } = await ingestReading(
+      owner_id,
+      ingestionRequest,
+      req.get(IDEMPOTENCY_CONFIG.HEADER)
+    );
+
+    // A retry gets the original response. Samples are audited per batch, when it is created and closed
+    if (replayed) {
+      res.setHeader(IDEMPOTENCY_CONFIG.REPLAYED_HEADER, 'true');
+    }
 
     res.status(201).json({
       success: true,
-      data: {
-        reading_id: reading.reading_id,
-        device_id: reading.device_id,
-        status: reading.status,
-        batch_window: reading.batch_window,
-        ingestion_count: reading.meta.ingestion_count,
-        message: reading.meta.ingestion_count === 1
-          ? 'New batch created'
-          : `Data appended (${reading.meta.ingestion_count} ingestions)`
-      }
+      data: response
     });
   } catch (error: any) {
     if (error.message.startsWith('VALIDATION_ERROR')) {
@@ -55,6 +73,74 @@ export const ingestData = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    if (error.message === 'SIGNATURE_INVALID' || error.message === 'SIGNING_KEY_NOT_REGISTERED') {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: error.message,
+          message: error.message === 'SIGNATURE_INVALID'
+            ? 'Signature does not match the device signing key'
+            : 'Device must register a signing key before ingesting'
+        }
+      });
+      return;
+    }
+
+    if (error.message === 'BATCH_SAMPLE_LIMIT_REACHED') {
+      // The device can resume once the next batch window opens
+      const window = await getDeviceBatchWindow(device_id, new Date(timestamp));
+      const windowEnd = window.end.getTime();
+      const retryAfter = Math.max(1, Math.ceil((windowEnd - Date.now()) / 1000));
+      res.setHeader('Retry-After', retryAfter);
+      res.status(429).json({
+        success: false,
+        error: {
+          code: 'BATCH_SAMPLE_LIMIT_REACHED',
+          message: `Device reached ${getBatchSampleLimit(window)} samples for this batch window`,
+          retry_after: retryAfter
+        }
+      });
+      return;
+    }
+
+    if (error.message === 'BATCH_ALREADY_PROCESSED') {
+      res.status(409).json({
+        success: false,
+        error: {
+          code: 'BATCH_ALREADY_PROCESSED',
+          message: 'Batch window was already picked up for verification and takes no late samples'
+        }
+      });
+      return;
+    }
+
+    if (error.message === 'NONCE_REPLAYED') {
+      res.status(409).json({
+        success: false,
+        error: { code: 'NONCE_REPLAYED', message: 'Nonce was already used by this device' }
+      });
+      return;
+    }
+
+    if (error.message === 'IDEMPOTENCY_KEY_REUSED') {
+      res.status(422).json({
+        success: false,
+        error: {
+          code: 'IDEMPOTENCY_KEY_REUSED',
+          message: 'Idempotency key or sequence was already used for a different sample in this batch window'
+        }
+      });
+      return;
+    }
+
+    if (error.message === 'BATCH_MODIFIED') {
+      res.status(409).json({
+        success: false,
+        error: { code: 'BATCH_MODIFIED', message: 'The batch kept changing while the sample was stored, please retry' }
+      });
+      return;
+    }
+
     if (error.message === 'DEVICE_NOT_FOUND' || error.message === 'UNAUTHORIZED_DEVICE') {
       res.status(404).json({
         success: false,
@@ -71,6 +157,96 @@ export const ingestData = async (req: Request, res: Response): Promise<void> =>
   }
 };
 
+/**
+ * Uploads many timestamped samples at once, e.g. the buffer of a device that was
+ * offline. Responds 200 with a result per sample even when some were rejected.
+ */
+export const ingestBulkData = async (req: Request, res: Response): Promise<void> => {
+  const owner_id = req.device?.owner_id ?? req.user?.walletAddress;
+  const bulkRequest: BulkIngestionRequest = req.body ?? {};
+
+  if (!owner_id) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  // A device key can only upload samples for its own device
+  if (req.device) {
+    if (bulkRequest.device_id && bulkRequest.device_id !== req.device.device_id) {
+      res.status(403).json({
+        success: false,
+        error: { message: 'Device key does not match device_id' }
+      });
+      return;
+    }
+    bulkRequest.device_id = req.device.device_id;
+  }
+
+  if (!bulkRequest.device_id || !bulkRequest.samples) {
+    res.status(400).json({
+      success: false,
+      error: { message: 'Missing required fields: device_id, samples' }
+    });
+    return;
+  }
+
+  try {
+    const result = await ingestBulkReadings(owner_id, bulkRequest);
+
+    await recordAuditEvent({
+      actor: req.device ? req.device.device_id : owner_id,
+      actor_type: req.device ? 'device' : 'user',
+      action: 'reading.bulk_ingested',
+      target: { type: 'device', id: result.device_id },
+      after: {
+        accepted: result.accepted,
+        rejected: result.rejected,
+        reading_ids: result.readings.map(reading => reading.reading_id)
+      },
+      metadata: { signed: bulkRequest.samples.filter(sample => sample?.signature).length },
+      ip_address: req.ip,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result
+    });
+  } catch (error: any) {
+    if (error.message.startsWith('VALIDATION_ERROR')) {
+      res.status(400).json({
+        success: false,
+        error: { message: error.message.replace('VALIDATION_ERROR: ', '') }
+      });
+      return;
+    }
+
+    if (error.message === 'SIGNING_KEY_NOT_REGISTERED') {
+      res.status(401).json({
+        success: false,
+        error: { code: error.message, message: 'Device must register a signing key before ingesting' }
+      });
+      return;
+    }
+
+    if (error.message === 'DEVICE_NOT_FOUND' || error.message === 'UNAUTHORIZED_DEVICE') {
+      res.status(404).json({
+        success: false,
+        error: { message: error.message }
+      });
+      return;
+    }
+
+    logger.error('Bulk ingestion error:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: 'Server error' }
+    });
+  }
+};
+
 export const getDeviceReadingsController = async (req: Request, res: Response): Promise<void> => {
   const owner_id = req.user?.walletAddress;
   const { device_id } = req.params;
@@ -174,3 +350,102 @@ export const getReadingByIdController = async (req: Request, res: Response): Pro
     });
   }
 };
+
+export const getReadingProofController = async (req: Request, res: Response): Promise<void> => {
+  const wallet = req.user?.walletAddress;
+  const reading_id = req.params.reading_id as string;
+  const { sensor, index } = req.query;
+
+  if (!wallet) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  try {
+    const proof = await getSampleProof(
+      wallet,
+      reading_id,
+      typeof sensor === 'string' ? sensor : '',
+      typeof index === 'string' && index !== '' ? Number(index) : NaN
+    );
+    res.status(200).json({
+      success: true,
+      data: proof
+    });
+  } catch (error: any) {
+    if (error.message.startsWith('VALIDATION_ERROR')) {
+      res.status(400).json({
+        success: false,
+        error: { message: error.message.replace('VALIDATION_ERROR: ', '') }
+      });
+      return;
+    }
+
+    if (error.message === 'READING_NOT_FOUND') {
+      res.status(404).json({
+        success: false,
+        error: { code: error.message, message: 'Reading not found' }
+      });
+      return;
+    }
+
+    if (error.message === 'SAMPLE_NOT_FOUND') {
+      res.status(404).json({
+        success: false,
+        error: { code: error.message, message: 'Reading has no value at this sensor and index' }
+      });
+      return;
+    }
+
+    if (error.message === 'READING_NOT_VERIFIED') {
+      res.status(409).json({
+        success: false,
+        error: { code: error.message, message: 'Reading has not been verified yet' }
+      });
+      return;
+    }
+
+    if (error.message === 'PROOF_UNAVAILABLE') {
+      res.status(409).json({
+        success: false,
+        error: { code: error.message, message: 'Reading was verified with an older leaf encoding and has no proofs' }
+      });
+      return;
+    }
+
+    logger.error('Get reading proof error:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: 'Server error' }
+    });
+  }
+};
+
+export const verifyProofController = async (req: Request, res: Response): Promise<void> => {
+  const verifyRequest: VerifyProofRequest = req.body;
+
+  try {
+    const result = await verifySampleProof(verifyRequest);
+    res.status(200).json({
+      success: true,
+      data: result
+    });
+  } catch (error: any) {
+    if (error.message.startsWith('VALIDATION_ERROR')) {
+      res.status(400).json({
+        success: false,
+        error: { message: error.message.replace('VALIDATION_ERROR: ', '') }
+      });
+      return;
+    }
+
+    logger.error('Verify proof error:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: 'Server error' }
+    });
+  }
+};
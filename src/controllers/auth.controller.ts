@@ -1,25 +1,73 @@
 import { Request, Response } from 'express';
-import { authenticateUser, refreshAccessToken, logoutUser } from '@/services/auth.service';
+import {
+  authenticateUser,
+  refreshAccessToken,
+  logoutUser,
+  listUserSessions,
+  revokeSession,
+} from '@/services/auth.service';
+import { issueNonce, verifySiweLogin } from '@/services/siwe.service';
+import { ClientContext } from '@/types/auth.types';
 import { logger } from '@/utils/logger';
 
+const SIWE_ERROR_MESSAGES: Record<string, string> = {
+  SIWE_MESSAGE_INVALID: 'Malformed Sign-In with Ethereum message',
+  SIWE_DOMAIN_MISMATCH: 'Message was signed for a different domain',
+  SIWE_URI_MISMATCH: 'Message was signed for a different URI',
+  SIWE_CHAIN_MISMATCH: 'Message was signed for a different chain',
+  SIWE_MESSAGE_EXPIRED: 'Sign-in message has expired',
+  SIWE_MESSAGE_NOT_YET_VALID: 'Sign-in message is not valid yet',
+  SIWE_SIGNATURE_INVALID: 'Signature does not match the message address',
+  SIWE_NONCE_INVALID: 'Nonce is unknown, expired or already used',
+};
+
+const getClientContext = (req: Request): ClientContext => ({
+  ip_address: req.ip,
+  user_agent: req.get('user-agent'),
+});
+
+export const getNonce = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const challenge = await issueNonce(req.ip);
+    res.status(200).json({
+      success: true,
+      data: challenge,
+    });
+  } catch (error) {
+    logger.error('Nonce generation error:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: 'Server error' },
+    });
+  }
+};
+
 export const login = async (req: Request, res: Response): Promise<void> => {
-  const { wallet_address } = req.body;
+  const { message, signature } = req.body;
 
-  if (!wallet_address) {
+  if (!message || !signature) {
     res.status(400).json({
       success: false,
-      error: { message: 'wallet_address is required' },
+      error: { message: 'message and signature are required' },
     });
     return;
   }
 
   try {
-    const loginData = await authenticateUser(wallet_address);
+    const walletAddress = await verifySiweLogin(message, signature);
+    const loginData = await authenticateUser(walletAddress, getClientContext(req));
     res.status(200).json({
       success: true,
       data: loginData,
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (SIWE_ERROR_MESSAGES[error.message]) {
+      res.status(401).json({
+        success: false,
+        error: { code: error.message, message: SIWE_ERROR_MESSAGES[error.message] },
+      });
+      return;
+    }
     logger.error('Login error:', error);
     res.status(500).json({
       success: false,
@@ -40,12 +88,23 @@ export const refreshToken = async (req: Request, res: Response): Promise<void> =
   }
 
   try {
-    const tokens = await refreshAccessToken(refresh_token);
+    const tokens = await refreshAccessToken(refresh_token, getClientContext(req));
     res.status(200).json({
       success: true,
       data: tokens,
     });
   } catch (error: any) {
+    if (error.message === 'TOKEN_REUSE_DETECTED') {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'TOKEN_REUSE_DETECTED',
+          message: 'Refresh token was already used. All sessions from this login were revoked, please log in again.',
+          login_required: true,
+        },
+      });
+      return;
+    }
     if (error.message === 'TOKEN_INVALID' || error.message === 'TOKEN_EXPIRED' || error.message === 'TOKEN_REVOKED') {
         res.status(401).json({
             success: false,
@@ -87,3 +146,63 @@ export const logout = async (req: Request, res: Response): Promise<void> => {
         });
     }
 };
+
+export const listSessions = async (req: Request, res: Response): Promise<void> => {
+  const walletAddress = req.user?.walletAddress;
+
+  if (!walletAddress) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' },
+    });
+    return;
+  }
+
+  try {
+    const sessions = await listUserSessions(walletAddress, req.user?.token_family);
+    res.status(200).json({
+      success: true,
+      data: sessions,
+    });
+  } catch (error) {
+    logger.error('List sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: 'Server error' },
+    });
+  }
+};
+
+export const deleteSession = async (req: Request, res: Response): Promise<void> => {
+  const walletAddress = req.user?.walletAddress;
+  const jti = req.params.jti as string;
+
+  if (!walletAddress) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' },
+    });
+    return;
+  }
+
+  try {
+    await revokeSession(walletAddress, jti);
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully',
+    });
+  } catch (error: any) {
+    if (error.message === 'SESSION_NOT_FOUND') {
+      res.status(404).json({
+        success: false,
+        error: { code: 'SESSION_NOT_FOUND', message: 'Session not found' },
+      });
+      return;
+    }
+    logger.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: 'Server error' },
+    });
+  }
+};
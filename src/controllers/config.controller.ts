@@ -1,15 +1,45 @@
 import { Request, Response } from 'express';
-import { getAvailableCities, getStationsByCity, getStationById } from '@/services/config.service';
+import {
+  getAvailableCities,
+  getStationsByCity,
+  getStationById,
+  getCatalogVersion,
+  loadStationsConfig,
+  refreshConfig
+} from '@/services/config.service';
+import * as stationProposalService from '@/services/station-proposal.service';
+import { findNearby } from '@/services/nearby.service';
+import { ProposeStationRequest } from '@/types/device.types';
 import { logger } from '@/utils/logger';
 
+// Picks up catalog changes made through another instance. If the database is
+// unreachable the last loaded catalog is still good enough to serve.
+const refreshCatalog = async (): Promise<void> => {
+  try {
+    await refreshConfig();
+  } catch (error: any) {
+    logger.warn('Station catalog refresh failed, serving the loaded version', { error: error.message });
+  }
+};
+
+// Number('') and Number(' ') are 0, so a blank parameter would search from the
+// equator or with no radius. Anything but a non-blank string becomes NaN and fails validation.
+const toQueryNumber = (value: unknown): number =>
+  typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+
 /**
  * Get all device configuration presets (cities, stations, sensors) in one response
  * This is the recommended endpoint for frontend to get complete configuration
  */
 export const getPresets = async (req: Request, res: Response): Promise<void> => {
   try {
+    await refreshCatalog();
+    const version = getCatalogVersion();
     const cities = getAvailableCities();
-    res.status(200).json({ cities });
+
+    // Clients revalidate with If-None-Match and get a 304 while the version is unchanged
+    res.set('ETag', `"stations-v${version}"`);
+    res.status(200).json({ version, sensors: loadStationsConfig().sensors, cities });
   } catch (error) {
     logger.error('Get presets error:', error);
     res.status(500).json({
@@ -21,6 +51,7 @@ export const getPresets = async (req: Request, res: Response): Promise<void> =>
 
 export const getCities = async (req: Request, res: Response): Promise<void> => {
   try {
+    await refreshCatalog();
     const cities = getAvailableCities();
     res.status(200).json({
       success: true,
@@ -38,6 +69,7 @@ export const getCities = async (req: Request, res: Response): Promise<void> => {
 export const getStations = async (req: Request, res: Response): Promise<void> => {
   const { city_id } = req.params;
   try {
+    await refreshCatalog();
     const stations = getStationsByCity(city_id);
     res.status(200).json({
       success: true,
@@ -58,6 +90,7 @@ export const getSensors = async (
 ): Promise<void> => {
   const { station_id } = req.params;
   try {
+    await refreshCatalog();
     const station = getStationById(station_id);
     if (!station) {
       res.status(404).json({
@@ -79,3 +112,114 @@ export const getSensors = async (
     });
   }
 };
+
+/**
+ * Stations and active devices around a point, closest first, for suggesting
+ * where a new device could be registered
+ */
+export const getNearbyStations = async (req: Request, res: Response): Promise<void> => {
+  const { lat, lon, radius_km } = req.query;
+
+  try {
+    await refreshCatalog();
+    const result = await findNearby({
+      latitude: toQueryNumber(lat),
+      longitude: toQueryNumber(lon),
+      radius_km: radius_km !== undefined ? toQueryNumber(radius_km) : undefined
+    });
+    res.status(200).json({
+      success: true,
+      data: result
+    });
+  } catch (error: any) {
+    if (error.message.startsWith('VALIDATION_ERROR')) {
+      res.status(400).json({
+        success: false,
+        error: { message: error.message.replace('VALIDATION_ERROR: ', '') }
+      });
+      return;
+    }
+
+    logger.error('Get nearby stations error:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: 'Server error' }
+    });
+  }
+};
+
+export const proposeStation = async (req: Request, res: Response): Promise<void> => {
+  const wallet = req.user?.walletAddress;
+
+  if (!wallet) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  try {
+    const proposal = await stationProposalService.proposeStation(wallet, req.body as ProposeStationRequest);
+    res.status(201).json({
+      success: true,
+      data: proposal
+    });
+  } catch (error: any) {
+    if (error.message === 'STATION_EXISTS') {
+      res.status(409).json({
+        success: false,
+        error: { code: 'STATION_EXISTS', message: 'A station with this station_id already exists' }
+      });
+      return;
+    }
+
+    if (error.message === 'PROPOSAL_LIMIT_REACHED') {
+      res.status(403).json({
+        success: false,
+        error: { code: 'PROPOSAL_LIMIT_REACHED', message: 'Too many station proposals awaiting review' }
+      });
+      return;
+    }
+
+    if (error.message.startsWith('VALIDATION_ERROR')) {
+      res.status(400).json({
+        success: false,
+        error: { message: error.message.replace('VALIDATION_ERROR: ', '') }
+      });
+      return;
+    }
+
+    logger.error('Propose station error:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: 'Server error' }
+    });
+  }
+};
+
+export const getMyStationProposals = async (req: Request, res: Response): Promise<void> => {
+  const wallet = req.user?.walletAddress;
+
+  if (!wallet) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  try {
+    const proposals = await stationProposalService.listOwnProposals(wallet);
+    res.status(200).json({
+      success: true,
+      data: proposals
+    });
+  } catch (error) {
+    logger.error('Get station proposals error:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: 'Server error' }
+    });
+  }
+};
@@ -1,6 +1,13 @@
 import { Request, Response } from 'express';
 import * as deviceService from '@/services/device.service';
-import { DeviceRegistrationRequest } from '@/types/device.types';
+import * as credentialService from '@/services/device-credential.service';
+import * as calibrationService from '@/services/calibration.service';
+import {
+  DeviceRegistrationRequest,
+  InitiateTransferRequest,
+  SetCalibrationRequest,
+  UpdateDeviceRequest
+} from '@/types/device.types';
 import { logger } from '@/utils/logger';
 
 export const registerDevice = async (req: Request, res: Response): Promise<void> => {
@@ -26,7 +33,7 @@ export const registerDevice = async (req: Request, res: Response): Promise<void>
   }
 
   try {
-    const device = await deviceService.registerDevice(owner_id, registrationRequest);
+    const { device, credential } = await deviceService.registerDevice(owner_id, registrationRequest);
 
     res.status(201).json({
       success: true,
@@ -34,7 +41,9 @@ export const registerDevice = async (req: Request, res: Response): Promise<void>
         device_id: device.device_id,
         sensor_meta: device.sensor_meta,
         status: device.status,
-        registered_at: device.registered_at
+        registered_at: device.registered_at,
+        signing_key: device.signing_key,
+        credential
       }
     });
   } catch (error: any) {
@@ -43,7 +52,7 @@ export const registerDevice = async (req: Request, res: Response): Promise<void>
         success: false,
         error: {
           code: 'DEVICE_LIMIT_REACHED',
-          message: 'Maximum device limit (3) reached'
+          message: 'Active device quota of your tier reached'
         }
       });
       return;
@@ -126,4 +135,455 @@ export const deleteDevice = async (req: Request, res: Response): Promise<void> =
       error: { message: 'Server error' }
     });
   }
-};
\ No newline at end of file
+};
+
+const handleDeviceError = (res: Response, error: any, context: string): void => {
+  if (error.message === 'DEVICE_NOT_FOUND') {
+    res.status(404).json({
+      success: false,
+      error: { message: 'Device not found or unauthorized' }
+    });
+    return;
+  }
+
+  if (error.message === 'DEVICE_DECOMMISSIONED') {
+    res.status(409).json({
+      success: false,
+      error: { code: 'DEVICE_DECOMMISSIONED', message: 'Device has been decommissioned' }
+    });
+    return;
+  }
+
+  if (error.message === 'DEVICE_MODIFIED') {
+    res.status(409).json({
+      success: false,
+      error: { code: 'DEVICE_MODIFIED', message: 'Device was changed by another request, please retry' }
+    });
+    return;
+  }
+
+  if (error.message === 'TRANSFER_NOT_FOUND') {
+    res.status(404).json({
+      success: false,
+      error: { code: 'TRANSFER_NOT_FOUND', message: 'No open transfer of this device to your wallet' }
+    });
+    return;
+  }
+
+  if (error.message === 'DEVICE_LIMIT_REACHED') {
+    res.status(403).json({
+      success: false,
+      error: { code: 'DEVICE_LIMIT_REACHED', message: 'Active device quota of your tier reached' }
+    });
+    return;
+  }
+
+  if (error.message === 'STATION_NOT_FOUND') {
+    res.status(400).json({
+      success: false,
+      error: { message: 'Station of this device is no longer available' }
+    });
+    return;
+  }
+
+  if (error.message.startsWith('VALIDATION_ERROR')) {
+    res.status(400).json({
+      success: false,
+      error: { message: error.message.replace('VALIDATION_ERROR: ', '') }
+    });
+    return;
+  }
+
+  logger.error(`${context} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: { message: 'Server error' }
+  });
+};
+
+export const updateSigningKey = async (req: Request, res: Response): Promise<void> => {
+  const owner_id = req.user?.walletAddress;
+  const device_id = req.params.device_id as string;
+
+  if (!owner_id) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  try {
+    const device = await deviceService.setSigningKey(owner_id, device_id, req.body);
+
+    if (!device) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Device not found or unauthorized' }
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        device_id: device.device_id,
+        signing_key: device.signing_key
+      }
+    });
+  } catch (error: any) {
+    handleDeviceError(res, error, 'Update signing key');
+  }
+};
+
+export const updateDevice = async (req: Request, res: Response): Promise<void> => {
+  const owner_id = req.user?.walletAddress;
+  const device_id = req.params.device_id as string;
+  const updateRequest: UpdateDeviceRequest = req.body ?? {};
+
+  if (!owner_id) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  try {
+    const device = await deviceService.updateDevice(owner_id, device_id, updateRequest);
+
+    if (!device) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Device not found or unauthorized' }
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: device
+    });
+  } catch (error: any) {
+    handleDeviceError(res, error, 'Update device');
+  }
+};
+
+export const decommissionDevice = async (req: Request, res: Response): Promise<void> => {
+  const owner_id = req.user?.walletAddress;
+  const device_id = req.params.device_id as string;
+
+  if (!owner_id) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  try {
+    const device = await deviceService.decommissionDevice(owner_id, device_id, req.body?.reason);
+
+    if (!device) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Device not found or unauthorized' }
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: device
+    });
+  } catch (error: any) {
+    handleDeviceError(res, error, 'Decommission device');
+  }
+};
+
+export const getDeviceHistory = async (req: Request, res: Response): Promise<void> => {
+  const owner_id = req.user?.walletAddress;
+  const device_id = req.params.device_id as string;
+
+  if (!owner_id) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  try {
+    const history = await deviceService.getDeviceHistory(owner_id, device_id);
+
+    if (!history) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Device not found or unauthorized' }
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: history
+    });
+  } catch (error: any) {
+    handleDeviceError(res, error, 'Get device history');
+  }
+};
+
+export const initiateTransfer = async (req: Request, res: Response): Promise<void> => {
+  const owner_id = req.user?.walletAddress;
+  const device_id = req.params.device_id as string;
+  const { to_wallet }: InitiateTransferRequest = req.body ?? {};
+
+  if (!owner_id) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  try {
+    const device = await deviceService.initiateTransfer(owner_id, device_id, to_wallet);
+
+    if (!device) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Device not found or unauthorized' }
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      data: {
+        device_id: device.device_id,
+        pending_transfer: device.pending_transfer
+      }
+    });
+  } catch (error: any) {
+    handleDeviceError(res, error, 'Initiate transfer');
+  }
+};
+
+export const cancelTransfer = async (req: Request, res: Response): Promise<void> => {
+  const owner_id = req.user?.walletAddress;
+  const device_id = req.params.device_id as string;
+
+  if (!owner_id) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  try {
+    const device = await deviceService.cancelTransfer(owner_id, device_id);
+
+    if (!device) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Device not found or unauthorized' }
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Transfer cancelled'
+    });
+  } catch (error: any) {
+    handleDeviceError(res, error, 'Cancel transfer');
+  }
+};
+
+export const acceptTransfer = async (req: Request, res: Response): Promise<void> => {
+  const new_owner = req.user?.walletAddress;
+  const device_id = req.params.device_id as string;
+
+  if (!new_owner) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  try {
+    const { device, credential } = await deviceService.acceptTransfer(new_owner, device_id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        device,
+        credential
+      }
+    });
+  } catch (error: any) {
+    handleDeviceError(res, error, 'Accept transfer');
+  }
+};
+
+export const listIncomingTransfers = async (req: Request, res: Response): Promise<void> => {
+  const wallet = req.user?.walletAddress;
+
+  if (!wallet) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  try {
+    const devices = await deviceService.listIncomingTransfers(wallet);
+
+    res.status(200).json({
+      success: true,
+      data: devices.map(device => ({
+        device_id: device.device_id,
+        from_owner: device.owner_id,
+        sensor_meta: device.sensor_meta,
+        status: device.status,
+        pending_transfer: device.pending_transfer
+      }))
+    });
+  } catch (error: any) {
+    handleDeviceError(res, error, 'List incoming transfers');
+  }
+};
+
+export const listCredentials = async (req: Request, res: Response): Promise<void> => {
+  const owner_id = req.user?.walletAddress;
+  const device_id = req.params.device_id as string;
+
+  if (!owner_id) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  try {
+    const credentials = await credentialService.listDeviceCredentials(owner_id, device_id);
+
+    res.status(200).json({
+      success: true,
+      data: credentials
+    });
+  } catch (error: any) {
+    handleDeviceError(res, error, 'List credentials');
+  }
+};
+
+export const rotateCredential = async (req: Request, res: Response): Promise<void> => {
+  const owner_id = req.user?.walletAddress;
+  const device_id = req.params.device_id as string;
+  const grace_period_seconds = req.body?.grace_period_seconds ?? 0;
+
+  if (!owner_id) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  try {
+    const credential = await credentialService.rotateDeviceCredential(owner_id, device_id, grace_period_seconds);
+
+    res.status(201).json({
+      success: true,
+      data: credential
+    });
+  } catch (error: any) {
+    handleDeviceError(res, error, 'Rotate credential');
+  }
+};
+
+export const revokeCredential = async (req: Request, res: Response): Promise<void> => {
+  const owner_id = req.user?.walletAddress;
+  const device_id = req.params.device_id as string;
+  const key_id = req.params.key_id as string;
+
+  if (!owner_id) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  try {
+    const revoked = await credentialService.revokeDeviceCredential(owner_id, device_id, key_id);
+
+    if (!revoked) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Credential not found' }
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Credential revoked successfully'
+    });
+  } catch (error: any) {
+    handleDeviceError(res, error, 'Revoke credential');
+  }
+};
+
+export const getCalibrationProfiles = async (req: Request, res: Response): Promise<void> => {
+  const wallet = req.user?.walletAddress;
+  const device_id = req.params.device_id as string;
+
+  if (!wallet) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  try {
+    const profiles = await calibrationService.listCalibrationProfiles(wallet, req.user!.roles, device_id);
+
+    res.status(200).json({
+      success: true,
+      data: profiles
+    });
+  } catch (error: any) {
+    handleDeviceError(res, error, 'List calibration profiles');
+  }
+};
+
+export const setCalibrationProfile = async (req: Request, res: Response): Promise<void> => {
+  const wallet = req.user?.walletAddress;
+  const device_id = req.params.device_id as string;
+  const calibrationRequest: SetCalibrationRequest = req.body;
+
+  if (!wallet) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  try {
+    const profile = await calibrationService.setCalibrationProfile(wallet, req.user!.roles, device_id, calibrationRequest);
+
+    res.status(201).json({
+      success: true,
+      data: profile
+    });
+  } catch (error: any) {
+    handleDeviceError(res, error, 'Set calibration profile');
+  }
+};
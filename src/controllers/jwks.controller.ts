@@ -0,0 +1,18 @@
+import { Request, Response } from 'express';
+import * as jwksService from '@/services/jwks.service';
+import { TOKEN_CONFIG } from '@/config/constants';
+import { logger } from '@/utils/logger';
+
+export const getJwks = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const jwks = jwksService.getJwks();
+    res.setHeader('Cache-Control', `public, max-age=${TOKEN_CONFIG.JWKS_CACHE_SECONDS}`);
+    res.status(200).json(jwks);
+  } catch (error) {
+    logger.error('JWKS error:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: 'Server error' },
+    });
+  }
+};
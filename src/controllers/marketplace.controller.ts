@@ -5,6 +5,7 @@ import { Address } from 'viem';
 import * as DerivativeRepository from '../database/derivative.repository';
 import * as StoryService from '../services/story.service';
 import * as IpfsService from '../services/ipfs.service';
+import { recordAuditEvent } from '../services/audit.service';
 import { Derivative } from '../models/Derivative';
 import Asset from '../models/Asset';
 import User from '../models/User';
@@ -72,6 +73,7 @@ export const listDerivatives = async (req: Request, res: Response) => {
             sensorType,
             dateFrom,
             dateTo,
+            minQuality,
             limit = '50',
             offset = '0',
             search
@@ -80,6 +82,14 @@ export const listDerivatives = async (req: Request, res: Response) => {
         // Build filter query for derivatives
         const filter: any = {};
 
+        let minQualityScore: number | undefined;
+        if (minQuality !== undefined) {
+            minQualityScore = Number(minQuality);
+            if (!Number.isFinite(minQualityScore) || minQualityScore < 0 || minQualityScore > 100) {
+                return res.status(400).json({ success: false, message: 'minQuality must be a quality score from 0 to 100.' });
+            }
+        }
+
         if (is_minted !== undefined) {
             filter.is_minted = is_minted === 'true';
         }
@@ -166,6 +176,12 @@ export const listDerivatives = async (req: Request, res: Response) => {
             }
         }
 
+        // Every reading a derivative was built from must meet the score; readings not yet assessed do not,
+        // so derivatives with any unassessed parent carry no stored minimum and never match
+        if (minQualityScore !== undefined) {
+            filter.min_parent_quality_score = { $gte: minQualityScore };
+        }
+
         logger.debug(
             `[MARKETPLACE] Filter constructed ${JSON.stringify({
                 filter: filter
@@ -530,6 +546,22 @@ export const purchaseDerivative = async (req: Request, res: Response) => {
             )}`
         );
 
+        await recordAuditEvent({
+            actor: buyerWallet.toLowerCase(),
+            action: 'marketplace.derivative_purchased',
+            target: { type: 'derivative', id: derivativeId as string },
+            before: { is_minted: false },
+            after: { is_minted: true, asset_id: assetId, ip_id: ipId, license_token_id: licenseTokenId },
+            metadata: {
+                price: basePrice,
+                platform_fee: platformFee,
+                original_owner: originalOwnerWallet,
+                original_owner_royalty: royalty,
+                tx_hashes: { ip_mint: txHash, license_attach: licenseTermsTxHash, license_mint: licenseTxHash },
+            },
+            ip_address: req.ip,
+        });
+
         res.status(200).json({
             success: true,
             message: 'License minted! You now have rights to use this data.',
@@ -666,6 +698,16 @@ export const bulkPurchaseDerivatives = async (req: Request, res: Response) => {
 
                 await asset.save();
 
+                await recordAuditEvent({
+                    actor: buyerWallet.toLowerCase(),
+                    action: 'marketplace.derivative_purchased',
+                    target: { type: 'derivative', id: derivative.derivative_id },
+                    before: { is_minted: false },
+                    after: { is_minted: true, asset_id: assetId, ip_id: ipId, license_token_id: licenseTokenId },
+                    metadata: { price: basePrice, platform_fee: platformFee, bulk: true, tx_hashes: { ip_mint: txHash } },
+                    ip_address: req.ip,
+                });
+
                 results.push({
                     success: true,
                     derivative_id: derivative.derivative_id,
@@ -1022,6 +1064,23 @@ export const createUserDerivative = async (req: Request, res: Response) => {
             })}`
         );
 
+        await recordAuditEvent({
+            actor: creatorWallet,
+            action: 'marketplace.user_derivative_created',
+            target: { type: 'user_derivative', id: userDerivative.user_derivative_id },
+            before: null,
+            after: {
+                creator_wallet: userDerivative.creator_wallet,
+                parent_asset_id: parentAssetId,
+                child_ip_id: childIpId,
+                derivative_type: normalizedType,
+                price,
+                creator_rev_share: creatorRevShare,
+            },
+            metadata: { tx_hash: txHash, ipfs_hash: ipfsHash },
+            ip_address: req.ip,
+        });
+
         res.status(201).json({
             success: true,
             message: 'Derivative created and listed successfully!',
@@ -1148,6 +1207,15 @@ export const purchaseUserDerivative = async (req: Request, res: Response) => {
             })}`
         );
 
+        await recordAuditEvent({
+            actor: buyerWallet.toLowerCase(),
+            action: 'marketplace.user_derivative_purchased',
+            target: { type: 'user_derivative', id: userDerivativeId as string },
+            after: { asset_id: assetId, license_token_id: licenseTokenId, owner_wallet: buyerWallet.toLowerCase() },
+            metadata: { price: userDerivative.price, creator_wallet: userDerivative.creator_wallet, tx_hash: txHash },
+            ip_address: req.ip,
+        });
+
         res.status(200).json({
             success: true,
             message: 'User derivative licensed successfully!',
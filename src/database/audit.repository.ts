@@ -0,0 +1,46 @@
+import AuditEvent from '@/models/AuditEvent';
+import { AuditEventQuery, IAuditEvent } from '@/types/audit.types';
+
+export interface AuditRepository {
+  findLatestAuditEvent(): Promise<IAuditEvent | null>;
+  insertAuditEvent(event: IAuditEvent): Promise<IAuditEvent>;
+  findAuditEvents(query: AuditEventQuery, limit: number): Promise<IAuditEvent[]>;
+  streamAuditEvents(): AsyncIterable<IAuditEvent>;
+}
+
+export const findLatestAuditEvent = async (): Promise<IAuditEvent | null> => {
+  return AuditEvent.findOne().sort({ sequence: -1 }).lean<IAuditEvent>();
+};
+
+export const insertAuditEvent = async (event: IAuditEvent): Promise<IAuditEvent> => {
+  const created = await AuditEvent.create(event);
+  return created.toObject();
+};
+
+/**
+ * Newest first. limit is expected to be validated by the caller.
+ */
+export const findAuditEvents = async (query: AuditEventQuery, limit: number): Promise<IAuditEvent[]> => {
+  const filter: Record<string, any> = {};
+  if (query.actor) filter.actor = query.actor;
+  if (query.action) filter.action = query.action;
+  if (query.target_id) filter['target.id'] = query.target_id;
+  if (query.from || query.to) {
+    filter.occurred_at = {
+      ...(query.from && { $gte: query.from }),
+      ...(query.to && { $lte: query.to }),
+    };
+  }
+  if (query.before_sequence !== undefined) {
+    filter.sequence = { $lt: query.before_sequence };
+  }
+
+  return AuditEvent.find(filter).sort({ sequence: -1 }).limit(limit).lean<IAuditEvent[]>();
+};
+
+/**
+ * Every event in chain order, for verification.
+ */
+export const streamAuditEvents = (): AsyncIterable<IAuditEvent> => {
+  return AuditEvent.find().sort({ sequence: 1 }).lean<IAuditEvent[]>().cursor();
+};
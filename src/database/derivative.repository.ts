@@ -82,3 +82,22 @@ export const updateDerivativeProcessing = async (
     { new: true }
   ).lean();
 };
+
+/**
+ * Flags derivatives built from a batch as stale once late samples of its
+ * window went into a supplemental batch they do not include.
+ * @returns The number of derivatives newly flagged or extended
+ */
+export const markDerivativesStale = async (
+  reading_id: string,
+  supplemental_reading_id: string
+): Promise<number> => {
+  const result = await Derivative.updateMany(
+    { parent_data_ids: { $eq: reading_id, $ne: supplemental_reading_id } },
+    {
+      $addToSet: { 'stale.supplemental_reading_ids': supplemental_reading_id },
+      $min: { 'stale.since': new Date() }
+    }
+  );
+  return result.modifiedCount;
+};
@@ -1,3 +1,5 @@
 export * from './connection';
 export * from './user.repository';
+export * from './audit.repository';
+export * from './station-catalog.repository';
 export * from '@/types/database.types';
@@ -0,0 +1,77 @@
+import StationCatalog from '@/models/StationCatalog';
+import StationLocation from '@/models/StationLocation';
+import { IStationCatalog, IStationLocation } from '@/types/device.types';
+import { toGeoPoint } from '@/utils/geo.utils';
+
+export interface StationCatalogRepository {
+  findLatestStationCatalog(): Promise<IStationCatalog | null>;
+  findLatestStationCatalogVersion(): Promise<number | null>;
+  insertStationCatalog(catalog: IStationCatalog): Promise<IStationCatalog>;
+  syncStationLocations(catalog: IStationCatalog): Promise<void>;
+}
+
+export const findLatestStationCatalog = async (): Promise<IStationCatalog | null> => {
+  return StationCatalog.findOne().sort({ version: -1 }).lean<IStationCatalog>();
+};
+
+/**
+ * Only the version number, so callers can check for changes cheaply.
+ */
+export const findLatestStationCatalogVersion = async (): Promise<number | null> => {
+  const latest = await StationCatalog.findOne().sort({ version: -1 }).select({ version: 1 }).lean<{ version: number }>();
+  return latest?.version ?? null;
+};
+
+/**
+ * Fails with a duplicate key error when another writer already stored this version.
+ */
+export const insertStationCatalog = async (catalog: IStationCatalog): Promise<IStationCatalog> => {
+  const created = await StationCatalog.create(catalog);
+  return created.toObject();
+};
+
+/**
+ * Writes the stations of a catalog version to the station_locations index.
+ * An entry is only replaced by a newer version, so a writer that falls behind
+ * cannot bring back older stations; its upserts fail on the unique station_id.
+ */
+export const syncStationLocations = async (catalog: IStationCatalog): Promise<void> => {
+  if (await StationLocation.exists({ catalog_version: { $gte: catalog.version } })) {
+    return;
+  }
+
+  const locations: IStationLocation[] = catalog.cities.flatMap(city => city.stations.map(station => ({
+    station_id: station.station_id,
+    station_name: station.station_name,
+    city_id: city.city_id,
+    city_name: city.city_name,
+    coordinates: station.coordinates,
+    provider: station.provider,
+    available_sensors: station.available_sensors,
+    status: station.status ?? 'active',
+    location: toGeoPoint(station.coordinates),
+    catalog_version: catalog.version,
+  })));
+  if (locations.length === 0) {
+    return;
+  }
+
+  try {
+    await StationLocation.bulkWrite(
+      locations.map(location => ({
+        updateOne: {
+          filter: { station_id: location.station_id, catalog_version: { $lt: catalog.version } },
+          update: { $set: location },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  } catch (error: any) {
+    // Only duplicate keys: a newer version was written first
+    const writeErrors: Array<{ code: number }> = error.writeErrors ?? [];
+    if (writeErrors.length === 0 || writeErrors.some(writeError => writeError.code !== 11000)) {
+      throw error;
+    }
+  }
+};
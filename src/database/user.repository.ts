@@ -1,9 +1,13 @@
 import User, { IUser } from '@/models/User';
+import { QuotaTier, RoleChange, TierChange, UserRole } from '@/types/user.types';
 
 export interface UserRepository {
   findUserByWalletId(walletAddress: string): Promise<IUser | null>;
   createUser(walletAddress: string): Promise<IUser>;
   findOrCreateUser(walletAddress: string): Promise<IUser>;
+  listUsers(role?: UserRole): Promise<IUser[]>;
+  updateUserRoles(walletAddress: string, roles: UserRole[], change: RoleChange): Promise<IUser | null>;
+  updateUserTier(walletAddress: string, tier: QuotaTier, change: TierChange): Promise<IUser | null>;
 }
 
 export const findUserByWalletId = async (walletAddress: string): Promise<IUser | null> => {
@@ -32,3 +36,38 @@ export const findOrCreateUser = async (walletAddress: string): Promise<IUser> =>
     throw error;
   }
 };
+
+export const listUsers = async (role?: UserRole): Promise<IUser[]> => {
+  const filter = role ? { roles: role } : {};
+  return User.find(filter).sort({ createdAt: -1 }).lean();
+};
+
+/**
+ * Replaces a user's roles and appends the change to role_history in one write.
+ */
+export const updateUserRoles = async (
+  walletAddress: string,
+  roles: UserRole[],
+  change: RoleChange
+): Promise<IUser | null> => {
+  return User.findOneAndUpdate(
+    { walletAddress: walletAddress.toLowerCase() },
+    { $set: { roles }, $push: { role_history: change } },
+    { new: true }
+  ).lean();
+};
+
+/**
+ * Sets a user's quota tier and appends the change to tier_history in one write.
+ */
+export const updateUserTier = async (
+  walletAddress: string,
+  tier: QuotaTier,
+  change: TierChange
+): Promise<IUser | null> => {
+  return User.findOneAndUpdate(
+    { walletAddress: walletAddress.toLowerCase() },
+    { $set: { quota_tier: tier }, $push: { tier_history: change } },
+    { new: true }
+  ).lean();
+};
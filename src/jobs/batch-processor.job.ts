@@ -1,12 +1,15 @@
 import cron from 'node-cron';
 import AQIReading from '@/models/AQIReading';
 import { BatchProcessingResult } from '@/types/aqi-reading.types';
+import { recordAuditEvent } from '@/services/audit.service';
+import { computeContentHash } from '@/utils/hash.utils';
 import { logger } from '@/utils/logger';
 import { CRON_CONFIG } from '@/config/constants';
 
 /**
  * Process pending batches that are past their batch window end time
- * This function is called by the cron job every hour
+ * This function is called by the cron job every few minutes, so even the
+ * shortest batch windows close soon after they end
  */
 export async function processPendingBatches(): Promise<BatchProcessingResult> {
   const startTime = Date.now();
@@ -47,6 +50,20 @@ export async function processPendingBatches(): Promise<BatchProcessingResult> {
         await reading.save();
         result.processed_count++;
 
+        // The batch can no longer change: record a hash of its contents, not the samples
+        await recordAuditEvent({
+          actor: 'system',
+          actor_type: 'system',
+          action: 'reading.batch_closed',
+          target: { type: 'reading', id: reading.reading_id },
+          after: {
+            device_id: reading.device_id,
+            ingestion_count: reading.meta.ingestion_count,
+            data_points_count: reading.meta.data_points_count,
+            content_hash: computeContentHash({ sensor_data: reading.sensor_data, sample_meta: reading.sample_meta }),
+          },
+        });
+
         logger.info(`Picked reading ${reading.reading_id} for processing`, {
           device_id: reading.device_id,
           window: reading.batch_window,
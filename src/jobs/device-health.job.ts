@@ -0,0 +1,102 @@
+import cron from 'node-cron';
+import Device from '@/models/Device';
+import { IDevice } from '@/types/device.types';
+import { evaluateDeviceHealth } from '@/services/device-health.service';
+import { logger } from '@/utils/logger';
+import { CRON_CONFIG } from '@/config/constants';
+
+export interface DeviceHealthJobResult {
+  checked_count: number;
+  online_count: number;
+  offline_count: number;
+  degraded_count: number;
+  changed_count: number;
+  processing_time_ms: number;
+}
+
+const NOTIFY_EVENTS = {
+  offline: 'DEVICE_OFFLINE',
+  degraded: 'DEVICE_DEGRADED',
+  online: 'DEVICE_RECOVERED',
+} as const;
+
+/**
+ * Re-evaluates the health of every active device and stores changes.
+ * Transitions to offline or degraded, and recoveries from them, are sent as notify events.
+ */
+export async function checkDeviceHealth(now: Date = new Date()): Promise<DeviceHealthJobResult> {
+  const startTime = Date.now();
+  const result: DeviceHealthJobResult = {
+    checked_count: 0,
+    online_count: 0,
+    offline_count: 0,
+    degraded_count: 0,
+    changed_count: 0,
+    processing_time_ms: 0
+  };
+
+  const devices = await Device.find({ status: 'active' }).lean<IDevice[]>();
+
+  for (const device of devices) {
+    result.checked_count++;
+    const { health, missing_sensors } = evaluateDeviceHealth(device, now);
+    result[`${health}_count`]++;
+
+    const previousMissing = device.missing_sensors || [];
+    const unchanged = device.health === health &&
+      previousMissing.length === missing_sensors.length &&
+      missing_sensors.every(sensor_type => previousMissing.includes(sensor_type));
+    if (unchanged) {
+      continue;
+    }
+
+    await Device.updateOne(
+      { device_id: device.device_id },
+      { $set: { health, health_changed_at: now, missing_sensors } }
+    );
+    result.changed_count++;
+
+    // First check of a healthy device is not news
+    if (health === 'online' && !device.health) {
+      continue;
+    }
+    logger.notify(`Device ${device.device_id} is ${health}`, {
+      event: NOTIFY_EVENTS[health],
+      device_id: device.device_id,
+      owner_id: device.owner_id,
+      previous_health: device.health,
+      last_seen_at: device.last_seen_at,
+      missing_sensors
+    });
+  }
+
+  result.processing_time_ms = Date.now() - startTime;
+  logger.info('Device health check completed', {
+    checked: result.checked_count,
+    offline: result.offline_count,
+    degraded: result.degraded_count,
+    changed: result.changed_count
+  });
+
+  return result;
+}
+
+/**
+ * Start the device health cron job
+ * Schedule is configurable via CRON_DEVICE_HEALTH env variable
+ */
+export function startDeviceHealthJob(): void {
+  const schedule = CRON_CONFIG.DEVICE_HEALTH;
+
+  cron.schedule(schedule, async () => {
+    try {
+      await checkDeviceHealth();
+    } catch (error) {
+      logger.error('Device health cron job failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  logger.info(`Device health cron job scheduled: ${schedule}`);
+}
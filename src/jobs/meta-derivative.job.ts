@@ -2,6 +2,7 @@ import cron from 'node-cron';
 import { logger } from '../utils/logger';
 import * as DerivativeRepository from '../database/derivative.repository';
 import * as llmService from '../services/llm.service';
+import { getDerivativeStaleness, getMinParentQualityScore } from '../services/derivative.service';
 import AQIReading from '../models/AQIReading';
 import { Derivative } from '../models/Derivative';
 import { IDerivative } from '../types/derivative.types';
@@ -145,11 +146,15 @@ Focus on storytelling with data - make the report both informative and engaging.
     // 8. Create the META derivative
     const childDerivativeIds = dailyDerivatives.map(d => d.derivative_id);
     const parentDataIds = [...new Set(dailyDerivatives.flatMap(d => d.parent_data_ids))];
+    const stale = await getDerivativeStaleness(parentDataIds);
+    const minQualityScore = await getMinParentQualityScore(parentDataIds);
 
     const metaDerivative = await DerivativeRepository.createDerivative({
         type: 'MONTHLY',
         content: llmResult.content,
         parent_data_ids: parentDataIds,
+        ...(stale && { stale }),
+        ...(minQualityScore !== undefined && { min_parent_quality_score: minQualityScore }),
         child_derivative_ids: childDerivativeIds,
         llm_metadata: {
             provider: LLM_CONFIG.PROVIDER,
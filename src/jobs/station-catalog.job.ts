@@ -0,0 +1,26 @@
+import cron from 'node-cron';
+import { getCatalogVersion, refreshConfig } from '@/services/config.service';
+import { logger } from '@/utils/logger';
+import { CRON_CONFIG } from '@/config/constants';
+
+/**
+ * Keeps the station catalog of this instance in step with changes that
+ * admins made through other instances.
+ */
+export function startStationCatalogRefreshJob(): void {
+  const schedule = CRON_CONFIG.STATION_CATALOG_REFRESH;
+
+  cron.schedule(schedule, async () => {
+    try {
+      if (await refreshConfig()) {
+        logger.info(`Station catalog reloaded (version ${getCatalogVersion()})`);
+      }
+    } catch (error) {
+      logger.error('Station catalog refresh failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  logger.info(`Station catalog refresh cron job scheduled: ${schedule}`);
+}
@@ -1,6 +1,7 @@
 import cron from 'node-cron';
 import AQIReading from '@/models/AQIReading';
 import { verifyAQIReading } from '@/services/verification.service';
+import { assessReadingQuality } from '@/services/quality.service';
 import { logger } from '@/utils/logger';
 import { CRON_CONFIG } from '@/config/constants';
 
@@ -78,6 +79,9 @@ export async function processVerificationQueue(): Promise<VerificationJobResult>
           batch_window: reading.batch_window
         });
 
+        // QA flags and score are published with the batch, so they are assessed first
+        reading.quality = await assessReadingQuality(reading);
+
         // Verify the reading (generate merkle root, content hash, pin to IPFS)
         const verificationResult = await verifyAQIReading(reading);
 
@@ -86,6 +90,7 @@ export async function processVerificationQueue(): Promise<VerificationJobResult>
           reading.processing = {
             ...reading.processing,
             merkle_root: verificationResult.merkle_root!,
+            merkle_leaf_version: verificationResult.merkle_leaf_version,
             content_hash: verificationResult.content_hash!,
             ipfs_uri: verificationResult.ipfs_uri!,
             ipfs_hash: verificationResult.ipfs_hash!,
@@ -99,7 +104,8 @@ export async function processVerificationQueue(): Promise<VerificationJobResult>
 
           logger.info(`Successfully verified reading ${reading.reading_id}`, {
             merkle_root: verificationResult.merkle_root?.substring(0, 16) + '...',
-            ipfs_hash: verificationResult.ipfs_hash
+            ipfs_hash: verificationResult.ipfs_hash,
+            quality_score: reading.quality.score
           });
 
           logger.debug(`[VERIFIER] Verification successful`, {
@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
-import { validateSession } from '@/services/auth.service';
+import { validateSession, touchSession } from '@/services/auth.service';
+import { authenticateDeviceKey } from '@/services/device-credential.service';
+import { UserRole } from '@/types/user.types';
+import { DEVICE_CREDENTIAL_CONFIG, RBAC_CONFIG } from '@/config/constants';
 import { logger } from '@/utils/logger';
 
 export const authenticate = async (
@@ -34,8 +37,14 @@ export const authenticate = async (
     req.user = {
       walletAddress: validation.payload!.walletAddress,
       jti: validation.payload!.jti,
+      token_family: validation.payload!.token_family,
+      roles: validation.payload!.roles || [...RBAC_CONFIG.DEFAULT_ROLES],
     };
 
+    if (req.user.token_family) {
+      await touchSession(req.user.token_family, req.ip);
+    }
+
     next();
   } catch (error) {
     logger.error('Authentication error:', error);
@@ -46,5 +55,73 @@ export const authenticate = async (
   }
 };
 
+/**
+ * Accepts a device API key (X-Device-Key header) and falls back to the
+ * owner's bearer token when no key is sent.
+ */
+export const authenticateDeviceOrUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const apiKey = req.get(DEVICE_CREDENTIAL_CONFIG.HEADER);
+
+  if (!apiKey) {
+    return authenticate(req, res, next);
+  }
+
+  try {
+    const device = await authenticateDeviceKey(apiKey);
+
+    if (!device) {
+      res.status(401).json({
+        success: false,
+        error: { code: 'INVALID_DEVICE_KEY', message: 'Invalid, expired or revoked device key' },
+      });
+      return;
+    }
+
+    req.device = device;
+    next();
+  } catch (error) {
+    logger.error('Device authentication error:', error);
+    res.status(401).json({
+      success: false,
+      error: { message: 'Authentication failed' },
+    });
+  }
+};
+
+/**
+ * Lets the request through only if the access token carries at least one of
+ * the given roles. Must run after authenticate.
+ */
+export const requireRole = (...roles: UserRole[]) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: { message: 'Unauthorized' },
+    });
+    return;
+  }
+
+  if (!roles.some(role => req.user!.roles.includes(role))) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: `Requires one of the roles: ${roles.join(', ')}`,
+      },
+    });
+    return;
+  }
+
+  next();
+};
+
 // Alias for better naming convention in routes
 export const protect = authenticate;
\ No newline at end of file
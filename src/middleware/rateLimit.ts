@@ -0,0 +1,73 @@
+import { Request, Response, NextFunction } from 'express';
+import { hitRateLimit } from '@/redis/rate-limit.repository';
+import { RATE_LIMIT_CONFIG } from '@/config/constants';
+import { logger } from '@/utils/logger';
+
+export type RateLimitKey = 'ip' | 'wallet' | 'device' | ((req: Request) => string | undefined);
+
+export interface RateLimitOptions {
+  name: string;             // Bucket name, e.g. 'login'
+  limit: number;            // Requests allowed per window
+  windowSeconds: number;
+  keyBy: RateLimitKey;      // Falls back to the client IP when the key cannot be resolved
+  enabled?: boolean;        // Defaults to RATE_LIMIT_CONFIG.ENABLED
+}
+
+/**
+ * Keys come from the authenticated identity only, never from the request body.
+ * 'device' is the device of the API key, or the wallet for bearer token callers.
+ */
+const resolveKey = (req: Request, keyBy: RateLimitKey): string => {
+  let key: string | undefined;
+  if (typeof keyBy === 'function') {
+    key = keyBy(req);
+  } else if (keyBy === 'wallet') {
+    key = req.user?.walletAddress;
+  } else if (keyBy === 'device') {
+    key = req.device?.device_id ?? req.user?.walletAddress;
+  }
+  return key ?? `ip:${req.ip}`;
+};
+
+/**
+ * Sliding-window rate limiter backed by Redis. Sets RateLimit-* headers on
+ * every response and answers 429 with Retry-After once the limit is reached.
+ * If Redis is unavailable the request is let through.
+ */
+export const rateLimit = (options: RateLimitOptions) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!(options.enabled ?? RATE_LIMIT_CONFIG.ENABLED)) {
+    return next();
+  }
+
+  const bucket = `${options.name}:${resolveKey(req, options.keyBy)}`;
+  const result = await hitRateLimit(bucket, options.limit, options.windowSeconds);
+
+  if (!result.success || !result.data) {
+    logger.warn(`Rate limiter unavailable for ${options.name}, allowing request`, { error: result.error });
+    return next();
+  }
+
+  const { allowed, limit, remaining, reset_at, retry_after_seconds } = result.data;
+  res.setHeader('RateLimit-Limit', limit);
+  res.setHeader('RateLimit-Remaining', remaining);
+  res.setHeader('RateLimit-Reset', Math.max(0, Math.ceil((reset_at - Date.now()) / 1000)));
+
+  if (!allowed) {
+    res.setHeader('Retry-After', retry_after_seconds);
+    res.status(429).json({
+      success: false,
+      error: {
+        code: 'RATE_LIMITED',
+        message: `Too many requests, retry in ${retry_after_seconds}s`,
+        retry_after: retry_after_seconds,
+      },
+    });
+    return;
+  }
+
+  next();
+};
@@ -4,7 +4,8 @@ import { IAQIReading, ReadingStatus } from '@/types/aqi-reading.types';
 const batchWindowSchema = new Schema({
   start: { type: Date, required: true },
   end: { type: Date, required: true },
-  hour_index: { type: Number, required: true, min: 0, max: 23 }
+  hour_index: { type: Number, required: true, min: 0, max: 23 },
+  duration_minutes: { type: Number }
 }, { _id: false });
 
 const locationMetaSchema = new Schema({
@@ -22,7 +23,16 @@ const metaSchema = new Schema({
   location: { type: locationMetaSchema, required: true },
   ingestion_count: { type: Number, default: 1 },
   last_ingestion: { type: Date, required: true },
-  data_points_count: { type: Object }
+  data_points_count: { type: Object },
+  device_revisions: { type: [Number], default: undefined },
+  calibration_versions: { type: [Number], default: undefined }
+}, { _id: false });
+
+const idempotencyRecordSchema = new Schema({
+  key: { type: String, required: true },
+  request_hash: { type: String, required: true },
+  ingestion_count: { type: Number, required: true },
+  received_at: { type: Date, required: true }
 }, { _id: false });
 
 const processingSchema = new Schema({
@@ -31,6 +41,7 @@ const processingSchema = new Schema({
   processed_at: { type: Date },
   merkle_root: { type: String },
   content_hash: { type: String },
+  merkle_leaf_version: { type: Number },
   ipfs_uri: { type: String },
   ipfs_hash: { type: String },
   verified_at: { type: Date },
@@ -44,6 +55,37 @@ const processingSchema = new Schema({
   failed_at: { type: Date }
 }, { _id: false });
 
+const supplementLinkSchema = new Schema({
+  primary_reading_id: { type: String, required: true },
+  sequence: { type: Number, required: true, min: 1 }
+}, { _id: false });
+
+const qualityFlagSchema = new Schema({
+  check: { type: String, enum: ['spike', 'flatline', 'low_sample_count', 'inconsistent_pair'], required: true },
+  sensor_type: { type: String, required: true },
+  indices: { type: [Number], default: undefined },
+  related_sensor: { type: String },
+  detail: { type: String, required: true }
+}, { _id: false });
+
+const qualitySchema = new Schema({
+  score: { type: Number, required: true, min: 0, max: 100 },
+  flags: { type: [qualityFlagSchema], default: [] },
+  version: { type: Number, required: true },
+  assessed_at: { type: Date, required: true }
+}, { _id: false });
+
+const signatureSchema = new Schema({
+  timestamp: { type: Number, required: true },
+  nonce: { type: String, required: true },
+  sensor_data: { type: Object, required: true },
+  units: { type: Object },
+  signature: { type: String, required: true },
+  algorithm: { type: String, enum: ['ed25519', 'secp256k1'], required: true },
+  public_key: { type: String, required: true },
+  received_at: { type: Date, default: Date.now }
+}, { _id: false });
+
 const aqiReadingSchema = new Schema<IAQIReading & Document>({
   reading_id: {
     type: String,
@@ -71,6 +113,12 @@ const aqiReadingSchema = new Schema<IAQIReading & Document>({
     type: Object,
     required: true
   },
+  corrected_data: {
+    type: Object
+  },
+  sample_meta: {
+    type: Object
+  },
   meta: {
     type: metaSchema,
     required: true
@@ -84,6 +132,24 @@ const aqiReadingSchema = new Schema<IAQIReading & Document>({
   processing: {
     type: processingSchema,
     default: {}
+  },
+  quality: {
+    type: qualitySchema
+  },
+  signatures: {
+    type: [signatureSchema],
+    default: []
+  },
+  idempotency_keys: {
+    type: [idempotencyRecordSchema],
+    default: undefined
+  },
+  supplement: {
+    type: supplementLinkSchema
+  },
+  supplemental_reading_ids: {
+    type: [String],
+    default: undefined
   }
 }, {
   timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
@@ -95,6 +161,7 @@ aqiReadingSchema.index({ device_id: 1, status: 1 });
 aqiReadingSchema.index({ owner_id: 1, status: 1 });
 aqiReadingSchema.index({ status: 1, 'batch_window.end': 1 });
 aqiReadingSchema.index({ 'batch_window.start': 1, 'batch_window.end': 1 });
+aqiReadingSchema.index({ 'quality.score': 1 });
 
 const AQIReading = model<IAQIReading & Document>('AQIReading', aqiReadingSchema);
 
@@ -0,0 +1,90 @@
+import { Schema, model, Document } from 'mongoose';
+import { IAuditEvent } from '@/types/audit.types';
+
+const auditEventSchema = new Schema<IAuditEvent & Document>({
+  sequence: {
+    type: Number,
+    required: true,
+    unique: true
+  },
+  actor: {
+    type: String,
+    required: true,
+    index: true
+  },
+  actor_type: {
+    type: String,
+    enum: ['user', 'device', 'system'],
+    required: true
+  },
+  action: {
+    type: String,
+    required: true,
+    index: true
+  },
+  target: {
+    type: {
+      type: String,
+      required: true
+    },
+    id: {
+      type: String,
+      required: true
+    }
+  },
+  before: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  after: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  metadata: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  ip_address: {
+    type: String
+  },
+  occurred_at: {
+    type: Date,
+    required: true,
+    index: true
+  },
+  prev_hash: {
+    type: String,
+    required: true
+  },
+  hash: {
+    type: String,
+    required: true,
+    unique: true
+  }
+}, {
+  // Mongoose would otherwise drop empty before/after/metadata objects and change the hashed content
+  minimize: false
+});
+
+auditEventSchema.index({ actor: 1, occurred_at: -1 });
+auditEventSchema.index({ action: 1, occurred_at: -1 });
+auditEventSchema.index({ 'target.id': 1, occurred_at: -1 });
+
+// The log is append-only: refuse every update and delete issued through the model
+const rejectMutation = () => {
+  throw new Error('AUDIT_LOG_APPEND_ONLY');
+};
+
+auditEventSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  rejectMutation
+);
+auditEventSchema.pre('save', function () {
+  if (!this.isNew) {
+    rejectMutation();
+  }
+});
+
+const AuditEvent = model<IAuditEvent & Document>('AuditEvent', auditEventSchema);
+
+export default AuditEvent;
@@ -0,0 +1,43 @@
+import { Schema, model, Document } from 'mongoose';
+import { ICalibrationProfile } from '@/types/device.types';
+
+const calibrationProfileSchema = new Schema<ICalibrationProfile & Document>({
+  device_id: {
+    type: String,
+    required: true,
+    ref: 'Device'
+  },
+  version: {
+    type: Number,
+    required: true
+  },
+  // Keyed by sensor type, which may contain dots (PM2.5), so kept as a plain object
+  sensors: {
+    type: Object,
+    default: {}
+  },
+  reference_station_id: {
+    type: String
+  },
+  note: {
+    type: String
+  },
+  created_by: {
+    type: String,
+    required: true
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  collection: 'device_calibration_profiles',
+  minimize: false
+});
+
+// One document per version; the unique index turns concurrent writes of the same version into a conflict
+calibrationProfileSchema.index({ device_id: 1, version: -1 }, { unique: true });
+
+const CalibrationProfile = model<ICalibrationProfile & Document>('CalibrationProfile', calibrationProfileSchema);
+
+export default CalibrationProfile;
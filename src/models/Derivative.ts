@@ -37,6 +37,11 @@ const llmMetadataSchema = new Schema<LLMMetadata>({
 }, { _id: false });
 
 
+const stalenessSchema = new Schema({
+  since: { type: Date, required: true },
+  supplemental_reading_ids: { type: [String], default: [] },
+}, { _id: false });
+
 const derivativeSchema = new Schema<IDerivative & Document>({
   derivative_id: {
     type: String,
@@ -76,6 +81,13 @@ const derivativeSchema = new Schema<IDerivative & Document>({
   llm_metadata: {
     type: llmMetadataSchema,
   },
+  stale: {
+    type: stalenessSchema,
+  },
+  min_parent_quality_score: {
+    type: Number,
+    index: true,
+  },
   ip_id: {
     type: String,
     index: true,
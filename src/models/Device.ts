@@ -13,6 +13,39 @@ const sensorMetaSchema = new Schema<SensorMeta>({
   sensor_types: [{ type: String, required: true }]
 }, { _id: false });
 
+const signingKeySchema = new Schema({
+  algorithm: { type: String, enum: ['ed25519', 'secp256k1'], required: true },
+  public_key: { type: String, required: true },
+  registered_at: { type: Date, default: Date.now }
+}, { _id: false });
+
+const pendingTransferSchema = new Schema({
+  to_owner: { type: String, required: true, lowercase: true },
+  initiated_at: { type: Date, required: true },
+  expires_at: { type: Date, required: true }
+}, { _id: false });
+
+const deviceChangeSchema = new Schema({
+  revision: { type: Number, required: true },
+  action: {
+    type: String,
+    enum: [
+      'registered',
+      'updated',
+      'signing_key_updated',
+      'decommissioned',
+      'transfer_initiated',
+      'transfer_cancelled',
+      'ownership_transferred'
+    ],
+    required: true
+  },
+  changes: { type: Object, default: {} },
+  changed_by: { type: String, required: true },
+  changed_at: { type: Date, default: Date.now },
+  reason: { type: String }
+}, { _id: false });
+
 const deviceSchema = new Schema<IDevice & Document>({
   device_id: {
     type: String,
@@ -32,13 +65,71 @@ const deviceSchema = new Schema<IDevice & Document>({
   },
   status: {
     type: String,
-    enum: ['active', 'inactive'],
+    enum: ['active', 'inactive', 'decommissioned'],
     default: 'active'
   },
+  signing_key: {
+    type: signingKeySchema
+  },
+  revision: {
+    type: Number
+  },
+  change_history: {
+    type: [deviceChangeSchema],
+    default: []
+  },
   registered_at: {
     type: Date,
     default: Date.now
   },
+  decommissioned_at: {
+    type: Date
+  },
+  last_seen_at: {
+    type: Date
+  },
+  last_ingestion_at: {
+    type: Date
+  },
+  sensor_last_seen: {
+    type: Object
+  },
+  health: {
+    type: String,
+    enum: ['online', 'offline', 'degraded']
+  },
+  health_changed_at: {
+    type: Date
+  },
+  missing_sensors: {
+    type: [String],
+    default: undefined
+  },
+  pending_transfer: {
+    type: pendingTransferSchema
+  },
+  ownership_epoch: {
+    type: Number
+  },
+  owner_since: {
+    type: Date
+  },
+  backfill_window_seconds: {
+    type: Number
+  },
+  batch_window_minutes: {
+    type: Number
+  },
+  location: {
+    type: {
+      type: String,
+      enum: ['Point']
+    },
+    coordinates: {
+      type: [Number],
+      default: undefined
+    }
+  },
   last_updated: {
     type: Date,
     default: Date.now
@@ -51,6 +142,8 @@ const deviceSchema = new Schema<IDevice & Document>({
 deviceSchema.index({ owner_id: 1, status: 1 });
 deviceSchema.index({ 'sensor_meta.city_id': 1 });
 deviceSchema.index({ 'sensor_meta.station_id': 1 });
+deviceSchema.index({ 'pending_transfer.to_owner': 1 });
+deviceSchema.index({ location: '2dsphere' });
 
 const Device = model<IDevice & Document>('Device', deviceSchema);
 
@@ -0,0 +1,50 @@
+import { Schema, model, Document } from 'mongoose';
+import { IDeviceCredential } from '@/types/device.types';
+
+const deviceCredentialSchema = new Schema<IDeviceCredential & Document>({
+  key_id: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  device_id: {
+    type: String,
+    required: true,
+    ref: 'Device',
+    index: true
+  },
+  key_hash: {
+    type: String,
+    required: true
+  },
+  created_by: {
+    type: String,
+    required: true
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  },
+  last_used_at: {
+    type: Date
+  },
+  expires_at: {
+    type: Date
+  },
+  revoked_at: {
+    type: Date
+  },
+  revoked_reason: {
+    type: String,
+    enum: ['rotated', 'revoked', 'device_deleted', 'device_decommissioned', 'device_transferred']
+  }
+}, {
+  timestamps: true
+});
+
+deviceCredentialSchema.index({ device_id: 1, revoked_at: 1 });
+
+const DeviceCredential = model<IDeviceCredential & Document>('DeviceCredential', deviceCredentialSchema);
+
+export default DeviceCredential;
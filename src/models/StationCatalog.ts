@@ -0,0 +1,79 @@
+import { Schema, model, Document } from 'mongoose';
+import { IStationCatalog } from '@/types/device.types';
+
+const sensorInfoSchema = new Schema({
+  sensor_type: { type: String, required: true },
+  unit: { type: String, required: true },
+  description: { type: String, required: true }
+}, { _id: false });
+
+const sensorDefinitionSchema = new Schema({
+  sensor_type: { type: String, required: true },
+  unit: { type: String, required: true },
+  min: { type: Number, required: true },
+  max: { type: Number, required: true },
+  molar_mass: { type: Number }
+}, { _id: false });
+
+const stationSchema = new Schema({
+  station_id: { type: String, required: true },
+  station_name: { type: String, required: true },
+  coordinates: {
+    latitude: { type: Number, required: true },
+    longitude: { type: Number, required: true }
+  },
+  owner: { type: String },
+  provider: { type: String },
+  available_sensors: { type: [sensorInfoSchema], default: [] },
+  batch_window_minutes: { type: Number },
+  status: { type: String, enum: ['active', 'retired'], default: 'active' },
+  retired_at: { type: String }
+}, { _id: false });
+
+const citySchema = new Schema({
+  city_id: { type: String, required: true },
+  city_name: { type: String, required: true },
+  country: { type: String, required: true },
+  stations: { type: [stationSchema], default: [] }
+}, { _id: false });
+
+const stationCatalogSchema = new Schema<IStationCatalog & Document>({
+  version: {
+    type: Number,
+    required: true,
+    unique: true
+  },
+  sensors: {
+    type: [sensorDefinitionSchema],
+    default: undefined
+  },
+  cities: {
+    type: [citySchema],
+    default: []
+  },
+  action: {
+    type: String,
+    enum: ['seeded', 'station_created', 'station_updated', 'station_retired'],
+    required: true
+  },
+  station_id: {
+    type: String
+  },
+  changed_by: {
+    type: String,
+    required: true
+  },
+  reason: {
+    type: String
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  collection: 'station_catalog'
+});
+
+const StationCatalog = model<IStationCatalog & Document>('StationCatalog', stationCatalogSchema);
+
+export default StationCatalog;
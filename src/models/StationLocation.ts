@@ -0,0 +1,68 @@
+import { Schema, model, Document } from 'mongoose';
+import { IStationLocation } from '@/types/device.types';
+
+const sensorInfoSchema = new Schema({
+  sensor_type: { type: String, required: true },
+  unit: { type: String, required: true },
+  description: { type: String, required: true }
+}, { _id: false });
+
+const stationLocationSchema = new Schema<IStationLocation & Document>({
+  station_id: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  station_name: {
+    type: String,
+    required: true
+  },
+  city_id: {
+    type: String,
+    required: true
+  },
+  city_name: {
+    type: String,
+    required: true
+  },
+  coordinates: {
+    latitude: { type: Number, required: true },
+    longitude: { type: Number, required: true }
+  },
+  provider: {
+    type: String
+  },
+  available_sensors: {
+    type: [sensorInfoSchema],
+    default: []
+  },
+  status: {
+    type: String,
+    enum: ['active', 'retired'],
+    required: true
+  },
+  location: {
+    type: {
+      type: String,
+      enum: ['Point'],
+      required: true
+    },
+    coordinates: {
+      type: [Number],
+      required: true
+    }
+  },
+  catalog_version: {
+    type: Number,
+    required: true,
+    index: true
+  }
+}, {
+  collection: 'station_locations'
+});
+
+stationLocationSchema.index({ location: '2dsphere' });
+
+const StationLocation = model<IStationLocation & Document>('StationLocation', stationLocationSchema);
+
+export default StationLocation;
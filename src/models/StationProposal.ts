@@ -0,0 +1,69 @@
+import { Schema, model, Document } from 'mongoose';
+import { IStationProposal } from '@/types/device.types';
+
+const proposedStationSchema = new Schema({
+  city_id: { type: String, required: true },
+  city_name: { type: String },
+  country: { type: String },
+  station_id: { type: String, required: true },
+  station_name: { type: String, required: true },
+  coordinates: {
+    latitude: { type: Number, required: true },
+    longitude: { type: Number, required: true }
+  },
+  owner: { type: String },
+  provider: { type: String },
+  available_sensors: [{
+    _id: false,
+    sensor_type: { type: String, required: true },
+    unit: { type: String, required: true },
+    description: { type: String, required: true }
+  }]
+}, { _id: false });
+
+const stationProposalSchema = new Schema<IStationProposal & Document>({
+  proposal_id: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  proposed_by: {
+    type: String,
+    required: true,
+    lowercase: true,
+    index: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'approved', 'merged', 'rejected'],
+    default: 'pending',
+    index: true
+  },
+  station: {
+    type: proposedStationSchema,
+    required: true
+  },
+  note: {
+    type: String
+  },
+  reviewed_by: {
+    type: String
+  },
+  reviewed_at: {
+    type: Date
+  },
+  review_note: {
+    type: String
+  },
+  station_id: {
+    type: String
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const StationProposal = model<IStationProposal & Document>('StationProposal', stationProposalSchema);
+
+export default StationProposal;
@@ -1,13 +1,35 @@
 import { Schema, model, Document } from 'mongoose';
+import { QuotaTier, RoleChange, TierChange, UserRole } from '@/types/user.types';
+import { QUOTA_CONFIG, RBAC_CONFIG } from '@/config/constants';
 
 export interface IUser extends Document {
   walletAddress: string;
   devices: string[];
   assets: string[]; // Array of asset_ids owned by the user
+  roles: UserRole[];
+  role_history: RoleChange[]; // Append-only record of role changes
+  quota_tier: QuotaTier;
+  tier_history: TierChange[]; // Append-only record of tier changes
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+const roleChangeSchema = new Schema<RoleChange>({
+  roles: [{ type: String, enum: RBAC_CONFIG.ROLES, required: true }],
+  previous_roles: [{ type: String, enum: RBAC_CONFIG.ROLES }],
+  changed_by: { type: String, required: true },
+  changed_at: { type: Date, default: Date.now },
+  reason: { type: String },
+}, { _id: false });
+
+const tierChangeSchema = new Schema<TierChange>({
+  tier: { type: String, enum: QUOTA_CONFIG.TIERS, required: true },
+  previous_tier: { type: String, enum: QUOTA_CONFIG.TIERS, required: true },
+  changed_by: { type: String, required: true },
+  changed_at: { type: Date, default: Date.now },
+  reason: { type: String },
+}, { _id: false });
+
 const userSchema = new Schema<IUser>({
   walletAddress: {
     type: String,
@@ -28,6 +50,24 @@ const userSchema = new Schema<IUser>({
     type: [String],
     default: [],
   },
+  roles: {
+    type: [{ type: String, enum: RBAC_CONFIG.ROLES }],
+    default: () => [...RBAC_CONFIG.DEFAULT_ROLES],
+    index: true,
+  },
+  role_history: {
+    type: [roleChangeSchema],
+    default: [],
+  },
+  quota_tier: {
+    type: String,
+    enum: QUOTA_CONFIG.TIERS,
+    default: QUOTA_CONFIG.DEFAULT_TIER,
+  },
+  tier_history: {
+    type: [tierChangeSchema],
+    default: [],
+  },
 }, {
   timestamps: true,
 });
@@ -10,8 +10,8 @@ export interface BlacklistRepository {
 
 export const addToBlacklist = async (jti: string, data: RedisBlacklistedToken): Promise<RedisOperationResult> => {
   const key = `${TOKEN_CONFIG.REDIS_KEY_PREFIX.BLACKLIST}:${jti}:revoked`;
-  const ttl = Math.floor((data.revoked_at - Date.now()) / 1000);
-  return redisClient.set(key, data, ttl > 0 ? ttl : 1);
+  // Must outlive the longest possible access token, otherwise the token becomes usable again
+  return redisClient.set(key, data, TOKEN_CONFIG.ACCESS_TOKEN_EXPIRY_SECONDS);
 };
 
 export const isBlacklisted = async (jti: string): Promise<RedisOperationResult<boolean>> => {
@@ -1,6 +1,6 @@
 import { Redis } from 'ioredis';
 import { getRedisClient } from '@/database/redis.connection';
-import { RedisOperationResult, RedisError } from '@/types/redis.types';
+import { RedisOperationResult, RedisError, RedisSlidingWindowState } from '@/types/redis.types';
 
 export class RedisClient {
   private static instance: RedisClient;
@@ -77,6 +77,20 @@ export class RedisClient {
     }
   }
 
+  /**
+   * SET NX with a TTL. Data is true when this call created the key.
+   */
+  async setIfNotExists<T>(key: string, value: T, ttl: number): Promise<RedisOperationResult<boolean>> {
+    try {
+      const client = this.getClient();
+      const result = await client.set(key, JSON.stringify(value), 'EX', ttl, 'NX');
+      return { success: true, data: result === 'OK' };
+    } catch (e: any) {
+      const error: RedisError = { code: 'SETNX_FAILED', message: e.message };
+      return { success: false, error };
+    }
+  }
+
   async setWithExpiry<T>(key: string, value: T, ttl: number): Promise<RedisOperationResult<void>> {
     return this.set(key, value, ttl);
   }
@@ -122,6 +136,55 @@ export class RedisClient {
     }
   }
 
+  /**
+   * Adds a member to a sorted-set sliding window scored by time (ms), drops
+   * entries older than the window and returns the resulting size, atomically.
+   */
+  async addToSlidingWindow(
+    key: string,
+    member: string,
+    now: number,
+    windowMs: number
+  ): Promise<RedisOperationResult<RedisSlidingWindowState>> {
+    try {
+      const client = this.getClient();
+      const results = await client
+        .multi()
+        .zremrangebyscore(key, 0, now - windowMs)
+        .zadd(key, now, member)
+        .zcard(key)
+        .zrange(key, 0, 0, 'WITHSCORES')
+        .pexpire(key, windowMs)
+        .exec();
+
+      if (!results) {
+        throw new Error('Transaction aborted');
+      }
+      const failed = results.find(([err]) => err);
+      if (failed) {
+        throw failed[0];
+      }
+
+      const count = results[2][1] as number;
+      const oldest = results[3][1] as string[];
+      return { success: true, data: { count, oldest: oldest.length ? Number(oldest[1]) : now } };
+    } catch (e: any) {
+      const error: RedisError = { code: 'SLIDING_WINDOW_FAILED', message: e.message };
+      return { success: false, error };
+    }
+  }
+
+  async removeFromSortedSet(key: string, member: string): Promise<RedisOperationResult<boolean>> {
+    try {
+      const client = this.getClient();
+      const result = await client.zrem(key, member);
+      return { success: true, data: result > 0 };
+    } catch (e: any) {
+      const error: RedisError = { code: 'ZREM_FAILED', message: e.message };
+      return { success: false, error };
+    }
+  }
+
   async getKeysByPattern(pattern: string): Promise<RedisOperationResult<string[]>> {
     try {
       const client = this.getClient();
@@ -2,3 +2,5 @@ export * from './client';
 export * from './token.repository';
 export * from './session.repository';
 export * from './blacklist.repository';
+export * from './nonce.repository';
+export * from './rate-limit.repository';
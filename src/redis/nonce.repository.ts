@@ -0,0 +1,60 @@
+import { redisClient } from './client';
+import { RedisIngestionNonce, RedisNonceData, RedisOperationResult } from '@/types/redis.types';
+import { TOKEN_CONFIG, SIWE_CONFIG, INGESTION_SIGNATURE_CONFIG } from '@/config/constants';
+
+export interface NonceRepository {
+  storeNonce(nonce: string, data: RedisNonceData): Promise<RedisOperationResult>;
+  consumeNonce(nonce: string): Promise<RedisOperationResult<RedisNonceData | null>>;
+  claimIngestionNonce(device_id: string, nonce: string, data: RedisIngestionNonce, ttlSeconds?: number): Promise<RedisOperationResult<boolean>>;
+  releaseIngestionNonce(device_id: string, nonce: string): Promise<RedisOperationResult<boolean>>;
+}
+
+const nonceKey = (nonce: string) => `${TOKEN_CONFIG.REDIS_KEY_PREFIX.NONCE}:${nonce}`;
+const ingestionNonceKey = (device_id: string, nonce: string) =>
+  `${TOKEN_CONFIG.REDIS_KEY_PREFIX.INGEST_NONCE}:${device_id}:${nonce}`;
+
+export const storeNonce = async (nonce: string, data: RedisNonceData): Promise<RedisOperationResult> => {
+  return redisClient.set(nonceKey(nonce), data, SIWE_CONFIG.NONCE_TTL_SECONDS);
+};
+
+/**
+ * Reads and deletes a nonce in one step so it can only be used once.
+ * Returns null data when the nonce is unknown, expired or already consumed.
+ */
+export const consumeNonce = async (nonce: string): Promise<RedisOperationResult<RedisNonceData | null>> => {
+  const result = await redisClient.get<RedisNonceData>(nonceKey(nonce));
+  if (!result.success || !result.data) {
+    return result;
+  }
+
+  // Only the caller whose delete actually removed the key wins the nonce
+  const deleted = await redisClient.delete(nonceKey(nonce));
+  if (!deleted.success) {
+    return { success: false, error: deleted.error };
+  }
+  return { success: true, data: deleted.data ? result.data : null };
+};
+
+/**
+ * Records a nonce from a signed reading. Data is false when the device already
+ * used it, i.e. the reading is a replay.
+ */
+export const claimIngestionNonce = async (
+  device_id: string,
+  nonce: string,
+  data: RedisIngestionNonce,
+  ttlSeconds: number = INGESTION_SIGNATURE_CONFIG.NONCE_TTL_SECONDS
+): Promise<RedisOperationResult<boolean>> => {
+  return redisClient.setIfNotExists(ingestionNonceKey(device_id, nonce), data, ttlSeconds);
+};
+
+/**
+ * Forgets a claimed nonce, for a signed reading that could not be stored after
+ * all, so the device can send it again
+ */
+export const releaseIngestionNonce = async (
+  device_id: string,
+  nonce: string
+): Promise<RedisOperationResult<boolean>> => {
+  return redisClient.delete(ingestionNonceKey(device_id, nonce));
+};
@@ -0,0 +1,50 @@
+import { randomBytes } from 'crypto';
+import { redisClient } from './client';
+import { RedisOperationResult, RedisRateLimitResult } from '@/types/redis.types';
+import { TOKEN_CONFIG } from '@/config/constants';
+
+export interface RateLimitRepository {
+  hitRateLimit(bucket: string, limit: number, windowSeconds: number): Promise<RedisOperationResult<RedisRateLimitResult>>;
+}
+
+/**
+ * Records one hit in a sliding window. Rejected hits are removed again, so a
+ * client that keeps retrying is not locked out longer than the window.
+ */
+export const hitRateLimit = async (
+  bucket: string,
+  limit: number,
+  windowSeconds: number
+): Promise<RedisOperationResult<RedisRateLimitResult>> => {
+  const key = `${TOKEN_CONFIG.REDIS_KEY_PREFIX.RATE_LIMIT}:${bucket}`;
+  const now = Date.now();
+  const windowMs = windowSeconds * 1000;
+  const member = `${now}-${randomBytes(4).toString('hex')}`;
+
+  const result = await redisClient.addToSlidingWindow(key, member, now, windowMs);
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error };
+  }
+
+  const { count, oldest } = result.data;
+  const reset_at = oldest + windowMs;
+
+  if (count > limit) {
+    await redisClient.removeFromSortedSet(key, member);
+    return {
+      success: true,
+      data: {
+        allowed: false,
+        limit,
+        remaining: 0,
+        reset_at,
+        retry_after_seconds: Math.max(1, Math.ceil((reset_at - now) / 1000)),
+      },
+    };
+  }
+
+  return {
+    success: true,
+    data: { allowed: true, limit, remaining: limit - count, reset_at, retry_after_seconds: 0 },
+  };
+};
@@ -1,5 +1,11 @@
 import { redisClient } from './client';
-import { RedisAccessTokenData, RedisRefreshTokenData, RedisOperationResult } from '@/types/redis.types';
+import {
+  RedisAccessTokenData,
+  RedisRefreshTokenData,
+  RedisTokenFamily,
+  RedisOperationResult,
+} from '@/types/redis.types';
+import { ClientContext } from '@/types/auth.types';
 import { TOKEN_CONFIG } from '@/config/constants';
 
 export interface TokenRepository {
@@ -10,8 +16,20 @@ export interface TokenRepository {
   storeRefreshToken(jti: string, data: RedisRefreshTokenData): Promise<RedisOperationResult>;
   getRefreshToken(jti: string): Promise<RedisOperationResult<RedisRefreshTokenData | null>>;
   revokeRefreshToken(jti: string, reason: string): Promise<RedisOperationResult>;
+  claimRefreshToken(jti: string): Promise<RedisOperationResult<boolean>>;
 
   getAllUserTokens(walletAddress: string): Promise<RedisOperationResult<string[]>>;
+
+  addToTokenFamily(
+    token_family: string,
+    walletAddress: string,
+    refresh_jti: string,
+    access_jti: string,
+    client?: ClientContext
+  ): Promise<RedisOperationResult>;
+  getTokenFamily(token_family: string): Promise<RedisOperationResult<RedisTokenFamily | null>>;
+  touchTokenFamily(token_family: string, ip_address?: string): Promise<RedisOperationResult>;
+  markTokenFamilyRevoked(token_family: string): Promise<RedisOperationResult>;
 }
 
 export const storeAccessToken = async (jti: string, data: RedisAccessTokenData): Promise<RedisOperationResult> => {
@@ -37,8 +55,9 @@ export const storeRefreshToken = async (jti: string, data: RedisRefreshTokenData
 export const getRefreshToken = async (jti: string): Promise<RedisOperationResult<RedisRefreshTokenData | null>> => {
   const key = `${TOKEN_CONFIG.REDIS_KEY_PREFIX.REFRESH_TOKEN}:${jti}:token`;
   const result = await redisClient.get<RedisRefreshTokenData>(key);
+  // The record comes along so callers can tell why it was revoked
   if (result.data?.revoked) {
-    return { success: false, error: { code: 'TOKEN_REVOKED', message: 'Token has been revoked' } };
+    return { success: false, data: result.data, error: { code: 'TOKEN_REVOKED', message: 'Token has been revoked' } };
   }
   return result;
 };
@@ -46,13 +65,31 @@ export const getRefreshToken = async (jti: string): Promise<RedisOperationResult
 export const revokeRefreshToken = async (jti: string, reason: string): Promise<RedisOperationResult> => {
   const key = `${TOKEN_CONFIG.REDIS_KEY_PREFIX.REFRESH_TOKEN}:${jti}:token`;
   const result = await redisClient.get<RedisRefreshTokenData>(key);
+  // The first reason is kept: a rotated token stays 'refresh', so presenting it later is still reuse
+  if (result.success && result.data?.revoked) {
+    return { success: true };
+  }
   if (result.success && result.data) {
-    const updatedData: RedisRefreshTokenData = { ...result.data, revoked: true };
+    const updatedData: RedisRefreshTokenData = {
+      ...result.data,
+      revoked: true,
+      revoked_reason: reason,
+      revoked_at: Date.now(),
+    };
     return redisClient.set(key, updatedData);
   }
   return { success: false, error: { code: 'NOT_FOUND', message: 'Token not found' } };
 };
 
+/**
+ * Claims a refresh token for rotation with SET NX. Only the first caller gets
+ * true, so concurrent refreshes with the same token cannot both rotate it.
+ */
+export const claimRefreshToken = async (jti: string): Promise<RedisOperationResult<boolean>> => {
+  const key = `${TOKEN_CONFIG.REDIS_KEY_PREFIX.REFRESH_TOKEN}:${jti}:rotated`;
+  return redisClient.setIfNotExists(key, Date.now(), TOKEN_CONFIG.REFRESH_TOKEN_EXPIRY_SECONDS);
+};
+
 export const getAllUserTokens = async (walletAddress: string): Promise<RedisOperationResult<string[]>> => {
   const pattern = `${TOKEN_CONFIG.REDIS_KEY_PREFIX.ACCESS_TOKEN}:${walletAddress}:*`;
   const result = await redisClient.getKeysByPattern(pattern);
@@ -61,3 +98,73 @@ export const getAllUserTokens = async (walletAddress: string): Promise<RedisOper
   }
   return { success: false, error: result.error };
 };
+
+export const addToTokenFamily = async (
+  token_family: string,
+  walletAddress: string,
+  refresh_jti: string,
+  access_jti: string,
+  client: ClientContext = {}
+): Promise<RedisOperationResult> => {
+  const key = `${TOKEN_CONFIG.REDIS_KEY_PREFIX.TOKEN_FAMILY}:${token_family}`;
+  const result = await redisClient.get<RedisTokenFamily>(key);
+  const now = Date.now();
+  const family: RedisTokenFamily = result.data || {
+    token_family,
+    walletAddress,
+    refresh_jtis: [],
+    access_jtis: [],
+    created_at: now,
+    last_used_at: now,
+    ip_address: client.ip_address,
+    user_agent: client.user_agent,
+  };
+  family.refresh_jtis.push(refresh_jti);
+  family.access_jtis.push(access_jti);
+  family.last_used_at = now;
+  if (client.ip_address) {
+    family.last_ip_address = client.ip_address;
+  }
+  // Keep the family alive as long as its newest refresh token
+  return redisClient.set(key, family, TOKEN_CONFIG.REFRESH_TOKEN_EXPIRY_SECONDS);
+};
+
+export const getTokenFamily = async (token_family: string): Promise<RedisOperationResult<RedisTokenFamily | null>> => {
+  const key = `${TOKEN_CONFIG.REDIS_KEY_PREFIX.TOKEN_FAMILY}:${token_family}`;
+  return redisClient.get<RedisTokenFamily>(key);
+};
+
+/**
+ * Records that a session was just used. Writes at most once per
+ * SESSION_TOUCH_INTERVAL_SECONDS so authenticated requests stay read-only.
+ */
+export const touchTokenFamily = async (token_family: string, ip_address?: string): Promise<RedisOperationResult> => {
+  const key = `${TOKEN_CONFIG.REDIS_KEY_PREFIX.TOKEN_FAMILY}:${token_family}`;
+  const result = await redisClient.get<RedisTokenFamily>(key);
+  if (!result.success || !result.data) {
+    return { success: false, error: { code: 'NOT_FOUND', message: 'Token family not found' } };
+  }
+
+  const family = result.data;
+  const now = Date.now();
+  const stale = now - (family.last_used_at || 0) >= TOKEN_CONFIG.SESSION_TOUCH_INTERVAL_SECONDS * 1000;
+  const ipChanged = !!ip_address && ip_address !== family.last_ip_address;
+  if (family.revoked_at || (!stale && !ipChanged)) {
+    return { success: true };
+  }
+
+  family.last_used_at = now;
+  if (ip_address) {
+    family.last_ip_address = ip_address;
+  }
+  return redisClient.set(key, family, TOKEN_CONFIG.REFRESH_TOKEN_EXPIRY_SECONDS);
+};
+
+export const markTokenFamilyRevoked = async (token_family: string): Promise<RedisOperationResult> => {
+  const key = `${TOKEN_CONFIG.REDIS_KEY_PREFIX.TOKEN_FAMILY}:${token_family}`;
+  const result = await redisClient.get<RedisTokenFamily>(key);
+  if (result.success && result.data) {
+    return redisClient.set(key, { ...result.data, revoked_at: Date.now() }, TOKEN_CONFIG.REFRESH_TOKEN_EXPIRY_SECONDS);
+  }
+  return { success: false, error: { code: 'NOT_FOUND', message: 'Token family not found' } };
+};
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import {
+  listUsers,
+  getUser,
+  updateUserRoles,
+  updateUserTier,
+  revokeUserSessions,
+  listAuditEvents,
+  verifyAuditLog,
+  listStations,
+  createStation,
+  updateStation,
+  retireStation,
+  listStationProposals,
+  approveStationProposal,
+  mergeStationProposal,
+  rejectStationProposal
+} from '@/controllers/admin.controller';
+import { authenticate, requireRole } from '@/middleware/auth';
+import { RBAC_CONFIG } from '@/config/constants';
+
+const router = Router();
+
+// Operational endpoints: operators and admins only
+router.use(authenticate, requireRole(...RBAC_CONFIG.ADMIN_ROUTE_ROLES));
+
+router.get('/users', listUsers);
+router.get('/users/:walletAddress', getUser);
+router.delete('/users/:walletAddress/sessions', revokeUserSessions);
+
+// Audit log: filter by actor, action, target_id and from/to, newest first
+router.get('/audit-events', listAuditEvents);
+router.get('/audit-events/verify', verifyAuditLog);
+
+// Station catalog: every change publishes a new catalog version. Operators may read it, only admins change it
+router.get('/stations', listStations);
+router.post('/stations', requireRole('admin'), createStation);
+router.patch('/stations/:station_id', requireRole('admin'), updateStation);
+router.post('/stations/:station_id/retire', requireRole('admin'), retireStation);
+
+// Stations proposed by wallets: approve as new, merge into an existing station, or reject (admins only)
+router.get('/station-proposals', listStationProposals);
+router.post('/station-proposals/:proposal_id/approve', requireRole('admin'), approveStationProposal);
+router.post('/station-proposals/:proposal_id/merge', requireRole('admin'), mergeStationProposal);
+router.post('/station-proposals/:proposal_id/reject', requireRole('admin'), rejectStationProposal);
+
+// Changing roles and quota tiers is reserved for admins
+router.put('/users/:walletAddress/roles', requireRole('admin'), updateUserRoles);
+router.put('/users/:walletAddress/tier', requireRole('admin'), updateUserTier);
+
+export default router;
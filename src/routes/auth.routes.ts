@@ -1,11 +1,35 @@
 import { Router } from 'express';
-import { login, refreshToken, logout } from '@/controllers/auth.controller';
+import { getNonce, login, refreshToken, logout, listSessions, deleteSession } from '@/controllers/auth.controller';
 import { authenticate } from '@/middleware/auth';
+import { rateLimit } from '@/middleware/rateLimit';
+import { RATE_LIMIT_CONFIG } from '@/config/constants';
 
 const router = Router();
 
-router.post('/login', login);
-router.post('/refresh', refreshToken);
+const nonceLimiter = rateLimit({
+  name: 'nonce',
+  limit: RATE_LIMIT_CONFIG.NONCE.LIMIT,
+  windowSeconds: RATE_LIMIT_CONFIG.NONCE.WINDOW_SECONDS,
+  keyBy: 'ip',
+});
+const loginLimiter = rateLimit({
+  name: 'login',
+  limit: RATE_LIMIT_CONFIG.LOGIN.LIMIT,
+  windowSeconds: RATE_LIMIT_CONFIG.LOGIN.WINDOW_SECONDS,
+  keyBy: 'ip',
+});
+const refreshLimiter = rateLimit({
+  name: 'refresh',
+  limit: RATE_LIMIT_CONFIG.REFRESH.LIMIT,
+  windowSeconds: RATE_LIMIT_CONFIG.REFRESH.WINDOW_SECONDS,
+  keyBy: 'ip',
+});
+
+router.get('/nonce', nonceLimiter, getNonce);
+router.post('/login', loginLimiter, login);
+router.post('/refresh', refreshLimiter, refreshToken);
 router.post('/logout', authenticate, logout);
+router.get('/sessions', authenticate, listSessions);
+router.delete('/sessions/:jti', authenticate, deleteSession);
 
 export default router;
\ No newline at end of file
@@ -3,15 +3,27 @@ import {
   getPresets,
   getCities,
   getStations,
-  getSensors
+  getSensors,
+  getNearbyStations,
+  proposeStation,
+  getMyStationProposals
 } from '@/controllers/config.controller';
+import { authenticate } from '@/middleware/auth';
 
 const router = Router();
 
 // Unified endpoint - returns all configuration data
 router.get('/presets', getPresets);
 
-// Legacy individual endpoints (kept for backwards compatibility)
+// Stations and active devices around ?lat=&lon=&radius_km=, closest first
+router.get('/stations/nearby', getNearbyStations);
+
+// Station proposals: any signed-in wallet can suggest a station for admins to review
+router.post('/stations/proposals', authenticate, proposeStation);
+router.get('/stations/proposals', authenticate, getMyStationProposals);
+
+// Legacy individual endpoints (kept for backwards compatibility).
+// Registered last so 'nearby' and 'proposals' are not taken for a city_id
 router.get('/cities', getCities);
 router.get('/stations/:city_id', getStations);
 router.get('/sensors/:station_id', getSensors);
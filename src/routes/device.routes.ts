@@ -2,7 +2,20 @@ import { Router } from 'express';
 import {
   registerDevice,
   getDevices,
-  deleteDevice
+  deleteDevice,
+  updateDevice,
+  decommissionDevice,
+  getDeviceHistory,
+  initiateTransfer,
+  cancelTransfer,
+  acceptTransfer,
+  listIncomingTransfers,
+  updateSigningKey,
+  listCredentials,
+  rotateCredential,
+  revokeCredential,
+  getCalibrationProfiles,
+  setCalibrationProfile
 } from '@/controllers/device.controller';
 import { authenticate } from '@/middleware/auth';
 
@@ -13,6 +26,25 @@ router.use(authenticate);
 
 router.post('/register', registerDevice);
 router.get('/', getDevices);
+router.patch('/:device_id', updateDevice);
 router.delete('/:device_id', deleteDevice);
+router.post('/:device_id/decommission', decommissionDevice);
+router.get('/:device_id/history', getDeviceHistory);
+
+// Ownership transfer: the owner offers the device, the recipient accepts it
+router.get('/transfers/incoming', listIncomingTransfers);
+router.post('/:device_id/transfer', initiateTransfer);
+router.delete('/:device_id/transfer', cancelTransfer);
+router.post('/:device_id/transfer/accept', acceptTransfer);
+router.put('/:device_id/signing-key', updateSigningKey);
+
+// Ingestion API keys
+router.get('/:device_id/credentials', listCredentials);
+router.post('/:device_id/credentials', rotateCredential);
+router.delete('/:device_id/credentials/:key_id', revokeCredential);
+
+// Calibration profiles, applied to samples at ingestion. Operators may calibrate any device
+router.get('/:device_id/calibration', getCalibrationProfiles);
+router.put('/:device_id/calibration', setCalibrationProfile);
 
 export default router;
\ No newline at end of file
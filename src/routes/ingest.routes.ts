@@ -1,20 +1,56 @@
 import { Router } from 'express';
 import {
   ingestData,
+  ingestBulkData,
   getDeviceReadingsController,
   getReadingsByStatusController,
-  getReadingByIdController
+  getReadingByIdController,
+  getReadingProofController,
+  verifyProofController
 } from '@/controllers/aqi-ingestion.controller';
-import { authenticate } from '@/middleware/auth';
+import { authenticate, authenticateDeviceOrUser } from '@/middleware/auth';
+import { rateLimit } from '@/middleware/rateLimit';
+import { RATE_LIMIT_CONFIG } from '@/config/constants';
 
 const router = Router();
 
-// All ingestion routes require authentication
-router.use(authenticate);
+const ingestLimiter = rateLimit({
+  name: 'ingest',
+  limit: RATE_LIMIT_CONFIG.INGEST.LIMIT,
+  windowSeconds: RATE_LIMIT_CONFIG.INGEST.WINDOW_SECONDS,
+  keyBy: 'device',
+});
 
-router.post('/ingest', ingestData);
-router.get('/readings/:device_id', getDeviceReadingsController);
-router.get('/readings/status/:status', getReadingsByStatusController);
-router.get('/reading/:reading_id', getReadingByIdController);
+const verifyProofLimiter = rateLimit({
+  name: 'verify_proof',
+  limit: RATE_LIMIT_CONFIG.VERIFY_PROOF.LIMIT,
+  windowSeconds: RATE_LIMIT_CONFIG.VERIFY_PROOF.WINDOW_SECONDS,
+  keyBy: 'ip',
+});
+
+const bulkIngestLimiter = rateLimit({
+  name: 'ingest_bulk',
+  limit: RATE_LIMIT_CONFIG.INGEST_BULK.LIMIT,
+  windowSeconds: RATE_LIMIT_CONFIG.INGEST_BULK.WINDOW_SECONDS,
+  keyBy: 'device',
+});
+
+// Sensors post with their device API key; owners may still use their bearer token
+router.post('/ingest', authenticateDeviceOrUser, ingestLimiter, ingestData);
+
+// Buffered samples of a device that was offline, up to its backfill window back.
+// The body size limit for this route is raised in app.ts
+router.post('/ingest/bulk', authenticateDeviceOrUser, bulkIngestLimiter, ingestBulkData);
+
+// Reading queries require the owner's authentication
+router.get('/readings/:device_id', authenticate, getDeviceReadingsController);
+router.get('/readings/status/:status', authenticate, getReadingsByStatusController);
+router.get('/reading/:reading_id', authenticate, getReadingByIdController);
+
+// Inclusion proof of one value, for the owner and wallets licensing a derivative of the reading
+router.get('/reading/:reading_id/proof', authenticate, getReadingProofController);
+
+// Anyone may check a proof; it only compares hashes
+router.post('/verify/proof', verifyProofLimiter, verifyProofController);
 
 export default router;
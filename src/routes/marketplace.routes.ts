@@ -1,9 +1,26 @@
 import { Router } from 'express';
 import * as marketplaceController from '../controllers/marketplace.controller';
 import { authenticate } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { RATE_LIMIT_CONFIG } from '../config/constants';
 
 const router = Router();
 
+// Purchases and derivative creation send on-chain transactions: limit per IP, and per wallet once signed in.
+// The public purchase routes have no authenticated wallet, so they are limited per IP only
+const purchaseIpLimiter = rateLimit({
+  name: 'purchase_ip',
+  limit: RATE_LIMIT_CONFIG.PURCHASE_IP.LIMIT,
+  windowSeconds: RATE_LIMIT_CONFIG.PURCHASE_IP.WINDOW_SECONDS,
+  keyBy: 'ip',
+});
+const purchaseWalletLimiter = rateLimit({
+  name: 'purchase',
+  limit: RATE_LIMIT_CONFIG.PURCHASE.LIMIT,
+  windowSeconds: RATE_LIMIT_CONFIG.PURCHASE.WINDOW_SECONDS,
+  keyBy: 'wallet',
+});
+
 // --- Platform Derivatives ---
 
 router.get('/derivatives', marketplaceController.listDerivatives);
@@ -18,7 +35,7 @@ router.get('/derivatives/community', marketplaceController.browseUserDerivatives
 // @route   POST /api/v1/marketplace/derivatives/create
 // @desc    Create a new derivative from a licensed asset
 // @access  Authenticated
-router.post('/derivatives/create', authenticate, marketplaceController.createUserDerivative);
+router.post('/derivatives/create', authenticate, purchaseIpLimiter, purchaseWalletLimiter, marketplaceController.createUserDerivative);
 
 // @route   GET /api/v1/marketplace/derivatives/my-creations/:walletAddress
 // @desc    Get all derivatives created by a specific wallet address
@@ -32,8 +49,8 @@ router.get('/derivatives/:derivativeId', marketplaceController.getDerivativeDeta
 
 // --- Platform Purchase Routes ---
 
-router.post('/purchase/:derivativeId', marketplaceController.purchaseDerivative);
-router.post('/purchase/bulk', marketplaceController.bulkPurchaseDerivatives);
+router.post('/purchase/:derivativeId', purchaseIpLimiter, marketplaceController.purchaseDerivative);
+router.post('/purchase/bulk', purchaseIpLimiter, marketplaceController.bulkPurchaseDerivatives);
 router.get('/assets/:walletAddress', marketplaceController.getUserAssets);
 router.get('/download/:derivativeId', authenticate, marketplaceController.downloadDerivative);
 
@@ -45,7 +62,7 @@ router.get('/:walletAddress/derivatives', marketplaceController.getUserDeviceDer
 // @route   POST /api/v1/marketplace/derivatives/purchase/:userDerivativeId
 // @desc    Purchase a license for a user-created derivative
 // @access  Public
-router.post('/derivatives/purchase/:userDerivativeId', marketplaceController.purchaseUserDerivative);
+router.post('/derivatives/purchase/:userDerivativeId', purchaseIpLimiter, marketplaceController.purchaseUserDerivative);
 
 
 export default router;
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { getJwks } from '@/controllers/jwks.controller';
+
+const router = Router();
+
+// Public keys partner services use to verify ClearSky access tokens
+router.get('/jwks.json', getJwks);
+
+export default router;
@@ -7,7 +7,12 @@ import { startBatchProcessor } from '@/jobs/batch-processor.job';
 import { startVerificationJob } from '@/jobs/verifier.job';
 import { startDerivativeJob } from '@/jobs/derivative.job';
 import { startMetaDerivativeJob } from '@/jobs/meta-derivative.job';
+import { startDeviceHealthJob } from '@/jobs/device-health.job';
+import { startStationCatalogRefreshJob } from '@/jobs/station-catalog.job';
+import { getCatalogVersion, reloadConfig } from '@/services/config.service';
+import { backfillDeviceLocations } from '@/services/device.service';
 import { initializePinata } from '@/services/ipfs.service';
+import { loadSigningKeys } from '@/services/jwks.service';
 import dotenv from 'dotenv';
 import { logger } from '@/utils/logger';
 
@@ -17,10 +22,24 @@ const PORT = process.env.PORT || 3000;
 
 async function startServer() {
   try {
+    // Access token signing keys; throws in production when none are configured
+    loadSigningKeys();
+    logger.info('✓ JWT signing keys loaded');
+
     // Connect to MongoDB
     await connectDB();
     logger.info('✓ MongoDB connected');
 
+    // Load the station catalog, seeding it from data/sensor_preset.json on first start
+    await reloadConfig();
+    logger.info(`✓ Station catalog loaded (version ${getCatalogVersion()})`);
+
+    // Give devices registered before nearby search a location
+    const located = await backfillDeviceLocations();
+    if (located > 0) {
+      logger.info(`✓ Location set on ${located} devices`);
+    }
+
     // Connect to Redis
     await connectRedis();
     // Initialize Pinata for IPFS
@@ -51,6 +70,14 @@ async function startServer() {
     startMetaDerivativeJob();
     logger.info('✓ Meta-derivative generation cron job started');
 
+    // Start device heartbeat / offline detection cron job
+    startDeviceHealthJob();
+    logger.info('✓ Device health cron job started');
+
+    // Start station catalog refresh cron job
+    startStationCatalogRefreshJob();
+    logger.info('✓ Station catalog refresh cron job started');
+
     // Start Express serverocessor cron job started');
 
     // Start Express server
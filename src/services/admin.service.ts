@@ -0,0 +1,195 @@
+import {
+  findUserByWalletId,
+  listUsers as listUserRecords,
+  updateUserRoles as saveUserRoles,
+  updateUserTier as saveUserTier,
+} from '@/database/user.repository';
+import { IUser } from '@/models/User';
+import { getUserRoles, revokeAllUserSessions } from './auth.service';
+import { recordAuditEvent } from './audit.service';
+import { getDeviceQuota, isQuotaTier } from './quota.service';
+import { AdminUserView, QuotaTier, UserRole } from '@/types/user.types';
+import { QUOTA_CONFIG, RBAC_CONFIG } from '@/config/constants';
+import { logger } from '@/utils/logger';
+
+export interface AdminService {
+  listUsers(role?: UserRole): Promise<AdminUserView[]>;
+  getUser(walletAddress: string): Promise<AdminUserView>;
+  updateUserRoles(actor: string, walletAddress: string, roles: UserRole[], reason?: string): Promise<AdminUserView>;
+  updateUserTier(actor: string, walletAddress: string, tier: QuotaTier, reason?: string): Promise<AdminUserView>;
+  forceLogout(actor: string, walletAddress: string): Promise<void>;
+}
+
+const isUserRole = (role: unknown): role is UserRole =>
+  typeof role === 'string' && (RBAC_CONFIG.ROLES as readonly string[]).includes(role);
+
+const toAdminView = async (user: IUser): Promise<AdminUserView> => ({
+  walletAddress: user.walletAddress,
+  roles: getUserRoles(user),
+  devices: user.devices,
+  role_history: user.role_history || [],
+  quota: await getDeviceQuota(user.walletAddress, user.quota_tier),
+  tier_history: user.tier_history || [],
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+export const listUsers = async (role?: UserRole): Promise<AdminUserView[]> => {
+  if (role !== undefined && !isUserRole(role)) {
+    throw new Error(`VALIDATION_ERROR: Unknown role '${role}'`);
+  }
+  const users = await listUserRecords(role);
+  return Promise.all(users.map(toAdminView));
+};
+
+export const getUser = async (walletAddress: string): Promise<AdminUserView> => {
+  const user = await findUserByWalletId(walletAddress);
+  if (!user) {
+    throw new Error('USER_NOT_FOUND');
+  }
+  return toAdminView(user);
+};
+
+/**
+ * Replaces the roles of a user. Every change is appended to the user's
+ * role_history and reported through logger.notify. Removing a role signs the
+ * user out everywhere, since their live access tokens still carry it.
+ */
+export const updateUserRoles = async (
+  actor: string,
+  walletAddress: string,
+  roles: UserRole[],
+  reason?: string
+): Promise<AdminUserView> => {
+  if (!Array.isArray(roles) || roles.length === 0) {
+    throw new Error('VALIDATION_ERROR: roles must be a non-empty array');
+  }
+  const unknown = roles.filter(role => !isUserRole(role));
+  if (unknown.length > 0) {
+    throw new Error(`VALIDATION_ERROR: Unknown roles: ${unknown.join(', ')}`);
+  }
+
+  const target = walletAddress.toLowerCase();
+  if (target === actor && !roles.includes('admin')) {
+    throw new Error('VALIDATION_ERROR: Admins cannot remove their own admin role');
+  }
+
+  const user = await findUserByWalletId(target);
+  if (!user) {
+    throw new Error('USER_NOT_FOUND');
+  }
+
+  const nextRoles = [...new Set(roles)];
+  const previousRoles = getUserRoles(user);
+  const updated = await saveUserRoles(target, nextRoles, {
+    roles: nextRoles,
+    previous_roles: previousRoles,
+    changed_by: actor,
+    changed_at: new Date(),
+    reason,
+  });
+  if (!updated) {
+    throw new Error('USER_NOT_FOUND');
+  }
+
+  const removed = previousRoles.filter(role => !nextRoles.includes(role));
+  if (removed.length > 0) {
+    await revokeAllUserSessions(target, 'security');
+  }
+
+  logger.notify(`Roles of ${target} changed by ${actor}`, {
+    event: 'USER_ROLES_CHANGED',
+    walletAddress: target,
+    changed_by: actor,
+    previous_roles: previousRoles,
+    roles: nextRoles,
+    reason,
+  });
+  await recordAuditEvent({
+    actor,
+    action: 'user.roles_changed',
+    target: { type: 'user', id: target },
+    before: { roles: previousRoles },
+    after: { roles: nextRoles },
+    metadata: { reason, sessions_revoked: removed.length > 0 },
+  });
+
+  return toAdminView(updated);
+};
+
+/**
+ * Moves a user to another quota tier. Lowering the tier below the number of
+ * active devices leaves those devices running, but no more can be registered,
+ * reactivated or accepted by transfer until the user is back under the limit.
+ */
+export const updateUserTier = async (
+  actor: string,
+  walletAddress: string,
+  tier: QuotaTier,
+  reason?: string
+): Promise<AdminUserView> => {
+  if (!isQuotaTier(tier)) {
+    throw new Error(`VALIDATION_ERROR: tier must be one of: ${QUOTA_CONFIG.TIERS.join(', ')}`);
+  }
+
+  const target = walletAddress.toLowerCase();
+  const user = await findUserByWalletId(target);
+  if (!user) {
+    throw new Error('USER_NOT_FOUND');
+  }
+
+  const previousTier = user.quota_tier ?? QUOTA_CONFIG.DEFAULT_TIER;
+  if (previousTier === tier) {
+    return toAdminView(user);
+  }
+
+  const updated = await saveUserTier(target, tier, {
+    tier,
+    previous_tier: previousTier,
+    changed_by: actor,
+    changed_at: new Date(),
+    reason,
+  });
+  if (!updated) {
+    throw new Error('USER_NOT_FOUND');
+  }
+
+  logger.notify(`Quota tier of ${target} changed by ${actor}`, {
+    event: 'USER_TIER_CHANGED',
+    walletAddress: target,
+    changed_by: actor,
+    previous_tier: previousTier,
+    tier,
+    reason,
+  });
+  await recordAuditEvent({
+    actor,
+    action: 'user.tier_changed',
+    target: { type: 'user', id: target },
+    before: { quota_tier: previousTier },
+    after: { quota_tier: tier },
+    metadata: { reason },
+  });
+
+  return toAdminView(updated);
+};
+
+export const forceLogout = async (actor: string, walletAddress: string): Promise<void> => {
+  const target = walletAddress.toLowerCase();
+  const user = await findUserByWalletId(target);
+  if (!user) {
+    throw new Error('USER_NOT_FOUND');
+  }
+
+  await revokeAllUserSessions(target, 'security');
+  logger.notify(`Sessions of ${target} revoked by ${actor}`, {
+    event: 'USER_SESSIONS_REVOKED',
+    walletAddress: target,
+    changed_by: actor,
+  });
+  await recordAuditEvent({
+    actor,
+    action: 'auth.sessions_revoked',
+    target: { type: 'user', id: target },
+  });
+};
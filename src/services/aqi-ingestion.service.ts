@@ -1,8 +1,290 @@
 import AQIReading from '@/models/AQIReading';
 import Device from '@/models/Device';
-import { DataIngestionRequest, IAQIReading, ValidationResult } from '@/types/aqi-reading.types';
-import { getCurrentBatchWindow, generateReadingId } from '@/utils/time-window.utils';
+import {
+  BatchWindow,
+  BulkIngestionRequest,
+  BulkIngestionResult,
+  BulkSampleRejection,
+  BulkSampleResult,
+  DataIngestionRequest,
+  DataIngestionResponse,
+  IAQIReading,
+  IdempotencyRecord,
+  IngestionOutcome,
+  IngestionSample,
+  ReadingSignature,
+  SampleMeta,
+  SupplementLink,
+  ValidationResult
+} from '@/types/aqi-reading.types';
+import { ICalibrationProfile, IDevice } from '@/types/device.types';
+import {
+  getBatchSampleLimit,
+  getCurrentBatchWindow,
+  generateReadingId,
+  generateSupplementalReadingId
+} from '@/utils/time-window.utils';
+import { computeContentHash } from '@/utils/hash.utils';
+import { convertUnit } from '@/utils/units.utils';
 import { logger } from '@/utils/logger';
+import { markDerivativesStale } from '@/database/derivative.repository';
+import {
+  BACKFILL_CONFIG,
+  BATCH_WINDOW_CONFIG,
+  IDEMPOTENCY_CONFIG,
+  LATE_DATA_CONFIG,
+  SENSOR_UNITS_CONFIG
+} from '@/config/constants';
+import { releaseReadingNonces, verifySignedReading } from './reading-signature.service';
+import { recordDeviceHeartbeat } from './device-health.service';
+import { calibrateSample, getActiveCalibrationProfile } from './calibration.service';
+import { getSensorDefinition, getStationById } from './config.service';
+import { recordAuditEvent } from './audit.service';
+
+// A sample that passed every check, with what is stored next to it
+interface AcceptedSample {
+  sensor_data: Record<string, number>;
+  timestamp: number;                 // Unix ms
+  corrected: Record<string, number>;
+  signature: ReadingSignature | null;
+  idempotency?: Pick<IdempotencyRecord, 'key' | 'request_hash'>;
+}
+
+// The batch samples of a window are written to
+interface BatchTarget {
+  reading_id: string;
+  batch_window: BatchWindow;
+  ingestion_count: number;           // Samples the batch already holds
+  supplement?: SupplementLink;
+}
+
+/**
+ * Values of a sample in the catalog's canonical units, converted from the units
+ * the device declared. Gas conversions between ppb and µg/m³ use the sample's
+ * own Temperature, or the reference temperature without one.
+ */
+const toCanonicalValues = (sample: IngestionSample): { sensor_data: Record<string, number> } | { error: string } => {
+  const units = sample.units ?? {};
+  if (typeof units !== 'object' || units === null || Array.isArray(units)) {
+    return { error: 'units must be an object of unit names by sensor type' };
+  }
+  for (const [sensorType, unit] of Object.entries(units)) {
+    if (!(sensorType in sample.sensor_data)) {
+      return { error: `units lists ${sensorType}, which the sample has no value for` };
+    }
+    if (typeof unit !== 'string') {
+      return { error: `Unit for ${sensorType} must be a string` };
+    }
+  }
+
+  const { TEMPERATURE_SENSOR, REFERENCE_TEMPERATURE_C } = SENSOR_UNITS_CONFIG;
+  const converted: Record<string, number> = {};
+  // Temperature first, the gas conversions depend on it
+  const sensorTypes = Object.keys(sample.sensor_data)
+    .sort((a, b) => Number(b === TEMPERATURE_SENSOR) - Number(a === TEMPERATURE_SENSOR));
+
+  for (const sensorType of sensorTypes) {
+    const value = sample.sensor_data[sensorType];
+    const unit = units[sensorType];
+    if (unit === undefined) {
+      converted[sensorType] = value;
+      continue;
+    }
+
+    const definition = getSensorDefinition(sensorType);
+    if (!definition) {
+      return { error: `${sensorType} has no canonical unit to convert ${unit} to` };
+    }
+    const canonical = convertUnit(value, unit, definition.unit, {
+      molarMass: definition.molar_mass,
+      temperatureC: converted[TEMPERATURE_SENSOR] ?? REFERENCE_TEMPERATURE_C,
+    });
+    if (canonical === null) {
+      return { error: `Cannot convert ${sensorType} from ${unit} to ${definition.unit}` };
+    }
+    converted[sensorType] = canonical;
+  }
+
+  // In the order the device sent them
+  return {
+    sensor_data: Object.fromEntries(Object.keys(sample.sensor_data).map(sensorType => [sensorType, converted[sensorType]]))
+  };
+};
+
+// Canonical values of a sample that already passed checkSample
+const canonicalSensorData = (sample: IngestionSample): Record<string, number> =>
+  (toCanonicalValues(sample) as { sensor_data: Record<string, number> }).sensor_data;
+
+/**
+ * Checks one sample against the device it is for and returns why it is
+ * rejected, or null. Timestamps may go back maxAgeSeconds.
+ */
+const checkSample = (device: IDevice, sample: IngestionSample, maxAgeSeconds: number): string | null => {
+  const { sensor_data } = sample ?? ({} as IngestionSample);
+  if (typeof sensor_data !== 'object' || sensor_data === null || Array.isArray(sensor_data)) {
+    return 'sensor_data must be an object of sensor values';
+  }
+
+  // Validate sensor types match device configuration
+  const deviceSensorTypes = device.sensor_meta.sensor_types;
+  for (const sensorType of Object.keys(sensor_data)) {
+    if (!deviceSensorTypes.includes(sensorType)) {
+      return `Invalid sensor type: ${sensorType}. Device does not support this sensor.`;
+    }
+  }
+
+  // Validate timestamp is within acceptable range (not too old, not in future)
+  const timestamp = new Date(sample.timestamp);
+  if (isNaN(timestamp.getTime())) {
+    return 'Invalid timestamp';
+  }
+
+  const now = Date.now();
+  if (timestamp.getTime() < now - maxAgeSeconds * 1000) {
+    return `Timestamp too old (>${maxAgeSeconds / 3600} hours)`;
+  }
+  if (timestamp.getTime() > now + BACKFILL_CONFIG.MAX_FUTURE_SECONDS * 1000) {
+    return 'Timestamp in future';
+  }
+
+  // Samples from before a transfer belong to the previous owner
+  if (device.owner_since && timestamp < device.owner_since) {
+    return 'Timestamp predates the current ownership of this device';
+  }
+
+  // Validate sensor data values are numbers
+  for (const [sensorType, value] of Object.entries(sensor_data)) {
+    if (typeof value !== 'number' || isNaN(value)) {
+      return `Invalid value for sensor ${sensorType}: must be a number`;
+    }
+  }
+
+  const canonical = toCanonicalValues(sample);
+  if ('error' in canonical) {
+    return canonical.error;
+  }
+
+  // Plausible ranges come from the catalog; sensors it does not define only need to be non-negative
+  for (const [sensorType, value] of Object.entries(canonical.sensor_data)) {
+    const definition = getSensorDefinition(sensorType);
+    if (!definition) {
+      if (value < 0) {
+        return `Invalid value for sensor ${sensorType}: must be non-negative`;
+      }
+      continue;
+    }
+    if (!Number.isFinite(value) || value < definition.min || value > definition.max) {
+      return `Invalid value for sensor ${sensorType}: outside the plausible range ${definition.min} to ${definition.max} ${definition.unit}`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Fields of a batch that has no samples yet
+ */
+const newReading = (
+  target: BatchTarget,
+  device: IDevice,
+  owner_id: string,
+  calibration: ICalibrationProfile | null
+) => ({
+  reading_id: target.reading_id,
+  device_id: device.device_id,
+  owner_id,
+  batch_window: target.batch_window,
+  sensor_data: {},
+  corrected_data: calibration ? {} : undefined,
+  sample_meta: {} as NonNullable<IAQIReading['sample_meta']>,
+  meta: {
+    location: {
+      city: device.sensor_meta.city,
+      city_id: device.sensor_meta.city_id,
+      station: device.sensor_meta.station,
+      station_id: device.sensor_meta.station_id,
+      coordinates: device.sensor_meta.coordinates
+    },
+    ingestion_count: 0,
+    last_ingestion: new Date(),
+    data_points_count: {}
+  } as IAQIReading['meta'],
+  status: 'PENDING' as const,
+  processing: {},
+  signatures: [] as ReadingSignature[],
+  idempotency_keys: undefined as IdempotencyRecord[] | undefined,
+  supplement: target.supplement
+});
+
+/**
+ * Appends samples to a batch in place. corrected_data starts once a calibration
+ * profile applies and is seeded with the raw values of earlier samples, which
+ * were stored uncorrected. Values stored before sample_meta existed get a null timestamp.
+ */
+const appendSamples = (
+  reading: Pick<IAQIReading, 'sensor_data' | 'corrected_data' | 'sample_meta' | 'meta' | 'signatures'>,
+  samples: AcceptedSample[],
+  device: IDevice,
+  calibration: ICalibrationProfile | null
+): void => {
+  // sensor_data and data_points_count are Mixed (plain objects)
+  const sensorData = reading.sensor_data as any;
+  const dataPointsCount = reading.meta.data_points_count as any;
+
+  if (calibration && !reading.corrected_data) {
+    reading.corrected_data = structuredClone(sensorData);
+  }
+  const correctedData = reading.corrected_data as any;
+
+  if (!reading.sample_meta) {
+    reading.sample_meta = Object.fromEntries(
+      Object.entries(sensorData as Record<string, number[]>)
+        .map(([sensorType, values]) => [sensorType, values.map(() => ({ timestamp: null }))])
+    );
+  }
+  const sampleMeta = reading.sample_meta;
+
+  for (const sample of samples) {
+    const meta: SampleMeta = sample.signature
+      ? { timestamp: sample.timestamp, nonce: sample.signature.nonce }
+      : { timestamp: sample.timestamp };
+
+    for (const [sensorType, value] of Object.entries(sample.sensor_data)) {
+      sensorData[sensorType] = [...(sensorData[sensorType] || []), value];
+      sampleMeta[sensorType] = [...(sampleMeta[sensorType] || []), meta];
+      if (correctedData) {
+        correctedData[sensorType] = [...(correctedData[sensorType] || []), sample.corrected[sensorType]];
+      }
+      dataPointsCount[sensorType] = (dataPointsCount[sensorType] || 0) + 1;
+    }
+    if (sample.signature) {
+      reading.signatures = [...(reading.signatures || []), sample.signature];
+    }
+  }
+
+  reading.meta.ingestion_count += samples.length;
+  reading.meta.last_ingestion = new Date();
+  if (device.revision && !reading.meta.device_revisions?.includes(device.revision)) {
+    reading.meta.device_revisions = [...(reading.meta.device_revisions || []), device.revision];
+  }
+  if (calibration && !reading.meta.calibration_versions?.includes(calibration.version)) {
+    reading.meta.calibration_versions = [...(reading.meta.calibration_versions || []), calibration.version];
+  }
+};
+
+// The device's own window length, else its station's, else the default
+const resolveBatchWindowMinutes = (device: IDevice): number =>
+  device.batch_window_minutes
+  ?? getStationById(device.sensor_meta.station_id)?.batch_window_minutes
+  ?? BATCH_WINDOW_CONFIG.DEFAULT_MINUTES;
+
+/**
+ * The batch window a device's sample taken at timestamp belongs to
+ */
+export const getDeviceBatchWindow = async (device_id: string, timestamp: Date): Promise<BatchWindow> => {
+  const device = await Device.findOne({ device_id }).lean<IDevice>();
+  return getCurrentBatchWindow(timestamp, device ? resolveBatchWindowMinutes(device) : undefined);
+};
 
 export const validateIngestionRequest = async (
   request: DataIngestionRequest,
@@ -25,63 +307,160 @@ export const validateIngestionRequest = async (
     return { valid: false, error: 'Device is not active' };
   }
 
-  // Validate sensor types match device configuration
-  const deviceSensorTypes = device.sensor_meta.sensor_types;
-  const requestSensorTypes = Object.keys(request.sensor_data);
+  // Single samples keep to the default window; older ones go through the bulk upload
+  const error = checkSample(device, request, BACKFILL_CONFIG.DEFAULT_WINDOW_SECONDS);
+  return error ? { valid: false, error } : { valid: true };
+};
 
-  for (const sensorType of requestSensorTypes) {
-    if (!deviceSensorTypes.includes(sensorType)) {
-      return {
-        valid: false,
-        error: `Invalid sensor type: ${sensorType}. Device does not support this sensor.`
-      };
+/**
+ * The key a retry of this request is recognised by, or null when the device
+ * sent neither an Idempotency-Key header nor a sequence number
+ */
+const toIdempotencyKey = (header: string | undefined, sequence: unknown): string | null => {
+  if (header !== undefined) {
+    if (!IDEMPOTENCY_CONFIG.KEY_PATTERN.test(header)) {
+      throw new Error(`VALIDATION_ERROR: ${IDEMPOTENCY_CONFIG.HEADER} must be 1-128 letters, digits or _.:-`);
     }
+    return `key:${header}`;
   }
+  if (sequence !== undefined) {
+    if (!Number.isSafeInteger(sequence) || (sequence as number) < 0) {
+      throw new Error('VALIDATION_ERROR: sequence must be a non-negative integer');
+    }
+    return `seq:${sequence}`;
+  }
+  return null;
+};
 
-  // Validate timestamp is within acceptable range (not too old, not in future)
-  const timestamp = new Date(request.timestamp);
-  const now = new Date();
-  const maxPastHours = 24; // Allow data from last 24 hours
-  const maxFutureMinutes = 15; // Allow small clock skew
-
-  const minAllowedTime = new Date(now.getTime() - maxPastHours * 60 * 60 * 1000);
-  const maxAllowedTime = new Date(now.getTime() + maxFutureMinutes * 60 * 1000);
+// Samples are only written while the batch is PENDING
+const toIngestionResponse = (
+  reading: Pick<IAQIReading, 'reading_id' | 'device_id' | 'batch_window' | 'supplement'>,
+  ingestion_count: number
+): DataIngestionResponse => ({
+  reading_id: reading.reading_id,
+  device_id: reading.device_id,
+  status: 'PENDING',
+  batch_window: reading.batch_window,
+  ingestion_count,
+  message: ingestion_count === 1
+    ? (reading.supplement ? 'Supplemental batch created for late data' : 'New batch created')
+    : `Data appended (${ingestion_count} ingestions)`,
+  ...(reading.supplement && { supplements: reading.supplement.primary_reading_id })
+});
+
+/**
+ * Answers a retry with the response the sample got the first time. The same
+ * key with a different sample is refused rather than answered.
+ */
+const replayIngestion = (
+  reading: IAQIReading,
+  record: IdempotencyRecord,
+  request_hash: string
+): IngestionOutcome => {
+  if (record.request_hash !== request_hash) {
+    throw new Error('IDEMPOTENCY_KEY_REUSED');
+  }
+  logger.info(`Replayed ingestion ${record.key} of ${reading.reading_id}`);
+  return { response: toIngestionResponse(reading, record.ingestion_count), replayed: true };
+};
 
-  if (timestamp < minAllowedTime) {
-    return { valid: false, error: 'Timestamp too old (>24 hours)' };
+/**
+ * Where a retry was stored the first time: the batch itself, or for late
+ * samples one of its supplemental batches
+ */
+const findIdempotencyRecord = async (
+  reading: IAQIReading,
+  key: string
+): Promise<{ reading: IAQIReading; record: IdempotencyRecord } | null> => {
+  const record = reading.idempotency_keys?.find(entry => entry.key === key);
+  if (record) {
+    return { reading, record };
+  }
+  if (!reading.supplemental_reading_ids?.length) {
+    return null;
   }
+  const supplemental = await AQIReading.findOne({
+    reading_id: { $in: reading.supplemental_reading_ids },
+    'idempotency_keys.key': key
+  }).lean<IAQIReading>();
+  const supplementalRecord = supplemental?.idempotency_keys?.find(entry => entry.key === key);
+  return supplemental && supplementalRecord ? { reading: supplemental, record: supplementalRecord } : null;
+};
 
-  if (timestamp > maxAllowedTime) {
-    return { valid: false, error: 'Timestamp in future' };
+/**
+ * Late-data policy. A batch picked up for verification is never written again.
+ * Under the 'supplemental' policy later samples of its window go into a
+ * supplemental batch, verified and pinned on its own, which takes samples
+ * until it is picked up in turn. Returns null when the samples are refused:
+ * under the 'reject' policy, or once the window has MAX_SUPPLEMENTAL_BATCHES.
+ */
+const resolveBatchTarget = async (
+  reading: IAQIReading | null,
+  reading_id: string,
+  batch_window: BatchWindow
+): Promise<BatchTarget | null> => {
+  if (!reading || reading.status === 'PENDING') {
+    return { reading_id, batch_window, ingestion_count: reading?.meta.ingestion_count ?? 0 };
+  }
+  if (LATE_DATA_CONFIG.POLICY === 'reject') {
+    return null;
   }
 
-  // Validate sensor data values are numbers
-  for (const [sensorType, value] of Object.entries(request.sensor_data)) {
-    if (typeof value !== 'number' || isNaN(value)) {
-      return { valid: false, error: `Invalid value for sensor ${sensorType}: must be a number` };
-    }
+  const supplementalIds = reading.supplemental_reading_ids ?? [];
+  const latestId = supplementalIds[supplementalIds.length - 1];
+  const latest = latestId
+    ? await AQIReading.findOne({ reading_id: latestId }).lean<IAQIReading>()
+    : null;
+  if (latest && latest.status === 'PENDING') {
+    return {
+      reading_id: latest.reading_id,
+      batch_window,
+      ingestion_count: latest.meta.ingestion_count,
+      supplement: latest.supplement
+    };
+  }
 
-    // Optionally validate sensor values are positive
-    if (value < 0) {
-      return { valid: false, error: `Invalid value for sensor ${sensorType}: must be non-negative` };
-    }
+  const sequence = supplementalIds.length + 1;
+  if (sequence > LATE_DATA_CONFIG.MAX_SUPPLEMENTAL_BATCHES) {
+    return null;
   }
+  return {
+    reading_id: generateSupplementalReadingId(reading_id, sequence),
+    batch_window,
+    ingestion_count: 0,
+    supplement: { primary_reading_id: reading_id, sequence }
+  };
+};
 
-  return { valid: true };
+/**
+ * Links a new supplemental batch to the batch it adds to and flags the
+ * derivatives built from that batch as stale
+ */
+const linkSupplementalBatch = async (supplement: SupplementLink, reading_id: string): Promise<void> => {
+  await AQIReading.updateOne(
+    { reading_id: supplement.primary_reading_id },
+    { $addToSet: { supplemental_reading_ids: reading_id } }
+  );
+  const staleCount = await markDerivativesStale(supplement.primary_reading_id, reading_id);
+  logger.info(`Opened supplemental batch ${reading_id} for late samples of ${supplement.primary_reading_id}`, {
+    stale_derivatives: staleCount
+  });
 };
 
 export const ingestReading = async (
   owner_id: string,
-  request: DataIngestionRequest
-): Promise<IAQIReading> => {
+  request: DataIngestionRequest,
+  idempotencyKey?: string
+): Promise<IngestionOutcome> => {
   // 1. Validate
   const validation = await validateIngestionRequest(request, owner_id);
   if (!validation.valid) {
     throw new Error(`VALIDATION_ERROR: ${validation.error}`);
   }
+  const key = toIdempotencyKey(idempotencyKey, request.sequence);
 
   // 2. Get device details
-  const device = await Device.findOne({ device_id: request.device_id });
+  const device = await Device.findOne({ device_id: request.device_id }).lean<IDevice>();
   if (!device) {
     throw new Error('DEVICE_NOT_FOUND');
   }
@@ -92,83 +471,425 @@ export const ingestReading = async (
 
   // 3. Get batch window
   const timestamp = new Date(request.timestamp);
-  const batch_window = getCurrentBatchWindow(timestamp);
-  const reading_id = generateReadingId(request.device_id, batch_window);
+  const batch_window = getCurrentBatchWindow(timestamp, resolveBatchWindowMinutes(device));
+  const reading_id = generateReadingId(request.device_id, batch_window, device.ownership_epoch);
+  const request_hash = computeContentHash({ sensor_data: request.sensor_data, units: request.units, timestamp: timestamp.getTime() });
+
+  // 4. Find the batch. A retry is answered before the signature check, which would take its nonce for a replay
+  const reading = await AQIReading.findOne({ reading_id }).lean<IAQIReading>();
+  const seen = reading && key ? await findIdempotencyRecord(reading, key) : null;
+  if (seen) {
+    return replayIngestion(seen.reading, seen.record, request_hash);
+  }
+
+  // A batch picked up for verification can no longer change; late samples follow the late-data policy
+  const target = await resolveBatchTarget(reading, reading_id, batch_window);
+  if (!target) {
+    throw new Error('BATCH_ALREADY_PROCESSED');
+  }
 
-  // 4. Find or create reading
-  let reading = await AQIReading.findOne({ reading_id });
+  // Cap samples per device and window before the signature check, so a rejected sample keeps its nonce
+  if (target.ingestion_count >= getBatchSampleLimit(target.batch_window)) {
+    throw new Error('BATCH_SAMPLE_LIMIT_REACHED');
+  }
+
+  // 5. Check the device signature and reject replayed nonces
+  const signature = await verifySignedReading(device, request);
+
+  // 6. Store canonical units, corrected with the device's current calibration profile, if any
+  const sensor_data = canonicalSensorData(request);
+  const calibration = await getActiveCalibrationProfile(request.device_id);
+  const sample: AcceptedSample = {
+    sensor_data,
+    timestamp: timestamp.getTime(),
+    corrected: calibrateSample(calibration, sensor_data),
+    signature,
+    ...(key && { idempotency: { key, request_hash } })
+  };
+
+  // 7. Append to the batch, or create it. One picked up meanwhile sends the sample through the late-data policy again
+  // A failed write gives the nonce back, so the device can send the sample again
+  const storeSample = (batch: BatchTarget) =>
+    storeBatchSamples(batch, device, owner_id, [sample], calibration).catch(async (error: Error) => {
+      if (signature) {
+        await releaseReadingNonces(device.device_id, [signature]);
+      }
+      throw error;
+    });
+  let stored = await storeSample(target);
+  if (!stored) {
+    const current = await AQIReading.findOne({ reading_id }).lean<IAQIReading>();
+    const retarget = await resolveBatchTarget(current, reading_id, batch_window);
+    stored = retarget && await storeSample(retarget);
+  }
+  if (!stored) {
+    throw new Error('BATCH_ALREADY_PROCESSED');
+  }
+  // A concurrent retry with the same key got there first
+  if (stored.seen.length > 0) {
+    return replayIngestion(stored.reading, stored.seen[0].record, request_hash);
+  }
+  logger.info(`Stored sample in ${stored.reading.reading_id}. Ingestion count: ${stored.reading.meta.ingestion_count}`);
 
-  if (reading) {
-    // === APPEND LOGIC ===
-    // Reading exists, append new data to arrays
-    logger.info(`Appending data to existing reading: ${reading_id}`);
+  await recordDeviceHeartbeat(device, Object.keys(request.sensor_data));
 
-    // sensor_data and data_points_count are now Mixed (plain objects)
-    const sensorData = reading.sensor_data as any;
-    const dataPointsCount = reading.meta.data_points_count as any;
+  return { response: toIngestionResponse(stored.reading, stored.reading.meta.ingestion_count), replayed: false };
+};
 
-    for (const [sensorType, value] of Object.entries(request.sensor_data)) {
-      if (sensorData[sensorType]) {
-        // Append to existing array
-        sensorData[sensorType].push(value);
+const BATCH_PROCESSED_MESSAGE = 'Batch window was already picked up for verification and takes no late samples';
+const BATCH_MODIFIED_MESSAGE = 'Batch kept changing while these samples were stored, none of them were written';
+const BATCH_WRITE_FAILED_MESSAGE = 'Batch could not be stored, none of its samples were written';
+
+// Per-sample outcome of the signature check, or null for errors that fail the sample's batch
+const toSampleRejection = (error: Error): { code: BulkSampleRejection; message: string } | null => {
+  if (error.message === 'SIGNATURE_INVALID') {
+    return { code: 'SIGNATURE_INVALID', message: 'Signature does not match the device signing key' };
+  }
+  if (error.message === 'NONCE_REPLAYED') {
+    return { code: 'NONCE_REPLAYED', message: 'Nonce was already used by this device' };
+  }
+  if (error.message.startsWith('VALIDATION_ERROR')) {
+    return { code: 'INVALID_SAMPLE', message: error.message.replace('VALIDATION_ERROR: ', '') };
+  }
+  return null;
+};
+
+/**
+ * Writes samples into their batch, creating it if needed; a new supplemental
+ * batch is linked to the batch it adds to. The write only goes through while
+ * the batch is still PENDING and nobody appended in between.
+ * Idempotency keys of the samples are remembered in the same write. Samples
+ * whose key the batch already has are not written but returned as seen.
+ * Returns null when the batch was picked up for verification.
+ */
+const storeBatchSamples = async <T extends AcceptedSample>(
+  target: BatchTarget,
+  device: IDevice,
+  owner_id: string,
+  samples: T[],
+  calibration: ICalibrationProfile | null
+): Promise<{ reading: IAQIReading; seen: Array<{ sample: T; record: IdempotencyRecord }> } | null> => {
+  const keyed = samples.some(sample => sample.idempotency);
+
+  // Call after appending: each key records the ingestion_count right after its sample
+  const remember = (reading: Pick<IAQIReading, 'idempotency_keys' | 'meta'>, written: T[]) => {
+    const firstCount = reading.meta.ingestion_count - written.length;
+    const received_at = new Date();
+    const records = written.flatMap((sample, i) => sample.idempotency
+      ? [{ ...sample.idempotency, ingestion_count: firstCount + i + 1, received_at }]
+      : []);
+    if (records.length > 0) {
+      reading.idempotency_keys = [...(reading.idempotency_keys || []), ...records];
+    }
+  };
+
+  const { reading_id } = target;
+  for (let attempt = 0; attempt < BACKFILL_CONFIG.WRITE_RETRIES; attempt++) {
+    const current = await AQIReading.findOne({ reading_id }).lean<IAQIReading>();
+
+    if (!current) {
+      const fields = newReading(target, device, owner_id, calibration);
+      appendSamples(fields, samples, device, calibration);
+      remember(fields, samples);
+      try {
+        const created = (await AQIReading.create(fields)).toObject();
+        if (target.supplement) {
+          await linkSupplementalBatch(target.supplement, reading_id);
+        }
+        // Not awaited: the audit chain appends one event at a time and must not hold up ingestion
+        void recordAuditEvent({
+          actor: device.device_id,
+          actor_type: 'device',
+          action: 'reading.batch_created',
+          target: { type: 'reading', id: reading_id },
+          after: {
+            device_id: device.device_id,
+            owner_id,
+            batch_window: created.batch_window,
+            ...(target.supplement && { supplements: target.supplement.primary_reading_id }),
+          },
+        });
+        return { reading: created, seen: [] };
+      } catch (error: any) {
+        // Created by a concurrent request, append to theirs
+        if (error.code === 11000) {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    const recorded = new Map((current.idempotency_keys || []).map(record => [record.key, record]));
+    const seen: Array<{ sample: T; record: IdempotencyRecord }> = [];
+    const fresh: T[] = [];
+    for (const sample of samples) {
+      const record = sample.idempotency && recorded.get(sample.idempotency.key);
+      if (record) {
+        seen.push({ sample, record });
       } else {
-        // New sensor type, create array
-        sensorData[sensorType] = [value];
+        fresh.push(sample);
       }
+    }
+    if (fresh.length === 0) {
+      return { reading: current, seen };
+    }
 
-      // Update count
-      dataPointsCount[sensorType] = (dataPointsCount[sensorType] || 0) + 1;
+    if (current.status !== 'PENDING') {
+      return null;
     }
 
-    // Update metadata
-    reading.meta.ingestion_count += 1;
-    reading.meta.last_ingestion = new Date();
-    reading.markModified('sensor_data');
-    reading.markModified('meta.data_points_count');
+    const previousCount = current.meta.ingestion_count;
+    appendSamples(current, fresh, device, calibration);
+    remember(current, fresh);
+    const updated = await AQIReading.findOneAndUpdate(
+      { reading_id, status: 'PENDING', 'meta.ingestion_count': previousCount },
+      {
+        $set: {
+          sensor_data: current.sensor_data,
+          ...(current.corrected_data && { corrected_data: current.corrected_data }),
+          sample_meta: current.sample_meta,
+          meta: current.meta,
+          signatures: current.signatures,
+          ...(keyed && { idempotency_keys: current.idempotency_keys })
+        }
+      },
+      { new: true }
+    ).lean<IAQIReading>();
+    if (updated) {
+      return { reading: updated, seen };
+    }
+  }
 
-    await reading.save();
-    logger.info(`Data appended successfully. Ingestion count: ${reading.meta.ingestion_count}`);
+  throw new Error('BATCH_MODIFIED');
+};
 
-  } else {
-    // === CREATE LOGIC ===
-    // No reading exists, create new one
-    logger.info(`Creating new reading: ${reading_id}`);
+/**
+ * Uploads samples a device buffered while it was offline. Timestamps may go
+ * back the device's backfill window. Samples are grouped by batch window and
+ * each batch is written once; every sample is accepted or rejected on its own.
+ * The upload is not atomic: a batch that cannot be written rejects its own
+ * samples while the other batches are kept. Samples with a sequence or
+ * idempotency_key are recognised when the upload is sent again, and answered
+ * as accepted without being stored twice.
+ */
+export const ingestBulkReadings = async (
+  owner_id: string,
+  request: BulkIngestionRequest
+): Promise<BulkIngestionResult> => {
+  const { device_id, samples } = request ?? ({} as BulkIngestionRequest);
+  if (!Array.isArray(samples) || samples.length === 0) {
+    throw new Error('VALIDATION_ERROR: samples must be a non-empty array');
+  }
+  if (samples.length > BACKFILL_CONFIG.BULK_MAX_SAMPLES) {
+    throw new Error(`VALIDATION_ERROR: At most ${BACKFILL_CONFIG.BULK_MAX_SAMPLES} samples per upload`);
+  }
 
-    // Create plain objects (Mixed schema type)
-    const sensor_data: any = {};
-    const data_points_count: any = {};
+  const device = await Device.findOne({ device_id }).lean<IDevice>();
+  if (!device) {
+    throw new Error('DEVICE_NOT_FOUND');
+  }
+  if (device.owner_id !== owner_id) {
+    throw new Error('UNAUTHORIZED_DEVICE');
+  }
+  if (device.status !== 'active') {
+    throw new Error('VALIDATION_ERROR: Device is not active');
+  }
+
+  const maxAgeSeconds = device.backfill_window_seconds ?? BACKFILL_CONFIG.DEFAULT_WINDOW_SECONDS;
+  const calibration = await getActiveCalibrationProfile(device_id);
+
+  const results: BulkSampleResult[] = samples.map((_, index) => ({ index, status: 'accepted' }));
+  const reject = (index: number, code: BulkSampleRejection, message: string, reading_id?: string) => {
+    results[index] = { index, status: 'rejected', reading_id, error: { code, message } };
+  };
+  // Keys of samples that carry a sequence or idempotency_key, by index
+  const keys: Array<AcceptedSample['idempotency']> = [];
+  // A sample sent again with the same key gets the batch it was first stored in
+  const replay = (index: number, reading_id: string, record: IdempotencyRecord) => {
+    if (record.request_hash !== keys[index]!.request_hash) {
+      reject(index, 'IDEMPOTENCY_KEY_REUSED', 'Key was already used for a different sample', reading_id);
+      return;
+    }
+    results[index] = { index, status: 'accepted', reading_id, replayed: true };
+  };
+
+  // Group valid samples by the batch they belong to, oldest batch first
+  const batches = new Map<string, { batch_window: BatchWindow; indexes: number[] }>();
+  const uploadKeys = new Set<string>();
+  const windowMinutes = resolveBatchWindowMinutes(device);
+  samples.forEach((sample, index) => {
+    const error = checkSample(device, sample, maxAgeSeconds);
+    if (error) {
+      reject(index, 'INVALID_SAMPLE', error);
+      return;
+    }
+    let key: string | null;
+    try {
+      key = toIdempotencyKey(sample.idempotency_key, sample.sequence);
+    } catch (keyError: any) {
+      const message = keyError.message.replace('VALIDATION_ERROR: ', '').replace(IDEMPOTENCY_CONFIG.HEADER, 'idempotency_key');
+      reject(index, 'INVALID_SAMPLE', message);
+      return;
+    }
+    if (key) {
+      if (uploadKeys.has(key)) {
+        reject(index, 'INVALID_SAMPLE', 'sequence or idempotency_key repeats an earlier sample of this upload');
+        return;
+      }
+      uploadKeys.add(key);
+      keys[index] = {
+        key,
+        request_hash: computeContentHash({
+          sensor_data: sample.sensor_data,
+          units: sample.units,
+          timestamp: new Date(sample.timestamp).getTime()
+        })
+      };
+    }
+    const batch_window = getCurrentBatchWindow(new Date(sample.timestamp), windowMinutes);
+    const reading_id = generateReadingId(device_id, batch_window, device.ownership_epoch);
+    const batch = batches.get(reading_id) ?? { batch_window, indexes: [] };
+    batch.indexes.push(index);
+    batches.set(reading_id, batch);
+  });
+  const ordered = [...batches].sort(([, a], [, b]) => a.batch_window.start.getTime() - b.batch_window.start.getTime());
+
+  const readings: BulkIngestionResult['readings'] = [];
+  const sensorTypes = new Set<string>();
+
+  for (const [primary_reading_id, { batch_window, indexes: grouped }] of ordered) {
+    const existing = await AQIReading.findOne({ reading_id: primary_reading_id }).lean<IAQIReading>();
+
+    // Samples stored by an earlier attempt of this upload, answered before their nonces are checked again
+    const indexes: number[] = [];
+    for (const index of grouped) {
+      const seen = existing && keys[index] ? await findIdempotencyRecord(existing, keys[index]!.key) : null;
+      if (seen) {
+        replay(index, seen.reading.reading_id, seen.record);
+      } else {
+        indexes.push(index);
+      }
+    }
+    if (indexes.length === 0) {
+      continue;
+    }
 
-    for (const [sensorType, value] of Object.entries(request.sensor_data)) {
-      sensor_data[sensorType] = [value];
-      data_points_count[sensorType] = 1;
+    const target = await resolveBatchTarget(existing, primary_reading_id, batch_window);
+    if (!target) {
+      indexes.forEach(index => reject(index, 'BATCH_ALREADY_PROCESSED', BATCH_PROCESSED_MESSAGE, primary_reading_id));
+      continue;
+    }
+    const { reading_id } = target;
+
+    // Cap before the signature check, so rejected samples keep their nonces
+    const limit = getBatchSampleLimit(batch_window);
+    const room = limit - target.ingestion_count;
+    const accepted: Array<AcceptedSample & { index: number }> = [];
+    // A batch that cannot be verified or written rejects its own samples and gives their nonces back
+    const failBatch = async (code: BulkSampleRejection, message: string, unchecked: number[] = []) => {
+      await releaseReadingNonces(device_id, accepted.flatMap(({ signature }) => signature ? [signature] : []));
+      [...accepted.map(({ index }) => index), ...unchecked].forEach(index => reject(index, code, message, reading_id));
+    };
+    let verifyFailed = false;
+    for (const [position, index] of indexes.entries()) {
+      if (accepted.length >= room) {
+        reject(
+          index,
+          'BATCH_SAMPLE_LIMIT_REACHED',
+          `Batch window already holds ${limit} samples`,
+          reading_id
+        );
+        continue;
+      }
+
+      const sample = samples[index];
+      try {
+        const signature = await verifySignedReading(device, { ...sample, device_id });
+        const sensor_data = canonicalSensorData(sample);
+        accepted.push({
+          index,
+          sensor_data,
+          timestamp: new Date(sample.timestamp).getTime(),
+          corrected: calibrateSample(calibration, sensor_data),
+          signature,
+          ...(keys[index] && { idempotency: keys[index] })
+        });
+      } catch (error: any) {
+        const rejection = toSampleRejection(error);
+        if (rejection) {
+          reject(index, rejection.code, rejection.message, reading_id);
+          continue;
+        }
+        // Holds for every sample, so it fails the first one, before any batch is written
+        if (error.message === 'SIGNING_KEY_NOT_REGISTERED') {
+          throw error;
+        }
+        // E.g. the nonce store is unreachable. Batches already written stay written, so only this one fails
+        logger.error(`Bulk upload for ${device_id}: failed to verify samples of ${reading_id}`, { error: error.message });
+        await failBatch('BATCH_WRITE_FAILED', BATCH_WRITE_FAILED_MESSAGE, indexes.slice(position));
+        verifyFailed = true;
+        break;
+      }
+    }
+
+    if (verifyFailed || accepted.length === 0) {
+      continue;
     }
 
-    reading = await AQIReading.create({
+    // Batches already written stay written, so a failed batch rejects its own samples instead of the upload
+    const stored = await storeBatchSamples(target, device, owner_id, accepted, calibration).catch(async (error: Error) => {
+      if (error.message === 'BATCH_MODIFIED') {
+        await failBatch('BATCH_MODIFIED', BATCH_MODIFIED_MESSAGE);
+      } else {
+        logger.error(`Bulk upload for ${device_id}: failed to store ${reading_id}`, { error: error.message });
+        await failBatch('BATCH_WRITE_FAILED', BATCH_WRITE_FAILED_MESSAGE);
+      }
+      return undefined;
+    });
+    if (stored === undefined) {
+      continue;
+    }
+    if (!stored) {
+      accepted.forEach(({ index }) => reject(index, 'BATCH_ALREADY_PROCESSED', BATCH_PROCESSED_MESSAGE, reading_id));
+      continue;
+    }
+
+    // A concurrent attempt of the same upload stored these first
+    const seenIndexes = new Set(stored.seen.map(({ sample }) => sample.index));
+    stored.seen.forEach(({ sample, record }) => replay(sample.index, reading_id, record));
+    const written = accepted.filter(({ index }) => !seenIndexes.has(index));
+    if (written.length === 0) {
+      continue;
+    }
+
+    for (const { index, sensor_data } of written) {
+      results[index] = { index, status: 'accepted', reading_id };
+      Object.keys(sensor_data).forEach(sensorType => sensorTypes.add(sensorType));
+    }
+    readings.push({
       reading_id,
-      device_id: request.device_id,
-      owner_id,
-      batch_window,
-      sensor_data,
-      meta: {
-        location: {
-          city: device.sensor_meta.city,
-          city_id: device.sensor_meta.city_id,
-          station: device.sensor_meta.station,
-          station_id: device.sensor_meta.station_id,
-          coordinates: device.sensor_meta.coordinates
-        },
-        ingestion_count: 1,
-        last_ingestion: new Date(),
-        data_points_count
-      },
-      status: 'PENDING',
-      processing: {}
+      batch_window: stored.reading.batch_window,
+      ingestion_count: stored.reading.meta.ingestion_count,
+      ...(target.supplement && { supplements: target.supplement.primary_reading_id })
     });
+  }
 
-    logger.info(`New reading created successfully`);
+  const acceptedCount = results.filter(result => result.status === 'accepted').length;
+  if (readings.length > 0) {
+    await recordDeviceHeartbeat(device, [...sensorTypes]);
   }
 
-  return reading;
+  logger.info(`Bulk upload for ${device_id}: ${acceptedCount} of ${samples.length} samples accepted`, {
+    batches: readings.length
+  });
+
+  return {
+    device_id,
+    accepted: acceptedCount,
+    rejected: samples.length - acceptedCount,
+    results,
+    readings
+  };
 };
 
 export const getDeviceReadings = async (
@@ -0,0 +1,174 @@
+import {
+  findAuditEvents,
+  findLatestAuditEvent,
+  insertAuditEvent,
+  streamAuditEvents,
+} from '@/database/audit.repository';
+import {
+  AuditAction,
+  AuditChainVerification,
+  AuditEventInput,
+  AuditEventPage,
+  AuditEventQuery,
+  IAuditEvent,
+} from '@/types/audit.types';
+import { AUDIT_CONFIG } from '@/config/constants';
+import { computeContentHash } from '@/utils/hash.utils';
+import { logger } from '@/utils/logger';
+
+export interface AuditService {
+  appendAuditEvent(input: AuditEventInput): Promise<IAuditEvent>;
+  recordAuditEvent(input: AuditEventInput): Promise<void>;
+  queryAuditEvents(query: AuditEventQuery): Promise<AuditEventPage>;
+  verifyAuditChain(): Promise<AuditChainVerification>;
+}
+
+// Appends from this process run one at a time so each sees the previous hash
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+const isAuditAction = (action: unknown): action is AuditAction =>
+  typeof action === 'string' && (AUDIT_CONFIG.ACTIONS as readonly string[]).includes(action);
+
+// Round-trip through JSON so the hashed value is exactly what Mongo hands back later
+const toPlain = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+/**
+ * Hash of an event: every field except hash itself, with dates as ISO strings.
+ */
+export const computeAuditHash = (event: Omit<IAuditEvent, 'hash'>): string =>
+  computeContentHash({
+    sequence: event.sequence,
+    actor: event.actor,
+    actor_type: event.actor_type,
+    action: event.action,
+    target: { type: event.target.type, id: event.target.id },
+    before: event.before,
+    after: event.after,
+    metadata: event.metadata,
+    ip_address: event.ip_address,
+    occurred_at: new Date(event.occurred_at).toISOString(),
+    prev_hash: event.prev_hash,
+  });
+
+const appendWithRetry = async (input: AuditEventInput): Promise<IAuditEvent> => {
+  for (let attempt = 0; attempt < AUDIT_CONFIG.APPEND_RETRIES; attempt++) {
+    const latest = await findLatestAuditEvent();
+    const event: Omit<IAuditEvent, 'hash'> = {
+      sequence: (latest?.sequence ?? 0) + 1,
+      actor: input.actor,
+      actor_type: input.actor_type ?? 'user',
+      action: input.action,
+      target: { type: input.target.type, id: input.target.id },
+      before: toPlain(input.before ?? null),
+      after: toPlain(input.after ?? null),
+      metadata: toPlain(input.metadata ?? {}),
+      ip_address: input.ip_address,
+      occurred_at: new Date(),
+      prev_hash: latest?.hash ?? AUDIT_CONFIG.GENESIS_HASH,
+    };
+
+    try {
+      return await insertAuditEvent({ ...event, hash: computeAuditHash(event) });
+    } catch (error: any) {
+      // Another instance took this sequence number: re-read the head and try again
+      if (error.code !== 11000) {
+        throw error;
+      }
+    }
+  }
+  throw new Error('AUDIT_APPEND_CONFLICT');
+};
+
+/**
+ * Appends an event to the chain. Throws if it could not be stored.
+ */
+export const appendAuditEvent = async (input: AuditEventInput): Promise<IAuditEvent> => {
+  const append = appendQueue.then(() => appendWithRetry(input));
+  appendQueue = append.catch(() => undefined);
+  return append;
+};
+
+/**
+ * Appends an event on behalf of a business action that already happened.
+ * A failed write must not fail the action, so it is reported instead of thrown.
+ */
+export const recordAuditEvent = async (input: AuditEventInput): Promise<void> => {
+  try {
+    await appendAuditEvent(input);
+  } catch (error: any) {
+    logger.notify(`Audit event ${input.action} could not be recorded`, {
+      event: 'AUDIT_WRITE_FAILED',
+      action: input.action,
+      actor: input.actor,
+      target: input.target,
+      error: error.message,
+    });
+  }
+};
+
+export const queryAuditEvents = async (query: AuditEventQuery): Promise<AuditEventPage> => {
+  if (query.action !== undefined && !isAuditAction(query.action)) {
+    throw new Error(`VALIDATION_ERROR: Unknown action '${query.action}'`);
+  }
+  for (const [name, date] of [['from', query.from], ['to', query.to]] as const) {
+    if (date !== undefined && isNaN(date.getTime())) {
+      throw new Error(`VALIDATION_ERROR: ${name} must be an ISO 8601 date`);
+    }
+  }
+  if (query.from && query.to && query.from > query.to) {
+    throw new Error('VALIDATION_ERROR: from must not be after to');
+  }
+  if (query.before_sequence !== undefined && (!Number.isInteger(query.before_sequence) || query.before_sequence < 1)) {
+    throw new Error('VALIDATION_ERROR: before_sequence must be a positive integer');
+  }
+
+  const limit = query.limit ?? AUDIT_CONFIG.DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > AUDIT_CONFIG.MAX_PAGE_SIZE) {
+    throw new Error(`VALIDATION_ERROR: limit must be an integer between 1 and ${AUDIT_CONFIG.MAX_PAGE_SIZE}`);
+  }
+
+  const events = await findAuditEvents({ ...query, actor: query.actor?.toLowerCase() }, limit);
+  return {
+    events,
+    next_cursor: events.length === limit ? events[events.length - 1].sequence : null,
+  };
+};
+
+/**
+ * Walks the whole chain and recomputes every hash. Reports the first event
+ * that was altered, removed or inserted out of order.
+ */
+export const verifyAuditChain = async (): Promise<AuditChainVerification> => {
+  let expectedSequence = 1;
+  let prevHash: string = AUDIT_CONFIG.GENESIS_HASH;
+
+  for await (const event of streamAuditEvents()) {
+    let reason: string | undefined;
+    if (event.sequence !== expectedSequence) {
+      reason = `Expected sequence ${expectedSequence}, found ${event.sequence}`;
+    } else if (event.prev_hash !== prevHash) {
+      reason = 'prev_hash does not match the previous event';
+    } else if (computeAuditHash(event) !== event.hash) {
+      reason = 'Event content does not match its hash';
+    }
+
+    if (reason) {
+      logger.notify('Audit log chain is broken', {
+        event: 'AUDIT_CHAIN_BROKEN',
+        sequence: expectedSequence,
+        reason,
+      });
+      return {
+        valid: false,
+        checked: expectedSequence - 1,
+        broken_at: expectedSequence,
+        reason,
+      };
+    }
+
+    prevHash = event.hash;
+    expectedSequence++;
+  }
+
+  return { valid: true, checked: expectedSequence - 1 };
+};
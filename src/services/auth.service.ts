@@ -1,23 +1,88 @@
-import { findOrCreateUser } from '@/database/user.repository';
+import { findOrCreateUser, updateUserRoles } from '@/database/user.repository';
+import { IUser } from '@/models/User';
 import { generateTokenPair, verifyRefreshToken, decodeToken, verifyAccessToken } from './token.service';
-import { storeAccessToken, storeRefreshToken, revokeRefreshToken } from '@/redis/token.repository';
-import { createOrUpdateSession, getSession, clearUserSession } from '@/redis/session.repository';
+import {
+  storeAccessToken,
+  storeRefreshToken,
+  revokeRefreshToken,
+  claimRefreshToken,
+  getRefreshToken,
+  getAccessToken,
+  addToTokenFamily,
+  getTokenFamily,
+  touchTokenFamily,
+  markTokenFamilyRevoked,
+} from '@/redis/token.repository';
+import {
+  createOrUpdateSession,
+  getSession,
+  clearUserSession,
+  addTokenToSession,
+  removeTokenFromSession,
+} from '@/redis/session.repository';
 import { addToBlacklist } from '@/redis/blacklist.repository';
-import { LoginResponse, RefreshTokenResponse, TokenValidationResult } from '@/types/auth.types';
-import { DEVICE_LIMIT } from '@/config/constants';
+import { recordAuditEvent } from './audit.service';
+import { getDeviceQuota } from './quota.service';
+import {
+  ClientContext,
+  LoginResponse,
+  RefreshTokenResponse,
+  SessionInfo,
+  TokenValidationResult,
+} from '@/types/auth.types';
+import { RedisBlacklistedToken } from '@/types/redis.types';
+import { UserRole } from '@/types/user.types';
+import { RBAC_CONFIG } from '@/config/constants';
 import { AccessTokenPayload, RefreshTokenPayload } from '@/types/token.types';
+import { logger } from '@/utils/logger';
 
 export interface AuthService {
-  authenticateUser(wallet_address: string): Promise<LoginResponse>;
-  refreshAccessToken(refresh_token: string): Promise<RefreshTokenResponse>;
+  authenticateUser(wallet_address: string, client?: ClientContext): Promise<LoginResponse>;
+  refreshAccessToken(refresh_token: string, client?: ClientContext): Promise<RefreshTokenResponse>;
   logoutUser(walletAddress: string, access_token: string): Promise<void>;
   validateSession(access_token: string): Promise<TokenValidationResult>;
+  revokeTokenFamily(token_family: string, walletAddress: string, reason?: RedisBlacklistedToken['reason']): Promise<number>;
+  listUserSessions(walletAddress: string, current_family?: string): Promise<SessionInfo[]>;
+  revokeSession(walletAddress: string, jti: string): Promise<void>;
+  revokeAllUserSessions(walletAddress: string, reason?: RedisBlacklistedToken['reason']): Promise<void>;
+  touchSession(token_family: string, ip_address?: string): Promise<void>;
 }
 
-export const authenticateUser = async (wallet_address: string): Promise<LoginResponse> => {
-  const user = await findOrCreateUser(wallet_address);
-  const limited = user.devices.length >= DEVICE_LIMIT;
-  const tokens = await generateTokenPair(user.walletAddress);
+/**
+ * Roles of a user. Accounts created before roles existed have none stored
+ * and fall back to the defaults.
+ */
+export const getUserRoles = (user: Pick<IUser, 'roles'>): UserRole[] =>
+  user.roles?.length ? user.roles : [...RBAC_CONFIG.DEFAULT_ROLES];
+
+const applyBootstrapAdmin = async (user: IUser): Promise<IUser> => {
+  const roles = getUserRoles(user);
+  if (!RBAC_CONFIG.BOOTSTRAP_ADMINS.includes(user.walletAddress) || roles.includes('admin')) {
+    return user;
+  }
+
+  const updated = await updateUserRoles(user.walletAddress, [...roles, 'admin'], {
+    roles: [...roles, 'admin'],
+    previous_roles: roles,
+    changed_by: 'bootstrap',
+    changed_at: new Date(),
+    reason: 'Listed in ADMIN_WALLET_ADDRESSES',
+  });
+  logger.notify(`Bootstrap admin role granted to ${user.walletAddress}`, {
+    event: 'USER_ROLES_CHANGED',
+    walletAddress: user.walletAddress,
+    changed_by: 'bootstrap',
+    previous_roles: roles,
+    roles: [...roles, 'admin'],
+  });
+  return updated || user;
+};
+
+export const authenticateUser = async (wallet_address: string, client: ClientContext = {}): Promise<LoginResponse> => {
+  const user = await applyBootstrapAdmin(await findOrCreateUser(wallet_address));
+  const roles = getUserRoles(user);
+  const { limit_reached: limited } = await getDeviceQuota(user.walletAddress, user.quota_tier);
+  const tokens = await generateTokenPair(user.walletAddress, undefined, roles);
 
   const accessTokenPayload = decodeToken(tokens.access_token) as AccessTokenPayload;
   const refreshTokenPayload = decodeToken(tokens.refresh_token) as RefreshTokenPayload;
@@ -28,6 +93,9 @@ export const authenticateUser = async (wallet_address: string): Promise<LoginRes
     issued_at: accessTokenPayload.iat,
     expires_at: accessTokenPayload.exp,
     device_count: user.devices.length,
+    token_family: refreshTokenPayload.token_family,
+    ip_address: client.ip_address,
+    user_agent: client.user_agent,
   });
 
   await storeRefreshToken(refreshTokenPayload.jti, {
@@ -36,8 +104,18 @@ export const authenticateUser = async (wallet_address: string): Promise<LoginRes
     token_family: refreshTokenPayload.token_family,
     issued_at: refreshTokenPayload.iat,
     expires_at: refreshTokenPayload.exp,
+    access_jti: accessTokenPayload.jti,
     revoked: false,
+    ip_address: client.ip_address,
+    user_agent: client.user_agent,
   });
+  await addToTokenFamily(
+    refreshTokenPayload.token_family,
+    user.walletAddress,
+    refreshTokenPayload.jti,
+    accessTokenPayload.jti,
+    client
+  );
 
   const session = await getSession(user.walletAddress);
   const newSession = {
@@ -50,35 +128,82 @@ export const authenticateUser = async (wallet_address: string): Promise<LoginRes
   };
   await createOrUpdateSession(user.walletAddress, newSession);
 
+  await recordAuditEvent({
+    actor: user.walletAddress,
+    action: 'auth.login',
+    target: { type: 'session', id: refreshTokenPayload.token_family },
+    after: { roles },
+    metadata: { user_agent: client.user_agent },
+    ip_address: client.ip_address,
+  });
+
   return {
     walletAddress: user.walletAddress,
     devices: user.devices,
+    roles,
     limited,
     tokens,
   };
 };
 
-export const refreshAccessToken = async (refresh_token: string): Promise<RefreshTokenResponse> => {
+const handleRefreshTokenReuse = async ({ walletAddress, jti, token_family }: RefreshTokenPayload): Promise<never> => {
+  const revokedCount = await revokeTokenFamily(token_family, walletAddress);
+  logger.notify(`Refresh token reuse detected for ${walletAddress}`, {
+    event: 'REFRESH_TOKEN_REUSE',
+    walletAddress,
+    jti,
+    token_family,
+    revoked_tokens: revokedCount,
+  });
+  throw new Error('TOKEN_REUSE_DETECTED');
+};
+
+export const refreshAccessToken = async (
+  refresh_token: string,
+  client: ClientContext = {}
+): Promise<RefreshTokenResponse> => {
   const validation = await verifyRefreshToken(refresh_token);
+
+  // A correctly signed token that was already rotated means it was copied: burn every
+  // token descended from the same login. Tokens revoked by logout or a revocation are just refused.
+  if (validation.revoked && validation.payload) {
+    if (validation.revoked_reason === 'refresh') {
+      return handleRefreshTokenReuse(validation.payload as RefreshTokenPayload);
+    }
+    throw new Error('TOKEN_REVOKED');
+  }
+
   if (!validation.valid || !validation.payload) {
     throw new Error('TOKEN_INVALID');
   }
 
+  // Check and rotation are one atomic claim; a request that loses the race presented a used token
   const { walletAddress, jti, token_family } = validation.payload as RefreshTokenPayload;
+  const claim = await claimRefreshToken(jti);
+  if (!claim.success) {
+    throw new Error('TOKEN_INVALID');
+  }
+  if (!claim.data) {
+    return handleRefreshTokenReuse(validation.payload as RefreshTokenPayload);
+  }
   await revokeRefreshToken(jti, 'refresh');
 
-  const tokens = await generateTokenPair(walletAddress);
+  // Re-read the user so role changes reach the new access token
+  const user = await findOrCreateUser(walletAddress);
+
+  const tokens = await generateTokenPair(walletAddress, token_family, getUserRoles(user));
   const accessTokenPayload = decodeToken(tokens.access_token) as AccessTokenPayload;
   const refreshTokenPayload = decodeToken(tokens.refresh_token) as RefreshTokenPayload;
 
-  const user = await findOrCreateUser(walletAddress);
-
   await storeAccessToken(accessTokenPayload.jti, {
     walletAddress,
     jti: accessTokenPayload.jti,
     issued_at: accessTokenPayload.iat,
     expires_at: accessTokenPayload.exp,
     device_count: user.devices.length,
+    token_family,
+    ip_address: client.ip_address,
+    user_agent: client.user_agent,
   });
 
   await storeRefreshToken(refreshTokenPayload.jti, {
@@ -88,29 +213,141 @@ export const refreshAccessToken = async (refresh_token: string): Promise<Refresh
     issued_at: refreshTokenPayload.iat,
     expires_at: refreshTokenPayload.exp,
     parent_jti: jti,
+    access_jti: accessTokenPayload.jti,
     revoked: false,
+    ip_address: client.ip_address,
+    user_agent: client.user_agent,
   });
-  
+  await addToTokenFamily(token_family, walletAddress, refreshTokenPayload.jti, accessTokenPayload.jti, client);
+
+  await removeTokenFromSession(walletAddress, jti, 'refresh');
+  await addTokenToSession(walletAddress, accessTokenPayload.jti, 'access');
+  await addTokenToSession(walletAddress, refreshTokenPayload.jti, 'refresh');
+
   return {
     access_token: tokens.access_token,
     refresh_token: tokens.refresh_token,
   };
 };
 
-export const logoutUser = async (walletAddress: string, access_token: string): Promise<void> => {
+/**
+ * Revokes every refresh token and blacklists every access token issued in a family.
+ * @returns The number of tokens revoked.
+ */
+export const revokeTokenFamily = async (
+  token_family: string,
+  walletAddress: string,
+  reason: RedisBlacklistedToken['reason'] = 'security'
+): Promise<number> => {
+  const family = await getTokenFamily(token_family);
+  if (!family.success || !family.data) {
+    return 0;
+  }
+
+  const { refresh_jtis, access_jtis } = family.data;
+  for (const jti of refresh_jtis) {
+    await revokeRefreshToken(jti, reason);
+    await removeTokenFromSession(walletAddress, jti, 'refresh');
+  }
+  for (const jti of access_jtis) {
+    await addToBlacklist(jti, { jti, walletAddress, revoked_at: Date.now(), reason });
+    await removeTokenFromSession(walletAddress, jti, 'access');
+  }
+  await markTokenFamilyRevoked(token_family);
+
+  return refresh_jtis.length + access_jtis.length;
+};
+
+/**
+ * Lists the live logins of a wallet, one entry per token family.
+ */
+export const listUserSessions = async (walletAddress: string, current_family?: string): Promise<SessionInfo[]> => {
+  const session = await getSession(walletAddress);
+  if (!session.success || !session.data) {
+    return [];
+  }
+
+  const sessions: SessionInfo[] = [];
+  for (const jti of session.data.active_refresh_tokens) {
+    const refresh = await getRefreshToken(jti);
+    if (!refresh.success || !refresh.data) {
+      continue;
+    }
+    const family = await getTokenFamily(refresh.data.token_family);
+    if (!family.success || !family.data || family.data.revoked_at) {
+      continue;
+    }
+    sessions.push({
+      jti,
+      token_family: family.data.token_family,
+      issued_at: new Date(family.data.created_at).toISOString(),
+      last_used_at: new Date(family.data.last_used_at || family.data.created_at).toISOString(),
+      ip_address: family.data.ip_address,
+      user_agent: family.data.user_agent,
+      last_ip_address: family.data.last_ip_address,
+      current: family.data.token_family === current_family,
+    });
+  }
+
+  return sessions.sort((a, b) => b.last_used_at.localeCompare(a.last_used_at));
+};
+
+/**
+ * Signs out a single login. Accepts the refresh or access token JTI of any
+ * token in the session; other logins of the wallet stay signed in.
+ */
+export const revokeSession = async (walletAddress: string, jti: string): Promise<void> => {
+  const refresh = await getRefreshToken(jti);
+  let token_family = refresh.data?.walletAddress === walletAddress ? refresh.data.token_family : undefined;
+  if (!token_family) {
+    const access = await getAccessToken(jti, walletAddress);
+    token_family = access.data?.token_family;
+  }
+  if (!token_family) {
+    throw new Error('SESSION_NOT_FOUND');
+  }
+
+  const family = await getTokenFamily(token_family);
+  if (!family.success || !family.data || family.data.walletAddress !== walletAddress || family.data.revoked_at) {
+    throw new Error('SESSION_NOT_FOUND');
+  }
+
+  await revokeTokenFamily(token_family, walletAddress, 'logout');
+};
+
+export const touchSession = async (token_family: string, ip_address?: string): Promise<void> => {
+  await touchTokenFamily(token_family, ip_address);
+};
+
+/**
+ * Revokes every token of every login of a wallet.
+ */
+export const revokeAllUserSessions = async (
+  walletAddress: string,
+  reason: RedisBlacklistedToken['reason'] = 'logout'
+): Promise<void> => {
   const session = await getSession(walletAddress);
   if (session.success && session.data) {
     const { active_access_tokens, active_refresh_tokens } = session.data;
     for (const jti of active_access_tokens) {
-      await addToBlacklist(jti, { jti, walletAddress, revoked_at: Date.now(), reason: 'logout' });
+      await addToBlacklist(jti, { jti, walletAddress, revoked_at: Date.now(), reason });
     }
     for (const jti of active_refresh_tokens) {
-      await revokeRefreshToken(jti, 'logout');
+      await revokeRefreshToken(jti, reason);
     }
     await clearUserSession(walletAddress);
   }
 };
 
+export const logoutUser = async (walletAddress: string, access_token: string): Promise<void> => {
+  await revokeAllUserSessions(walletAddress);
+  await recordAuditEvent({
+    actor: walletAddress,
+    action: 'auth.logout',
+    target: { type: 'user', id: walletAddress },
+  });
+};
+
 export const validateSession = async (access_token: string): Promise<TokenValidationResult> => {
   const validation = await verifyAccessToken(access_token);
   if (!validation.valid) {
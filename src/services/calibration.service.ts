@@ -0,0 +1,190 @@
+import CalibrationProfile from '@/models/CalibrationProfile';
+import Device from '@/models/Device';
+import { getSensorDefinition, getStationById } from './config.service';
+import { recordAuditEvent } from './audit.service';
+import { ICalibrationProfile, SensorCalibration, SetCalibrationRequest } from '@/types/device.types';
+import { UserRole } from '@/types/user.types';
+import { CALIBRATION_CONFIG } from '@/config/constants';
+
+export interface CalibrationService {
+  setCalibrationProfile(actor: string, roles: UserRole[], device_id: string, request: SetCalibrationRequest): Promise<ICalibrationProfile>;
+  listCalibrationProfiles(actor: string, roles: UserRole[], device_id: string): Promise<ICalibrationProfile[]>;
+  getActiveCalibrationProfile(device_id: string): Promise<ICalibrationProfile | null>;
+  calibrateSample(profile: ICalibrationProfile | null, sensor_data: Record<string, number>): Record<string, number>;
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Owners manage their own devices, operators and admins any device
+ */
+const findManagedDevice = async (actor: string, roles: UserRole[], device_id: string) => {
+  const device = await Device.findOne({ device_id });
+  const isManager = roles.some(role => (CALIBRATION_CONFIG.MANAGER_ROLES as readonly string[]).includes(role));
+  if (!device || (device.owner_id !== actor && !isManager)) {
+    throw new Error('DEVICE_NOT_FOUND');
+  }
+  return device;
+};
+
+const validateSensorCalibration = (sensor_type: string, calibration: SensorCalibration): SensorCalibration => {
+  const { gain, offset, humidity_correction } = calibration ?? ({} as SensorCalibration);
+
+  if (!isFiniteNumber(gain) || gain <= 0) {
+    throw new Error(`VALIDATION_ERROR: gain for ${sensor_type} must be a positive number`);
+  }
+  if (!isFiniteNumber(offset)) {
+    throw new Error(`VALIDATION_ERROR: offset for ${sensor_type} must be a number`);
+  }
+  if (humidity_correction === undefined) {
+    return { gain, offset };
+  }
+
+  if (!(CALIBRATION_CONFIG.HUMIDITY_CORRECTED_SENSORS as readonly string[]).includes(sensor_type)) {
+    throw new Error(
+      `VALIDATION_ERROR: humidity_correction only applies to ${CALIBRATION_CONFIG.HUMIDITY_CORRECTED_SENSORS.join(', ')}`
+    );
+  }
+  const { kappa } = humidity_correction ?? {};
+  if (!isFiniteNumber(kappa) || kappa <= 0 || kappa > CALIBRATION_CONFIG.MAX_KAPPA) {
+    throw new Error(
+      `VALIDATION_ERROR: humidity_correction.kappa for ${sensor_type} must be greater than 0 and at most ${CALIBRATION_CONFIG.MAX_KAPPA}`
+    );
+  }
+  return { gain, offset, humidity_correction: { kappa } };
+};
+
+const toAuditState = (profile: ICalibrationProfile): Record<string, unknown> => ({
+  version: profile.version,
+  sensors: profile.sensors,
+  reference_station_id: profile.reference_station_id,
+});
+
+/**
+ * Stores a new calibration version for a device. Samples ingested from now on
+ * are corrected with it; batches already holding samples keep their corrected values.
+ */
+export const setCalibrationProfile = async (
+  actor: string,
+  roles: UserRole[],
+  device_id: string,
+  request: SetCalibrationRequest
+): Promise<ICalibrationProfile> => {
+  const { sensors, reference_station_id, note } = request ?? ({} as SetCalibrationRequest);
+  if (!sensors || typeof sensors !== 'object' || Array.isArray(sensors)) {
+    throw new Error('VALIDATION_ERROR: sensors must be an object keyed by sensor type');
+  }
+
+  const device = await findManagedDevice(actor, roles, device_id);
+  if (device.status === 'decommissioned') {
+    throw new Error('DEVICE_DECOMMISSIONED');
+  }
+
+  const declared = device.sensor_meta.sensor_types;
+  const validated: Record<string, SensorCalibration> = {};
+  for (const [sensor_type, calibration] of Object.entries(sensors)) {
+    if (!declared.includes(sensor_type)) {
+      throw new Error(`VALIDATION_ERROR: Device does not report ${sensor_type}`);
+    }
+    validated[sensor_type] = validateSensorCalibration(sensor_type, calibration);
+  }
+
+  if (reference_station_id !== undefined && !getStationById(reference_station_id)) {
+    throw new Error(`VALIDATION_ERROR: Unknown reference station ${reference_station_id}`);
+  }
+
+  const previous = await getActiveCalibrationProfile(device_id);
+
+  let profile: ICalibrationProfile;
+  try {
+    const created = await CalibrationProfile.create({
+      device_id,
+      version: (previous?.version ?? 0) + 1,
+      sensors: validated,
+      reference_station_id,
+      note,
+      created_by: actor,
+      created_at: new Date(),
+    });
+    profile = created.toObject();
+  } catch (error: any) {
+    // Someone else stored the same version first
+    if (error.code === 11000) {
+      throw new Error('DEVICE_MODIFIED');
+    }
+    throw error;
+  }
+
+  await recordAuditEvent({
+    actor,
+    action: 'device.calibration_updated',
+    target: { type: 'device', id: device_id },
+    before: previous && toAuditState(previous),
+    after: toAuditState(profile),
+    metadata: { owner_id: device.owner_id, note },
+  });
+  return profile;
+};
+
+/**
+ * Calibration versions of a device, newest first
+ */
+export const listCalibrationProfiles = async (
+  actor: string,
+  roles: UserRole[],
+  device_id: string
+): Promise<ICalibrationProfile[]> => {
+  await findManagedDevice(actor, roles, device_id);
+  return CalibrationProfile.find({ device_id })
+    .sort({ version: -1 })
+    .limit(CALIBRATION_CONFIG.PAGE_SIZE)
+    .lean<ICalibrationProfile[]>();
+};
+
+export const getActiveCalibrationProfile = async (device_id: string): Promise<ICalibrationProfile | null> => {
+  return CalibrationProfile.findOne({ device_id })
+    .sort({ version: -1 })
+    .lean<ICalibrationProfile>();
+};
+
+/**
+ * Corrected values for one sample. Sensors without a calibration keep their raw
+ * value. The humidity correction needs an RH value in the same sample and is
+ * skipped without one.
+ */
+export const calibrateSample = (
+  profile: ICalibrationProfile | null,
+  sensor_data: Record<string, number>
+): Record<string, number> => {
+  const rawHumidity = sensor_data[CALIBRATION_CONFIG.HUMIDITY_SENSOR];
+  const humidity = isFiniteNumber(rawHumidity)
+    ? Math.min(Math.max(rawHumidity, 0), CALIBRATION_CONFIG.MAX_RELATIVE_HUMIDITY) / 100
+    : undefined;
+
+  const corrected: Record<string, number> = {};
+  for (const [sensor_type, value] of Object.entries(sensor_data)) {
+    const calibration = profile?.sensors[sensor_type];
+    if (!calibration) {
+      corrected[sensor_type] = value;
+      continue;
+    }
+
+    let adjusted = value;
+    if (calibration.humidity_correction && humidity !== undefined) {
+      adjusted = adjusted / (1 + calibration.humidity_correction.kappa * humidity / (1 - humidity));
+    }
+    // Only sensors that cannot read negative are clamped; a Temperature may well be below 0
+    const calibrated = calibration.gain * adjusted + calibration.offset;
+    const min = getSensorDefinition(sensor_type)?.min;
+    corrected[sensor_type] = min !== undefined && min >= 0 ? Math.max(min, calibrated) : calibrated;
+  }
+  return corrected;
+};
+
+export const calibrationService: CalibrationService = {
+  setCalibrationProfile,
+  listCalibrationProfiles,
+  getActiveCalibrationProfile,
+  calibrateSample,
+};
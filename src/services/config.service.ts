@@ -1,30 +1,73 @@
-import { CityConfig, StationConfig, StationsConfig } from '@/types/device.types';
+import { CityConfig, IStationCatalog, SensorDefinition, StationConfig, StationsConfig } from '@/types/device.types';
+import {
+  findLatestStationCatalog,
+  findLatestStationCatalogVersion,
+  insertStationCatalog,
+  syncStationLocations,
+} from '@/database/station-catalog.repository';
 import sensorPresetConfig from '../../data/sensor_preset.json';
 
-let config: StationsConfig = sensorPresetConfig as StationsConfig;
+// Bundled presets: seed an empty catalog and serve lookups until the first load
+const bundledConfig = sensorPresetConfig as StationsConfig;
+
+let config: StationsConfig = bundledConfig;
+let catalogVersion = 0; // 0 until the catalog has been loaded from the database
 
 export interface ConfigService {
   loadStationsConfig(): StationsConfig;
+  getCatalogVersion(): number;
   getAvailableCities(): CityConfig[];
   getStationsByCity(city_id: string): StationConfig[];
   getStationById(station_id: string): StationConfig | null;
   getAvailableSensors(station_id: string): string[];
-  reloadConfig(): void;
+  getSensorDefinition(sensor_type: string): SensorDefinition | null;
+  applyStationCatalog(catalog: IStationCatalog): void;
+  reloadConfig(): Promise<StationsConfig>;
+  refreshConfig(): Promise<boolean>;
 }
 
+const isActiveStation = (station: StationConfig): boolean => station.status !== 'retired';
+
+const setCatalog = (catalog: IStationCatalog): void => {
+  config = {
+    version: String(catalog.version),
+    last_updated: new Date(catalog.created_at).toISOString(),
+    // Versions stored before sensors were part of the catalog use the bundled definitions
+    sensors: catalog.sensors?.length ? catalog.sensors : bundledConfig.sensors,
+    cities: catalog.cities,
+  };
+  catalogVersion = catalog.version;
+};
+
+/**
+ * Full catalog, retired stations included
+ */
 export const loadStationsConfig = (): StationsConfig => {
   return config;
 };
 
+export const getCatalogVersion = (): number => {
+  return catalogVersion;
+};
+
+/**
+ * Cities with the stations open to new devices. Cities whose stations are
+ * all retired are left out.
+ */
 export const getAvailableCities = (): CityConfig[] => {
-  return config.cities;
+  return config.cities
+    .map(city => ({ ...city, stations: city.stations.filter(isActiveStation) }))
+    .filter(city => city.stations.length > 0);
 };
 
 export const getStationsByCity = (city_id: string): StationConfig[] => {
   const city = config.cities.find(c => c.city_id === city_id);
-  return city ? city.stations : [];
+  return city ? city.stations.filter(isActiveStation) : [];
 };
 
+/**
+ * Also finds retired stations, which existing devices and readings still refer to
+ */
 export const getStationById = (station_id: string): StationConfig | null => {
   for (const city of config.cities) {
     const station = city.stations.find(s => s.station_id === station_id);
@@ -40,17 +83,76 @@ export const getAvailableSensors = (station_id: string): string[] => {
   return station ? station.available_sensors.map(s => s.sensor_type) : [];
 };
 
-export const reloadConfig = (): void => {
-  // This is a simple implementation. In a real app, you might want to
-  // re-read the file from disk. For now, we just re-assign it.
-  config = sensorPresetConfig as StationsConfig;
+export const getSensorDefinition = (sensor_type: string): SensorDefinition | null => {
+  return config.sensors.find(sensor => sensor.sensor_type === sensor_type) ?? null;
+};
+
+/**
+ * Serves a catalog this process just wrote, unless a newer one is already loaded.
+ */
+export const applyStationCatalog = (catalog: IStationCatalog): void => {
+  if (catalog.version > catalogVersion) {
+    setCatalog(catalog);
+  }
+};
+
+const seedStationCatalog = async (): Promise<IStationCatalog> => {
+  try {
+    return await insertStationCatalog({
+      version: 1,
+      sensors: bundledConfig.sensors,
+      cities: bundledConfig.cities,
+      action: 'seeded',
+      changed_by: 'seed',
+      reason: `data/sensor_preset.json ${bundledConfig.version}`,
+      created_at: new Date(),
+    });
+  } catch (error: any) {
+    // Another instance seeded the catalog first
+    if (error.code === 11000) {
+      const latest = await findLatestStationCatalog();
+      if (latest) {
+        return latest;
+      }
+    }
+    throw error;
+  }
+};
+
+/**
+ * Loads the latest catalog from the database, seeding it from the bundled
+ * presets when the collection is empty, and brings the station location
+ * index up to it.
+ */
+export const reloadConfig = async (): Promise<StationsConfig> => {
+  const catalog = (await findLatestStationCatalog()) ?? (await seedStationCatalog());
+  await syncStationLocations(catalog);
+  setCatalog(catalog);
+  return config;
+};
+
+/**
+ * Reloads only if the stored version differs from the one being served.
+ * Returns whether anything was reloaded.
+ */
+export const refreshConfig = async (): Promise<boolean> => {
+  const latest = await findLatestStationCatalogVersion();
+  if (latest !== null && latest === catalogVersion) {
+    return false;
+  }
+  await reloadConfig();
+  return true;
 };
 
 export const configService: ConfigService = {
     loadStationsConfig,
+    getCatalogVersion,
     getAvailableCities,
     getStationsByCity,
     getStationById,
     getAvailableSensors,
+    getSensorDefinition,
+    applyStationCatalog,
     reloadConfig,
+    refreshConfig,
 };
@@ -4,13 +4,48 @@ import * as ipfsService from './ipfs.service';
 import * as llmService from './llm.service';
 import { LLM_CONFIG } from '../config/constants';
 import { buildMerkleTree } from '../utils/merkle.utils';
+import { getBatchWindowMinutes } from '../utils/time-window.utils';
 import { getDeterministicContentHash } from '../utils/hash.utils';
 import { logger } from '../utils/logger';
 import { Types } from 'mongoose';
 import moment from 'moment';
-import { IDerivative } from '@/types/derivative.types';
+import { DerivativeStaleness, IDerivative } from '@/types/derivative.types';
 import AQIReading from '../models/AQIReading';
 
+/**
+ * Staleness of a derivative about to be built from these batches: late samples
+ * of their windows that went into supplemental batches it does not include
+ */
+export const getDerivativeStaleness = async (parent_data_ids: string[]): Promise<DerivativeStaleness | undefined> => {
+  const supplemented = await AQIReading.find({
+    reading_id: { $in: parent_data_ids },
+    'supplemental_reading_ids.0': { $exists: true }
+  })
+    .select('supplemental_reading_ids')
+    .lean<Array<Pick<IAQIReading, 'supplemental_reading_ids'>>>();
+
+  const missing = supplemented
+    .flatMap(reading => reading.supplemental_reading_ids ?? [])
+    .filter(reading_id => !parent_data_ids.includes(reading_id));
+  return missing.length ? { since: new Date(), supplemental_reading_ids: missing } : undefined;
+};
+
+/**
+ * Lowest quality score among the batches a derivative is built from, kept on it
+ * for the marketplace quality filter. Undefined while any of them is unassessed.
+ */
+export const getMinParentQualityScore = async (parent_data_ids: string[]): Promise<number | undefined> => {
+  const parents = await AQIReading.find({ reading_id: { $in: parent_data_ids } })
+    .select('quality.score')
+    .lean<Array<Pick<IAQIReading, 'quality'>>>();
+
+  const scores = parents.map(reading => reading.quality?.score);
+  if (scores.length === 0 || scores.length < new Set(parent_data_ids).size || scores.some(score => score === undefined)) {
+    return undefined;
+  }
+  return (scores as number[]).reduce((min, score) => Math.min(min, score));
+};
+
 /**
  * Orchestrates the generation of AI-ready derivatives from verified AQI readings.
  * @param readings An array of AQIReading documents with status 'VERIFIED'.
@@ -33,10 +68,14 @@ export const generateDerivatives = async (readings: IAQIReading[]): Promise<void
 
       // 3. Save the new derivative to the database
       const parentDataIds = dayReadings.map(r => r.reading_id);
+      const stale = await getDerivativeStaleness(parentDataIds);
+      const minQualityScore = await getMinParentQualityScore(parentDataIds);
 
       const newDerivative = await DerivativeRepository.createDerivative({
         type: 'DAILY',
         parent_data_ids: parentDataIds,
+        ...(stale && { stale }),
+        ...(minQualityScore !== undefined && { min_parent_quality_score: minQualityScore }),
         content: llmResult.content,
         processing: {
           ...ipfsData,
@@ -66,7 +105,7 @@ export const generateDerivatives = async (readings: IAQIReading[]): Promise<void
  */
 async function generateDailyReportWithLLM(day: string, readings: IAQIReading[]) {
   // 1. Prepare data for the prompt
-  const { hourlyDataContext, dailyAvgPm10, peakPm10Hour } = prepareDataForPrompt(readings);
+  const { windowDataContext, windowLengths, dailyAvgPm10, peakPm10Window } = prepareDataForPrompt(readings);
 
   // 2. Define inline prompts
   const systemInstructions = `You are an expert air quality analyst. Your task is to generate comprehensive, insightful daily reports based on AQI sensor data. Focus on trends, peak events, health implications, and actionable recommendations. Be professional, data-driven, and accessible to a general audience.`;
@@ -85,17 +124,18 @@ async function generateDailyReportWithLLM(day: string, readings: IAQIReading[])
 
 ## 📊 Summary
 - **Daily Average PM10**: ${dailyAvgPm10.toFixed(2)} µg/m³
-- **Peak Hour**: ${peakPm10Hour}:00
+- **Peak Window**: ${peakPm10Window ?? 'n/a'} UTC
 
-## 🕒 Hourly Breakdown
+## 🕒 Breakdown by Batch Window
 
-Generate a detailed hourly analysis based on this data:
+Readings are averaged over batch windows of ${windowLengths.join(' and ')} minutes, labelled by their UTC start and end time.
+Generate a detailed analysis of each window based on this data:
 \`\`\`json
-${JSON.stringify(hourlyDataContext, null, 2)}
+${JSON.stringify(windowDataContext, null, 2)}
 \`\`\`
 
-For each hour, provide:
-1. Time (## 🕒 HH:00)
+For each window, provide:
+1. Time (## 🕒 HH:mm-HH:mm)
 2. Air Quality Metrics table
 3. Smart Analysis with narrative and health implications
 
@@ -103,7 +143,7 @@ ${formattingRules}
 
 Focus on:
 - Identifying pollution spikes and their potential causes
-- Hour-to-hour trends and changes
+- Window-to-window trends and changes
 - Health recommendations based on PM10 levels
 - Notable events or patterns throughout the day`;
 
@@ -134,45 +174,58 @@ const groupReadingsByDay = (readings: IAQIReading[]): Map<string, IAQIReading[]>
 
 /**
  * Transforms raw readings into a structured format for the LLM prompt.
+ * Readings are grouped by batch window, which need not be an hour long;
+ * supplemental batches share their window with the batch they add to.
  */
 function prepareDataForPrompt(readings: IAQIReading[]) {
-  const hourlyData = new Map<number, { [param: string]: number }>();
+  const windowSamples = new Map<string, { start: Date; end: Date; samples: { [param: string]: number[] } }>();
   readings.forEach(r => {
-    const hour = r.batch_window.hour_index;
-    const values: { [param: string]: number } = {};
+    const key = `${r.batch_window.start.getTime()}_${r.batch_window.end.getTime()}`;
+    const window = windowSamples.get(key) ?? { start: r.batch_window.start, end: r.batch_window.end, samples: {} };
     for (const param in r.sensor_data) {
-      const avgValue = r.sensor_data[param].reduce((a, b) => a + b, 0) / r.sensor_data[param].length;
-      values[param] = parseFloat(avgValue.toFixed(3));
+      window.samples[param] = [...(window.samples[param] || []), ...r.sensor_data[param]];
     }
-    hourlyData.set(hour, values);
+    windowSamples.set(key, window);
   });
 
-  const dailyAvgPm10 = Array.from(hourlyData.values()).reduce((sum, v) => sum + (v['pm10'] || 0), 0) / hourlyData.size;
+  const windows = Array.from(windowSamples.values())
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .map(({ start, end, samples }) => {
+      const values: { [param: string]: number } = {};
+      for (const param in samples) {
+        const avgValue = samples[param].reduce((a, b) => a + b, 0) / samples[param].length;
+        values[param] = parseFloat(avgValue.toFixed(3));
+      }
+      const label = `${moment.utc(start).format('HH:mm')}-${moment.utc(end).format('HH:mm')}`;
+      return { label, values };
+    });
+
+  const dailyAvgPm10 = windows.reduce((sum, w) => sum + (w.values['pm10'] || 0), 0) / windows.length;
 
-  let peakPm10Hour = -1;
+  let peakPm10Window: string | undefined;
   let maxPm10 = -1;
-  hourlyData.forEach((values, hour) => {
+  windows.forEach(({ label, values }) => {
     if (values['pm10'] > maxPm10) {
       maxPm10 = values['pm10'];
-      peakPm10Hour = hour;
+      peakPm10Window = label;
     }
   });
 
-  const hourlyDataContext: any[] = [];
-  const sortedHours = Array.from(hourlyData.keys()).sort((a, b) => a - b);
-  let prevHourValues: { [param: string]: number } | undefined;
+  const windowDataContext: any[] = [];
+  let prevWindowValues: { [param: string]: number } | undefined;
 
-  for (const hour of sortedHours) {
-    const values = hourlyData.get(hour)!;
-    hourlyDataContext.push({
-      hour,
+  for (const { label, values } of windows) {
+    windowDataContext.push({
+      window: label,
       values,
-      prev_hour_values: prevHourValues || null,
+      prev_window_values: prevWindowValues || null,
     });
-    prevHourValues = values;
+    prevWindowValues = values;
   }
 
-  return { hourlyDataContext, dailyAvgPm10, peakPm10Hour };
+  const windowLengths = [...new Set(readings.map(r => getBatchWindowMinutes(r.batch_window)))].sort((a, b) => a - b);
+
+  return { windowDataContext, windowLengths, dailyAvgPm10, peakPm10Window };
 }
 
 
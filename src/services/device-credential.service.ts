@@ -0,0 +1,222 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import Device from '@/models/Device';
+import DeviceCredential from '@/models/DeviceCredential';
+import {
+  AuthenticatedDevice,
+  DeviceCredentialView,
+  IDeviceCredential,
+  IssuedDeviceCredential,
+} from '@/types/device.types';
+import { DEVICE_CREDENTIAL_CONFIG } from '@/config/constants';
+import { logger } from '@/utils/logger';
+import { recordAuditEvent } from './audit.service';
+import { touchDeviceLastSeen } from './device-health.service';
+
+const hashSecret = (secret: string): string => createHash('sha256').update(secret).digest('hex');
+
+const isActive = (credential: IDeviceCredential, now = new Date()): boolean =>
+  !credential.revoked_at && (!credential.expires_at || credential.expires_at > now);
+
+const toView = (credential: IDeviceCredential): DeviceCredentialView => ({
+  key_id: credential.key_id,
+  created_at: credential.created_at,
+  last_used_at: credential.last_used_at,
+  expires_at: credential.expires_at,
+  revoked_at: credential.revoked_at,
+  revoked_reason: credential.revoked_reason,
+  active: isActive(credential),
+});
+
+/**
+ * Splits csk_<key_id>_<secret>. Returns null for anything else.
+ */
+const parseApiKey = (api_key: string): { key_id: string; secret: string } | null => {
+  const prefix = `${DEVICE_CREDENTIAL_CONFIG.KEY_PREFIX}_`;
+  if (!api_key.startsWith(prefix)) {
+    return null;
+  }
+  const rest = api_key.slice(prefix.length);
+  const separator = rest.indexOf('_');
+  if (separator <= 0 || separator === rest.length - 1) {
+    return null;
+  }
+  return { key_id: rest.slice(0, separator), secret: rest.slice(separator + 1) };
+};
+
+const findOwnedDevice = async (owner_id: string, device_id: string) => {
+  const device = await Device.findOne({ device_id, owner_id });
+  if (!device) {
+    throw new Error('DEVICE_NOT_FOUND');
+  }
+  return device;
+};
+
+/**
+ * Creates a new API key for a device. The plain key is only ever returned here.
+ */
+export const issueDeviceCredential = async (
+  device_id: string,
+  created_by: string
+): Promise<IssuedDeviceCredential> => {
+  const key_id = randomBytes(DEVICE_CREDENTIAL_CONFIG.KEY_ID_LENGTH).toString('hex');
+  const secret = randomBytes(DEVICE_CREDENTIAL_CONFIG.SECRET_LENGTH).toString('base64url');
+
+  const credential = await DeviceCredential.create({
+    key_id,
+    device_id,
+    key_hash: hashSecret(secret),
+    created_by,
+    created_at: new Date(),
+  });
+
+  return {
+    key_id,
+    api_key: `${DEVICE_CREDENTIAL_CONFIG.KEY_PREFIX}_${key_id}_${secret}`,
+    created_at: credential.created_at,
+  };
+};
+
+/**
+ * Removes every key of a device that was never created
+ */
+export const deleteDeviceCredentials = async (device_id: string): Promise<void> => {
+  await DeviceCredential.deleteMany({ device_id });
+};
+
+export const listDeviceCredentials = async (
+  owner_id: string,
+  device_id: string
+): Promise<DeviceCredentialView[]> => {
+  await findOwnedDevice(owner_id, device_id);
+  const credentials = await DeviceCredential.find({ device_id }).sort({ created_at: -1 });
+  return credentials.map(toView);
+};
+
+/**
+ * Issues a new key and retires the device's current ones. With a grace period
+ * the old keys keep working until it ends, so the sensor can be reconfigured.
+ */
+export const rotateDeviceCredential = async (
+  owner_id: string,
+  device_id: string,
+  grace_period_seconds = 0
+): Promise<IssuedDeviceCredential> => {
+  if (
+    !Number.isInteger(grace_period_seconds) ||
+    grace_period_seconds < 0 ||
+    grace_period_seconds > DEVICE_CREDENTIAL_CONFIG.MAX_ROTATION_GRACE_SECONDS
+  ) {
+    throw new Error(
+      `VALIDATION_ERROR: grace_period_seconds must be an integer between 0 and ${DEVICE_CREDENTIAL_CONFIG.MAX_ROTATION_GRACE_SECONDS}`
+    );
+  }
+
+  const device = await findOwnedDevice(owner_id, device_id);
+  if (device.status === 'decommissioned') {
+    throw new Error('DEVICE_DECOMMISSIONED');
+  }
+
+  const now = new Date();
+  const current = { device_id, revoked_at: { $exists: false } };
+  if (grace_period_seconds > 0) {
+    const expires_at = new Date(now.getTime() + grace_period_seconds * 1000);
+    await DeviceCredential.updateMany(
+      { ...current, $or: [{ expires_at: { $exists: false } }, { expires_at: { $gt: expires_at } }] },
+      { $set: { expires_at } }
+    );
+  } else {
+    await DeviceCredential.updateMany(current, { $set: { revoked_at: now, revoked_reason: 'rotated' } });
+  }
+
+  const issued = await issueDeviceCredential(device_id, owner_id);
+  logger.info(`Rotated credentials for device ${device_id} (new key ${issued.key_id})`);
+  await recordAuditEvent({
+    actor: owner_id,
+    action: 'device.credential_rotated',
+    target: { type: 'device_credential', id: issued.key_id },
+    after: { device_id, key_id: issued.key_id },
+    metadata: { grace_period_seconds },
+  });
+  return issued;
+};
+
+/**
+ * Revokes a single key. Returns false if the device has no such key.
+ */
+export const revokeDeviceCredential = async (
+  owner_id: string,
+  device_id: string,
+  key_id: string
+): Promise<boolean> => {
+  await findOwnedDevice(owner_id, device_id);
+
+  const credential = await DeviceCredential.findOne({ device_id, key_id });
+  if (!credential) {
+    return false;
+  }
+  if (!credential.revoked_at) {
+    credential.revoked_at = new Date();
+    credential.revoked_reason = 'revoked';
+    await credential.save();
+    logger.info(`Revoked credential ${key_id} of device ${device_id}`);
+    await recordAuditEvent({
+      actor: owner_id,
+      action: 'device.credential_revoked',
+      target: { type: 'device_credential', id: key_id },
+      before: { device_id, key_id, revoked_at: null },
+      after: { device_id, key_id, revoked_at: credential.revoked_at },
+    });
+  }
+  return true;
+};
+
+export const revokeAllDeviceCredentials = async (
+  device_id: string,
+  reason: IDeviceCredential['revoked_reason'] = 'revoked'
+): Promise<number> => {
+  const result = await DeviceCredential.updateMany(
+    { device_id, revoked_at: { $exists: false } },
+    { $set: { revoked_at: new Date(), revoked_reason: reason } }
+  );
+  return result.modifiedCount;
+};
+
+/**
+ * Resolves a device API key to the device and its current owner.
+ * Returns null for unknown, revoked or expired keys.
+ */
+export const authenticateDeviceKey = async (api_key: string): Promise<AuthenticatedDevice | null> => {
+  const parsed = parseApiKey(api_key);
+  if (!parsed) {
+    return null;
+  }
+
+  const credential = await DeviceCredential.findOne({ key_id: parsed.key_id });
+  if (!credential || !isActive(credential)) {
+    return null;
+  }
+
+  const expected = Buffer.from(credential.key_hash, 'hex');
+  const actual = Buffer.from(hashSecret(parsed.secret), 'hex');
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const device = await Device.findOne({ device_id: credential.device_id });
+  if (!device) {
+    return null;
+  }
+
+  const now = new Date();
+  const lastUsed = credential.last_used_at?.getTime() || 0;
+  if (now.getTime() - lastUsed >= DEVICE_CREDENTIAL_CONFIG.LAST_USED_UPDATE_INTERVAL_SECONDS * 1000) {
+    await DeviceCredential.updateOne({ key_id: credential.key_id }, { $set: { last_used_at: now } });
+  }
+  await touchDeviceLastSeen(device, now);
+
+  return {
+    device_id: device.device_id,
+    owner_id: device.owner_id,
+    key_id: credential.key_id,
+  };
+};
@@ -0,0 +1,68 @@
+import Device from '@/models/Device';
+import { DeviceHealth, IDevice } from '@/types/device.types';
+import { DEVICE_HEALTH_CONFIG } from '@/config/constants';
+
+export interface DeviceHealthService {
+  recordDeviceHeartbeat(device: IDevice, sensor_types: string[], at?: Date): Promise<void>;
+  touchDeviceLastSeen(device: IDevice, at?: Date): Promise<void>;
+  evaluateDeviceHealth(device: IDevice, now?: Date): DeviceHealthAssessment;
+}
+
+export interface DeviceHealthAssessment {
+  health: DeviceHealth;
+  missing_sensors: string[];
+}
+
+/**
+ * Records an accepted sample. sensor_last_seen is rewritten as a whole because
+ * sensor types such as PM2.5 contain dots and cannot be used as update paths.
+ */
+export const recordDeviceHeartbeat = async (
+  device: IDevice,
+  sensor_types: string[],
+  at: Date = new Date()
+): Promise<void> => {
+  const sensor_last_seen = { ...(device.sensor_last_seen || {}) };
+  for (const sensor_type of sensor_types) {
+    sensor_last_seen[sensor_type] = at;
+  }
+
+  await Device.updateOne(
+    { device_id: device.device_id },
+    { $set: { last_seen_at: at, last_ingestion_at: at, sensor_last_seen } }
+  );
+};
+
+/**
+ * Records that the device authenticated, throttled so every request does not write.
+ */
+export const touchDeviceLastSeen = async (device: IDevice, at: Date = new Date()): Promise<void> => {
+  const lastSeen = device.last_seen_at ? new Date(device.last_seen_at).getTime() : 0;
+  if (at.getTime() - lastSeen < DEVICE_HEALTH_CONFIG.LAST_SEEN_UPDATE_INTERVAL_SECONDS * 1000) {
+    return;
+  }
+  await Device.updateOne(
+    { device_id: device.device_id, $or: [{ last_seen_at: { $exists: false } }, { last_seen_at: { $lt: at } }] },
+    { $set: { last_seen_at: at } }
+  );
+};
+
+/**
+ * Works out the health of an active device. A device or sensor that never
+ * reported is measured from the last configuration change, so a fresh
+ * registration or a newly added sensor is not flagged straight away.
+ */
+export const evaluateDeviceHealth = (device: IDevice, now: Date = new Date()): DeviceHealthAssessment => {
+  const since = (date?: Date) => now.getTime() - new Date(date ?? device.last_updated ?? device.registered_at).getTime();
+
+  if (since(device.last_seen_at) > DEVICE_HEALTH_CONFIG.OFFLINE_AFTER_SECONDS * 1000) {
+    return { health: 'offline', missing_sensors: [] };
+  }
+
+  const sensorLastSeen = device.sensor_last_seen || {};
+  const missing_sensors = device.sensor_meta.sensor_types.filter(
+    sensor_type => since(sensorLastSeen[sensor_type]) > DEVICE_HEALTH_CONFIG.SENSOR_SILENCE_SECONDS * 1000
+  );
+
+  return { health: missing_sensors.length > 0 ? 'degraded' : 'online', missing_sensors };
+};
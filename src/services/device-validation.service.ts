@@ -18,6 +18,10 @@ export const validateDeviceRegistration = (
     return { valid: false, error: `Station '${request.station_id}' not found in ${city.city_name}` };
   }
 
+  if (station.status === 'retired') {
+    return { valid: false, error: `Station '${request.station_id}' has been retired` };
+  }
+
   // 3. Validate sensor types
   if (!request.sensor_types || request.sensor_types.length === 0) {
     return { valid: false, error: 'At least one sensor type must be selected' };
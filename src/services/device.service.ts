@@ -7,10 +7,79 @@ import {
   IDevice,
   SensorMeta,
   DeviceListResponse,
+  SigningKeyRequest,
+  DeviceChange,
+  DeviceChangeAction,
+  UpdateDeviceRequest,
+  DeviceTransferResult,
+  DeviceRegistrationResult,
 } from '@/types/device.types';
-import { validateDeviceRegistration } from './device-validation.service';
-import { getStationById, getAvailableCities } from './config.service';
-import { DEVICE_LIMIT } from '@/config/constants';
+import { validateDeviceRegistration, validateSensorSubset } from './device-validation.service';
+import { deleteDeviceCredentials, issueDeviceCredential, revokeAllDeviceCredentials } from './device-credential.service';
+import { parseSigningKey } from './reading-signature.service';
+import { recordAuditEvent } from './audit.service';
+import { getDeviceQuota, hasDeviceCapacity } from './quota.service';
+import { getStationById, getAvailableCities, refreshConfig } from './config.service';
+import { BACKFILL_CONFIG, BATCH_WINDOW_CONFIG, DEVICE_TRANSFER_CONFIG } from '@/config/constants';
+import { toGeoPoint } from '@/utils/geo.utils';
+import { isAllowedBatchWindowMinutes } from '@/utils/time-window.utils';
+
+// Device fields kept in the audit log
+const toAuditState = (device: IDevice): Record<string, unknown> => ({
+  device_id: device.device_id,
+  owner_id: device.owner_id,
+  station_id: device.sensor_meta.station_id,
+  sensor_types: device.sensor_meta.sensor_types,
+  status: device.status,
+  backfill_window_seconds: device.backfill_window_seconds ?? null,
+  batch_window_minutes: device.batch_window_minutes ?? null,
+  signing_key: device.signing_key
+    ? { algorithm: device.signing_key.algorithm, public_key: device.signing_key.public_key }
+    : null,
+});
+
+const getPath = (device: IDevice, path: string): unknown =>
+  path.split('.').reduce<any>((value, key) => value?.[key], device) ?? null;
+
+/**
+ * Writes field changes to a device under its next revision and appends them
+ * to change_history. The write only applies if the device is still at the
+ * revision it was read at, otherwise DEVICE_MODIFIED is thrown.
+ */
+const applyDeviceChange = async (
+  device: IDevice,
+  action: DeviceChangeAction,
+  set: Record<string, unknown>,
+  changed_by: string,
+  reason?: string
+): Promise<IDevice> => {
+  const revision = (device.revision ?? 0) + 1;
+  const now = new Date();
+  const change: DeviceChange = {
+    revision,
+    action,
+    changes: Object.fromEntries(
+      Object.entries(set).map(([path, to]) => [path, { from: getPath(device, path), to }])
+    ),
+    changed_by,
+    changed_at: now,
+    reason,
+  };
+
+  const updated = await Device.findOneAndUpdate(
+    { device_id: device.device_id, revision: device.revision ?? null },
+    { $set: { ...set, revision, last_updated: now }, $push: { change_history: change } },
+    { new: true }
+  ).lean<IDevice>();
+  if (!updated) {
+    throw new Error('DEVICE_MODIFIED');
+  }
+  return updated;
+};
+
+const findOwnedDevice = async (owner_id: string, device_id: string): Promise<IDevice | null> => {
+  return Device.findOne({ device_id, owner_id }).lean<IDevice>();
+};
 
 export const generateDeviceId = (owner_id: string, station_id: string): string => {
   // Generate a unique device ID using crypto.randomBytes
@@ -18,26 +87,30 @@ export const generateDeviceId = (owner_id: string, station_id: string): string =
 };
 
 export const checkDeviceLimit = async (owner_id: string): Promise<boolean> => {
-    const deviceCount = await Device.countDocuments({ owner_id, status: 'active' });
-    return deviceCount < DEVICE_LIMIT;
+    return hasDeviceCapacity(owner_id);
 };
 
+/**
+ * Registers a device together with its first API key. The key is issued first
+ * and removed again if the device cannot be created, so a crash in between
+ * leaves at most a key that authenticates nothing.
+ */
 export const registerDevice = async (
   owner_id: string,
   request: DeviceRegistrationRequest
-): Promise<IDevice> => {
+): Promise<DeviceRegistrationResult> => {
+  // Another instance may have changed the station catalog since this one last polled
+  await refreshConfig();
+
   const validation = validateDeviceRegistration(request);
   if (!validation.valid) {
     throw new Error(`VALIDATION_ERROR: ${validation.error}`);
   }
 
-  // Check device limit without transaction for test compatibility
-  const deviceCount = await Device.countDocuments({
-    owner_id,
-    status: 'active',
-  });
+  const signing_key = request.signing_key ? parseSigningKey(request.signing_key) : undefined;
 
-  if (deviceCount >= DEVICE_LIMIT) {
+  // Check device limit without transaction for test compatibility
+  if (!(await checkDeviceLimit(owner_id))) {
     throw new Error('DEVICE_LIMIT_REACHED');
   }
 
@@ -60,28 +133,53 @@ export const registerDevice = async (
   };
 
   const device_id = generateDeviceId(owner_id, request.station_id);
+  const credential = await issueDeviceCredential(device_id, owner_id);
 
-  const device = await Device.create({
-    device_id,
-    owner_id,
-    sensor_meta,
-    status: 'active',
-    registered_at: new Date(),
-  });
+  let device: IDevice;
+  try {
+    device = await Device.create({
+      device_id,
+      owner_id,
+      sensor_meta,
+      location: toGeoPoint(station.coordinates),
+      status: 'active',
+      signing_key,
+      revision: 1,
+      change_history: [{
+        revision: 1,
+        action: 'registered',
+        changes: {},
+        changed_by: owner_id,
+        changed_at: new Date(),
+      }],
+      registered_at: new Date(),
+    });
+  } catch (error) {
+    await deleteDeviceCredentials(device_id);
+    throw error;
+  }
 
   await User.findOneAndUpdate(
     { walletAddress: owner_id },
     { $push: { devices: device_id } }
   );
 
-  return device;
+  await recordAuditEvent({
+    actor: owner_id,
+    action: 'device.registered',
+    target: { type: 'device', id: device_id },
+    before: null,
+    after: toAuditState(device),
+  });
+
+  return { device, credential };
 };
 
 export const getUserDevices = async (owner_id: string): Promise<DeviceListResponse> => {
     const devices = await Device.find({ owner_id });
     const count = devices.length;
-    const limit_reached = count >= DEVICE_LIMIT;
-    return { devices, count, limit_reached };
+    const quota = await getDeviceQuota(owner_id);
+    return { devices, count, limit_reached: quota.limit_reached, quota };
 };
 
 export const deleteDevice = async (owner_id: string, device_id: string): Promise<boolean> => {
@@ -91,10 +189,331 @@ export const deleteDevice = async (owner_id: string, device_id: string): Promise
     }
 
     await device.deleteOne();
+    await revokeAllDeviceCredentials(device_id, 'device_deleted');
     await User.findOneAndUpdate(
         { walletAddress: owner_id },
         { $pull: { devices: device_id } }
     );
 
+    await recordAuditEvent({
+        actor: owner_id,
+        action: 'device.deleted',
+        target: { type: 'device', id: device_id },
+        before: toAuditState(device),
+        after: null,
+    });
+
     return true;
-};
\ No newline at end of file
+};
+
+/**
+ * Registers or replaces the public key a device signs its readings with.
+ */
+export const setSigningKey = async (
+  owner_id: string,
+  device_id: string,
+  request: SigningKeyRequest
+): Promise<IDevice | null> => {
+    const signing_key = parseSigningKey(request);
+    const previous = await findOwnedDevice(owner_id, device_id);
+    if (!previous) {
+        return null;
+    }
+    if (previous.status === 'decommissioned') {
+        throw new Error('DEVICE_DECOMMISSIONED');
+    }
+
+    const device = await applyDeviceChange(previous, 'signing_key_updated', { signing_key }, owner_id);
+    await recordAuditEvent({
+        actor: owner_id,
+        action: 'device.signing_key_updated',
+        target: { type: 'device', id: device_id },
+        before: toAuditState(previous),
+        after: toAuditState(device),
+    });
+    return device;
+};
+
+/**
+ * Changes the sensor types, backfill window or batch window length and/or pauses and resumes a device.
+ * A new batch window length applies to samples ingested after the change.
+ * Reactivating counts against the device limit like a new registration.
+ */
+export const updateDevice = async (
+  owner_id: string,
+  device_id: string,
+  request: UpdateDeviceRequest
+): Promise<IDevice | null> => {
+    const { sensor_types, status, backfill_window_seconds, batch_window_minutes, reason } = request;
+    if (sensor_types === undefined && status === undefined && backfill_window_seconds === undefined
+        && batch_window_minutes === undefined) {
+        throw new Error('VALIDATION_ERROR: Provide sensor_types, status, backfill_window_seconds and/or batch_window_minutes');
+    }
+
+    const device = await findOwnedDevice(owner_id, device_id);
+    if (!device) {
+        return null;
+    }
+    if (device.status === 'decommissioned') {
+        throw new Error('DEVICE_DECOMMISSIONED');
+    }
+
+    const set: Record<string, unknown> = {};
+
+    if (sensor_types !== undefined) {
+        if (!Array.isArray(sensor_types) || sensor_types.length === 0) {
+            throw new Error('VALIDATION_ERROR: At least one sensor type must be selected');
+        }
+        if (new Set(sensor_types).size !== sensor_types.length) {
+            throw new Error('VALIDATION_ERROR: Duplicate sensor types detected');
+        }
+        const station = getStationById(device.sensor_meta.station_id);
+        if (!station) {
+            throw new Error('STATION_NOT_FOUND');
+        }
+        const available = station.available_sensors.map(sensor => sensor.sensor_type);
+        if (!validateSensorSubset(available, sensor_types)) {
+            const invalid = sensor_types.filter(type => !available.includes(type));
+            throw new Error(`VALIDATION_ERROR: Invalid sensor types for this station: ${invalid.join(', ')}`);
+        }
+        const current = device.sensor_meta.sensor_types;
+        if (sensor_types.length !== current.length || sensor_types.some(type => !current.includes(type))) {
+            set['sensor_meta.sensor_types'] = sensor_types;
+        }
+    }
+
+    if (status !== undefined) {
+        if (status !== 'active' && status !== 'inactive') {
+            throw new Error("VALIDATION_ERROR: status must be 'active' or 'inactive'");
+        }
+        if (status !== device.status) {
+            if (status === 'active' && !(await checkDeviceLimit(owner_id))) {
+                throw new Error('DEVICE_LIMIT_REACHED');
+            }
+            set.status = status;
+        }
+    }
+
+    if (backfill_window_seconds !== undefined) {
+        if (!Number.isInteger(backfill_window_seconds)
+            || backfill_window_seconds < BACKFILL_CONFIG.MIN_WINDOW_SECONDS
+            || backfill_window_seconds > BACKFILL_CONFIG.MAX_WINDOW_SECONDS) {
+            throw new Error(
+                `VALIDATION_ERROR: backfill_window_seconds must be a whole number between ${BACKFILL_CONFIG.MIN_WINDOW_SECONDS} and ${BACKFILL_CONFIG.MAX_WINDOW_SECONDS}`
+            );
+        }
+        if (backfill_window_seconds !== device.backfill_window_seconds) {
+            set.backfill_window_seconds = backfill_window_seconds;
+        }
+    }
+
+    if (batch_window_minutes !== undefined) {
+        if (!isAllowedBatchWindowMinutes(batch_window_minutes)) {
+            throw new Error(
+                `VALIDATION_ERROR: batch_window_minutes must be one of ${BATCH_WINDOW_CONFIG.ALLOWED_MINUTES.join(', ')}`
+            );
+        }
+        if (batch_window_minutes !== device.batch_window_minutes) {
+            set.batch_window_minutes = batch_window_minutes;
+        }
+    }
+
+    if (Object.keys(set).length === 0) {
+        return device;
+    }
+
+    const updated = await applyDeviceChange(device, 'updated', set, owner_id, reason);
+    await recordAuditEvent({
+        actor: owner_id,
+        action: 'device.updated',
+        target: { type: 'device', id: device_id },
+        before: toAuditState(device),
+        after: toAuditState(updated),
+        metadata: { reason },
+    });
+    return updated;
+};
+
+/**
+ * Retires a device for good. Unlike deleteDevice the record is kept, so its
+ * readings and derivatives stay linked; its API keys are revoked and it no
+ * longer counts towards the owner's devices.
+ */
+export const decommissionDevice = async (
+  owner_id: string,
+  device_id: string,
+  reason?: string
+): Promise<IDevice | null> => {
+    const device = await findOwnedDevice(owner_id, device_id);
+    if (!device) {
+        return null;
+    }
+    if (device.status === 'decommissioned') {
+        throw new Error('DEVICE_DECOMMISSIONED');
+    }
+
+    const updated = await applyDeviceChange(
+        device,
+        'decommissioned',
+        { status: 'decommissioned', decommissioned_at: new Date() },
+        owner_id,
+        reason
+    );
+    await revokeAllDeviceCredentials(device_id, 'device_decommissioned');
+    await User.findOneAndUpdate(
+        { walletAddress: owner_id },
+        { $pull: { devices: device_id } }
+    );
+
+    await recordAuditEvent({
+        actor: owner_id,
+        action: 'device.decommissioned',
+        target: { type: 'device', id: device_id },
+        before: toAuditState(device),
+        after: toAuditState(updated),
+        metadata: { reason },
+    });
+    return updated;
+};
+
+export const getDeviceHistory = async (owner_id: string, device_id: string): Promise<DeviceChange[] | null> => {
+    const device = await findOwnedDevice(owner_id, device_id);
+    return device ? device.change_history || [] : null;
+};
+
+const isTransferOpen = (device: IDevice, now = new Date()): boolean =>
+  !!device.pending_transfer && new Date(device.pending_transfer.expires_at) > now;
+
+/**
+ * Offers a device to another wallet. Nothing changes hands until the
+ * recipient accepts; a new offer replaces an open one.
+ */
+export const initiateTransfer = async (
+  owner_id: string,
+  device_id: string,
+  to_wallet: string
+): Promise<IDevice | null> => {
+    if (typeof to_wallet !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(to_wallet)) {
+        throw new Error('VALIDATION_ERROR: to_wallet must be a wallet address');
+    }
+    const to_owner = to_wallet.toLowerCase();
+    if (to_owner === owner_id) {
+        throw new Error('VALIDATION_ERROR: Device is already owned by this wallet');
+    }
+
+    const device = await findOwnedDevice(owner_id, device_id);
+    if (!device) {
+        return null;
+    }
+    if (device.status === 'decommissioned') {
+        throw new Error('DEVICE_DECOMMISSIONED');
+    }
+
+    const now = new Date();
+    const pending_transfer = {
+        to_owner,
+        initiated_at: now,
+        expires_at: new Date(now.getTime() + DEVICE_TRANSFER_CONFIG.EXPIRES_AFTER_SECONDS * 1000),
+    };
+    const updated = await applyDeviceChange(device, 'transfer_initiated', { pending_transfer }, owner_id);
+
+    await recordAuditEvent({
+        actor: owner_id,
+        action: 'device.transfer_initiated',
+        target: { type: 'device', id: device_id },
+        after: { to_owner, expires_at: pending_transfer.expires_at },
+    });
+    return updated;
+};
+
+export const cancelTransfer = async (owner_id: string, device_id: string): Promise<IDevice | null> => {
+    const device = await findOwnedDevice(owner_id, device_id);
+    if (!device) {
+        return null;
+    }
+    if (!device.pending_transfer) {
+        throw new Error('TRANSFER_NOT_FOUND');
+    }
+
+    const updated = await applyDeviceChange(device, 'transfer_cancelled', { pending_transfer: null }, owner_id);
+    await recordAuditEvent({
+        actor: owner_id,
+        action: 'device.transfer_cancelled',
+        target: { type: 'device', id: device_id },
+        before: { to_owner: device.pending_transfer.to_owner },
+    });
+    return updated;
+};
+
+/**
+ * Devices offered to a wallet that it has not accepted yet.
+ */
+export const listIncomingTransfers = async (wallet: string): Promise<IDevice[]> => {
+    return Device.find({
+        'pending_transfer.to_owner': wallet,
+        'pending_transfer.expires_at': { $gt: new Date() },
+    }).lean<IDevice[]>();
+};
+
+/**
+ * Completes a transfer on behalf of the recipient. Readings already stored
+ * keep the previous owner; later samples start a new ownership epoch and
+ * are stored under the new owner. The previous owner's API keys are revoked
+ * and a new one is issued to the recipient.
+ */
+export const acceptTransfer = async (new_owner: string, device_id: string): Promise<DeviceTransferResult> => {
+    const device = await Device.findOne({ device_id }).lean<IDevice>();
+    if (!device || !isTransferOpen(device) || device.pending_transfer!.to_owner !== new_owner) {
+        throw new Error('TRANSFER_NOT_FOUND');
+    }
+    if (device.status === 'decommissioned') {
+        throw new Error('DEVICE_DECOMMISSIONED');
+    }
+    if (device.status === 'active' && !(await checkDeviceLimit(new_owner))) {
+        throw new Error('DEVICE_LIMIT_REACHED');
+    }
+
+    const previous_owner = device.owner_id;
+    const updated = await applyDeviceChange(device, 'ownership_transferred', {
+        owner_id: new_owner,
+        owner_since: new Date(),
+        ownership_epoch: (device.ownership_epoch ?? 0) + 1,
+        pending_transfer: null,
+    }, new_owner);
+
+    await revokeAllDeviceCredentials(device_id, 'device_transferred');
+    const credential = await issueDeviceCredential(device_id, new_owner);
+
+    await User.findOneAndUpdate({ walletAddress: previous_owner }, { $pull: { devices: device_id } });
+    await User.findOneAndUpdate({ walletAddress: new_owner }, { $addToSet: { devices: device_id } });
+
+    await recordAuditEvent({
+        actor: new_owner,
+        action: 'device.ownership_transferred',
+        target: { type: 'device', id: device_id },
+        before: toAuditState(device),
+        after: toAuditState(updated),
+        metadata: { previous_owner, ownership_epoch: updated.ownership_epoch },
+    });
+
+    return { device: updated, credential };
+};
+
+/**
+ * Sets location on devices registered before nearby search existed.
+ * Safe to run on every start: devices that have one are skipped.
+ */
+export const backfillDeviceLocations = async (): Promise<number> => {
+    const result = await Device.updateMany(
+        { location: { $exists: false }, 'sensor_meta.coordinates.latitude': { $type: 'number' } },
+        [{
+            $set: {
+                location: {
+                    type: 'Point',
+                    coordinates: ['$sensor_meta.coordinates.longitude', '$sensor_meta.coordinates.latitude'],
+                },
+            },
+        }]
+    );
+    return result.modifiedCount;
+};
@@ -0,0 +1,132 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, randomBytes, KeyObject } from 'crypto';
+import { TOKEN_CONFIG } from '@/config/constants';
+import { JsonWebKeySet, PublicJwk, SigningKeyConfig } from '@/types/token.types';
+import { logger } from '@/utils/logger';
+
+interface LoadedKey {
+  kid: string;
+  privateKey?: KeyObject;
+  publicKey: KeyObject;
+}
+
+interface KeyRing {
+  activeKid: string;
+  keys: Map<string, LoadedKey>;
+}
+
+let keyRing: KeyRing | null = null;
+
+const parseKeyConfig = (): SigningKeyConfig[] => {
+  const raw = process.env.JWT_SIGNING_KEYS;
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      throw new Error('expected a JSON array');
+    }
+    return parsed;
+  } catch (error: any) {
+    throw new Error(`JWT_SIGNING_KEYS is invalid: ${error.message}`);
+  }
+};
+
+const loadKey = (config: SigningKeyConfig): LoadedKey => {
+  if (!config.kid) {
+    throw new Error('JWT_SIGNING_KEYS entry is missing a kid');
+  }
+  const privateKey = config.private_key ? createPrivateKey(config.private_key) : undefined;
+  const publicKey = config.public_key
+    ? createPublicKey(config.public_key)
+    : privateKey && createPublicKey(privateKey);
+  if (!publicKey) {
+    throw new Error(`JWT signing key ${config.kid} has neither private_key nor public_key`);
+  }
+  if (publicKey.asymmetricKeyType !== 'rsa') {
+    throw new Error(`JWT signing key ${config.kid} must be an RSA key for ${TOKEN_CONFIG.ACCESS_TOKEN_ALGORITHM}`);
+  }
+  return { kid: config.kid, privateKey, publicKey };
+};
+
+/**
+ * A throwaway key so development and tests work without configuration.
+ * Tokens it signs stop verifying when the process restarts and differ between
+ * instances, so production refuses to start without configured keys.
+ */
+const generateEphemeralKey = (): LoadedKey => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = `ephemeral-${randomBytes(4).toString('hex')}`;
+  if (process.env.NODE_ENV !== 'test') {
+    logger.warn(`JWT_SIGNING_KEYS is not set, signing access tokens with ephemeral key ${kid}`);
+  }
+  return { kid, privateKey, publicKey };
+};
+
+const buildKeyRing = (): KeyRing => {
+  const loaded = parseKeyConfig().map(loadKey);
+  if (loaded.length === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('JWT_SIGNING_KEYS must be set in production');
+    }
+    loaded.push(generateEphemeralKey());
+  }
+
+  const keys = new Map(loaded.map(key => [key.kid, key]));
+  const activeKid = process.env.JWT_ACTIVE_KID || loaded.find(key => key.privateKey)?.kid;
+  if (!activeKid || !keys.get(activeKid)?.privateKey) {
+    throw new Error(`JWT_ACTIVE_KID ${activeKid ?? '(unset)'} does not name a key with a private_key`);
+  }
+
+  return { activeKid, keys };
+};
+
+const getKeyRing = (): KeyRing => {
+  if (!keyRing) {
+    keyRing = buildKeyRing();
+  }
+  return keyRing;
+};
+
+/**
+ * Loads the signing keys, so a bad or missing configuration fails at startup
+ * rather than on the first login.
+ */
+export const loadSigningKeys = (): void => {
+  getKeyRing();
+};
+
+/**
+ * Drops the cached key ring so the next call re-reads JWT_SIGNING_KEYS.
+ */
+export const reloadSigningKeys = (): void => {
+  keyRing = null;
+};
+
+export const getActiveSigningKey = (): { kid: string; privateKey: KeyObject } => {
+  const ring = getKeyRing();
+  const key = ring.keys.get(ring.activeKid)!;
+  return { kid: key.kid, privateKey: key.privateKey! };
+};
+
+export const getVerificationKey = (kid: string): KeyObject | null => {
+  return getKeyRing().keys.get(kid)?.publicKey ?? null;
+};
+
+/**
+ * Public halves of every configured key, active and retired.
+ */
+export const getJwks = (): JsonWebKeySet => {
+  const keys: PublicJwk[] = [...getKeyRing().keys.values()].map(key => {
+    const jwk = key.publicKey.export({ format: 'jwk' });
+    return {
+      kid: key.kid,
+      kty: jwk.kty as string,
+      alg: TOKEN_CONFIG.ACCESS_TOKEN_ALGORITHM,
+      use: 'sig',
+      n: jwk.n,
+      e: jwk.e,
+    };
+  });
+  return { keys };
+};
@@ -0,0 +1,208 @@
+import AQIReading from '@/models/AQIReading';
+import Asset from '@/models/Asset';
+import * as DerivativeRepository from '@/database/derivative.repository';
+import { getSampleTimestamps } from './verification.service';
+import {
+  DerivativeLink,
+  IAQIReading,
+  MerkleLeafPreimage,
+  SampleProofResponse,
+  VerifyProofRequest,
+  VerifyProofResult
+} from '@/types/aqi-reading.types';
+import {
+  buildLeafPreimage,
+  buildMerkleTree,
+  getLeafIndex,
+  getMerkleProof,
+  hashLeafPreimage,
+  MERKLE_LEAF_VERSION,
+  verifyMerkleProof
+} from '@/utils/merkle.utils';
+import { logger } from '@/utils/logger';
+
+export interface MerkleProofService {
+  getSampleProof(wallet: string, reading_id: string, sensor_type: string, index: number): Promise<SampleProofResponse>;
+  verifySampleProof(request: VerifyProofRequest): Promise<VerifyProofResult>;
+}
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+const isHash = (value: unknown): value is string =>
+  typeof value === 'string' && HASH_PATTERN.test(value);
+
+/**
+ * The device owner and wallets holding a license to a derivative built from
+ * the reading may see its proofs
+ */
+const canAccessReading = async (wallet: string, reading: IAQIReading): Promise<boolean> => {
+  if (reading.owner_id === wallet) {
+    return true;
+  }
+  const license = await Asset.exists({
+    owner_wallet: wallet.toLowerCase(),
+    primitive_data_ids: reading.reading_id,
+  });
+  return !!license;
+};
+
+const toDerivativeLink = (derivative: DerivativeRepository.DerivativeDocument): DerivativeLink => ({
+  derivative_id: derivative.derivative_id,
+  type: derivative.type,
+  ip_id: derivative.ip_id,
+  content_hash: derivative.processing?.content_hash,
+  ipfs_hash: derivative.processing?.ipfs_hash,
+});
+
+const getDerivativeLinks = async (reading: IAQIReading): Promise<SampleProofResponse['derivatives']> => {
+  const dailyId = reading.processing?.derivative_id;
+  const daily = dailyId ? await DerivativeRepository.findDerivativeById(dailyId) : null;
+  const monthly = daily?.meta_parent_id
+    ? await DerivativeRepository.findDerivativeById(daily.meta_parent_id)
+    : null;
+
+  return {
+    daily: daily ? toDerivativeLink(daily) : null,
+    monthly: monthly ? toDerivativeLink(monthly) : null,
+  };
+};
+
+/**
+ * Inclusion proof for one stored value. The tree is rebuilt from the stored
+ * batch and must reproduce the published root, so readings verified with an
+ * older leaf encoding have no proofs.
+ */
+export const getSampleProof = async (
+  wallet: string,
+  reading_id: string,
+  sensor_type: string,
+  index: number
+): Promise<SampleProofResponse> => {
+  if (!sensor_type) {
+    throw new Error('VALIDATION_ERROR: sensor is required');
+  }
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error('VALIDATION_ERROR: index must be a non-negative integer');
+  }
+
+  const reading = await AQIReading.findOne({ reading_id }).lean<IAQIReading>();
+  if (!reading || !(await canAccessReading(wallet, reading))) {
+    throw new Error('READING_NOT_FOUND');
+  }
+
+  const root = reading.processing?.merkle_root;
+  if (!root || !reading.processing.ipfs_hash) {
+    throw new Error('READING_NOT_VERIFIED');
+  }
+  if (reading.processing.merkle_leaf_version !== MERKLE_LEAF_VERSION) {
+    throw new Error('PROOF_UNAVAILABLE');
+  }
+
+  const sensorData = reading.sensor_data as Record<string, number[]>;
+  const leafIndex = getLeafIndex(sensorData, sensor_type, index);
+  if (leafIndex === -1) {
+    throw new Error('SAMPLE_NOT_FOUND');
+  }
+
+  const timestamps = getSampleTimestamps(reading);
+  const { root: rebuiltRoot, tree } = buildMerkleTree(sensorData, timestamps);
+  if (rebuiltRoot !== root) {
+    logger.error(`Rebuilt Merkle root does not match the published root of ${reading_id}`, {
+      published: root,
+      rebuilt: rebuiltRoot,
+    });
+    throw new Error('MERKLE_ROOT_MISMATCH');
+  }
+
+  const preimage = buildLeafPreimage(sensor_type, sensorData[sensor_type][index], timestamps[sensor_type][index], leafIndex);
+
+  return {
+    reading_id,
+    device_id: reading.device_id,
+    sensor_type,
+    index,
+    leaf: {
+      preimage,
+      hash: hashLeafPreimage(preimage),
+    },
+    proof: getMerkleProof(tree, leafIndex),
+    root,
+    merkle_leaf_version: MERKLE_LEAF_VERSION,
+    ipfs: {
+      cid: reading.processing.ipfs_hash,
+      uri: reading.processing.ipfs_uri,
+      content_hash: reading.processing.content_hash,
+    },
+    derivatives: await getDerivativeLinks(reading),
+  };
+};
+
+const validatePreimage = (preimage: MerkleLeafPreimage): MerkleLeafPreimage => {
+  const { index, leaf_version, sensor_type, timestamp, value } = preimage;
+
+  if (leaf_version !== MERKLE_LEAF_VERSION) {
+    throw new Error(`VALIDATION_ERROR: preimage.leaf_version must be ${MERKLE_LEAF_VERSION}`);
+  }
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error('VALIDATION_ERROR: preimage.index must be a non-negative integer');
+  }
+  if (typeof sensor_type !== 'string' || !sensor_type) {
+    throw new Error('VALIDATION_ERROR: preimage.sensor_type must be a string');
+  }
+  if (timestamp !== null && !Number.isInteger(timestamp)) {
+    throw new Error('VALIDATION_ERROR: preimage.timestamp must be Unix milliseconds or null');
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error('VALIDATION_ERROR: preimage.value must be a number');
+  }
+  return { index, leaf_version, sensor_type, timestamp, value };
+};
+
+/**
+ * Checks a proof supplied by a client. Only hashes are compared, so no access
+ * to the reading is needed; with reading_id the root is also compared with the
+ * root published for that reading.
+ */
+export const verifySampleProof = async (request: VerifyProofRequest): Promise<VerifyProofResult> => {
+  const { preimage, proof, root, reading_id } = request ?? ({} as VerifyProofRequest);
+
+  if (!preimage && request?.leaf === undefined) {
+    throw new Error('VALIDATION_ERROR: preimage or leaf is required');
+  }
+  if (preimage !== undefined && (typeof preimage !== 'object' || preimage === null)) {
+    throw new Error('VALIDATION_ERROR: preimage must be an object');
+  }
+  if (!Array.isArray(proof) || !proof.every(isHash)) {
+    throw new Error('VALIDATION_ERROR: proof must be an array of lowercase hex SHA-256 hashes');
+  }
+  if (!isHash(root)) {
+    throw new Error('VALIDATION_ERROR: root must be a lowercase hex SHA-256 hash');
+  }
+
+  const leaf = preimage ? hashLeafPreimage(validatePreimage(preimage)) : request.leaf;
+  if (!isHash(leaf)) {
+    throw new Error('VALIDATION_ERROR: leaf must be a lowercase hex SHA-256 hash');
+  }
+
+  // A leaf hash sent along with the preimage must belong to it
+  const valid = (request.leaf === undefined || request.leaf === leaf) && verifyMerkleProof(leaf, proof, root);
+
+  if (reading_id === undefined) {
+    return { valid, leaf, root };
+  }
+
+  const reading = await AQIReading.findOne({ reading_id })
+    .select('processing.merkle_root')
+    .lean<Pick<IAQIReading, 'processing'>>();
+  return {
+    valid,
+    leaf,
+    root,
+    published_root_matches: reading?.processing?.merkle_root === root,
+  };
+};
+
+export const merkleProofService: MerkleProofService = {
+  getSampleProof,
+  verifySampleProof,
+};
@@ -0,0 +1,100 @@
+import Device from '@/models/Device';
+import StationLocation from '@/models/StationLocation';
+import { NearbyDevice, NearbyQuery, NearbyResponse, NearbyStation } from '@/types/device.types';
+import { toGeoPoint } from '@/utils/geo.utils';
+import { NEARBY_SEARCH_CONFIG } from '@/config/constants';
+
+export interface NearbyService {
+  findNearby(query: NearbyQuery): Promise<NearbyResponse>;
+}
+
+const roundKm = (km: number): number => Math.round(km * 1000) / 1000;
+
+const isInRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+/**
+ * Stations and devices both go through a 2dsphere index: stations through the
+ * station_locations copy of the catalog, devices through Device.location.
+ */
+export const findNearby = async (query: NearbyQuery): Promise<NearbyResponse> => {
+  const { latitude, longitude } = query;
+  const radius_km = query.radius_km ?? NEARBY_SEARCH_CONFIG.DEFAULT_RADIUS_KM;
+
+  if (!isInRange(latitude, -90, 90)) {
+    throw new Error('VALIDATION_ERROR: lat must be a number between -90 and 90');
+  }
+  if (!isInRange(longitude, -180, 180)) {
+    throw new Error('VALIDATION_ERROR: lon must be a number between -180 and 180');
+  }
+  if (!isInRange(radius_km, 0, NEARBY_SEARCH_CONFIG.MAX_RADIUS_KM) || radius_km === 0) {
+    throw new Error(`VALIDATION_ERROR: radius_km must be greater than 0 and at most ${NEARBY_SEARCH_CONFIG.MAX_RADIUS_KM}`);
+  }
+
+  const origin = { latitude, longitude };
+
+  const stationMatches = await StationLocation.aggregate<Omit<NearbyStation, 'distance_km'> & { distance_m: number }>([
+    {
+      $geoNear: {
+        near: toGeoPoint(origin),
+        key: 'location',
+        distanceField: 'distance_m',
+        maxDistance: radius_km * 1000,
+        spherical: true,
+        query: { status: 'active' },
+      },
+    },
+    { $limit: NEARBY_SEARCH_CONFIG.MAX_RESULTS },
+    {
+      $project: {
+        _id: 0,
+        station_id: 1,
+        station_name: 1,
+        city_id: 1,
+        city_name: 1,
+        coordinates: 1,
+        provider: 1,
+        available_sensors: 1,
+        distance_m: 1,
+      },
+    },
+  ]);
+
+  const stations: NearbyStation[] = stationMatches.map(({ distance_m, ...station }) => ({
+    ...station,
+    distance_km: roundKm(distance_m / 1000),
+  }));
+
+  const matches = await Device.aggregate<Omit<NearbyDevice, 'distance_km'> & { distance_m: number }>([
+    {
+      $geoNear: {
+        near: toGeoPoint(origin),
+        key: 'location',
+        distanceField: 'distance_m',
+        maxDistance: radius_km * 1000,
+        spherical: true,
+        query: { status: 'active' },
+      },
+    },
+    { $limit: NEARBY_SEARCH_CONFIG.MAX_RESULTS },
+    {
+      $project: {
+        _id: 0,
+        device_id: 1,
+        station_id: '$sensor_meta.station_id',
+        station: '$sensor_meta.station',
+        coordinates: '$sensor_meta.coordinates',
+        sensor_types: '$sensor_meta.sensor_types',
+        health: 1,
+        distance_m: 1,
+      },
+    },
+  ]);
+
+  const devices: NearbyDevice[] = matches.map(({ distance_m, ...device }) => ({
+    ...device,
+    distance_km: roundKm(distance_m / 1000),
+  }));
+
+  return { radius_km, stations, devices };
+};
@@ -0,0 +1,192 @@
+import AQIReading from '@/models/AQIReading';
+import { getSensorDefinition } from './config.service';
+import { getSampleTimestamps } from './verification.service';
+import { IAQIReading, QualityFlag, ReadingQuality, SensorDataPoint } from '@/types/aqi-reading.types';
+import { QUALITY_CONFIG } from '@/config/constants';
+
+export interface QualityService {
+  assessReadingQuality(reading: IAQIReading): Promise<ReadingQuality>;
+  evaluateReadingQuality(reading: IAQIReading, baseline: SensorDataPoint): ReadingQuality;
+}
+
+// Scales a median absolute deviation to a standard deviation for normally distributed values
+const MAD_SCALE = 1.4826;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Values far from the baseline median, measured in scaled MADs. The spread has
+ * a floor so a near-constant baseline does not turn normal noise into spikes.
+ */
+const findSpikes = (sensor_type: string, values: number[], baseline: number[]): QualityFlag | null => {
+  const reference = baseline.length >= QUALITY_CONFIG.BASELINE_MIN_SAMPLES ? baseline : values;
+  const center = median(reference);
+  const definition = getSensorDefinition(sensor_type);
+  const floor = definition ? (definition.max - definition.min) * QUALITY_CONFIG.SPIKE_MIN_SPREAD_FRACTION : 0;
+  const spread = Math.max(MAD_SCALE * median(reference.map(value => Math.abs(value - center))), floor);
+  if (spread === 0) {
+    return null;
+  }
+
+  const indices = values.flatMap((value, i) =>
+    Math.abs(value - center) / spread > QUALITY_CONFIG.SPIKE_THRESHOLD ? [i] : []
+  );
+  if (indices.length === 0) {
+    return null;
+  }
+  return {
+    check: 'spike',
+    sensor_type,
+    indices,
+    detail: `${indices.length} value(s) more than ${QUALITY_CONFIG.SPIKE_THRESHOLD} x ${round(spread)} from the baseline median ${round(center)}`,
+  };
+};
+
+// Runs of identical consecutive values long enough to suggest a stuck sensor
+const findFlatlines = (sensor_type: string, values: number[]): QualityFlag | null => {
+  const indices: number[] = [];
+  let runStart = 0;
+  for (let i = 1; i <= values.length; i++) {
+    if (i < values.length && values[i] === values[runStart]) {
+      continue;
+    }
+    if (i - runStart >= QUALITY_CONFIG.FLATLINE_MIN_SAMPLES) {
+      for (let j = runStart; j < i; j++) indices.push(j);
+    }
+    runStart = i;
+  }
+  if (indices.length === 0) {
+    return null;
+  }
+  return {
+    check: 'flatline',
+    sensor_type,
+    indices,
+    detail: `${indices.length} value(s) in runs of at least ${QUALITY_CONFIG.FLATLINE_MIN_SAMPLES} identical samples`,
+  };
+};
+
+/**
+ * Values of lower above the value of upper sampled at the same time. Values
+ * stored without a timestamp cannot be paired and are not compared.
+ */
+const findInconsistentPairs = (
+  reading: IAQIReading,
+  timestamps: Record<string, Array<number | null>>,
+  lower: string,
+  upper: string
+): QualityFlag | null => {
+  const lowerValues = reading.sensor_data[lower];
+  const upperValues = reading.sensor_data[upper];
+  if (!lowerValues || !upperValues) {
+    return null;
+  }
+
+  const upperAt = new Map<number, number>();
+  upperValues.forEach((value, i) => {
+    const timestamp = timestamps[upper][i];
+    if (timestamp !== null) upperAt.set(timestamp, value);
+  });
+
+  const indices = lowerValues.flatMap((value, i) => {
+    const timestamp = timestamps[lower][i];
+    const upperValue = timestamp === null ? undefined : upperAt.get(timestamp);
+    return upperValue !== undefined && value > upperValue ? [i] : [];
+  });
+  if (indices.length === 0) {
+    return null;
+  }
+  return {
+    check: 'inconsistent_pair',
+    sensor_type: lower,
+    indices,
+    related_sensor: upper,
+    detail: `${indices.length} value(s) of ${lower} above ${upper} sampled at the same time`,
+  };
+};
+
+/**
+ * Runs the QA checks on a batch. baseline holds the device's values from
+ * earlier batches by sensor type. The score is the share of values no flag
+ * points at, times the average sample coverage of the sensors.
+ */
+export const evaluateReadingQuality = (reading: IAQIReading, baseline: SensorDataPoint): ReadingQuality => {
+  const sensorData = reading.sensor_data;
+  const timestamps = getSampleTimestamps(reading);
+  const windowSeconds = (reading.batch_window.end.getTime() - reading.batch_window.start.getTime()) / 1000;
+  const expected = Math.max(1, Math.floor(windowSeconds / QUALITY_CONFIG.EXPECTED_SAMPLE_INTERVAL_SECONDS));
+
+  const flags: QualityFlag[] = [];
+  const coverage: number[] = [];
+  for (const [sensor_type, values] of Object.entries(sensorData)) {
+    if (!Array.isArray(values) || values.length === 0) {
+      continue;
+    }
+    coverage.push(Math.min(1, values.length / expected));
+    if (values.length < expected * QUALITY_CONFIG.MIN_COVERAGE) {
+      flags.push({
+        check: 'low_sample_count',
+        sensor_type,
+        detail: `${values.length} of ${expected} expected samples`,
+      });
+    }
+
+    const spikes = findSpikes(sensor_type, values, baseline[sensor_type] ?? []);
+    if (spikes) flags.push(spikes);
+    const flatline = findFlatlines(sensor_type, values);
+    if (flatline) flags.push(flatline);
+  }
+
+  for (const [lower, upper] of QUALITY_CONFIG.CONSISTENT_PAIRS) {
+    const pair = findInconsistentPairs(reading, timestamps, lower, upper);
+    if (pair) flags.push(pair);
+  }
+
+  // A value flagged by more than one check is counted once
+  const flagged = new Set(flags.flatMap(flag => (flag.indices ?? []).map(i => `${flag.sensor_type}:${i}`)));
+  const total = Object.values(sensorData).reduce((sum, values) => sum + (Array.isArray(values) ? values.length : 0), 0);
+  const clean = total === 0 ? 0 : (total - flagged.size) / total;
+  const averageCoverage = coverage.length === 0 ? 0 : coverage.reduce((sum, value) => sum + value, 0) / coverage.length;
+
+  return {
+    score: Math.round(100 * clean * averageCoverage),
+    flags,
+    version: QUALITY_CONFIG.VERSION,
+    assessed_at: new Date(),
+  };
+};
+
+/**
+ * QA of a batch, with the device's batches of the preceding BASELINE_HOURS as
+ * the baseline for spikes
+ */
+export const assessReadingQuality = async (reading: IAQIReading): Promise<ReadingQuality> => {
+  const since = new Date(reading.batch_window.start.getTime() - QUALITY_CONFIG.BASELINE_HOURS * 60 * 60 * 1000);
+  const earlier = await AQIReading.find({
+    device_id: reading.device_id,
+    'batch_window.start': { $gte: since, $lt: reading.batch_window.start },
+  })
+    .select('sensor_data')
+    .lean<Array<Pick<IAQIReading, 'sensor_data'>>>();
+
+  const baseline: SensorDataPoint = {};
+  for (const { sensor_data } of earlier) {
+    for (const [sensor_type, values] of Object.entries(sensor_data)) {
+      if (Array.isArray(values)) {
+        baseline[sensor_type] = [...(baseline[sensor_type] ?? []), ...values];
+      }
+    }
+  }
+  return evaluateReadingQuality(reading, baseline);
+};
+
+export const qualityService: QualityService = {
+  assessReadingQuality,
+  evaluateReadingQuality,
+};
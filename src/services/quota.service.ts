@@ -0,0 +1,49 @@
+import Device from '@/models/Device';
+import { findUserByWalletId } from '@/database/user.repository';
+import { DeviceQuota, QuotaTier } from '@/types/user.types';
+import { QUOTA_CONFIG } from '@/config/constants';
+
+export interface QuotaService {
+  isQuotaTier(tier: unknown): tier is QuotaTier;
+  getTierLimit(tier?: QuotaTier): number;
+  getDeviceQuota(walletAddress: string, tier?: QuotaTier): Promise<DeviceQuota>;
+  hasDeviceCapacity(walletAddress: string): Promise<boolean>;
+}
+
+export const isQuotaTier = (tier: unknown): tier is QuotaTier =>
+  typeof tier === 'string' && (QUOTA_CONFIG.TIERS as readonly string[]).includes(tier);
+
+/**
+ * Maximum active devices for a tier. Users stored before tiers existed have
+ * none and get the default tier.
+ */
+export const getTierLimit = (tier?: QuotaTier): number =>
+  QUOTA_CONFIG.MAX_ACTIVE_DEVICES[tier ?? QUOTA_CONFIG.DEFAULT_TIER];
+
+/**
+ * Quota of a wallet, counted from its active devices. Inactive and
+ * decommissioned devices do not hold a slot. Pass tier when the caller has
+ * already loaded the user, to skip looking it up again.
+ */
+export const getDeviceQuota = async (walletAddress: string, tier?: QuotaTier): Promise<DeviceQuota> => {
+  const owner_id = walletAddress.toLowerCase();
+  const resolvedTier = tier ?? (await findUserByWalletId(owner_id))?.quota_tier ?? QUOTA_CONFIG.DEFAULT_TIER;
+  const max_active_devices = getTierLimit(resolvedTier);
+  const active_devices = await Device.countDocuments({ owner_id, status: 'active' });
+
+  return {
+    tier: resolvedTier,
+    max_active_devices,
+    active_devices,
+    remaining: Math.max(max_active_devices - active_devices, 0),
+    limit_reached: active_devices >= max_active_devices,
+  };
+};
+
+/**
+ * Whether the wallet may hold one more active device
+ */
+export const hasDeviceCapacity = async (walletAddress: string): Promise<boolean> => {
+  const quota = await getDeviceQuota(walletAddress);
+  return !quota.limit_reached;
+};
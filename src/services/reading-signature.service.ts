@@ -0,0 +1,184 @@
+import { createPublicKey, verify, KeyObject } from 'crypto';
+import { canonicalJSON } from '@/utils/hash.utils';
+import { claimIngestionNonce, releaseIngestionNonce } from '@/redis/nonce.repository';
+import { DataIngestionRequest, ReadingSignature } from '@/types/aqi-reading.types';
+import { DeviceSigningKey, IDevice, SigningKeyRequest } from '@/types/device.types';
+import { BACKFILL_CONFIG, INGESTION_SIGNATURE_CONFIG } from '@/config/constants';
+import { logger } from '@/utils/logger';
+
+// DER SubjectPublicKeyInfo headers, so raw keys can be loaded by node:crypto
+const SPKI_PREFIX = {
+  ed25519: '302a300506032b6570032100',
+  secp256k1_compressed: '3036301006072a8648ce3d020106052b8104000a032200',
+  secp256k1_uncompressed: '3056301006072a8648ce3d020106052b8104000a034200',
+};
+
+const SIGNATURE_LENGTH_BYTES = 64;
+
+// A nonce has to be remembered for as long as a sample carrying it could still be accepted
+const nonceTtlSeconds = (device: IDevice): number =>
+  Math.max(
+    INGESTION_SIGNATURE_CONFIG.NONCE_TTL_SECONDS,
+    (device.backfill_window_seconds ?? 0) + BACKFILL_CONFIG.MAX_FUTURE_SECONDS
+  );
+
+const normalizeHex = (value: unknown): string | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const hex = value.toLowerCase().replace(/^0x/, '');
+  return /^([0-9a-f]{2})+$/.test(hex) ? hex : null;
+};
+
+const toKeyObject = (signing_key: Pick<DeviceSigningKey, 'algorithm' | 'public_key'>): KeyObject => {
+  const { algorithm, public_key } = signing_key;
+  let prefix: string | undefined;
+  if (algorithm === 'ed25519' && public_key.length === 64) {
+    prefix = SPKI_PREFIX.ed25519;
+  } else if (algorithm === 'secp256k1' && public_key.length === 66) {
+    prefix = SPKI_PREFIX.secp256k1_compressed;
+  } else if (algorithm === 'secp256k1' && public_key.length === 130) {
+    prefix = SPKI_PREFIX.secp256k1_uncompressed;
+  }
+  if (!prefix) {
+    throw new Error(`VALIDATION_ERROR: Invalid ${algorithm} public key length`);
+  }
+  return createPublicKey({ key: Buffer.from(prefix + public_key, 'hex'), format: 'der', type: 'spki' });
+};
+
+/**
+ * Checks a public key submitted by an owner and returns it in stored form.
+ */
+export const parseSigningKey = (request: SigningKeyRequest): DeviceSigningKey => {
+  if (!request || !(INGESTION_SIGNATURE_CONFIG.ALGORITHMS as readonly string[]).includes(request.algorithm)) {
+    throw new Error(
+      `VALIDATION_ERROR: algorithm must be one of ${INGESTION_SIGNATURE_CONFIG.ALGORITHMS.join(', ')}`
+    );
+  }
+
+  const public_key = normalizeHex(request.public_key);
+  if (!public_key) {
+    throw new Error('VALIDATION_ERROR: public_key must be hex encoded');
+  }
+
+  const signing_key = { algorithm: request.algorithm, public_key, registered_at: new Date() };
+  try {
+    toKeyObject(signing_key);
+  } catch (error: any) {
+    if (error.message.startsWith('VALIDATION_ERROR')) {
+      throw error;
+    }
+    throw new Error(`VALIDATION_ERROR: public_key is not a valid ${request.algorithm} key`);
+  }
+  return signing_key;
+};
+
+/**
+ * The exact bytes a device signs: {device_id, sensor_data, timestamp, nonce}
+ * serialized as JSON with keys sorted at every level and no whitespace.
+ * Samples sent in other than the canonical units also sign their units.
+ */
+export const buildSignedReadingPayload = (
+  request: Pick<DataIngestionRequest, 'device_id' | 'sensor_data' | 'timestamp' | 'nonce' | 'units'>
+): string => {
+  const { device_id, sensor_data, timestamp, nonce, units } = request;
+  return canonicalJSON({ device_id, sensor_data, timestamp, nonce, units });
+};
+
+/**
+ * ed25519 signs the payload directly. secp256k1 signs its SHA-256 digest and
+ * the signature is the 64-byte r||s concatenation.
+ */
+export const verifyReadingSignature = (
+  signing_key: Pick<DeviceSigningKey, 'algorithm' | 'public_key'>,
+  request: DataIngestionRequest
+): boolean => {
+  const signature = normalizeHex(request.signature);
+  if (!signature || signature.length !== SIGNATURE_LENGTH_BYTES * 2) {
+    return false;
+  }
+
+  try {
+    const key = toKeyObject(signing_key);
+    const payload = Buffer.from(buildSignedReadingPayload(request));
+    const sig = Buffer.from(signature, 'hex');
+    if (signing_key.algorithm === 'ed25519') {
+      return verify(null, payload, key, sig);
+    }
+    return verify('sha256', payload, { key, dsaEncoding: 'ieee-p1363' }, sig);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Enforces the signature policy for one ingestion request and burns its nonce.
+ * Returns the record to keep with the batch, or null for unsigned devices
+ * while signatures are not globally required.
+ */
+export const verifySignedReading = async (
+  device: IDevice,
+  request: DataIngestionRequest
+): Promise<ReadingSignature | null> => {
+  const { signing_key } = device;
+  if (!signing_key) {
+    if (INGESTION_SIGNATURE_CONFIG.REQUIRE_SIGNATURES) {
+      throw new Error('SIGNING_KEY_NOT_REGISTERED');
+    }
+    return null;
+  }
+
+  if (!request.signature || !request.nonce) {
+    throw new Error('VALIDATION_ERROR: signature and nonce are required for this device');
+  }
+  if (
+    typeof request.nonce !== 'string' ||
+    request.nonce.length < INGESTION_SIGNATURE_CONFIG.NONCE_MIN_LENGTH ||
+    request.nonce.length > INGESTION_SIGNATURE_CONFIG.NONCE_MAX_LENGTH
+  ) {
+    throw new Error(
+      `VALIDATION_ERROR: nonce must be ${INGESTION_SIGNATURE_CONFIG.NONCE_MIN_LENGTH}-${INGESTION_SIGNATURE_CONFIG.NONCE_MAX_LENGTH} characters`
+    );
+  }
+
+  if (!verifyReadingSignature(signing_key, request)) {
+    throw new Error('SIGNATURE_INVALID');
+  }
+
+  // Only claim the nonce once the signature checks out, so forged requests cannot burn it
+  const claimed = await claimIngestionNonce(device.device_id, request.nonce, {
+    device_id: device.device_id,
+    timestamp: request.timestamp,
+    received_at: Date.now(),
+  }, nonceTtlSeconds(device));
+  if (!claimed.success) {
+    throw new Error(`Nonce check failed: ${claimed.error?.message}`);
+  }
+  if (!claimed.data) {
+    throw new Error('NONCE_REPLAYED');
+  }
+
+  return {
+    timestamp: request.timestamp,
+    nonce: request.nonce,
+    sensor_data: request.sensor_data,
+    ...(request.units && { units: request.units }),
+    signature: normalizeHex(request.signature)!,
+    algorithm: signing_key.algorithm,
+    public_key: signing_key.public_key,
+    received_at: new Date(),
+  };
+};
+
+/**
+ * Gives back the nonces of verified readings whose batch write failed. A nonce
+ * that cannot be released only makes its reading a NONCE_REPLAYED on resend.
+ */
+export const releaseReadingNonces = async (device_id: string, signatures: ReadingSignature[]): Promise<void> => {
+  await Promise.all(signatures.map(async ({ nonce }) => {
+    const released = await releaseIngestionNonce(device_id, nonce);
+    if (!released.success) {
+      logger.warn(`Could not release ingestion nonce of ${device_id}`, { nonce, error: released.error?.message });
+    }
+  }));
+};
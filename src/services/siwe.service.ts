@@ -0,0 +1,108 @@
+import { randomBytes } from 'crypto';
+import { verifyMessage, Hex } from 'viem';
+import { parseSiweMessage } from 'viem/siwe';
+import { SIWE_CONFIG } from '@/config/constants';
+import { storeNonce, consumeNonce } from '@/redis/nonce.repository';
+import { NonceResponse } from '@/types/auth.types';
+
+export interface SiweService {
+  issueNonce(ip_address?: string): Promise<NonceResponse>;
+  verifySiweLogin(message: string, signature: string): Promise<string>;
+}
+
+const generateNonce = () => randomBytes(SIWE_CONFIG.NONCE_LENGTH).toString('hex');
+
+const toOrigin = (uri: string): string | null => {
+  try {
+    return new URL(uri).origin;
+  } catch {
+    return null;
+  }
+};
+
+export const issueNonce = async (ip_address?: string): Promise<NonceResponse> => {
+  const nonce = generateNonce();
+  const issued_at = Date.now();
+  const expires_at = issued_at + SIWE_CONFIG.NONCE_TTL_SECONDS * 1000;
+
+  const stored = await storeNonce(nonce, { nonce, issued_at, expires_at, ip_address });
+  if (!stored.success) {
+    throw new Error('NONCE_STORE_FAILED');
+  }
+
+  return {
+    nonce,
+    domain: SIWE_CONFIG.DOMAIN,
+    uri: SIWE_CONFIG.URI,
+    chain_id: SIWE_CONFIG.CHAIN_ID,
+    statement: SIWE_CONFIG.STATEMENT,
+    issued_at: new Date(issued_at).toISOString(),
+    expires_at: new Date(expires_at).toISOString(),
+  };
+};
+
+/**
+ * Verifies an EIP-4361 message and its signature, consuming the nonce.
+ * @returns The lowercase wallet address that signed the message.
+ */
+export const verifySiweLogin = async (message: string, signature: string): Promise<string> => {
+  const parsed = parseSiweMessage(message);
+
+  if (!parsed.address || !parsed.domain || !parsed.nonce || !parsed.uri || parsed.version !== '1' || !parsed.chainId) {
+    throw new Error('SIWE_MESSAGE_INVALID');
+  }
+
+  if (parsed.domain !== SIWE_CONFIG.DOMAIN) {
+    throw new Error('SIWE_DOMAIN_MISMATCH');
+  }
+
+  // The message must be for this app's origin; its path is up to the client
+  if (toOrigin(parsed.uri) !== toOrigin(SIWE_CONFIG.URI)) {
+    throw new Error('SIWE_URI_MISMATCH');
+  }
+
+  if (parsed.chainId !== SIWE_CONFIG.CHAIN_ID) {
+    throw new Error('SIWE_CHAIN_MISMATCH');
+  }
+
+  const now = Date.now();
+  if (parsed.expirationTime && parsed.expirationTime.getTime() <= now) {
+    throw new Error('SIWE_MESSAGE_EXPIRED');
+  }
+  if (parsed.notBefore && parsed.notBefore.getTime() > now) {
+    throw new Error('SIWE_MESSAGE_NOT_YET_VALID');
+  }
+  if (parsed.issuedAt && parsed.issuedAt.getTime() > now + SIWE_CONFIG.MAX_CLOCK_SKEW_SECONDS * 1000) {
+    throw new Error('SIWE_MESSAGE_NOT_YET_VALID');
+  }
+
+  let signatureValid = false;
+  try {
+    signatureValid = await verifyMessage({
+      address: parsed.address,
+      message,
+      signature: signature as Hex,
+    });
+  } catch {
+    signatureValid = false;
+  }
+  if (!signatureValid) {
+    throw new Error('SIWE_SIGNATURE_INVALID');
+  }
+
+  // Consume last so a forged message cannot burn a legitimate user's nonce
+  const nonceResult = await consumeNonce(parsed.nonce);
+  if (!nonceResult.success || !nonceResult.data) {
+    throw new Error('SIWE_NONCE_INVALID');
+  }
+  if (nonceResult.data.expires_at <= now) {
+    throw new Error('SIWE_MESSAGE_EXPIRED');
+  }
+
+  return parsed.address.toLowerCase();
+};
+
+export const siweService: SiweService = {
+  issueNonce,
+  verifySiweLogin,
+};
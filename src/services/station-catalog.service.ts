@@ -0,0 +1,330 @@
+import Device from '@/models/Device';
+import { findLatestStationCatalog, insertStationCatalog, syncStationLocations } from '@/database/station-catalog.repository';
+import { applyStationCatalog, getSensorDefinition, loadStationsConfig, refreshConfig } from './config.service';
+import { recordAuditEvent } from './audit.service';
+import {
+  CityConfig,
+  CreateStationRequest,
+  IStationCatalog,
+  SensorInfo,
+  StationCatalogAction,
+  StationConfig,
+  StationsConfig,
+  UpdateStationRequest,
+} from '@/types/device.types';
+import { AuditAction } from '@/types/audit.types';
+import { BATCH_WINDOW_CONFIG, STATION_CATALOG_CONFIG } from '@/config/constants';
+import { isAllowedBatchWindowMinutes } from '@/utils/time-window.utils';
+
+export interface StationCatalogService {
+  getStationCatalog(): Promise<StationsConfig>;
+  createStation(actor: string, request: CreateStationRequest): Promise<StationConfig>;
+  updateStation(actor: string, station_id: string, request: UpdateStationRequest): Promise<StationConfig>;
+  addStationSensors(actor: string, station_id: string, sensors: SensorInfo[], reason?: string): Promise<StationConfig>;
+  retireStation(actor: string, station_id: string, reason?: string): Promise<StationConfig>;
+  buildNewStation(request: CreateStationRequest): StationConfig;
+}
+
+const AUDIT_ACTIONS: Record<Exclude<StationCatalogAction, 'seeded'>, AuditAction> = {
+  station_created: 'station.created',
+  station_updated: 'station.updated',
+  station_retired: 'station.retired',
+};
+
+const ID_PATTERN = /^[a-z0-9_]{1,100}$/;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const validateCoordinates = (coordinates: unknown): void => {
+  const { latitude, longitude } = (coordinates ?? {}) as Record<string, unknown>;
+  if (typeof latitude !== 'number' || latitude < -90 || latitude > 90) {
+    throw new Error('VALIDATION_ERROR: coordinates.latitude must be a number between -90 and 90');
+  }
+  if (typeof longitude !== 'number' || longitude < -180 || longitude > 180) {
+    throw new Error('VALIDATION_ERROR: coordinates.longitude must be a number between -180 and 180');
+  }
+};
+
+const validateSensors = (sensors: unknown): void => {
+  if (!Array.isArray(sensors) || sensors.length === 0) {
+    throw new Error('VALIDATION_ERROR: available_sensors must be a non-empty array');
+  }
+  for (const sensor of sensors as SensorInfo[]) {
+    if (!isNonEmptyString(sensor?.sensor_type) || !isNonEmptyString(sensor.unit) || !isNonEmptyString(sensor.description)) {
+      throw new Error('VALIDATION_ERROR: Every sensor needs a sensor_type, unit and description');
+    }
+  }
+  // Stations list a sensor in its canonical unit, the one ingested values are converted to
+  for (const sensor of sensors as SensorInfo[]) {
+    const definition = getSensorDefinition(sensor.sensor_type);
+    if (definition && definition.unit !== sensor.unit) {
+      throw new Error(`VALIDATION_ERROR: ${sensor.sensor_type} must be listed in ${definition.unit}`);
+    }
+  }
+  const types = sensors.map((sensor: SensorInfo) => sensor.sensor_type);
+  if (new Set(types).size !== types.length) {
+    throw new Error('VALIDATION_ERROR: Duplicate sensor types detected');
+  }
+};
+
+const validateBatchWindow = (batch_window_minutes: unknown): void => {
+  if (!isAllowedBatchWindowMinutes(batch_window_minutes)) {
+    throw new Error(`VALIDATION_ERROR: batch_window_minutes must be one of ${BATCH_WINDOW_CONFIG.ALLOWED_MINUTES.join(', ')}`);
+  }
+};
+
+// Station fields kept in the audit log
+const toAuditState = (station: StationConfig): Record<string, unknown> => ({ ...station });
+
+const findStation = (cities: CityConfig[], station_id: string): StationConfig | undefined =>
+  cities.flatMap(city => city.stations).find(station => station.station_id === station_id);
+
+/**
+ * Stores a new catalog version built by change from the latest one. If another
+ * writer stores a version first, the change is replayed on top of theirs.
+ * change throws to reject the request and returns the station it touched.
+ */
+const commitCatalogChange = async (
+  actor: string,
+  action: Exclude<StationCatalogAction, 'seeded'>,
+  station_id: string,
+  reason: string | undefined,
+  change: (cities: CityConfig[]) => StationConfig
+): Promise<StationConfig> => {
+  // Make sure the catalog has been seeded before building on it
+  await refreshConfig();
+
+  for (let attempt = 0; attempt < STATION_CATALOG_CONFIG.WRITE_RETRIES; attempt++) {
+    const latest = await findLatestStationCatalog();
+    if (!latest) {
+      throw new Error('STATION_CATALOG_CONFLICT');
+    }
+
+    const cities = structuredClone(latest.cities);
+    const before = findStation(latest.cities, station_id) ?? null;
+    const station = change(cities);
+
+    let stored: IStationCatalog;
+    try {
+      stored = await insertStationCatalog({
+        version: latest.version + 1,
+        sensors: latest.sensors,
+        cities,
+        action,
+        station_id,
+        changed_by: actor,
+        reason,
+        created_at: new Date(),
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        continue;
+      }
+      throw error;
+    }
+
+    await syncStationLocations(stored);
+    applyStationCatalog(stored);
+    await recordAuditEvent({
+      actor,
+      action: AUDIT_ACTIONS[action],
+      target: { type: 'station', id: station_id },
+      before: before && toAuditState(before),
+      after: toAuditState(station),
+      metadata: { catalog_version: stored.version, reason },
+    });
+    return station;
+  }
+
+  throw new Error('STATION_CATALOG_CONFLICT');
+};
+
+/**
+ * Latest catalog including retired stations
+ */
+export const getStationCatalog = async (): Promise<StationsConfig> => {
+  await refreshConfig();
+  return loadStationsConfig();
+};
+
+/**
+ * Checks a new station and returns it as stored in the catalog. Whether the
+ * station_id is free is only known when the change is committed.
+ */
+export const buildNewStation = (request: CreateStationRequest): StationConfig => {
+  const { city_id, station_id, station_name, coordinates, owner, provider, available_sensors, batch_window_minutes } =
+    request ?? ({} as CreateStationRequest);
+
+  if (typeof city_id !== 'string' || !ID_PATTERN.test(city_id)) {
+    throw new Error('VALIDATION_ERROR: city_id must be lowercase letters, digits and underscores');
+  }
+  if (typeof station_id !== 'string' || !ID_PATTERN.test(station_id)) {
+    throw new Error('VALIDATION_ERROR: station_id must be lowercase letters, digits and underscores');
+  }
+  if (!isNonEmptyString(station_name)) {
+    throw new Error('VALIDATION_ERROR: station_name is required');
+  }
+  validateCoordinates(coordinates);
+  validateSensors(available_sensors);
+  if (batch_window_minutes !== undefined) {
+    validateBatchWindow(batch_window_minutes);
+  }
+
+  return {
+    station_id,
+    station_name: station_name.trim(),
+    coordinates: { latitude: coordinates.latitude, longitude: coordinates.longitude },
+    ...(owner !== undefined && { owner }),
+    ...(provider !== undefined && { provider }),
+    available_sensors: available_sensors.map(({ sensor_type, unit, description }) => ({ sensor_type, unit, description })),
+    ...(batch_window_minutes !== undefined && { batch_window_minutes }),
+    status: 'active',
+  };
+};
+
+/**
+ * Adds a station, and its city if the city is new
+ */
+export const createStation = async (actor: string, request: CreateStationRequest): Promise<StationConfig> => {
+  const station = buildNewStation(request);
+  const { city_id, city_name, country, station_id, reason } = request;
+
+  return commitCatalogChange(actor, 'station_created', station_id, reason, cities => {
+    if (findStation(cities, station_id)) {
+      throw new Error('STATION_EXISTS');
+    }
+
+    let city = cities.find(c => c.city_id === city_id);
+    if (!city) {
+      if (!isNonEmptyString(city_name) || !isNonEmptyString(country)) {
+        throw new Error(`VALIDATION_ERROR: city_name and country are required for the new city '${city_id}'`);
+      }
+      city = { city_id, city_name: city_name.trim(), country: country.trim(), stations: [] };
+      cities.push(city);
+    }
+
+    city.stations.push(station);
+    return station;
+  });
+};
+
+/**
+ * Edits a station. Sensors that devices on the station still report cannot be removed.
+ * Devices keep the station name and coordinates they were registered with. A new
+ * batch window length applies to later samples of devices without their own.
+ */
+export const updateStation = async (
+  actor: string,
+  station_id: string,
+  request: UpdateStationRequest
+): Promise<StationConfig> => {
+  const { station_name, coordinates, owner, provider, available_sensors, batch_window_minutes, reason } =
+    request ?? ({} as UpdateStationRequest);
+
+  if (station_name === undefined && coordinates === undefined && owner === undefined
+    && provider === undefined && available_sensors === undefined && batch_window_minutes === undefined) {
+    throw new Error('VALIDATION_ERROR: Nothing to update');
+  }
+  if (station_name !== undefined && !isNonEmptyString(station_name)) {
+    throw new Error('VALIDATION_ERROR: station_name must not be empty');
+  }
+  if (coordinates !== undefined) {
+    validateCoordinates(coordinates);
+  }
+  if (batch_window_minutes !== undefined) {
+    validateBatchWindow(batch_window_minutes);
+  }
+
+  let sensorsInUse: string[] = [];
+  if (available_sensors !== undefined) {
+    validateSensors(available_sensors);
+    sensorsInUse = await Device.distinct('sensor_meta.sensor_types', {
+      'sensor_meta.station_id': station_id,
+      status: { $ne: 'decommissioned' },
+    });
+  }
+
+  return commitCatalogChange(actor, 'station_updated', station_id, reason, cities => {
+    const station = findStation(cities, station_id);
+    if (!station) {
+      throw new Error('STATION_NOT_FOUND');
+    }
+
+    if (station_name !== undefined) {
+      station.station_name = station_name.trim();
+    }
+    if (coordinates !== undefined) {
+      station.coordinates = { latitude: coordinates.latitude, longitude: coordinates.longitude };
+    }
+    if (owner !== undefined) {
+      station.owner = owner;
+    }
+    if (provider !== undefined) {
+      station.provider = provider;
+    }
+    if (batch_window_minutes !== undefined) {
+      station.batch_window_minutes = batch_window_minutes;
+    }
+    if (available_sensors !== undefined) {
+      const kept = available_sensors.map(sensor => sensor.sensor_type);
+      const removedInUse = sensorsInUse.filter(sensor_type => !kept.includes(sensor_type));
+      if (removedInUse.length > 0) {
+        throw new Error(`VALIDATION_ERROR: Sensors still used by devices at this station: ${removedInUse.join(', ')}`);
+      }
+      station.available_sensors = available_sensors.map(({ sensor_type, unit, description }) => ({ sensor_type, unit, description }));
+    }
+
+    return station;
+  });
+};
+
+/**
+ * Adds the sensors a station lacks, checked against the catalog version the
+ * change is committed on so sensors added concurrently are kept.
+ */
+export const addStationSensors = async (
+  actor: string,
+  station_id: string,
+  sensors: SensorInfo[],
+  reason?: string
+): Promise<StationConfig> => {
+  validateSensors(sensors);
+
+  return commitCatalogChange(actor, 'station_updated', station_id, reason, cities => {
+    const station = findStation(cities, station_id);
+    if (!station) {
+      throw new Error('STATION_NOT_FOUND');
+    }
+    if (station.status === 'retired') {
+      throw new Error('VALIDATION_ERROR: Cannot add sensors to a retired station');
+    }
+
+    const known = station.available_sensors.map(sensor => sensor.sensor_type);
+    const added = sensors
+      .filter(sensor => !known.includes(sensor.sensor_type))
+      .map(({ sensor_type, unit, description }) => ({ sensor_type, unit, description }));
+    station.available_sensors = [...station.available_sensors, ...added];
+    return station;
+  });
+};
+
+/**
+ * Closes a station to new devices. Devices already there keep ingesting
+ * and their readings keep resolving the station.
+ */
+export const retireStation = async (actor: string, station_id: string, reason?: string): Promise<StationConfig> => {
+  return commitCatalogChange(actor, 'station_retired', station_id, reason, cities => {
+    const station = findStation(cities, station_id);
+    if (!station) {
+      throw new Error('STATION_NOT_FOUND');
+    }
+    if (station.status === 'retired') {
+      throw new Error('VALIDATION_ERROR: Station is already retired');
+    }
+
+    station.status = 'retired';
+    station.retired_at = new Date().toISOString();
+    return station;
+  });
+};
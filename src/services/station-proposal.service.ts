@@ -0,0 +1,223 @@
+import { randomBytes } from 'crypto';
+import StationProposal from '@/models/StationProposal';
+import { addStationSensors, buildNewStation, createStation } from './station-catalog.service';
+import { getStationById, loadStationsConfig, refreshConfig } from './config.service';
+import { recordAuditEvent } from './audit.service';
+import {
+  CreateStationRequest,
+  IStationProposal,
+  ProposeStationRequest,
+  StationProposalStatus,
+} from '@/types/device.types';
+import { STATION_CATALOG_CONFIG } from '@/config/constants';
+import { logger } from '@/utils/logger';
+
+export interface StationProposalService {
+  proposeStation(wallet: string, request: ProposeStationRequest): Promise<IStationProposal>;
+  listOwnProposals(wallet: string): Promise<IStationProposal[]>;
+  listStationProposals(status?: StationProposalStatus): Promise<IStationProposal[]>;
+  approveStationProposal(actor: string, proposal_id: string, note?: string): Promise<IStationProposal>;
+  mergeStationProposal(actor: string, proposal_id: string, station_id: string, note?: string): Promise<IStationProposal>;
+  rejectStationProposal(actor: string, proposal_id: string, note?: string): Promise<IStationProposal>;
+}
+
+const PROPOSAL_STATUSES: StationProposalStatus[] = ['pending', 'approved', 'merged', 'rejected'];
+
+/**
+ * Marks a pending proposal as reviewed. Only one admin can win the review.
+ */
+const claimProposal = async (
+  proposal_id: string,
+  actor: string,
+  status: Exclude<StationProposalStatus, 'pending'>,
+  review_note?: string,
+  station_id?: string
+): Promise<IStationProposal> => {
+  const claimed = await StationProposal.findOneAndUpdate(
+    { proposal_id, status: 'pending' },
+    { $set: { status, reviewed_by: actor, reviewed_at: new Date(), review_note, station_id } },
+    { new: true }
+  ).lean<IStationProposal>();
+
+  if (!claimed) {
+    const exists = await StationProposal.exists({ proposal_id });
+    throw new Error(exists ? 'PROPOSAL_ALREADY_REVIEWED' : 'PROPOSAL_NOT_FOUND');
+  }
+  return claimed;
+};
+
+// Puts a claimed proposal back up for review when applying it to the catalog failed
+const releaseProposal = async (proposal_id: string, status: StationProposalStatus): Promise<void> => {
+  await StationProposal.updateOne(
+    { proposal_id, status },
+    {
+      $set: { status: 'pending' },
+      $unset: { reviewed_by: 1, reviewed_at: 1, review_note: 1, station_id: 1 },
+    }
+  );
+};
+
+const recordReview = async (actor: string, proposal: IStationProposal): Promise<void> => {
+  await recordAuditEvent({
+    actor,
+    action: 'station.proposal_reviewed',
+    target: { type: 'station_proposal', id: proposal.proposal_id },
+    before: { status: 'pending' },
+    after: { status: proposal.status, station_id: proposal.station_id },
+    metadata: { proposed_by: proposal.proposed_by, note: proposal.review_note },
+  });
+};
+
+/**
+ * Submits a station for review. The station goes through the same checks as
+ * one created by an admin, so an approval only fails if the catalog changed.
+ */
+export const proposeStation = async (wallet: string, request: ProposeStationRequest): Promise<IStationProposal> => {
+  const proposed_by = wallet.toLowerCase();
+  const { note, ...fields } = request ?? ({} as ProposeStationRequest);
+  const station = buildNewStation(fields);
+  delete station.status;
+
+  await refreshConfig();
+  const cityExists = loadStationsConfig().cities.some(city => city.city_id === fields.city_id);
+  if (!cityExists && (typeof fields.city_name !== 'string' || typeof fields.country !== 'string')) {
+    throw new Error(`VALIDATION_ERROR: city_name and country are required for the new city '${fields.city_id}'`);
+  }
+  if (getStationById(station.station_id)) {
+    throw new Error('STATION_EXISTS');
+  }
+
+  const pending = await StationProposal.countDocuments({ proposed_by, status: 'pending' });
+  if (pending >= STATION_CATALOG_CONFIG.MAX_PENDING_PROPOSALS_PER_WALLET) {
+    throw new Error('PROPOSAL_LIMIT_REACHED');
+  }
+  if (await StationProposal.exists({ 'station.station_id': station.station_id, status: 'pending' })) {
+    throw new Error('VALIDATION_ERROR: A proposal for this station_id is already pending');
+  }
+
+  const proposed: CreateStationRequest = {
+    city_id: fields.city_id,
+    ...(!cityExists && { city_name: fields.city_name!.trim(), country: fields.country!.trim() }),
+    ...station,
+  };
+  const proposal = await StationProposal.create({
+    proposal_id: randomBytes(16).toString('hex'),
+    proposed_by,
+    status: 'pending',
+    station: proposed,
+    note,
+    created_at: new Date(),
+  });
+
+  logger.notify(`Station ${station.station_id} proposed by ${proposed_by}`, {
+    event: 'STATION_PROPOSED',
+    proposal_id: proposal.proposal_id,
+    station_id: station.station_id,
+    city_id: fields.city_id,
+    proposed_by,
+  });
+  await recordAuditEvent({
+    actor: proposed_by,
+    action: 'station.proposed',
+    target: { type: 'station_proposal', id: proposal.proposal_id },
+    after: { station: proposed },
+    metadata: { note },
+  });
+
+  return proposal.toObject();
+};
+
+export const listOwnProposals = async (wallet: string): Promise<IStationProposal[]> => {
+  return StationProposal.find({ proposed_by: wallet.toLowerCase() })
+    .sort({ created_at: -1 })
+    .limit(STATION_CATALOG_CONFIG.PROPOSAL_PAGE_SIZE)
+    .lean<IStationProposal[]>();
+};
+
+export const listStationProposals = async (status?: StationProposalStatus): Promise<IStationProposal[]> => {
+  if (status !== undefined && !PROPOSAL_STATUSES.includes(status)) {
+    throw new Error(`VALIDATION_ERROR: status must be one of: ${PROPOSAL_STATUSES.join(', ')}`);
+  }
+  return StationProposal.find(status ? { status } : {})
+    .sort({ created_at: -1 })
+    .limit(STATION_CATALOG_CONFIG.PROPOSAL_PAGE_SIZE)
+    .lean<IStationProposal[]>();
+};
+
+/**
+ * Adds the proposed station to the catalog. Devices can register at it as
+ * soon as this returns.
+ */
+export const approveStationProposal = async (
+  actor: string,
+  proposal_id: string,
+  note?: string
+): Promise<IStationProposal> => {
+  const proposal = await StationProposal.findOne({ proposal_id }).lean<IStationProposal>();
+  if (!proposal) {
+    throw new Error('PROPOSAL_NOT_FOUND');
+  }
+
+  const claimed = await claimProposal(proposal_id, actor, 'approved', note, proposal.station.station_id);
+  try {
+    await createStation(actor, { ...claimed.station, reason: `Station proposal ${proposal_id}` });
+  } catch (error) {
+    await releaseProposal(proposal_id, 'approved');
+    throw error;
+  }
+
+  await recordReview(actor, claimed);
+  return claimed;
+};
+
+/**
+ * Folds a proposal into an existing station, for when someone proposed a
+ * station the catalog already has under another station_id. Sensors the
+ * station lacks are added to it, on top of whatever version is latest when
+ * the change is committed.
+ */
+export const mergeStationProposal = async (
+  actor: string,
+  proposal_id: string,
+  station_id: string,
+  note?: string
+): Promise<IStationProposal> => {
+  if (typeof station_id !== 'string' || station_id.length === 0) {
+    throw new Error('VALIDATION_ERROR: station_id of the station to merge into is required');
+  }
+
+  await refreshConfig();
+  const target = getStationById(station_id);
+  if (!target) {
+    throw new Error('STATION_NOT_FOUND');
+  }
+  if (target.status === 'retired') {
+    throw new Error('VALIDATION_ERROR: Cannot merge into a retired station');
+  }
+
+  const claimed = await claimProposal(proposal_id, actor, 'merged', note, station_id);
+  const known = target.available_sensors.map(sensor => sensor.sensor_type);
+  const added = claimed.station.available_sensors.filter(sensor => !known.includes(sensor.sensor_type));
+
+  if (added.length > 0) {
+    try {
+      await addStationSensors(actor, station_id, added, `Station proposal ${proposal_id}`);
+    } catch (error) {
+      await releaseProposal(proposal_id, 'merged');
+      throw error;
+    }
+  }
+
+  await recordReview(actor, claimed);
+  return claimed;
+};
+
+export const rejectStationProposal = async (
+  actor: string,
+  proposal_id: string,
+  note?: string
+): Promise<IStationProposal> => {
+  const claimed = await claimProposal(proposal_id, actor, 'rejected', note);
+  await recordReview(actor, claimed);
+  return claimed;
+};
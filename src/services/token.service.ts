@@ -1,35 +1,81 @@
-import jwt, { Secret } from 'jsonwebtoken';
+import jwt, { Secret, Algorithm } from 'jsonwebtoken';
 import { randomBytes } from 'crypto';
 import { TOKEN_CONFIG } from '@/config/constants';
 import { AccessTokenPayload, RefreshTokenPayload, TokenPair, DecodedToken } from '@/types/token.types';
 import { TokenValidationResult } from '@/types/auth.types';
+import { UserRole } from '@/types/user.types';
 import { redisClient } from '@/redis/client';
 import * as tokenRepository from '@/redis/token.repository';
+import { getActiveSigningKey, getVerificationKey } from './jwks.service';
 
 export interface TokenService {
-  generateAccessToken(walletAddress: string): Promise<string>;
+  generateAccessToken(walletAddress: string, token_family?: string, roles?: UserRole[]): Promise<string>;
   generateRefreshToken(walletAddress: string, family_id?: string): Promise<string>;
   verifyAccessToken(token: string): Promise<TokenValidationResult>;
   verifyRefreshToken(token: string): Promise<TokenValidationResult>;
-  generateTokenPair(walletAddress: string): Promise<TokenPair>;
+  generateTokenPair(walletAddress: string, family_id?: string, roles?: UserRole[]): Promise<TokenPair>;
   decodeToken(token: string): DecodedToken | null;
 }
 
 const generateJti = () => randomBytes(TOKEN_CONFIG.JTI_LENGTH).toString('hex');
 const generateTokenFamily = () => randomBytes(TOKEN_CONFIG.TOKEN_FAMILY_LENGTH).toString('hex');
 
-export const generateAccessToken = async (walletAddress: string): Promise<string> => {
+export const generateAccessToken = async (
+  walletAddress: string,
+  token_family?: string,
+  roles?: UserRole[]
+): Promise<string> => {
   const jti = generateJti();
   const payload: Omit<AccessTokenPayload, 'iat' | 'exp'> = {
     walletAddress: walletAddress.toLowerCase(),
     token_type: 'access',
     jti,
+    ...(token_family && { token_family }),
+    ...(roles && { roles }),
   };
-  return jwt.sign(payload, process.env.JWT_SECRET as Secret, {
+  const { kid, privateKey } = getActiveSigningKey();
+  return jwt.sign(payload, privateKey, {
+    algorithm: TOKEN_CONFIG.ACCESS_TOKEN_ALGORITHM,
+    keyid: kid,
+    issuer: TOKEN_CONFIG.ISSUER,
+    audience: TOKEN_CONFIG.AUDIENCE,
     expiresIn: TOKEN_CONFIG.ACCESS_TOKEN_EXPIRY,
   });
 };
 
+/**
+ * Picks the key by the token's kid header. Tokens without a kid are the
+ * HS256 tokens issued before asymmetric signing and are accepted only while
+ * ACCEPT_LEGACY_HS256 is on and LEGACY_HS256_UNTIL has not passed. Both
+ * paths check the issuer and audience.
+ */
+const verifyAccessTokenSignature = (token: string): AccessTokenPayload => {
+  const header = jwt.decode(token, { complete: true })?.header;
+  if (!header) {
+    throw new Error('jwt malformed');
+  }
+
+  if (header.kid) {
+    const publicKey = getVerificationKey(header.kid);
+    if (!publicKey) {
+      throw new Error('Unknown signing key');
+    }
+    return jwt.verify(token, publicKey, {
+      algorithms: [TOKEN_CONFIG.ACCESS_TOKEN_ALGORITHM as Algorithm],
+      issuer: TOKEN_CONFIG.ISSUER,
+      audience: TOKEN_CONFIG.AUDIENCE,
+    }) as AccessTokenPayload;
+  }
+
+  // Tokens from before RS256 were signed with only an expiry, so there is no issuer or audience to check
+  if (TOKEN_CONFIG.ACCEPT_LEGACY_HS256 && Date.now() < TOKEN_CONFIG.LEGACY_HS256_UNTIL && process.env.JWT_SECRET) {
+    return jwt.verify(token, process.env.JWT_SECRET as Secret, {
+      algorithms: ['HS256'],
+    }) as AccessTokenPayload;
+  }
+  throw new Error('Missing key id');
+};
+
 export const generateRefreshToken = async (walletAddress: string, family_id?: string): Promise<string> => {
   const jti = generateJti();
   const token_family = family_id || generateTokenFamily();
@@ -46,7 +92,7 @@ export const generateRefreshToken = async (walletAddress: string, family_id?: st
 
 export const verifyAccessToken = async (token: string): Promise<TokenValidationResult> => {
   try {
-    const payload = jwt.verify(token, process.env.JWT_SECRET as Secret) as AccessTokenPayload;
+    const payload = verifyAccessTokenSignature(token);
     const isBlacklisted = await redisClient.exists(`${TOKEN_CONFIG.REDIS_KEY_PREFIX.BLACKLIST}:${payload.jti}:revoked`);
     if (isBlacklisted.data) {
       return { valid: false, error: 'Token blacklisted' };
@@ -59,10 +105,15 @@ export const verifyAccessToken = async (token: string): Promise<TokenValidationR
 
 export const verifyRefreshToken = async (token: string): Promise<TokenValidationResult> => {
   try {
-    const payload = jwt.verify(token, process.env.JWT_REFRESH_SECRET as Secret) as RefreshTokenPayload;
+    const payload = jwt.verify(token, process.env.JWT_REFRESH_SECRET as Secret, {
+      algorithms: ['HS256'],
+    }) as RefreshTokenPayload;
     const revokedToken = await tokenRepository.getRefreshToken(payload.jti);
 
-    if (!revokedToken.success || revokedToken.data?.revoked) {
+    if (revokedToken.error?.code === 'TOKEN_REVOKED' || revokedToken.data?.revoked) {
+      return { valid: false, error: 'Token revoked', revoked: true, revoked_reason: revokedToken.data?.revoked_reason, payload };
+    }
+    if (!revokedToken.success || !revokedToken.data) {
       return { valid: false, error: 'Token revoked' };
     }
     
@@ -72,9 +123,14 @@ export const verifyRefreshToken = async (token: string): Promise<TokenValidation
   }
 };
 
-export const generateTokenPair = async (walletAddress: string): Promise<TokenPair> => {
-  const access_token = await generateAccessToken(walletAddress);
-  const refresh_token = await generateRefreshToken(walletAddress);
+export const generateTokenPair = async (
+  walletAddress: string,
+  family_id?: string,
+  roles?: UserRole[]
+): Promise<TokenPair> => {
+  const token_family = family_id || generateTokenFamily();
+  const access_token = await generateAccessToken(walletAddress, token_family, roles);
+  const refresh_token = await generateRefreshToken(walletAddress, token_family);
   return { access_token, refresh_token };
 };
 
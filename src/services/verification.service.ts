@@ -1,12 +1,15 @@
 import { IAQIReading } from '@/types/aqi-reading.types';
-import { buildMerkleTree } from '@/utils/merkle.utils';
+import { buildMerkleTree, MERKLE_LEAF_VERSION } from '@/utils/merkle.utils';
+import { getBatchWindowMinutes } from '@/utils/time-window.utils';
 import { computeContentHash } from '@/utils/hash.utils';
 import { pinJSONToIPFS } from '@/services/ipfs.service';
+import { getSensorDefinition } from '@/services/config.service';
 import { logger } from '@/utils/logger';
 
 export interface VerificationResult {
   success: boolean;
   merkle_root?: string;
+  merkle_leaf_version?: number;
   content_hash?: string;
   ipfs_uri?: string;
   ipfs_hash?: string;
@@ -14,6 +17,22 @@ export interface VerificationResult {
   retry_count?: number;
 }
 
+/**
+ * When each stored value was sampled, aligned with sensor_data. Values stored
+ * before sample timestamps were kept have null.
+ */
+export function getSampleTimestamps(reading: IAQIReading): Record<string, Array<number | null>> {
+  const sensorDataObj = reading.sensor_data as any;
+  const timestamps: Record<string, Array<number | null>> = {};
+  for (const [sensorType, values] of Object.entries(sensorDataObj)) {
+    if (Array.isArray(values)) {
+      const meta = reading.sample_meta?.[sensorType] || [];
+      timestamps[sensorType] = values.map((_, i) => meta[i]?.timestamp ?? null);
+    }
+  }
+  return timestamps;
+}
+
 /**
  * Build complete IPFS metadata payload from AQI reading
  */
@@ -23,10 +42,16 @@ export function buildIPFSMetadata(reading: IAQIReading, merkleRoot: string, cont
 
   // Convert sensor_data to structured format
   const sensorDataObj = reading.sensor_data as any;
+  const correctedDataObj = reading.corrected_data as any;
+  const timestamps = getSampleTimestamps(reading);
   for (const [sensorType, values] of Object.entries(sensorDataObj)) {
     if (Array.isArray(values)) {
+      const nonces = (reading.sample_meta?.[sensorType] || []).map(meta => meta.nonce ?? null);
       sensorData[sensorType] = {
         values,
+        timestamps: timestamps[sensorType],
+        ...(nonces.some(nonce => nonce !== null) && { nonces: values.map((_, i) => nonces[i] ?? null) }),
+        ...(correctedDataObj?.[sensorType] && { corrected_values: correctedDataObj[sensorType] }),
         unit: getSensorUnit(sensorType),
         sensor_type: sensorType
       };
@@ -46,8 +71,16 @@ export function buildIPFSMetadata(reading: IAQIReading, merkleRoot: string, cont
         start: reading.batch_window.start.toISOString(),
         end: reading.batch_window.end.toISOString(),
         hour_index: reading.batch_window.hour_index,
+        duration_minutes: getBatchWindowMinutes(reading.batch_window),
         timezone: 'UTC'
-      }
+      },
+      ...(reading.supplement && {
+        supplements: {
+          reading_id: reading.supplement.primary_reading_id,
+          sequence: reading.supplement.sequence,
+          note: 'late samples of the batch window, received after the batch was picked up for verification'
+        }
+      })
     },
 
     location_metadata: {
@@ -61,6 +94,31 @@ export function buildIPFSMetadata(reading: IAQIReading, merkleRoot: string, cont
 
     sensor_data: sensorData,
 
+    ...(reading.meta.calibration_versions?.length && {
+      calibration: {
+        profile_versions: reading.meta.calibration_versions,
+        method: 'corrected = gain * value / (1 + kappa * rh / (1 - rh)) + offset, per sensor',
+        note: 'values are as reported by the device; corrected_values were derived at ingestion'
+      }
+    }),
+
+    ...(reading.quality && {
+      data_quality: {
+        score: reading.quality.score,
+        version: reading.quality.version,
+        assessed_at: new Date(reading.quality.assessed_at).toISOString(),
+        flags: reading.quality.flags.map(flag => ({
+          check: flag.check,
+          sensor_type: flag.sensor_type,
+          ...(flag.indices && { indices: flag.indices }),
+          ...(flag.related_sensor && { related_sensor: flag.related_sensor }),
+          detail: flag.detail
+        })),
+        method: 'score = 100 x share of values no flag points at x average per-sensor share of expected samples (capped at 1)',
+        note: 'flag indices are positions in sensor_data[sensor_type].values; flagged values are published unchanged'
+      }
+    }),
+
     statistics: {
       total_readings: Object.values(dataPointsCount).reduce((sum, count) => sum + count, 0),
       ingestion_count: reading.meta.ingestion_count,
@@ -72,8 +130,32 @@ export function buildIPFSMetadata(reading: IAQIReading, merkleRoot: string, cont
       merkle_root: merkleRoot,
       merkle_tree_depth: calculateTreeDepth(Object.values(dataPointsCount).reduce((sum, count) => sum + count, 0)),
       merkle_leaf_count: Object.values(dataPointsCount).reduce((sum, count) => sum + count, 0),
+      merkle_leaf_version: MERKLE_LEAF_VERSION,
+      merkle_encoding: {
+        leaf: 'sha256(JSON {index, leaf_version, sensor_type, timestamp, value}, keys sorted, no whitespace)',
+        leaf_order: 'sensor types sorted by UTF-16 code units, values in stored order; index counts across all sensors from 0',
+        timestamp: 'sensor_data[sensor_type].timestamps, Unix milliseconds, null when not recorded',
+        padding: 'leaf count padded to a power of 2 by repeating the last leaf',
+        node: 'sha256 of the two child hashes as bytes, smaller first'
+      },
       content_hash: contentHash,
-      hash_algorithm: 'SHA-256'
+      hash_algorithm: 'SHA-256',
+      ...(reading.signatures?.length && {
+        device_signatures: {
+          canonicalization: 'JSON, keys sorted recursively, no whitespace',
+          signed_fields: ['device_id', 'sensor_data', 'timestamp', 'nonce'],
+          optional_signed_fields: ['units'],
+          signatures: reading.signatures.map(entry => ({
+            algorithm: entry.algorithm,
+            public_key: entry.public_key,
+            timestamp: entry.timestamp,
+            nonce: entry.nonce,
+            sensor_data: entry.sensor_data,
+            ...(entry.units && { units: entry.units }),
+            signature: entry.signature
+          }))
+        }
+      })
     },
 
     timestamps: {
@@ -93,26 +175,10 @@ export function buildIPFSMetadata(reading: IAQIReading, merkleRoot: string, cont
 }
 
 /**
- * Get sensor unit for display
+ * Canonical unit of a sensor type; values are converted to it at ingestion
  */
 function getSensorUnit(sensorType: string): string {
-  const units: Record<string, string> = {
-    'PM2.5': 'µg/m³',
-    'PM10': 'µg/m³',
-    'NO2': 'ppb',
-    'NO': 'ppb',
-    'NOX': 'ppb',
-    'O3': 'ppb',
-    'CO': 'ppm',
-    'CO2': 'ppm',
-    'SO2': 'ppb',
-    'Temperature': '°C',
-    'RH': '%',
-    'Wind_Speed': 'm/s',
-    'Wind_Direction': '°'
-  };
-
-  return units[sensorType] || 'unknown';
+  return getSensorDefinition(sensorType)?.unit || 'unknown';
 }
 
 /**
@@ -134,7 +200,7 @@ export async function verifyAQIReading(reading: IAQIReading): Promise<Verificati
 
     // Step 1: Generate Merkle tree and root
     const sensorDataObj = reading.sensor_data as any;
-    const { root: merkleRoot } = buildMerkleTree(sensorDataObj);
+    const { root: merkleRoot } = buildMerkleTree(sensorDataObj, getSampleTimestamps(reading));
 
     logger.info(`Generated Merkle root: ${merkleRoot.substring(0, 16)}...`);
 
@@ -153,7 +219,8 @@ export async function verifyAQIReading(reading: IAQIReading): Promise<Verificati
       keyvalues: {
         reading_id: reading.reading_id,
         device_id: reading.device_id,
-        hour_index: reading.batch_window.hour_index
+        hour_index: reading.batch_window.hour_index,
+        window_minutes: getBatchWindowMinutes(reading.batch_window)
       }
     });
 
@@ -165,6 +232,7 @@ export async function verifyAQIReading(reading: IAQIReading): Promise<Verificati
     return {
       success: true,
       merkle_root: merkleRoot,
+      merkle_leaf_version: MERKLE_LEAF_VERSION,
       content_hash: contentHash,
       ipfs_uri: ipfsUri,
       ipfs_hash: ipfsHash
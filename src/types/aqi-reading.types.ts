@@ -2,10 +2,39 @@ export interface SensorDataPoint {
   [sensorType: string]: number[];  // e.g., "NO2": [10, 20, 40]
 }
 
+/**
+ * Where a value of sensor_data came from. Kept in sample_meta at the same
+ * position as the value.
+ */
+export interface SampleMeta {
+  timestamp: number | null;          // Unix ms as sent by the device, null for values stored before timestamps were kept
+  nonce?: string;                    // Nonce of the entry in signatures that covers the value, when signed
+}
+
+/**
+ * An idempotency key or sequence number seen in a batch window, with what is
+ * needed to answer a replay with the original response
+ */
+export interface IdempotencyRecord {
+  key: string;                       // "key:<Idempotency-Key header>" or "seq:<sequence>"
+  request_hash: string;              // sha256 of the canonical {sensor_data, units, timestamp}
+  ingestion_count: number;           // Batch ingestion_count right after the sample was stored
+  received_at: Date;
+}
+
+/**
+ * On a supplemental batch: the batch of the same window it adds late samples to
+ */
+export interface SupplementLink {
+  primary_reading_id: string;
+  sequence: number;                  // 1 for the first supplemental batch of the window
+}
+
 export interface BatchWindow {
   start: Date;
   end: Date;
-  hour_index: number;               // 0-23 for hour of day
+  hour_index: number;               // 0-23, UTC hour the window starts in
+  duration_minutes?: number;        // Window length; batches without it are hourly
 }
 
 export interface ReadingMetadata {
@@ -24,6 +53,8 @@ export interface ReadingMetadata {
   data_points_count: {
     [sensorType: string]: number;
   };
+  device_revisions?: number[];       // Device revisions (see IDevice.change_history) samples were ingested under
+  calibration_versions?: number[];   // Calibration profile versions samples were corrected with
 }
 
 export interface ProcessingMetadata {
@@ -32,6 +63,7 @@ export interface ProcessingMetadata {
   processed_at?: Date;
   merkle_root?: string;
   content_hash?: string;
+  merkle_leaf_version?: number;      // Leaf encoding of merkle_root, see MERKLE_LEAF_VERSION
   ipfs_uri?: string;
   ipfs_hash?: string;
   verified_at?: Date;
@@ -45,6 +77,24 @@ export interface ProcessingMetadata {
   failed_at?: Date;
 }
 
+export type QualityCheck = 'spike' | 'flatline' | 'low_sample_count' | 'inconsistent_pair';
+
+export interface QualityFlag {
+  check: QualityCheck;
+  sensor_type: string;
+  indices?: number[];                // Positions in sensor_data[sensor_type] the flag is about
+  related_sensor?: string;           // inconsistent_pair: the sensor the values were compared with
+  detail: string;
+}
+
+// QA of a batch, assessed before it is verified and published with it
+export interface ReadingQuality {
+  score: number;                     // 0-100: share of unflagged values, scaled by sample coverage
+  flags: QualityFlag[];
+  version: number;                   // QUALITY_CONFIG.VERSION the checks ran with
+  assessed_at: Date;
+}
+
 export type ReadingStatus = 
   | 'PENDING'
   | 'PROCESSING'
@@ -55,15 +105,40 @@ export type ReadingStatus =
   | 'MINTED'
   | 'FAILED';
 
+// Signed ingestion kept with the batch so the signature can be re-checked later
+export interface ReadingSignature {
+  timestamp: number;                 // As signed by the device
+  nonce: string;
+  sensor_data: {
+    [sensorType: string]: number;
+  };
+  units?: {                          // As signed, when the values were not in canonical units
+    [sensorType: string]: string;
+  };
+  signature: string;                 // Hex
+  algorithm: 'ed25519' | 'secp256k1';
+  public_key: string;                // Hex, key the signature was verified against
+  received_at: Date;
+}
+
 export interface IAQIReading {
   reading_id: string;
   device_id: string;
   owner_id: string;
   batch_window: BatchWindow;
   sensor_data: SensorDataPoint;
+  corrected_data?: SensorDataPoint;  // Same shape as sensor_data; set once a sample is corrected by a calibration profile
+  sample_meta?: {                    // Same shape as sensor_data; the Merkle leaves are built from both
+    [sensorType: string]: SampleMeta[];
+  };
   meta: ReadingMetadata;
   status: ReadingStatus;
   processing: ProcessingMetadata;
+  quality?: ReadingQuality;
+  signatures?: ReadingSignature[];
+  idempotency_keys?: IdempotencyRecord[];
+  supplement?: SupplementLink;
+  supplemental_reading_ids?: string[]; // Supplemental batches holding late samples of this window, oldest first
   created_at: Date;
   updated_at: Date;
 }
@@ -75,7 +150,123 @@ export interface DataIngestionRequest {
     [sensorType: string]: number;   // Single reading: { "NO2": 10, "PM2.5": 35 }
   };
   timestamp: number;                 // Unix timestamp
-  signature?: string;                // Optional: Cryptographic signature
+  nonce?: string;                    // Unique per reading, required when signed
+  signature?: string;                // Hex signature over the canonical {device_id, sensor_data, timestamp, nonce}
+  sequence?: number;                 // Per-sample counter; a retry with a seen value is answered with the original response
+  units?: {                          // Units the values were sent in, by sensor type; missing means the canonical unit
+    [sensorType: string]: string;
+  };
+}
+
+/**
+ * One sample of a bulk upload: an ingestion request without device_id, which
+ * is given once for the whole upload. idempotency_key plays the part of the
+ * Idempotency-Key header for this sample alone.
+ */
+export type IngestionSample = Omit<DataIngestionRequest, 'device_id'> & {
+  idempotency_key?: string;
+};
+
+// Body of POST /ingest/bulk
+export interface BulkIngestionRequest {
+  device_id: string;
+  samples: IngestionSample[];
+}
+
+/**
+ * Why a sample of a bulk upload was left out.
+ * BATCH_ALREADY_PROCESSED: the sample's batch window was already picked up for
+ * verification, so the batch can no longer change
+ * BATCH_MODIFIED, BATCH_WRITE_FAILED: the sample's batch could not be written;
+ * samples of other batches in the upload are not affected
+ */
+export type BulkSampleRejection =
+  | 'INVALID_SAMPLE'
+  | 'SIGNATURE_INVALID'
+  | 'NONCE_REPLAYED'
+  | 'IDEMPOTENCY_KEY_REUSED'
+  | 'BATCH_SAMPLE_LIMIT_REACHED'
+  | 'BATCH_ALREADY_PROCESSED'
+  | 'BATCH_MODIFIED'
+  | 'BATCH_WRITE_FAILED';
+
+export interface BulkSampleResult {
+  index: number;                     // Position in samples
+  status: 'accepted' | 'rejected';
+  reading_id?: string;               // Batch the sample went into, or would have
+  replayed?: boolean;                // Stored by an earlier upload with the same sequence or idempotency_key
+  error?: {
+    code: BulkSampleRejection;
+    message: string;
+  };
+}
+
+export interface BulkIngestionResult {
+  device_id: string;
+  accepted: number;
+  rejected: number;
+  results: BulkSampleResult[];       // One per sample, in request order
+  readings: Array<{
+    reading_id: string;
+    batch_window: BatchWindow;
+    ingestion_count: number;
+    supplements?: string;            // Late samples: reading_id of the batch the supplemental batch adds to
+  }>;
+}
+
+// Merkle inclusion proofs
+export interface MerkleLeafPreimage {
+  index: number;                     // Position across all sensors, see buildMerkleTree
+  leaf_version: number;
+  sensor_type: string;
+  timestamp: number | null;          // Unix ms
+  value: number;
+}
+
+export interface DerivativeLink {
+  derivative_id: string;
+  type: string;
+  ip_id?: string;
+  content_hash?: string;
+  ipfs_hash?: string;
+}
+
+export interface SampleProofResponse {
+  reading_id: string;
+  device_id: string;
+  sensor_type: string;
+  index: number;                     // Position within sensor_data[sensor_type]
+  leaf: {
+    preimage: MerkleLeafPreimage;
+    hash: string;
+  };
+  proof: string[];                   // Sibling hashes from the leaf up, pairs sorted before hashing
+  root: string;
+  merkle_leaf_version: number;
+  ipfs: {
+    cid: string;
+    uri?: string;
+    content_hash?: string;
+  };
+  derivatives: {
+    daily: DerivativeLink | null;
+    monthly: DerivativeLink | null;
+  };
+}
+
+export interface VerifyProofRequest {
+  preimage?: MerkleLeafPreimage;     // Either the preimage or the leaf hash
+  leaf?: string;
+  proof: string[];
+  root: string;
+  reading_id?: string;               // Also check root against the root published for this reading
+}
+
+export interface VerifyProofResult {
+  valid: boolean;
+  leaf: string;
+  root: string;
+  published_root_matches?: boolean;
 }
 
 // Ingestion Response
@@ -86,6 +277,12 @@ export interface DataIngestionResponse {
   batch_window: BatchWindow;
   ingestion_count: number;
   message: string;
+  supplements?: string;              // Late sample: reading_id of the batch the supplemental batch adds to
+}
+
+export interface IngestionOutcome {
+  response: DataIngestionResponse;
+  replayed: boolean;                 // The idempotency key was seen before and nothing was written
 }
 
 // Cron Job Batch Result
@@ -0,0 +1,104 @@
+/**
+ * Actions recorded in the audit log
+ */
+export type AuditAction =
+  | 'auth.login'
+  | 'auth.logout'
+  | 'auth.sessions_revoked'
+  | 'user.roles_changed'
+  | 'user.tier_changed'
+  | 'device.registered'
+  | 'device.updated'
+  | 'device.decommissioned'
+  | 'device.transfer_initiated'
+  | 'device.transfer_cancelled'
+  | 'device.ownership_transferred'
+  | 'device.deleted'
+  | 'device.signing_key_updated'
+  | 'device.credential_rotated'
+  | 'device.credential_revoked'
+  | 'device.calibration_updated'
+  | 'reading.batch_created'
+  | 'reading.batch_closed'
+  | 'reading.bulk_ingested'
+  | 'station.created'
+  | 'station.updated'
+  | 'station.retired'
+  | 'station.proposed'
+  | 'station.proposal_reviewed'
+  | 'marketplace.derivative_purchased'
+  | 'marketplace.user_derivative_created'
+  | 'marketplace.user_derivative_purchased';
+
+/**
+ * Who performed the action. Devices act with their device_id, jobs as 'system'.
+ */
+export type AuditActorType = 'user' | 'device' | 'system';
+
+export type AuditTargetType = 'user' | 'session' | 'device' | 'device_credential' | 'reading' | 'derivative' | 'user_derivative' | 'station' | 'station_proposal';
+
+export interface AuditTarget {
+  type: AuditTargetType;
+  id: string;
+}
+
+/**
+ * What callers pass to recordAuditEvent
+ */
+export interface AuditEventInput {
+  actor: string;                          // Wallet address, device_id or 'system'
+  actor_type?: AuditActorType;            // Defaults to 'user'
+  action: AuditAction;
+  target: AuditTarget;
+  before?: Record<string, unknown> | null;  // State before the action, null when the target was created
+  after?: Record<string, unknown> | null;   // State after the action, null when the target was removed
+  metadata?: Record<string, unknown>;       // Anything else worth keeping: tx hashes, reason, etc.
+  ip_address?: string;
+}
+
+/**
+ * Stored audit event. Events form a chain: hash covers every other field
+ * including prev_hash, so editing or removing any event breaks every hash after it.
+ */
+export interface IAuditEvent {
+  sequence: number;                       // 1-based, no gaps
+  actor: string;
+  actor_type: AuditActorType;
+  action: AuditAction;
+  target: AuditTarget;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  metadata: Record<string, unknown>;
+  ip_address?: string;
+  occurred_at: Date;
+  prev_hash: string;                      // hash of sequence - 1, or AUDIT_CONFIG.GENESIS_HASH
+  hash: string;                           // SHA-256 over the canonical JSON of the fields above
+}
+
+/**
+ * Filters of GET /admin/audit-events
+ */
+export interface AuditEventQuery {
+  actor?: string;
+  action?: AuditAction;
+  target_id?: string;
+  from?: Date;
+  to?: Date;
+  before_sequence?: number;               // Cursor: return events older than this sequence
+  limit?: number;
+}
+
+export interface AuditEventPage {
+  events: IAuditEvent[];
+  next_cursor: number | null;             // Pass as before_sequence to get the next page
+}
+
+/**
+ * Result of walking the chain
+ */
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;                        // Events that passed before the chain broke
+  broken_at?: number;                     // First sequence whose hash or link does not match
+  reason?: string;
+}
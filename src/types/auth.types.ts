@@ -1,4 +1,5 @@
 import { TokenPair } from './token.types';
+import { UserRole } from './user.types';
 
 /**
  * Login response data
@@ -6,10 +7,46 @@ import { TokenPair } from './token.types';
 export interface LoginResponse {
   walletAddress: string;
   devices: string[];
+  roles: UserRole[];
   limited: boolean;
   tokens: TokenPair;
 }
 
+/**
+ * Sign-In with Ethereum challenge returned by GET /auth/nonce
+ */
+export interface NonceResponse {
+  nonce: string;
+  domain: string;
+  uri: string;
+  chain_id: number;
+  statement: string;
+  issued_at: string;      // ISO 8601
+  expires_at: string;     // ISO 8601
+}
+
+/**
+ * Client details recorded against a login session
+ */
+export interface ClientContext {
+  ip_address?: string;
+  user_agent?: string;
+}
+
+/**
+ * One login session returned by GET /auth/sessions
+ */
+export interface SessionInfo {
+  jti: string;            // Current refresh token JTI, used to revoke the session
+  token_family: string;
+  issued_at: string;      // ISO 8601
+  last_used_at: string;   // ISO 8601
+  ip_address?: string;
+  user_agent?: string;
+  last_ip_address?: string;
+  current: boolean;       // Session that made this request
+}
+
 /**
  * Token refresh response
  */
@@ -25,4 +62,6 @@ export interface TokenValidationResult {
   valid: boolean;
   payload?: any;
   error?: string;
+  revoked?: boolean;      // Signature was valid but the token was already revoked
+  revoked_reason?: string; // 'refresh' when it was rotated, else logout or a revocation
 }
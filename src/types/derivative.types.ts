@@ -15,6 +15,15 @@ export interface LLMMetadata {
   processing_time_ms: number;
 }
 
+/**
+ * Late samples of a batch the derivative was built from went into supplemental
+ * batches it does not include
+ */
+export interface DerivativeStaleness {
+  since: Date;
+  supplemental_reading_ids: string[];
+}
+
 export interface IDerivative {
   derivative_id: string;
   type: DerivativeType;
@@ -27,6 +36,8 @@ export interface IDerivative {
   content: string; // The markdown content
   processing: ProcessingMetadata;
   llm_metadata?: LLMMetadata;
+  stale?: DerivativeStaleness;
+  min_parent_quality_score?: number; // Lowest quality score of parent_data_ids; missing if any was unassessed
 
   // Story Protocol Fields
   ip_id?: string;
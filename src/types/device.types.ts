@@ -1,3 +1,5 @@
+import { DeviceQuota } from './user.types';
+
 // Configuration Types
 export interface SensorInfo {
   sensor_type: string;        // e.g., "CO2", "PM2.5"
@@ -5,6 +7,18 @@ export interface SensorInfo {
   description: string;        // e.g., "Carbon Dioxide"
 }
 
+/**
+ * Canonical unit and plausible range of a sensor type, shared by every station.
+ * Ingested values are converted to the unit and rejected outside the range.
+ */
+export interface SensorDefinition {
+  sensor_type: string;
+  unit: string;               // Canonical unit, also the unit stations list the sensor in
+  min: number;                // Plausible range, in unit
+  max: number;
+  molar_mass?: number;        // g/mol, gases only: allows ppb <-> µg/m³ conversion
+}
+
 export interface StationConfig {
   station_id: string;         // e.g., "delhi_chandni_chowk_iitm_11603"
   station_name: string;       // e.g., "Chandni Chowk - IITM"
@@ -15,9 +29,18 @@ export interface StationConfig {
   owner?: string;             // e.g., "Indian Institute of Tropical Meteorology"
   provider?: string;          // e.g., "CPCB"
   available_sensors: SensorInfo[];
+  batch_window_minutes?: number; // Batch window length of its devices, BATCH_WINDOW_CONFIG.DEFAULT_MINUTES when unset
   city_name?: string;         // Added for CSV loader compatibility
+  status?: StationStatus;     // Missing means active
+  retired_at?: string;        // ISO 8601, set when retired
 }
 
+/**
+ * Retired stations stay in the catalog so existing devices and readings
+ * still resolve, but they are hidden from the presets and closed to new devices
+ */
+export type StationStatus = 'active' | 'retired';
+
 export interface CityConfig {
   city_id: string;            // e.g., "delhi"
   city_name: string;          // e.g., "New Delhi"
@@ -28,14 +51,134 @@ export interface CityConfig {
 export interface StationsConfig {
   version: string;
   last_updated: string;
+  sensors: SensorDefinition[];
   cities: CityConfig[];
 }
 
+export type StationCatalogAction = 'seeded' | 'station_created' | 'station_updated' | 'station_retired';
+
+/**
+ * One version of the station catalog. Every change stores a full new version,
+ * so the latest document is the catalog and older ones are its history.
+ */
+export interface IStationCatalog {
+  version: number;            // 1 is the copy seeded from data/sensor_preset.json
+  sensors?: SensorDefinition[]; // Missing in versions stored before sensors were part of the catalog
+  cities: CityConfig[];
+  action: StationCatalogAction;
+  station_id?: string;        // Station the change was about, unset when seeded
+  changed_by: string;         // Admin wallet, or 'seed'
+  reason?: string;
+  created_at: Date;
+}
+
+/**
+ * Where a catalog station is, kept in sync with each catalog version so
+ * nearby search can use a 2dsphere index. Retired stations stay, marked retired.
+ */
+export interface IStationLocation {
+  station_id: string;
+  station_name: string;
+  city_id: string;
+  city_name: string;
+  coordinates: { latitude: number; longitude: number };
+  provider?: string;
+  available_sensors: SensorInfo[];
+  status: StationStatus;
+  location: GeoPoint;
+  catalog_version: number;    // Catalog version this entry was written from
+}
+
+/**
+ * Body of POST /admin/stations. city_name and country are only needed
+ * when city_id is not in the catalog yet.
+ */
+export interface CreateStationRequest {
+  city_id: string;
+  city_name?: string;
+  country?: string;
+  station_id: string;
+  station_name: string;
+  coordinates: {
+    latitude: number;
+    longitude: number;
+  };
+  owner?: string;
+  provider?: string;
+  available_sensors: SensorInfo[];
+  batch_window_minutes?: number;
+  reason?: string;
+}
+
+export type StationProposalStatus = 'pending' | 'approved' | 'merged' | 'rejected';
+
+/**
+ * A station suggested by a wallet. Admins approve it as a new station, merge it
+ * into an existing one (adding any sensors it lacks), or reject it.
+ */
+export interface IStationProposal {
+  proposal_id: string;
+  proposed_by: string;        // Wallet address
+  status: StationProposalStatus;
+  station: CreateStationRequest; // As submitted, reason excluded
+  note?: string;              // From the proposer
+  reviewed_by?: string;       // Admin wallet
+  reviewed_at?: Date;
+  review_note?: string;
+  station_id?: string;        // Catalog station it became or was merged into
+  created_at: Date;
+}
+
+/**
+ * Body of POST /config/stations/proposals
+ */
+export type ProposeStationRequest = Omit<CreateStationRequest, 'reason'> & {
+  note?: string;
+};
+
+/**
+ * Body of POST /admin/station-proposals/:proposal_id/(approve|merge|reject)
+ */
+export interface ReviewStationProposalRequest {
+  station_id?: string;        // Merge only: the existing station to merge into
+  note?: string;
+}
+
+/**
+ * Body of PATCH /admin/stations/:station_id
+ */
+export interface UpdateStationRequest {
+  station_name?: string;
+  coordinates?: {
+    latitude: number;
+    longitude: number;
+  };
+  owner?: string;
+  provider?: string;
+  available_sensors?: SensorInfo[];
+  batch_window_minutes?: number;
+  reason?: string;
+}
+
 // Device Registration Types
 export interface DeviceRegistrationRequest {
   city_id: string;            // Selected city
   station_id: string;         // Selected station
   sensor_types: string[];     // Selected sensor types (subset of available)
+  signing_key?: SigningKeyRequest; // Optional: public key the device signs readings with
+}
+
+export type SigningAlgorithm = 'ed25519' | 'secp256k1';
+
+export interface SigningKeyRequest {
+  algorithm: SigningAlgorithm;
+  public_key: string;         // Hex. ed25519: 32 bytes; secp256k1: 33 (compressed) or 65 (uncompressed) bytes
+}
+
+export interface DeviceSigningKey {
+  algorithm: SigningAlgorithm;
+  public_key: string;         // Lowercase hex without 0x
+  registered_at: Date;
 }
 
 export interface SensorMeta {
@@ -50,13 +193,198 @@ export interface SensorMeta {
   sensor_types: string[];     // Selected sensor types
 }
 
+/**
+ * active: may ingest
+ * inactive: paused by the owner, can be reactivated
+ * decommissioned: retired for good; the record stays so readings and derivatives keep their link
+ */
+export type DeviceStatus = 'active' | 'inactive' | 'decommissioned';
+
+/**
+ * Set by the device health job for active devices.
+ * offline: nothing received for DEVICE_HEALTH_CONFIG.OFFLINE_AFTER_SECONDS
+ * degraded: reporting, but some declared sensor_types are silent
+ */
+export type DeviceHealth = 'online' | 'offline' | 'degraded';
+
+export type DeviceChangeAction =
+  | 'registered'
+  | 'updated'
+  | 'signing_key_updated'
+  | 'decommissioned'
+  | 'transfer_initiated'
+  | 'transfer_cancelled'
+  | 'ownership_transferred';
+
+/**
+ * Ownership transfer offered by the current owner, waiting for the recipient to accept
+ */
+export interface PendingDeviceTransfer {
+  to_owner: string;           // Lowercase wallet that may accept
+  initiated_at: Date;
+  expires_at: Date;
+}
+
+/**
+ * One entry in a device's change history. Readings store the revisions they
+ * were ingested under in meta.device_revisions.
+ */
+export interface DeviceChange {
+  revision: number;           // Device revision this change produced, starting at 1
+  action: DeviceChangeAction;
+  changes: Record<string, { from: unknown; to: unknown }>; // Changed fields, dotted paths
+  changed_by: string;         // Wallet that made the change
+  changed_at: Date;
+  reason?: string;
+}
+
 export interface IDevice {
   device_id: string;          // UUID or signature-based ID
   owner_id: string;           // User wallet address (references User.walletAddress)
   sensor_meta: SensorMeta;    // Device configuration metadata
-  status: 'active' | 'inactive';
+  status: DeviceStatus;
+  signing_key?: DeviceSigningKey; // Readings must be signed with this key once set
+  revision?: number;          // Bumped on every change; absent on devices registered before history existed
+  change_history?: DeviceChange[];
   registered_at: Date;
+  decommissioned_at?: Date;
   last_updated: Date;
+  last_seen_at?: Date;        // Last request authenticated as this device, or last ingestion
+  last_ingestion_at?: Date;   // Last accepted sample
+  sensor_last_seen?: Record<string, Date>; // Last accepted sample per sensor type
+  health?: DeviceHealth;      // Unset until the health job first checks the device
+  health_changed_at?: Date;
+  missing_sensors?: string[]; // Declared sensor types that went silent, when degraded
+  pending_transfer?: PendingDeviceTransfer | null;
+  ownership_epoch?: number;   // Completed transfers; readings of later owners get their own reading_id
+  owner_since?: Date;         // When owner_id took over, unset for the registering wallet
+  location?: GeoPoint;        // sensor_meta.coordinates as GeoJSON, for nearby search
+  backfill_window_seconds?: number; // How old bulk uploaded samples may be, BACKFILL_CONFIG.DEFAULT_WINDOW_SECONDS when unset
+  batch_window_minutes?: number;    // Length of the device's batch windows, the station's when unset
+}
+
+/**
+ * GeoJSON point. Coordinates are [longitude, latitude], in that order.
+ */
+export interface GeoPoint {
+  type: 'Point';
+  coordinates: [number, number];
+}
+
+/**
+ * Body of POST /devices/:device_id/transfer
+ */
+export interface InitiateTransferRequest {
+  to_wallet: string;
+}
+
+/**
+ * Returned on registration. The device is only created once its API key is,
+ * so a device never exists without a credential.
+ */
+export interface DeviceRegistrationResult {
+  device: IDevice;
+  credential: IssuedDeviceCredential;
+}
+
+/**
+ * Returned to the new owner when a transfer is accepted. The previous owner's
+ * API keys are revoked, so the device needs the new key.
+ */
+export interface DeviceTransferResult {
+  device: IDevice;
+  credential: IssuedDeviceCredential;
+}
+
+/**
+ * Body of PATCH /devices/:device_id
+ */
+export interface UpdateDeviceRequest {
+  sensor_types?: string[];
+  status?: 'active' | 'inactive';
+  backfill_window_seconds?: number;
+  batch_window_minutes?: number;
+  reason?: string;
+}
+
+// Device Credential Types
+export interface IDeviceCredential {
+  key_id: string;             // Public part of the API key, used for lookup
+  device_id: string;          // Device the key authenticates as
+  key_hash: string;           // SHA256 of the secret part, the secret itself is never stored
+  created_by: string;         // Wallet that issued the key
+  created_at: Date;
+  last_used_at?: Date;
+  expires_at?: Date;          // Set when a rotation grants the old key a grace period
+  revoked_at?: Date;
+  revoked_reason?: 'rotated' | 'revoked' | 'device_deleted' | 'device_decommissioned' | 'device_transferred';
+}
+
+export interface DeviceCredentialView {
+  key_id: string;
+  created_at: Date;
+  last_used_at?: Date;
+  expires_at?: Date;
+  revoked_at?: Date;
+  revoked_reason?: string;
+  active: boolean;
+}
+
+// Returned once, when the key is created
+export interface IssuedDeviceCredential {
+  key_id: string;
+  api_key: string;
+  created_at: Date;
+}
+
+// Device identity resolved from an API key
+export interface AuthenticatedDevice {
+  device_id: string;
+  owner_id: string;
+  key_id: string;
+}
+
+// Calibration Types
+
+/**
+ * Correction for one sensor type: corrected = gain * value + offset, where value
+ * is first divided by the hygroscopic growth factor when a humidity correction is set
+ */
+export interface SensorCalibration {
+  gain: number;
+  offset: number;
+  humidity_correction?: HumidityCorrection; // PM sensors only
+}
+
+/**
+ * Particles take up water in humid air and read high. The reading is divided by
+ * 1 + kappa * rh / (1 - rh), rh being the RH sample of the same ingestion as a fraction.
+ */
+export interface HumidityCorrection {
+  kappa: number;
+}
+
+/**
+ * One version of a device's calibration. New versions replace the previous one
+ * for samples ingested from then on; older versions are kept for batches that used them.
+ */
+export interface ICalibrationProfile {
+  device_id: string;
+  version: number;            // Starting at 1, per device
+  sensors: Record<string, SensorCalibration>; // Sensor types left out are stored uncorrected
+  reference_station_id?: string; // Reference station the profile was fitted against
+  note?: string;
+  created_by: string;         // Owner or operator wallet
+  created_at: Date;
+}
+
+/**
+ * Body of PUT /devices/:device_id/calibration. An empty sensors object stops correcting.
+ */
+export interface SetCalibrationRequest {
+  sensors: Record<string, SensorCalibration>;
+  reference_station_id?: string;
+  note?: string;
 }
 
 // Validation Result
@@ -78,4 +406,39 @@ export interface DeviceListResponse {
   devices: IDevice[];
   count: number;
   limit_reached: boolean;
+  quota: DeviceQuota;
+}
+
+// Nearby Search Types
+export interface NearbyQuery {
+  latitude: number;
+  longitude: number;
+  radius_km?: number;
+}
+
+export interface NearbyStation {
+  station_id: string;
+  station_name: string;
+  city_id: string;
+  city_name: string;
+  coordinates: { latitude: number; longitude: number };
+  provider?: string;
+  available_sensors: SensorInfo[];
+  distance_km: number;
+}
+
+export interface NearbyDevice {
+  device_id: string;
+  station_id: string;
+  station: string;
+  coordinates: { latitude: number; longitude: number };
+  sensor_types: string[];
+  health?: DeviceHealth;
+  distance_km: number;
+}
+
+export interface NearbyResponse {
+  radius_km: number;
+  stations: NearbyStation[];  // Closest first
+  devices: NearbyDevice[];    // Active devices, closest first
 }
@@ -1,10 +1,16 @@
+import type { UserRole } from './user.types';
+import type { AuthenticatedDevice } from './device.types';
+
 declare global {
   namespace Express {
     interface Request {
       user?: {
         walletAddress: string;
         jti: string;
+        token_family?: string;
+        roles: UserRole[];
       };
+      device?: AuthenticatedDevice;  // Set when the request used a device API key
     }
   }
 }
@@ -7,7 +7,9 @@ export interface RedisAccessTokenData {
   issued_at: number;           // Unix timestamp
   expires_at: number;          // Unix timestamp
   device_count: number;        // Snapshot of device count at token creation
+  token_family?: string;       // Login session the token belongs to
   ip_address?: string;         // Optional: Client IP for security
+  user_agent?: string;         // Optional: Browser/device info
 }
 
 /**
@@ -20,11 +22,30 @@ export interface RedisRefreshTokenData {
   issued_at: number;           // Unix timestamp
   expires_at: number;          // Unix timestamp
   parent_jti?: string;         // Previous refresh token JTI (for rotation)
+  access_jti?: string;         // Access token issued alongside this refresh token
   revoked: boolean;            // Revocation status
+  revoked_reason?: string;     // Why the token was revoked (refresh, logout, security)
+  revoked_at?: number;         // Unix timestamp (ms)
   ip_address?: string;         // Optional: Client IP
   user_agent?: string;         // Optional: Browser/device info
 }
 
+/**
+ * Every token issued from one login, followed through refresh rotations
+ */
+export interface RedisTokenFamily {
+  token_family: string;        // Family ID shared by all rotated refresh tokens
+  walletAddress: string;       // Owner
+  refresh_jtis: string[];      // All refresh token JTIs issued in this family
+  access_jtis: string[];       // All access token JTIs issued in this family
+  created_at: number;          // Unix timestamp (ms)
+  last_used_at: number;        // Unix timestamp (ms) of the last authenticated request or refresh
+  ip_address?: string;         // Client IP at login
+  user_agent?: string;         // Browser/device info at login
+  last_ip_address?: string;    // Client IP of the most recent use
+  revoked_at?: number;         // Set when the whole family was revoked
+}
+
 /**
  * User session metadata (aggregate of all tokens)
  */
@@ -47,6 +68,44 @@ export interface RedisBlacklistedToken {
   reason: 'logout' | 'refresh' | 'security' | 'expired';
 }
 
+/**
+ * Single-use Sign-In with Ethereum nonce
+ */
+export interface RedisNonceData {
+  nonce: string;               // Random alphanumeric challenge
+  issued_at: number;           // Unix timestamp (ms)
+  expires_at: number;          // Unix timestamp (ms)
+  ip_address?: string;         // Optional: Client IP that requested the nonce
+}
+
+/**
+ * Nonce already used by a device in a signed reading
+ */
+export interface RedisIngestionNonce {
+  device_id: string;
+  timestamp: number;           // Reading timestamp the nonce was signed with
+  received_at: number;         // Unix timestamp (ms)
+}
+
+/**
+ * Sliding-window counter after recording a hit
+ */
+export interface RedisSlidingWindowState {
+  count: number;               // Hits inside the window, including this one
+  oldest: number;              // Score (ms) of the oldest hit still inside the window
+}
+
+/**
+ * Outcome of a rate-limit check
+ */
+export interface RedisRateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;           // Hits left in the current window
+  reset_at: number;            // Unix timestamp (ms) when the oldest hit leaves the window
+  retry_after_seconds: number; // 0 when allowed
+}
+
 /**
  * Redis operation result
  */
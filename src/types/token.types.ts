@@ -1,3 +1,5 @@
+import { UserRole } from './user.types';
+
 /**
  * JWT Access Token Payload
  * Short-lived token for API authentication
@@ -6,6 +8,8 @@ export interface AccessTokenPayload {
   walletAddress: string;           // User's wallet address (lowercase)
   token_type: 'access';        // Token type identifier
   jti: string;                 // JWT ID (unique token identifier)
+  token_family?: string;       // Login session the token belongs to
+  roles?: UserRole[];          // Roles at the time the token was issued
   iat: number;                 // Issued at timestamp
   exp: number;                 // Expiration timestamp
 }
@@ -35,3 +39,29 @@ export interface TokenPair {
  * Decoded token (generic)
  */
 export type DecodedToken = AccessTokenPayload | RefreshTokenPayload;
+
+/**
+ * One entry of JWT_SIGNING_KEYS. Keys with only a public_key can verify
+ * tokens they signed before retirement but never sign new ones.
+ */
+export interface SigningKeyConfig {
+  kid: string;
+  private_key?: string;        // PKCS#8 PEM
+  public_key?: string;         // SPKI PEM
+}
+
+/**
+ * Public JSON Web Key as published in the JWKS
+ */
+export interface PublicJwk {
+  kid: string;
+  kty: string;
+  alg: string;
+  use: 'sig';
+  n?: string;
+  e?: string;
+}
+
+export interface JsonWebKeySet {
+  keys: PublicJwk[];
+}
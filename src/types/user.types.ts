@@ -0,0 +1,79 @@
+/**
+ * Roles a wallet can hold.
+ * data_provider: registers devices and ingests readings
+ * buyer: purchases derivatives on the marketplace
+ * operator: runs day-to-day platform operations under /admin
+ * admin: everything an operator can do, plus assigning roles
+ */
+export type UserRole = 'data_provider' | 'buyer' | 'operator' | 'admin';
+
+/**
+ * One entry in a user's role history
+ */
+export interface RoleChange {
+  roles: UserRole[];           // Roles after the change
+  previous_roles: UserRole[];  // Roles before the change
+  changed_by: string;          // Admin wallet, or 'bootstrap' for ADMIN_WALLET_ADDRESSES
+  changed_at: Date;
+  reason?: string;
+}
+
+/**
+ * Device quota tiers. Limits per tier live in QUOTA_CONFIG.MAX_ACTIVE_DEVICES.
+ * community: individual providers (default)
+ * institutional: universities, municipalities and other larger fleets
+ * partner: integration partners running networks at scale
+ */
+export type QuotaTier = 'community' | 'institutional' | 'partner';
+
+/**
+ * One entry in a user's tier history
+ */
+export interface TierChange {
+  tier: QuotaTier;
+  previous_tier: QuotaTier;
+  changed_by: string;          // Admin wallet
+  changed_at: Date;
+  reason?: string;
+}
+
+/**
+ * Device quota of a wallet as it stands right now
+ */
+export interface DeviceQuota {
+  tier: QuotaTier;
+  max_active_devices: number;
+  active_devices: number;
+  remaining: number;
+  limit_reached: boolean;
+}
+
+/**
+ * Body of PUT /admin/users/:walletAddress/roles
+ */
+export interface UpdateRolesRequest {
+  roles: UserRole[];
+  reason?: string;
+}
+
+/**
+ * Body of PUT /admin/users/:walletAddress/tier
+ */
+export interface UpdateTierRequest {
+  tier: QuotaTier;
+  reason?: string;
+}
+
+/**
+ * User as returned by the admin API
+ */
+export interface AdminUserView {
+  walletAddress: string;
+  roles: UserRole[];
+  devices: string[];
+  role_history: RoleChange[];
+  quota: DeviceQuota;
+  tier_history: TierChange[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
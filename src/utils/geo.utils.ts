@@ -0,0 +1,29 @@
+import { GeoPoint } from '@/types/device.types';
+
+const EARTH_RADIUS_KM = 6371.0088;
+
+export interface LatLon {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Great-circle distance between two points (haversine)
+ * @returns Distance in kilometres
+ */
+export function distanceKm(from: LatLon, to: LatLon): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * GeoJSON point for a latitude/longitude pair. GeoJSON puts longitude first.
+ */
+export function toGeoPoint({ latitude, longitude }: LatLon): GeoPoint {
+  return { type: 'Point', coordinates: [longitude, latitude] };
+}
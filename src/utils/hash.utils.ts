@@ -13,6 +13,14 @@ export function computeContentHash(payload: any): string {
   return crypto.createHash('sha256').update(jsonString).digest('hex');
 }
 
+/**
+ * Serialize a payload with keys sorted recursively and no whitespace.
+ * This is the byte string devices sign.
+ */
+export function canonicalJSON(payload: any): string {
+  return JSON.stringify(normalizeJSON(payload));
+}
+
 /**
  * Normalize JSON by sorting keys recursively
  * Ensures same data produces same hash regardless of key order
@@ -1,29 +1,87 @@
 import { MerkleTree } from 'merkletreejs';
 import crypto from 'crypto';
+import { canonicalJSON } from './hash.utils';
+import { MerkleLeafPreimage } from '@/types/aqi-reading.types';
+
+/**
+ * Leaf encoding used by generateLeafHash, published with every root.
+ * 1: sha256("sensor_type:value:ISO time:index") with the time of verification, so roots cannot be rebuilt
+ * 2: sha256 of canonical JSON {index, leaf_version, sensor_type, timestamp, value}
+ */
+export const MERKLE_LEAF_VERSION = 2;
+
+/**
+ * The fields hashed into a leaf, as published with inclusion proofs
+ */
+export function buildLeafPreimage(
+  sensorType: string,
+  value: number,
+  timestamp: Date | number | null,
+  index: number
+): MerkleLeafPreimage {
+  return {
+    index,
+    leaf_version: MERKLE_LEAF_VERSION,
+    sensor_type: sensorType,
+    timestamp: timestamp === null ? null : new Date(timestamp).getTime(),
+    value
+  };
+}
+
+/**
+ * Hash of a leaf preimage: sha256 of its canonical JSON
+ */
+export function hashLeafPreimage(preimage: MerkleLeafPreimage): string {
+  return crypto.createHash('sha256').update(canonicalJSON(preimage)).digest('hex');
+}
 
 /**
  * Generate a leaf node hash for a sensor reading
- * Format: hash(sensor_type + value + timestamp + index)
+ * Format: sha256(canonicalJSON({ index, leaf_version, sensor_type, timestamp, value })),
+ * timestamp in Unix milliseconds, or null for values stored without one
  */
 export function generateLeafHash(
   sensorType: string,
   value: number,
-  timestamp: Date,
+  timestamp: Date | number | null,
   index: number
 ): string {
-  const data = `${sensorType}:${value}:${timestamp.toISOString()}:${index}`;
-  return crypto.createHash('sha256').update(data).digest('hex');
+  return hashLeafPreimage(buildLeafPreimage(sensorType, value, timestamp, index));
+}
+
+/**
+ * Position of a sensor value among the leaves built by buildMerkleTree, or -1
+ */
+export function getLeafIndex(
+  sensorData: Record<string, number[]>,
+  sensorType: string,
+  valueIndex: number
+): number {
+  const values = sensorData[sensorType];
+  if (!Array.isArray(values) || valueIndex < 0 || valueIndex >= values.length) {
+    return -1;
+  }
+
+  let offset = 0;
+  for (const type of Object.keys(sensorData).sort()) {
+    if (type === sensorType) break;
+    if (Array.isArray(sensorData[type])) offset += sensorData[type].length;
+  }
+  return offset + valueIndex;
 }
 
 /**
- * Build a Merkle tree from sensor data and return the root hash
+ * Build a Merkle tree from sensor data and return the root hash.
+ * Leaves follow the sensor types in sorted order (UTF-16 code units), each with its
+ * values in stored order. The leaf count is padded to a power of 2 by repeating the
+ * last leaf, and each pair is sorted before it is hashed.
  * @param sensorData - Object with sensor types as keys and arrays of values
- * @param timestamps - Array of timestamps for each reading (optional, uses current time if not provided)
+ * @param timestamps - Same shape as sensorData: when each value was sampled, in Unix milliseconds
  * @returns Merkle root hash as hex string
  */
 export function buildMerkleTree(
   sensorData: Record<string, number[]>,
-  timestamps?: Date[]
+  timestamps?: Record<string, Array<number | null>>
 ): { root: string; tree: MerkleTree; leaves: string[] } {
   const leaves: string[] = [];
   let readingIndex = 0;
@@ -37,7 +95,7 @@ export function buildMerkleTree(
 
     for (let i = 0; i < values.length; i++) {
       const value = values[i];
-      const timestamp = timestamps?.[readingIndex] || new Date();
+      const timestamp = timestamps?.[sensorType]?.[i] ?? null;
       const leafHash = generateLeafHash(sensorType, value, timestamp, readingIndex);
       leaves.push(leafHash);
       readingIndex++;
@@ -1,20 +1,66 @@
 import { BatchWindow } from '@/types/aqi-reading.types';
+import { BATCH_WINDOW_CONFIG, RATE_LIMIT_CONFIG } from '@/config/constants';
 
-export const getCurrentBatchWindow = (timestamp: Date = new Date()): BatchWindow => {
-  const start = new Date(timestamp);
-  start.setUTCMinutes(0, 0, 0);  // Set to start of hour in UTC
+const MINUTE = 60 * 1000;
 
-  const end = new Date(start);
-  end.setUTCHours(end.getUTCHours() + 1);  // Add 1 hour in UTC
+/**
+ * Windows are aligned to UTC midnight, so window lengths must divide a day.
+ * hour_index is the UTC hour the window starts in.
+ */
+export const getCurrentBatchWindow = (
+  timestamp: Date = new Date(),
+  duration_minutes: number = BATCH_WINDOW_CONFIG.DEFAULT_MINUTES
+): BatchWindow => {
+  const dayStart = new Date(timestamp);
+  dayStart.setUTCHours(0, 0, 0, 0);
+
+  const length = duration_minutes * MINUTE;
+  const offset = Math.floor((timestamp.getTime() - dayStart.getTime()) / length) * length;
+  const start = new Date(dayStart.getTime() + offset);
+  const end = new Date(start.getTime() + length);
 
   const hour_index = start.getUTCHours();
 
-  return { start, end, hour_index };
+  return { start, end, hour_index, duration_minutes };
 };
 
-export const generateReadingId = (device_id: string, window: BatchWindow): string => {
+// Batches stored before window lengths were configurable are hourly
+export const getBatchWindowMinutes = (window: BatchWindow): number =>
+  window.duration_minutes ?? BATCH_WINDOW_CONFIG.DEFAULT_MINUTES;
+
+/**
+ * MAX_SAMPLES_PER_BATCH_WINDOW is set for an hour; shorter and longer windows
+ * get the same rate, so a device may sample just as often whatever its window.
+ */
+export const getBatchSampleLimit = (window: BatchWindow): number =>
+  Math.max(1, Math.floor(RATE_LIMIT_CONFIG.MAX_SAMPLES_PER_BATCH_WINDOW * getBatchWindowMinutes(window) / 60));
+
+export const isAllowedBatchWindowMinutes = (value: unknown): value is number =>
+  (BATCH_WINDOW_CONFIG.ALLOWED_MINUTES as readonly unknown[]).includes(value);
+
+/**
+ * Hourly windows keep the `_H14` form. Other lengths add the start minute and
+ * the length, e.g. `_H1415_W15`, so windows of different lengths never share an ID.
+ * ownership_epoch > 0 (the device changed hands) gets its own suffix, so the
+ * window a transfer happened in is split into one reading per owner.
+ */
+export const generateReadingId = (device_id: string, window: BatchWindow, ownership_epoch = 0): string => {
   const dateStr = window.start.toISOString().split('T')[0].replace(/-/g, '');
-  return `${device_id}_${dateStr}_H${String(window.hour_index).padStart(2, '0')}`;
+  const minutes = getBatchWindowMinutes(window);
+  const hour = String(window.hour_index).padStart(2, '0');
+  const slot = minutes === BATCH_WINDOW_CONFIG.DEFAULT_MINUTES
+    ? hour
+    : `${hour}${String(window.start.getUTCMinutes()).padStart(2, '0')}_W${minutes}`;
+  const base = `${device_id}_${dateStr}_H${slot}`;
+  return ownership_epoch > 0 ? `${base}_T${ownership_epoch}` : base;
+};
+
+/**
+ * Supplemental batches hold late samples of a window whose batch was already
+ * picked up for verification; sequence starts at 1.
+ */
+export const generateSupplementalReadingId = (reading_id: string, sequence: number): string => {
+  return `${reading_id}_S${sequence}`;
 };
 
 export const isWithinCurrentWindow = (timestamp: Date): boolean => {
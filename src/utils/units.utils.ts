@@ -0,0 +1,97 @@
+// L·atm/(mol·K): air at 1 atm takes up R·T litres per mole
+const GAS_CONSTANT = 0.0820574;
+const CELSIUS_TO_KELVIN = 273.15;
+
+type Quantity = 'mixing_ratio' | 'mass_concentration';
+
+// Units convertible by scaling within a quantity; scale is relative to ppb or µg/m³
+const SCALED_UNITS: Record<string, { quantity: Quantity; scale: number }> = {
+  'ppb': { quantity: 'mixing_ratio', scale: 1 },
+  'ppm': { quantity: 'mixing_ratio', scale: 1000 },
+  'µg/m³': { quantity: 'mass_concentration', scale: 1 },
+  'mg/m³': { quantity: 'mass_concentration', scale: 1000 },
+};
+
+const TEMPERATURE_UNITS = ['°C', '°F', 'K'];
+
+// Spellings devices send for the same unit
+const UNIT_ALIASES: Record<string, string> = {
+  'μg/m³': 'µg/m³',   // Greek mu rather than the micro sign
+  'ug/m3': 'µg/m³',
+  'µg/m3': 'µg/m³',
+  'μg/m3': 'µg/m³',
+  'mg/m3': 'mg/m³',
+  'C': '°C',
+  'degC': '°C',
+  'F': '°F',
+  'degF': '°F',
+};
+
+export interface UnitConversionOptions {
+  molarMass?: number;         // g/mol, needed between ppb/ppm and µg/m³/mg/m³
+  temperatureC?: number;      // Air temperature for that conversion
+}
+
+/**
+ * One spelling per unit, e.g. "ug/m3" becomes "µg/m³"
+ */
+export function normalizeUnit(unit: string): string {
+  const trimmed = unit.trim();
+  return UNIT_ALIASES[trimmed] ?? trimmed;
+}
+
+function toCelsius(value: number, unit: string): number {
+  if (unit === '°F') return (value - 32) * 5 / 9;
+  if (unit === 'K') return value - CELSIUS_TO_KELVIN;
+  return value;
+}
+
+function fromCelsius(value: number, unit: string): number {
+  if (unit === '°F') return value * 9 / 5 + 32;
+  if (unit === 'K') return value + CELSIUS_TO_KELVIN;
+  return value;
+}
+
+/**
+ * Converts a value between units. Mixing ratios (ppb, ppm) and mass
+ * concentrations (µg/m³, mg/m³) convert into each other at 1 atm:
+ * µg/m³ = ppb × molar mass / (R × T).
+ * @returns The converted value, or null when the units cannot be converted
+ */
+export function convertUnit(
+  value: number,
+  from: string,
+  to: string,
+  options: UnitConversionOptions = {}
+): number | null {
+  const source = normalizeUnit(from);
+  const target = normalizeUnit(to);
+  if (source === target) {
+    return value;
+  }
+
+  if (TEMPERATURE_UNITS.includes(source) && TEMPERATURE_UNITS.includes(target)) {
+    return fromCelsius(toCelsius(value, source), target);
+  }
+
+  const sourceUnit = SCALED_UNITS[source];
+  const targetUnit = SCALED_UNITS[target];
+  if (!sourceUnit || !targetUnit) {
+    return null;
+  }
+
+  const base = value * sourceUnit.scale;
+  if (sourceUnit.quantity === targetUnit.quantity) {
+    return base / targetUnit.scale;
+  }
+
+  const { molarMass, temperatureC } = options;
+  if (molarMass === undefined || temperatureC === undefined) {
+    return null;
+  }
+  const molarVolume = GAS_CONSTANT * (temperatureC + CELSIUS_TO_KELVIN);
+  const converted = sourceUnit.quantity === 'mixing_ratio'
+    ? base * molarMass / molarVolume
+    : base * molarVolume / molarMass;
+  return converted / targetUnit.scale;
+}
@@ -0,0 +1,45 @@
+import request from 'supertest';
+import { Express } from 'express';
+import { Hex } from 'viem';
+import User from '@/models/User';
+import Device from '@/models/Device';
+import DeviceCredential from '@/models/DeviceCredential';
+import AQIReading from '@/models/AQIReading';
+import AuditEvent from '@/models/AuditEvent';
+import { getRedisClient } from '@/database/redis.connection';
+import { siweLogin, TEST_PRIVATE_KEYS } from './siwe.helper';
+
+const TEST_STATION = { city_id: 'delhi', station_id: 'delhi_chandni_chowk_iitm_11603' };
+
+export interface TestDevice {
+  accessToken: string;
+  deviceId: string;
+  apiKey: string;
+}
+
+/**
+ * Starts from empty users, devices, readings, audit log and Redis, signs in
+ * with the given wallet and registers a device at TEST_STATION.
+ */
+export const registerTestDevice = async (
+  app: Express,
+  sensor_types: string[] = ['CO', 'PM2.5'],
+  privateKey: Hex = TEST_PRIVATE_KEYS[0]
+): Promise<TestDevice> => {
+  await User.deleteMany({});
+  await Device.deleteMany({});
+  await DeviceCredential.deleteMany({});
+  await AQIReading.deleteMany({});
+  await AuditEvent.collection.deleteMany({});
+  await getRedisClient().flushdb();
+
+  const accessToken = (await siweLogin(app, privateKey)).body.data.tokens.access_token;
+
+  const res = await request(app)
+    .post('/api/v1/devices/register')
+    .set('Authorization', `Bearer ${accessToken}`)
+    .send({ ...TEST_STATION, sensor_types })
+    .expect(201);
+
+  return { accessToken, deviceId: res.body.data.device_id, apiKey: res.body.data.credential.api_key };
+};
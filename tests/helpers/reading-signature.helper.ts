@@ -0,0 +1,38 @@
+import { generateKeyPairSync, sign, KeyObject } from 'crypto';
+import { buildSignedReadingPayload } from '@/services/reading-signature.service';
+import { DataIngestionRequest } from '@/types/aqi-reading.types';
+import { SigningAlgorithm, SigningKeyRequest } from '@/types/device.types';
+
+export interface TestSigner {
+  signing_key: SigningKeyRequest;
+  privateKey: KeyObject;
+}
+
+/**
+ * Generates a device key pair and returns the public key in the raw hex form
+ * the API expects.
+ */
+export const createTestSigner = (algorithm: SigningAlgorithm = 'ed25519'): TestSigner => {
+  const { publicKey, privateKey } = algorithm === 'ed25519'
+    ? generateKeyPairSync('ed25519')
+    : generateKeyPairSync('ec', { namedCurve: 'secp256k1' });
+
+  // The raw key is the tail of the DER SubjectPublicKeyInfo
+  const spki = publicKey.export({ format: 'der', type: 'spki' });
+  const rawLength = algorithm === 'ed25519' ? 32 : 65;
+  const public_key = spki.subarray(spki.length - rawLength).toString('hex');
+
+  return { signing_key: { algorithm, public_key }, privateKey };
+};
+
+export const signReading = (
+  signer: TestSigner,
+  request: Omit<DataIngestionRequest, 'signature'>
+): DataIngestionRequest => {
+  const payload = Buffer.from(buildSignedReadingPayload(request));
+  const signature = signer.signing_key.algorithm === 'ed25519'
+    ? sign(null, payload, signer.privateKey)
+    : sign('sha256', payload, { key: signer.privateKey, dsaEncoding: 'ieee-p1363' });
+
+  return { ...request, signature: signature.toString('hex') };
+};
@@ -0,0 +1,46 @@
+import request from 'supertest';
+import { Express } from 'express';
+import { Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { createSiweMessage } from 'viem/siwe';
+import { SIWE_CONFIG } from '@/config/constants';
+
+// Deterministic test wallets (never use these keys outside tests)
+export const TEST_PRIVATE_KEYS: Hex[] = [
+  '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+  '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a',
+];
+
+export const testAccount = (index = 0) => privateKeyToAccount(TEST_PRIVATE_KEYS[index]);
+
+/**
+ * Builds and signs an EIP-4361 message for the given nonce.
+ */
+export const signSiweMessage = async (
+  privateKey: Hex,
+  nonce: string,
+  overrides: Partial<Parameters<typeof createSiweMessage>[0]> = {}
+): Promise<{ message: string; signature: Hex }> => {
+  const account = privateKeyToAccount(privateKey);
+  const message = createSiweMessage({
+    address: account.address,
+    domain: SIWE_CONFIG.DOMAIN,
+    uri: SIWE_CONFIG.URI,
+    chainId: SIWE_CONFIG.CHAIN_ID,
+    nonce,
+    version: '1',
+    issuedAt: new Date(),
+    ...overrides,
+  });
+  const signature = await account.signMessage({ message });
+  return { message, signature };
+};
+
+/**
+ * Runs the full nonce -> sign -> login flow and returns the login response.
+ */
+export const siweLogin = async (app: Express, privateKey: Hex = TEST_PRIVATE_KEYS[0]) => {
+  const nonceRes = await request(app).get('/api/v1/auth/nonce');
+  const { message, signature } = await signSiweMessage(privateKey, nonceRes.body.data.nonce);
+  return request(app).post('/api/v1/auth/login').send({ message, signature });
+};
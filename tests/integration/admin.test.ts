@@ -0,0 +1,250 @@
+import request from 'supertest';
+import app from '@/app';
+import User from '@/models/User';
+import AuditEvent from '@/models/AuditEvent';
+import jwt from 'jsonwebtoken';
+import { AccessTokenPayload } from '@/types/token.types';
+import { UserRole } from '@/types/user.types';
+import { getRedisClient } from '@/database/redis.connection';
+import { siweLogin, testAccount, TEST_PRIVATE_KEYS } from '../helpers/siwe.helper';
+
+const adminAddress = testAccount(0).address.toLowerCase();
+const userAddress = testAccount(1).address.toLowerCase();
+
+const loginAs = async (index: number, roles?: UserRole[]): Promise<string> => {
+  if (roles) {
+    await User.create({ walletAddress: testAccount(index).address.toLowerCase(), roles });
+  }
+  const response = await siweLogin(app, TEST_PRIVATE_KEYS[index]);
+  expect(response.status).toBe(200);
+  return response.body.data.tokens.access_token;
+};
+
+describe('Admin API', () => {
+  afterEach(async () => {
+    await User.deleteMany({});
+    await AuditEvent.collection.deleteMany({});
+    await getRedisClient().flushdb();
+  });
+
+  test('should give new users the default roles in the login response and token', async () => {
+    const response = await siweLogin(app);
+    expect(response.status).toBe(200);
+
+    expect(response.body.data.roles).toEqual(['data_provider', 'buyer']);
+    const payload = jwt.decode(response.body.data.tokens.access_token) as AccessTokenPayload;
+    expect(payload.roles).toEqual(['data_provider', 'buyer']);
+  });
+
+  test('should reject wallets without an operator or admin role', async () => {
+    const access_token = await loginAs(1);
+
+    const response = await request(app)
+      .get('/api/v1/admin/users')
+      .set('Authorization', `Bearer ${access_token}`)
+      .expect(403);
+    expect(response.body.error.code).toBe('FORBIDDEN');
+  });
+
+  test('should require authentication', async () => {
+    await request(app).get('/api/v1/admin/users').expect(401);
+  });
+
+  test('should let operators list users but not change roles', async () => {
+    const access_token = await loginAs(0, ['operator']);
+    await loginAs(1);
+
+    const list = await request(app)
+      .get('/api/v1/admin/users')
+      .set('Authorization', `Bearer ${access_token}`)
+      .expect(200);
+    expect(list.body.data).toHaveLength(2);
+
+    await request(app)
+      .put(`/api/v1/admin/users/${userAddress}/roles`)
+      .set('Authorization', `Bearer ${access_token}`)
+      .send({ roles: ['operator'] })
+      .expect(403);
+  });
+
+  test('should let admins change roles and record who changed them', async () => {
+    const access_token = await loginAs(0, ['admin']);
+    await loginAs(1);
+
+    const response = await request(app)
+      .put(`/api/v1/admin/users/${userAddress}/roles`)
+      .set('Authorization', `Bearer ${access_token}`)
+      .send({ roles: ['buyer', 'operator'], reason: 'On-call rotation' })
+      .expect(200);
+
+    expect(response.body.data.roles).toEqual(['buyer', 'operator']);
+    const [change] = response.body.data.role_history;
+    expect(change.changed_by).toBe(adminAddress);
+    expect(change.previous_roles).toEqual(['data_provider', 'buyer']);
+    expect(change.reason).toBe('On-call rotation');
+
+    const relogin = await siweLogin(app, TEST_PRIVATE_KEYS[1]);
+    const payload = jwt.decode(relogin.body.data.tokens.access_token) as AccessTokenPayload;
+    expect(payload.roles).toEqual(['buyer', 'operator']);
+  });
+
+  test('should sign the user out when a role is removed', async () => {
+    const admin_token = await loginAs(0, ['admin']);
+    const operator_token = await loginAs(1, ['operator']);
+
+    await request(app)
+      .put(`/api/v1/admin/users/${userAddress}/roles`)
+      .set('Authorization', `Bearer ${admin_token}`)
+      .send({ roles: ['buyer'] })
+      .expect(200);
+
+    await request(app)
+      .get('/api/v1/admin/users')
+      .set('Authorization', `Bearer ${operator_token}`)
+      .expect(401);
+  });
+
+  test('should reject unknown roles and self-demotion', async () => {
+    const access_token = await loginAs(0, ['admin']);
+
+    const unknown = await request(app)
+      .put(`/api/v1/admin/users/${adminAddress}/roles`)
+      .set('Authorization', `Bearer ${access_token}`)
+      .send({ roles: ['superuser'] })
+      .expect(400);
+    expect(unknown.body.error.message).toContain('superuser');
+
+    await request(app)
+      .put(`/api/v1/admin/users/${adminAddress}/roles`)
+      .set('Authorization', `Bearer ${access_token}`)
+      .send({ roles: ['operator'] })
+      .expect(400);
+  });
+
+  test('should let admins assign quota tiers', async () => {
+    const access_token = await loginAs(0, ['admin']);
+    await loginAs(1);
+
+    const response = await request(app)
+      .put(`/api/v1/admin/users/${userAddress}/tier`)
+      .set('Authorization', `Bearer ${access_token}`)
+      .send({ tier: 'institutional', reason: 'University fleet' })
+      .expect(200);
+
+    expect(response.body.data.quota).toMatchObject({
+      tier: 'institutional',
+      max_active_devices: 50,
+      active_devices: 0,
+      limit_reached: false,
+    });
+    const [change] = response.body.data.tier_history;
+    expect(change).toMatchObject({
+      tier: 'institutional',
+      previous_tier: 'community',
+      changed_by: adminAddress,
+      reason: 'University fleet',
+    });
+
+    const user = await User.findOne({ walletAddress: userAddress }).lean();
+    expect(user!.quota_tier).toBe('institutional');
+  });
+
+  test('should reject unknown tiers and keep tiers admin-only', async () => {
+    const admin_token = await loginAs(0, ['admin']);
+    const operator_token = await loginAs(1, ['operator']);
+
+    const unknown = await request(app)
+      .put(`/api/v1/admin/users/${userAddress}/tier`)
+      .set('Authorization', `Bearer ${admin_token}`)
+      .send({ tier: 'unlimited' })
+      .expect(400);
+    expect(unknown.body.error.message).toContain('community');
+
+    await request(app)
+      .put(`/api/v1/admin/users/${userAddress}/tier`)
+      .set('Authorization', `Bearer ${operator_token}`)
+      .send({ tier: 'partner' })
+      .expect(403);
+  });
+
+  test('should return 404 for unknown users', async () => {
+    const access_token = await loginAs(0, ['admin']);
+
+    await request(app)
+      .put(`/api/v1/admin/users/${userAddress}/roles`)
+      .set('Authorization', `Bearer ${access_token}`)
+      .send({ roles: ['buyer'] })
+      .expect(404);
+  });
+
+  describe('audit log', () => {
+    test('should record role changes with before and after state', async () => {
+      const access_token = await loginAs(0, ['admin']);
+      await loginAs(1);
+
+      await request(app)
+        .put(`/api/v1/admin/users/${userAddress}/roles`)
+        .set('Authorization', `Bearer ${access_token}`)
+        .send({ roles: ['buyer'], reason: 'Device retired' })
+        .expect(200);
+
+      const response = await request(app)
+        .get('/api/v1/admin/audit-events')
+        .query({ actor: adminAddress, action: 'user.roles_changed' })
+        .set('Authorization', `Bearer ${access_token}`)
+        .expect(200);
+
+      const [event] = response.body.data.events;
+      expect(response.body.data.events).toHaveLength(1);
+      expect(event.target).toEqual({ type: 'user', id: userAddress });
+      expect(event.before).toEqual({ roles: ['data_provider', 'buyer'] });
+      expect(event.after).toEqual({ roles: ['buyer'] });
+      expect(event.metadata).toMatchObject({ reason: 'Device retired', sessions_revoked: true });
+    });
+
+    test('should record logins and filter by time range', async () => {
+      const access_token = await loginAs(0, ['operator']);
+
+      const logins = await request(app)
+        .get('/api/v1/admin/audit-events')
+        .query({ action: 'auth.login', from: new Date(Date.now() - 60_000).toISOString() })
+        .set('Authorization', `Bearer ${access_token}`)
+        .expect(200);
+      expect(logins.body.data.events.map((event: any) => event.actor)).toEqual([adminAddress]);
+
+      const before = await request(app)
+        .get('/api/v1/admin/audit-events')
+        .query({ to: new Date(Date.now() - 60_000).toISOString() })
+        .set('Authorization', `Bearer ${access_token}`)
+        .expect(200);
+      expect(before.body.data.events).toHaveLength(0);
+    });
+
+    test('should verify the chain', async () => {
+      const access_token = await loginAs(0, ['operator']);
+      await loginAs(1);
+
+      const response = await request(app)
+        .get('/api/v1/admin/audit-events/verify')
+        .set('Authorization', `Bearer ${access_token}`)
+        .expect(200);
+      expect(response.body.data).toEqual({ valid: true, checked: 2 });
+    });
+
+    test('should reject unknown actions and be closed to regular users', async () => {
+      const access_token = await loginAs(0, ['operator']);
+      const user_token = await loginAs(1);
+
+      await request(app)
+        .get('/api/v1/admin/audit-events')
+        .query({ action: 'device.exploded' })
+        .set('Authorization', `Bearer ${access_token}`)
+        .expect(400);
+
+      await request(app)
+        .get('/api/v1/admin/audit-events')
+        .set('Authorization', `Bearer ${user_token}`)
+        .expect(403);
+    });
+  });
+});
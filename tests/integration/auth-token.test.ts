@@ -1,23 +1,31 @@
 import request from 'supertest';
 import app from '@/app';
 import User from '@/models/User';
+import Device from '@/models/Device';
 import jwt from 'jsonwebtoken';
 import { AccessTokenPayload, RefreshTokenPayload } from '@/types/token.types';
 import { revokeRefreshToken } from '@/redis/token.repository';
+import { siweLogin, testAccount, TEST_PRIVATE_KEYS } from '../helpers/siwe.helper';
+
+const sensor_meta = {
+  city: 'test',
+  city_id: 'test',
+  station: 'test',
+  station_id: 'test',
+  coordinates: { latitude: 0, longitude: 0 },
+  sensor_types: ['test'],
+};
 
 describe('Auth Token Integration', () => {
   afterEach(async () => {
     await User.deleteMany({});
+    await Device.deleteMany({});
   });
 
   describe('POST /api/v1/auth/login', () => {
     test('should return tokens on successful login', async () => {
-      const wallet_address = '0x1234567890ABCDEF1234567890ABCDEF12345678';
-
-      const response = await request(app)
-        .post('/api/v1/auth/login')
-        .send({ wallet_address })
-        .expect(200);
+      const response = await siweLogin(app);
+      expect(response.status).toBe(200);
 
       expect(response.body.success).toBe(true);
       expect(response.body.data.devices).toEqual([]);
@@ -30,30 +38,44 @@ describe('Auth Token Integration', () => {
       expect(accessPayload).toHaveProperty('jti');
     });
 
-    test('should set limited=true when user has 3+ devices', async () => {
-      const wallet_address = '0x1234567890abcdef1234567890abcdef12345678';
+    test('should set limited=true when user has 3+ active devices', async () => {
+      const owner_id = testAccount().address.toLowerCase();
+      const devices = ['device1', 'device2', 'device3'];
+      await User.create({ walletAddress: owner_id, devices });
+      await Device.create(devices.map(device_id => ({ device_id, owner_id, sensor_meta, status: 'active' as const })));
 
-      await User.create({
-        walletAddress: wallet_address.toLowerCase(),
-        devices: ['device1', 'device2', 'device3'],
-      });
+      const response = await siweLogin(app);
 
-      const response = await request(app)
-        .post('/api/v1/auth/login')
-        .send({ wallet_address })
-        .expect(200);
+      expect(response.status).toBe(200);
 
       expect(response.body.data.limited).toBe(true);
       expect(response.body.data.devices).toHaveLength(3);
     });
 
-    test('should store tokens in Redis', async () => {
-      const wallet_address = '0x1234567890abcdef1234567890abcdef12345678';
+    test('should not count device ids that no longer hold a slot', async () => {
+      const owner_id = testAccount().address.toLowerCase();
+      await User.create({ walletAddress: owner_id, devices: ['device1', 'device2', 'device3'] });
+      await Device.create({ device_id: 'device1', owner_id, sensor_meta, status: 'inactive' });
 
-      const response = await request(app)
-        .post('/api/v1/auth/login')
-        .send({ wallet_address })
-        .expect(200);
+      const response = await siweLogin(app);
+
+      expect(response.body.data.limited).toBe(false);
+    });
+
+    test('should follow the quota tier of the wallet', async () => {
+      const owner_id = testAccount().address.toLowerCase();
+      const devices = ['device1', 'device2', 'device3'];
+      await User.create({ walletAddress: owner_id, devices, quota_tier: 'institutional' });
+      await Device.create(devices.map(device_id => ({ device_id, owner_id, sensor_meta, status: 'active' as const })));
+
+      const response = await siweLogin(app);
+
+      expect(response.body.data.limited).toBe(false);
+    });
+
+    test('should store tokens in Redis', async () => {
+      const response = await siweLogin(app);
+      expect(response.status).toBe(200);
 
       const accessPayload = jwt.decode(response.body.data.tokens.access_token) as AccessTokenPayload;
       
@@ -65,10 +87,8 @@ describe('Auth Token Integration', () => {
 
   describe('POST /api/v1/auth/refresh', () => {
     test('should refresh access token with valid refresh token', async () => {
-      const loginRes = await request(app)
-        .post('/api/v1/auth/login')
-        .send({ wallet_address: '0x1234567890abcdef1234567890abcdef12345678' })
-        .expect(200);
+      const loginRes = await siweLogin(app);
+      expect(loginRes.status).toBe(200);
 
       const { refresh_token } = loginRes.body.data.tokens;
 
@@ -105,10 +125,8 @@ describe('Auth Token Integration', () => {
     });
 
     test('should reject revoked refresh token', async () => {
-      const loginRes = await request(app)
-        .post('/api/v1/auth/login')
-        .send({ wallet_address: '0x1234567890abcdef1234567890abcdef12345678' })
-        .expect(200);
+      const loginRes = await siweLogin(app);
+      expect(loginRes.status).toBe(200);
 
       const { refresh_token } = loginRes.body.data.tokens;
       const payload = jwt.decode(refresh_token) as RefreshTokenPayload;
@@ -120,14 +138,158 @@ describe('Auth Token Integration', () => {
         .send({ refresh_token })
         .expect(401);
     });
+
+    test('should revoke the whole token family when a rotated refresh token is reused', async () => {
+      const loginRes = await siweLogin(app);
+      expect(loginRes.status).toBe(200);
+      const { refresh_token } = loginRes.body.data.tokens;
+
+      await new Promise(resolve => setTimeout(resolve, 1000));
+
+      const rotated = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refresh_token })
+        .expect(200);
+
+      // Replaying the already-rotated token is treated as theft
+      const reuseRes = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refresh_token })
+        .expect(401);
+
+      expect(reuseRes.body.error.code).toBe('TOKEN_REUSE_DETECTED');
+      expect(reuseRes.body.error.login_required).toBe(true);
+
+      // The legitimate descendant tokens are revoked as well
+      await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refresh_token: rotated.body.data.refresh_token })
+        .expect(401);
+
+      await request(app)
+        .get('/api/v1/devices')
+        .set('Authorization', `Bearer ${rotated.body.data.access_token}`)
+        .expect(401);
+
+      await request(app)
+        .get('/api/v1/devices')
+        .set('Authorization', `Bearer ${loginRes.body.data.tokens.access_token}`)
+        .expect(401);
+    });
+
+    test('should rotate a refresh token only once when it is presented concurrently', async () => {
+      const loginRes = await siweLogin(app);
+      const { refresh_token } = loginRes.body.data.tokens;
+
+      await new Promise(resolve => setTimeout(resolve, 1000));
+
+      const responses = await Promise.all([
+        request(app).post('/api/v1/auth/refresh').send({ refresh_token }),
+        request(app).post('/api/v1/auth/refresh').send({ refresh_token }),
+      ]);
+
+      expect(responses.map(res => res.status).sort()).toEqual([200, 401]);
+      expect(responses.find(res => res.status === 401)!.body.error.code).toBe('TOKEN_REUSE_DETECTED');
+    });
+
+    test('should keep the token family across rotations', async () => {
+      const loginRes = await siweLogin(app);
+      expect(loginRes.status).toBe(200);
+      const { refresh_token } = loginRes.body.data.tokens;
+
+      await new Promise(resolve => setTimeout(resolve, 1000));
+
+      const refreshRes = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refresh_token })
+        .expect(200);
+
+      const original = jwt.decode(refresh_token) as RefreshTokenPayload;
+      const rotated = jwt.decode(refreshRes.body.data.refresh_token) as RefreshTokenPayload;
+      expect(rotated.token_family).toBe(original.token_family);
+    });
+  });
+
+  describe('GET /api/v1/auth/sessions', () => {
+    test('should list one session per login with client details', async () => {
+      const first = await siweLogin(app);
+      const second = await siweLogin(app);
+      const { access_token } = second.body.data.tokens;
+
+      const response = await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${access_token}`)
+        .set('User-Agent', 'clearsky-test')
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(2);
+      const firstRefresh = jwt.decode(first.body.data.tokens.refresh_token) as RefreshTokenPayload;
+      const current = response.body.data.find((s: any) => s.current);
+      const other = response.body.data.find((s: any) => !s.current);
+      expect(current.token_family).toBe((jwt.decode(access_token) as AccessTokenPayload).token_family);
+      expect(other.jti).toBe(firstRefresh.jti);
+      expect(other.issued_at).toBeTruthy();
+      expect(other.last_used_at).toBeTruthy();
+      expect(other.ip_address).toBeTruthy();
+    });
+
+    test('should require authentication', async () => {
+      await request(app)
+        .get('/api/v1/auth/sessions')
+        .expect(401);
+    });
+  });
+
+  describe('DELETE /api/v1/auth/sessions/:jti', () => {
+    test('should revoke one session and keep the others signed in', async () => {
+      const first = await siweLogin(app);
+      const second = await siweLogin(app);
+      const firstRefresh = jwt.decode(first.body.data.tokens.refresh_token) as RefreshTokenPayload;
+
+      await request(app)
+        .delete(`/api/v1/auth/sessions/${firstRefresh.jti}`)
+        .set('Authorization', `Bearer ${second.body.data.tokens.access_token}`)
+        .expect(200);
+
+      await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${first.body.data.tokens.access_token}`)
+        .expect(401);
+      await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refresh_token: first.body.data.tokens.refresh_token })
+        .expect(401);
+
+      const remaining = await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${second.body.data.tokens.access_token}`)
+        .expect(200);
+      expect(remaining.body.data).toHaveLength(1);
+      expect(remaining.body.data[0].current).toBe(true);
+    });
+
+    test('should not revoke a session owned by another wallet', async () => {
+      const mine = await siweLogin(app);
+      const theirs = await siweLogin(app, TEST_PRIVATE_KEYS[1]);
+      const theirRefresh = jwt.decode(theirs.body.data.tokens.refresh_token) as RefreshTokenPayload;
+
+      const response = await request(app)
+        .delete(`/api/v1/auth/sessions/${theirRefresh.jti}`)
+        .set('Authorization', `Bearer ${mine.body.data.tokens.access_token}`)
+        .expect(404);
+      expect(response.body.error.code).toBe('SESSION_NOT_FOUND');
+
+      await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${theirs.body.data.tokens.access_token}`)
+        .expect(200);
+    });
   });
 
   describe('POST /api/v1/auth/logout', () => {
     test('should logout and invalidate tokens', async () => {
-      const loginRes = await request(app)
-        .post('/api/v1/auth/login')
-        .send({ wallet_address: '0x1234567890abcdef1234567890abcdef12345678' })
-        .expect(200);
+      const loginRes = await siweLogin(app);
+      expect(loginRes.status).toBe(200);
 
       const { access_token } = loginRes.body.data.tokens;
 
@@ -143,6 +305,22 @@ describe('Auth Token Integration', () => {
         .expect(401);
     });
 
+    test('should refuse the refresh token afterwards without reporting reuse', async () => {
+      const loginRes = await siweLogin(app);
+      const { access_token, refresh_token } = loginRes.body.data.tokens;
+
+      await request(app)
+        .post('/api/v1/auth/logout')
+        .set('Authorization', `Bearer ${access_token}`)
+        .expect(200);
+
+      const refreshRes = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refresh_token })
+        .expect(401);
+      expect(refreshRes.body.error.code).toBeUndefined();
+    });
+
     test('should require authentication', async () => {
       await request(app)
         .post('/api/v1/auth/logout')
@@ -1,85 +1,135 @@
 import request from 'supertest';
 import app from '@/app';
 import User from '@/models/User';
+import { getRedisClient } from '@/database/redis.connection';
+import { siweLogin, signSiweMessage, testAccount, TEST_PRIVATE_KEYS } from '../helpers/siwe.helper';
+
+describe('GET /api/v1/auth/nonce', () => {
+  test('should issue a fresh nonce with the expected domain', async () => {
+    const first = await request(app).get('/api/v1/auth/nonce').expect(200);
+    const second = await request(app).get('/api/v1/auth/nonce').expect(200);
+
+    expect(first.body.success).toBe(true);
+    expect(first.body.data.nonce).toMatch(/^[a-f0-9]{32}$/);
+    expect(first.body.data.domain).toBeTruthy();
+    expect(first.body.data.nonce).not.toBe(second.body.data.nonce);
+  });
+});
 
 describe('POST /api/v1/auth/login', () => {
+  const wallet_address = testAccount().address.toLowerCase();
+
   afterEach(async () => {
     await User.deleteMany({});
+    await getRedisClient().flushdb();
   });
 
   test('should create new user if wallet address does not exist', async () => {
-    const wallet_address = '0x1234567890abcdef1234567890abcdef12345678';
-
-    const response = await request(app)
-      .post('/api/v1/auth/login')
-      .send({ wallet_address })
-      .expect(200);
+    const response = await siweLogin(app);
+    expect(response.status).toBe(200);
 
     expect(response.body.success).toBe(true);
-    expect(response.body.data.walletAddress).toBe(wallet_address.toLowerCase());
+    expect(response.body.data.walletAddress).toBe(wallet_address);
     expect(response.body.data.devices).toEqual([]);
 
-    const user = await User.findOne({ walletAddress: wallet_address.toLowerCase() });
+    const user = await User.findOne({ walletAddress: wallet_address });
     expect(user).not.toBeNull();
   });
 
   test('should return existing user if wallet address already exists', async () => {
-    const wallet_address = '0x1234567890abcdef1234567890abcdef12345678';
     const devices = ['device_1', 'device_2'];
 
     await User.create({
-      walletAddress: wallet_address.toLowerCase(),
+      walletAddress: wallet_address,
       devices,
     });
 
-    const response = await request(app)
-      .post('/api/v1/auth/login')
-      .send({ wallet_address })
-      .expect(200);
+    const response = await siweLogin(app);
+    expect(response.status).toBe(200);
 
     expect(response.body.success).toBe(true);
-    expect(response.body.data.walletAddress).toBe(wallet_address.toLowerCase());
+    expect(response.body.data.walletAddress).toBe(wallet_address);
     expect(response.body.data.devices).toEqual(devices);
   });
 
-  test('should return 400 if wallet_address is missing', async () => {
+  test('should return 400 if message or signature is missing', async () => {
     const response = await request(app)
       .post('/api/v1/auth/login')
-      .send({})
+      .send({ wallet_address })
       .expect(400);
 
     expect(response.body.success).toBe(false);
-    expect(response.body.error.message).toBe('wallet_address is required');
+    expect(response.body.error.message).toBe('message and signature are required');
   });
 
-  test('should handle concurrent requests (race condition)', async () => {
-    const wallet_address = '0x1234567890abcdef1234567890abcdef12345678';
+  test('should reject a replayed nonce', async () => {
+    const nonceRes = await request(app).get('/api/v1/auth/nonce');
+    const signed = await signSiweMessage(TEST_PRIVATE_KEYS[0], nonceRes.body.data.nonce);
+
+    await request(app).post('/api/v1/auth/login').send(signed).expect(200);
+    const replay = await request(app).post('/api/v1/auth/login').send(signed).expect(401);
+
+    expect(replay.body.error.code).toBe('SIWE_NONCE_INVALID');
+  });
+
+  test('should reject a nonce that was never issued', async () => {
+    const signed = await signSiweMessage(TEST_PRIVATE_KEYS[0], 'deadbeefdeadbeefdeadbeefdeadbeef');
+
+    const response = await request(app).post('/api/v1/auth/login').send(signed).expect(401);
+    expect(response.body.error.code).toBe('SIWE_NONCE_INVALID');
+  });
 
-    const requests = Array(5).fill(null).map(() =>
-      request(app)
-        .post('/api/v1/auth/login')
-        .send({ wallet_address })
-    );
+  test('should reject a message signed for another domain', async () => {
+    const nonceRes = await request(app).get('/api/v1/auth/nonce');
+    const signed = await signSiweMessage(TEST_PRIVATE_KEYS[0], nonceRes.body.data.nonce, {
+      domain: 'evil.example.com',
+    });
+
+    const response = await request(app).post('/api/v1/auth/login').send(signed).expect(401);
+    expect(response.body.error.code).toBe('SIWE_DOMAIN_MISMATCH');
+  });
+
+  test('should reject an expired message', async () => {
+    const nonceRes = await request(app).get('/api/v1/auth/nonce');
+    const signed = await signSiweMessage(TEST_PRIVATE_KEYS[0], nonceRes.body.data.nonce, {
+      expirationTime: new Date(Date.now() - 1000),
+    });
+
+    const response = await request(app).post('/api/v1/auth/login').send(signed).expect(401);
+    expect(response.body.error.code).toBe('SIWE_MESSAGE_EXPIRED');
+  });
+
+  test('should reject a signature from a different wallet', async () => {
+    const nonceRes = await request(app).get('/api/v1/auth/nonce');
+    const { message } = await signSiweMessage(TEST_PRIVATE_KEYS[0], nonceRes.body.data.nonce);
+    const { signature } = await signSiweMessage(TEST_PRIVATE_KEYS[1], nonceRes.body.data.nonce);
+
+    const response = await request(app)
+      .post('/api/v1/auth/login')
+      .send({ message, signature })
+      .expect(401);
+    expect(response.body.error.code).toBe('SIWE_SIGNATURE_INVALID');
+  });
+
+  test('should handle concurrent requests (race condition)', async () => {
+    const requests = Array(5).fill(null).map(() => siweLogin(app));
 
     const responses = await Promise.all(requests);
 
     responses.forEach(res => {
       expect(res.status).toBe(200);
-      expect(res.body.data.walletAddress).toBe(wallet_address.toLowerCase());
+      expect(res.body.data.walletAddress).toBe(wallet_address);
     });
 
-    const userCount = await User.countDocuments({ walletAddress: wallet_address.toLowerCase() });
+    const userCount = await User.countDocuments({ walletAddress: wallet_address });
     expect(userCount).toBe(1);
   });
 
-  test('should convert wallet address to lowercase', async () => {
-    const wallet_address = '0xABCDEF1234567890ABCDEF1234567890ABCDEF12';
-
-    const response = await request(app)
-      .post('/api/v1/auth/login')
-      .send({ wallet_address })
-      .expect(200);
+  test('should convert checksummed wallet address to lowercase', async () => {
+    const response = await siweLogin(app);
+    expect(response.status).toBe(200);
 
-    expect(response.body.data.walletAddress).toBe(wallet_address.toLowerCase());
+    expect(testAccount().address).not.toBe(wallet_address);
+    expect(response.body.data.walletAddress).toBe(wallet_address);
   });
 });
@@ -0,0 +1,79 @@
+import request from 'supertest';
+import app from '@/app';
+import Device from '@/models/Device';
+import AQIReading from '@/models/AQIReading';
+import { registerTestDevice } from '../helpers/device.helper';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+describe('Batch Window Length', () => {
+  let accessToken: string;
+  let deviceId: string;
+  let apiKey: string;
+
+  const ingest = (timestamp: number) =>
+    request(app)
+      .post('/api/v1/ingest')
+      .set('X-Device-Key', apiKey)
+      .send({ sensor_data: { CO: 1.2 }, timestamp });
+
+  const setBatchWindow = (batch_window_minutes: unknown) =>
+    request(app)
+      .patch(`/api/v1/devices/${deviceId}`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ batch_window_minutes });
+
+  beforeEach(async () => {
+    ({ accessToken, deviceId, apiKey } = await registerTestDevice(app));
+  });
+
+  test('should batch samples into hourly windows by default', async () => {
+    const res = await ingest(Date.now() - 2 * HOUR).expect(201);
+
+    expect(res.body.data.reading_id).toMatch(/_H\d{2}$/);
+    const reading = await AQIReading.findOne({ reading_id: res.body.data.reading_id }).lean();
+    expect(reading!.batch_window.duration_minutes).toBe(60);
+  });
+
+  test('should record the device batch window length on each batch', async () => {
+    await setBatchWindow(15).expect(200);
+
+    const timestamp = Date.now() - 2 * HOUR;
+    const first = await ingest(timestamp).expect(201);
+    const next = await ingest(timestamp + 15 * 60 * 1000).expect(201);
+
+    expect(first.body.data.reading_id).toMatch(/_H\d{4}_W15$/);
+    expect(next.body.data.reading_id).not.toBe(first.body.data.reading_id);
+
+    const reading = await AQIReading.findOne({ reading_id: first.body.data.reading_id }).lean();
+    expect(reading!.batch_window.duration_minutes).toBe(15);
+    expect(reading!.batch_window.end.getTime() - reading!.batch_window.start.getTime()).toBe(15 * 60 * 1000);
+  });
+
+  test('should scale the per-window sample cap to the window length', async () => {
+    await setBatchWindow(15).expect(200);
+
+    const windowStart = Math.floor((Date.now() - 2 * HOUR) / (15 * MINUTE)) * 15 * MINUTE;
+    const samples = Array.from({ length: 181 }, (_, i) => ({ sensor_data: { CO: 1.2 }, timestamp: windowStart + i * 1000 }));
+
+    const res = await request(app)
+      .post('/api/v1/ingest/bulk')
+      .set('X-Device-Key', apiKey)
+      .send({ samples })
+      .expect(200);
+
+    expect(res.body.data).toMatchObject({ accepted: 180, rejected: 1 });
+    expect(res.body.data.results[180].error).toEqual({
+      code: 'BATCH_SAMPLE_LIMIT_REACHED',
+      message: 'Batch window already holds 180 samples'
+    });
+
+    await ingest(windowStart + 200 * 1000).expect(429);
+  });
+
+  test('should reject window lengths that do not divide a day', async () => {
+    await setBatchWindow(45).expect(400);
+    await setBatchWindow('60').expect(400);
+  });
+});
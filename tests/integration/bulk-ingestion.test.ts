@@ -0,0 +1,203 @@
+import request from 'supertest';
+import app from '@/app';
+import Device from '@/models/Device';
+import AQIReading from '@/models/AQIReading';
+import AuditEvent from '@/models/AuditEvent';
+import { registerTestDevice } from '../helpers/device.helper';
+import { createTestSigner, signReading } from '../helpers/reading-signature.helper';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Bulk Ingestion', () => {
+  let accessToken: string;
+  let deviceId: string;
+  let apiKey: string;
+
+  const upload = (samples: unknown[]) =>
+    request(app)
+      .post('/api/v1/ingest/bulk')
+      .set('X-Device-Key', apiKey)
+      .send({ samples });
+
+  const setBackfillWindow = (backfill_window_seconds: number) =>
+    request(app)
+      .patch(`/api/v1/devices/${deviceId}`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ backfill_window_seconds });
+
+  beforeEach(async () => {
+    ({ accessToken, deviceId, apiKey } = await registerTestDevice(app));
+  });
+
+  test('should spread a week of buffered samples over their batch windows', async () => {
+    await setBackfillWindow(7 * 24 * 60 * 60).expect(200);
+
+    const start = Date.now() - 6 * 24 * HOUR;
+    const samples = Array.from({ length: 2000 }, (_, i) => ({
+      sensor_data: { CO: 1 + (i % 10) / 10, 'PM2.5': 30 + (i % 7) },
+      timestamp: start + i * 4 * 60 * 1000
+    }));
+
+    const res = await upload(samples).expect(200);
+    expect(res.body.data).toMatchObject({ device_id: deviceId, accepted: 2000, rejected: 0 });
+    expect(res.body.data.results).toHaveLength(2000);
+
+    const readings = await AQIReading.find({ device_id: deviceId }).lean();
+    expect(readings.length).toBe(res.body.data.readings.length);
+    expect(readings.reduce((sum, reading) => sum + reading.meta.ingestion_count, 0)).toBe(2000);
+    expect(readings.every(reading => reading.status === 'PENDING')).toBe(true);
+
+    const [event] = await AuditEvent.find({ action: 'reading.bulk_ingested' }).lean();
+    expect(event.after).toMatchObject({ accepted: 2000, rejected: 0 });
+  });
+
+  test('should report a result for every sample', async () => {
+    const now = Date.now();
+    const res = await upload([
+      { sensor_data: { CO: 1.2 }, timestamp: now - 2 * HOUR },
+      { sensor_data: { CO: 1.3 }, timestamp: now - 3 * 24 * HOUR },
+      { sensor_data: { NO2: 10 }, timestamp: now },
+      { sensor_data: { CO: -1 }, timestamp: now },
+      { timestamp: now },
+      { sensor_data: { CO: 1.4 }, timestamp: now - 2 * HOUR + 1000 }
+    ]).expect(200);
+
+    const { accepted, rejected, results } = res.body.data;
+    expect(accepted).toBe(2);
+    expect(rejected).toBe(4);
+    expect(results.map((result: any) => result.status)).toEqual([
+      'accepted', 'rejected', 'rejected', 'rejected', 'rejected', 'accepted'
+    ]);
+    expect(results[1].error).toEqual({ code: 'INVALID_SAMPLE', message: 'Timestamp too old (>24 hours)' });
+    expect(results[0].reading_id).toBe(results[5].reading_id);
+  });
+
+  test('should put late samples for batches already picked up for verification into a supplemental batch', async () => {
+    const timestamp = Date.now() - 3 * HOUR;
+    const first = await upload([{ sensor_data: { CO: 1.2 }, timestamp }]).expect(200);
+    const { reading_id } = first.body.data.results[0];
+
+    await AQIReading.updateOne({ reading_id }, { $set: { status: 'VERIFIED' } });
+
+    const res = await upload([{ sensor_data: { CO: 1.5 }, timestamp: timestamp + 1000 }]).expect(200);
+    expect(res.body.data.results[0]).toMatchObject({ status: 'accepted', reading_id: `${reading_id}_S1` });
+    expect(res.body.data.readings[0]).toMatchObject({ reading_id: `${reading_id}_S1`, supplements: reading_id });
+    expect((await AQIReading.findOne({ reading_id }).lean())!.sensor_data.CO).toEqual([1.2]);
+
+    const single = await request(app)
+      .post('/api/v1/ingest')
+      .set('X-Device-Key', apiKey)
+      .send({ sensor_data: { CO: 1.7 }, timestamp: timestamp + 2000 })
+      .expect(201);
+    expect(single.body.data).toMatchObject({ reading_id: `${reading_id}_S1`, supplements: reading_id, ingestion_count: 2 });
+  });
+
+  test('should keep the batches it wrote when another batch of the upload fails', async () => {
+    const earlier = Date.now() - 3 * HOUR;
+    const later = Date.now() - 2 * HOUR;
+    await upload([{ sensor_data: { CO: 1.2 }, timestamp: earlier }]).expect(200);
+
+    // Every append loses the race, so the existing batch is never written
+    const append = jest.spyOn(AQIReading, 'findOneAndUpdate').mockReturnValue({ lean: async () => null } as any);
+    try {
+      const res = await upload([
+        { sensor_data: { CO: 1.3 }, timestamp: earlier + 1000 },
+        { sensor_data: { CO: 1.4 }, timestamp: later }
+      ]).expect(200);
+
+      expect(res.body.data).toMatchObject({ accepted: 1, rejected: 1 });
+      expect(res.body.data.results[0]).toMatchObject({ status: 'rejected', error: { code: 'BATCH_MODIFIED' } });
+      expect(res.body.data.results[1].status).toBe('accepted');
+    } finally {
+      append.mockRestore();
+    }
+
+    expect(await AQIReading.countDocuments({ device_id: deviceId })).toBe(2);
+  });
+
+  test('should let a signing device resend the samples of a batch that could not be written', async () => {
+    const signer = createTestSigner();
+    await request(app)
+      .put(`/api/v1/devices/${deviceId}/signing-key`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send(signer.signing_key)
+      .expect(200);
+
+    const timestamp = Date.now() - 3 * HOUR;
+    const signed = (CO: number, offset: number, nonce: string) => {
+      const sample = { sensor_data: { CO }, timestamp: timestamp + offset, nonce };
+      return { ...sample, signature: signReading(signer, { ...sample, device_id: deviceId }).signature };
+    };
+    await upload([signed(1.2, 0, 'nonce-first')]).expect(200);
+
+    const samples = [signed(1.3, 1000, 'nonce-second'), signed(1.4, 2000, 'nonce-third')];
+    const append = jest.spyOn(AQIReading, 'findOneAndUpdate').mockReturnValue({ lean: async () => null } as any);
+    try {
+      const failed = await upload(samples).expect(200);
+      expect(failed.body.data.results.map((result: any) => result.error?.code)).toEqual(['BATCH_MODIFIED', 'BATCH_MODIFIED']);
+    } finally {
+      append.mockRestore();
+    }
+
+    const resent = await upload(samples).expect(200);
+    expect(resent.body.data).toMatchObject({ accepted: 2, rejected: 0 });
+    const reading = await AQIReading.findOne({ reading_id: resent.body.data.results[0].reading_id }).lean();
+    expect(reading!.sensor_data.CO).toEqual([1.2, 1.3, 1.4]);
+  });
+
+  test('should answer samples sent again with the same sequence without storing them twice', async () => {
+    const timestamp = Date.now() - 3 * HOUR;
+    const samples = [
+      { sensor_data: { CO: 1.2 }, timestamp, sequence: 1 },
+      { sensor_data: { CO: 1.3 }, timestamp: timestamp + 1000, idempotency_key: 'sample-2' }
+    ];
+
+    const first = await upload(samples).expect(200);
+    const { reading_id } = first.body.data.results[0];
+
+    const retry = await upload([...samples, { sensor_data: { CO: 1.4 }, timestamp: timestamp + 2000, sequence: 3 }]).expect(200);
+    expect(retry.body.data).toMatchObject({ accepted: 3, rejected: 0 });
+    expect(retry.body.data.results.map((result: any) => result.replayed)).toEqual([true, true, undefined]);
+    expect(retry.body.data.results[0].reading_id).toBe(reading_id);
+
+    const reading = await AQIReading.findOne({ reading_id }).lean();
+    expect(reading!.sensor_data.CO).toEqual([1.2, 1.3, 1.4]);
+
+    // The single-sample endpoint recognises the same sequence
+    const single = await request(app)
+      .post('/api/v1/ingest')
+      .set('X-Device-Key', apiKey)
+      .send({ sensor_data: { CO: 1.2 }, timestamp, sequence: 1 })
+      .expect(201);
+    expect(single.headers['idempotent-replayed']).toBe('true');
+    expect(single.body.data.ingestion_count).toBe(1);
+  });
+
+  test('should reject reused and repeated sample keys', async () => {
+    const timestamp = Date.now() - 3 * HOUR;
+    await upload([{ sensor_data: { CO: 1.2 }, timestamp, sequence: 1 }]).expect(200);
+
+    const res = await upload([
+      { sensor_data: { CO: 9.9 }, timestamp, sequence: 1 },
+      { sensor_data: { CO: 1.3 }, timestamp: timestamp + 1000, sequence: 2 },
+      { sensor_data: { CO: 1.4 }, timestamp: timestamp + 2000, sequence: 2 },
+      { sensor_data: { CO: 1.5 }, timestamp: timestamp + 3000, idempotency_key: 'not a key' }
+    ]).expect(200);
+
+    expect(res.body.data.results.map((result: any) => result.error?.code)).toEqual([
+      'IDEMPOTENCY_KEY_REUSED', undefined, 'INVALID_SAMPLE', 'INVALID_SAMPLE'
+    ]);
+  });
+
+  test('should validate the backfill window and the upload', async () => {
+    await setBackfillWindow(60).expect(400);
+    await setBackfillWindow(365 * 24 * 60 * 60).expect(400);
+
+    await upload([]).expect(400);
+    await request(app)
+      .post('/api/v1/ingest/bulk')
+      .set('X-Device-Key', apiKey)
+      .send({ device_id: 'someone-elses-device', samples: [] })
+      .expect(403);
+  });
+});
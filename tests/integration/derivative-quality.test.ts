@@ -0,0 +1,80 @@
+import request from 'supertest';
+import app from '@/app';
+import AQIReading from '@/models/AQIReading';
+import { Derivative } from '@/models/Derivative';
+import { getMinParentQualityScore } from '@/services/derivative.service';
+
+describe('Derivative Quality Filter', () => {
+  const createReading = (reading_id: string, score?: number) =>
+    AQIReading.create({
+      reading_id,
+      device_id: 'device-123',
+      owner_id: '0x123',
+      batch_window: {
+        start: new Date('2024-12-04T15:00:00Z'),
+        end: new Date('2024-12-04T16:00:00Z'),
+        hour_index: 15
+      },
+      sensor_data: { 'PM2.5': [35, 38] },
+      meta: {
+        location: {
+          city: 'New Delhi',
+          city_id: 'delhi',
+          station: 'Chandni Chowk',
+          station_id: 'delhi_chandni_chowk_iitm_11603',
+          coordinates: { latitude: 28.6506, longitude: 77.2303 }
+        },
+        last_ingestion: new Date('2024-12-04T15:55:00Z')
+      },
+      status: 'COMPLETE',
+      ...(score !== undefined && { quality: { score, flags: [], version: 1, assessed_at: new Date() } })
+    });
+
+  const createDerivative = async (derivative_id: string, parent_data_ids: string[]) => {
+    const min_parent_quality_score = await getMinParentQualityScore(parent_data_ids);
+    return Derivative.create({
+      derivative_id,
+      type: 'DAILY',
+      parent_data_ids,
+      content: derivative_id,
+      is_minted: false,
+      ...(min_parent_quality_score !== undefined && { min_parent_quality_score })
+    });
+  };
+
+  beforeEach(async () => {
+    await AQIReading.deleteMany({});
+    await Derivative.deleteMany({});
+
+    await createReading('clean_1', 95);
+    await createReading('clean_2', 88);
+    await createReading('noisy', 40);
+    await createReading('unassessed');
+
+    await createDerivative('deriv_clean', ['clean_1', 'clean_2']);
+    await createDerivative('deriv_mixed', ['clean_1', 'noisy']);
+    await createDerivative('deriv_legacy', ['unassessed']);
+  });
+
+  test('should list only derivatives whose readings all meet the minimum quality', async () => {
+    const res = await request(app).get('/api/v1/marketplace/derivatives?minQuality=80').expect(200);
+    expect(res.body.data.map((d: any) => d.derivative_id)).toEqual(['deriv_clean']);
+
+    const all = await request(app).get('/api/v1/marketplace/derivatives').expect(200);
+    expect(all.body.data).toHaveLength(3);
+
+    const low = await request(app).get('/api/v1/marketplace/derivatives?minQuality=40').expect(200);
+    expect(low.body.data.map((d: any) => d.derivative_id).sort()).toEqual(['deriv_clean', 'deriv_mixed']);
+  });
+
+  test('should store the lowest parent score and leave it unset while a parent is unassessed', async () => {
+    const derivatives = await Derivative.find().lean();
+    const scores = Object.fromEntries(derivatives.map(d => [d.derivative_id, d.min_parent_quality_score]));
+    expect(scores).toEqual({ deriv_clean: 88, deriv_mixed: 40, deriv_legacy: undefined });
+  });
+
+  test('should reject a minimum quality outside 0 to 100', async () => {
+    await request(app).get('/api/v1/marketplace/derivatives?minQuality=high').expect(400);
+    await request(app).get('/api/v1/marketplace/derivatives?minQuality=101').expect(400);
+  });
+});
@@ -0,0 +1,99 @@
+import request from 'supertest';
+import app from '@/app';
+import User from '@/models/User';
+import Device from '@/models/Device';
+import AQIReading from '@/models/AQIReading';
+import AuditEvent from '@/models/AuditEvent';
+import CalibrationProfile from '@/models/CalibrationProfile';
+import { registerTestDevice } from '../helpers/device.helper';
+import { siweLogin, testAccount, TEST_PRIVATE_KEYS } from '../helpers/siwe.helper';
+
+describe('Device Calibration', () => {
+  let ownerToken: string;
+  let deviceId: string;
+  let apiKey: string;
+
+  const calibrate = (body: Record<string, unknown>, token = ownerToken) =>
+    request(app)
+      .put(`/api/v1/devices/${deviceId}/calibration`)
+      .set('Authorization', `Bearer ${token}`)
+      .send(body);
+
+  const ingest = (sensor_data: Record<string, number>) =>
+    request(app)
+      .post('/api/v1/ingest')
+      .set('X-Device-Key', apiKey)
+      .send({ sensor_data, timestamp: Date.now() })
+      .expect(201);
+
+  beforeEach(async () => {
+    await CalibrationProfile.deleteMany({});
+    ({ accessToken: ownerToken, deviceId, apiKey } = await registerTestDevice(app, ['PM2.5', 'RH', 'CO']));
+  });
+
+  test('should store corrected values next to raw ones', async () => {
+    const profile = await calibrate({
+      sensors: { 'PM2.5': { gain: 0.8, offset: 2, humidity_correction: { kappa: 0.4 } } },
+      reference_station_id: 'delhi_chandni_chowk_iitm_11603',
+      note: 'Co-located for two weeks'
+    }).expect(201);
+    expect(profile.body.data.version).toBe(1);
+
+    const res = await ingest({ 'PM2.5': 70, RH: 50, CO: 1.2 });
+
+    const reading = await AQIReading.findOne({ reading_id: res.body.data.reading_id }).lean();
+    expect(reading!.sensor_data).toEqual({ 'PM2.5': [70], RH: [50], CO: [1.2] });
+    expect((reading!.corrected_data as any)['PM2.5'][0]).toBeCloseTo(42, 10);
+    expect((reading!.corrected_data as any).CO).toEqual([1.2]);
+    expect(reading!.meta.calibration_versions).toEqual([1]);
+  });
+
+  test('should keep earlier samples of the batch aligned when calibration starts mid-batch', async () => {
+    await ingest({ 'PM2.5': 40 });
+    await calibrate({ sensors: { 'PM2.5': { gain: 0.5, offset: 0 } } }).expect(201);
+    await calibrate({ sensors: { 'PM2.5': { gain: 0.25, offset: 0 } } }).expect(201);
+    const res = await ingest({ 'PM2.5': 40 });
+
+    const reading = await AQIReading.findOne({ reading_id: res.body.data.reading_id }).lean();
+    expect(reading!.sensor_data['PM2.5']).toEqual([40, 40]);
+    expect(reading!.corrected_data!['PM2.5']).toEqual([40, 10]);
+    expect(reading!.meta.calibration_versions).toEqual([2]);
+
+    const history = await request(app)
+      .get(`/api/v1/devices/${deviceId}/calibration`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(history.body.data.map((entry: any) => entry.version)).toEqual([2, 1]);
+  });
+
+  test('should leave readings uncorrected without a profile', async () => {
+    const res = await ingest({ 'PM2.5': 40 });
+
+    const reading = await AQIReading.findOne({ reading_id: res.body.data.reading_id }).lean();
+    expect(reading!.corrected_data).toBeUndefined();
+    expect(reading!.meta.calibration_versions).toBeUndefined();
+  });
+
+  test('should reject invalid profiles', async () => {
+    await calibrate({ sensors: { 'PM2.5': { gain: 0, offset: 0 } } }).expect(400);
+    await calibrate({ sensors: { NO2: { gain: 1, offset: 0 } } }).expect(400);
+    await calibrate({ sensors: { CO: { gain: 1, offset: 0, humidity_correction: { kappa: 0.4 } } } }).expect(400);
+    await calibrate({ sensors: { 'PM2.5': { gain: 1, offset: 0, humidity_correction: { kappa: 5 } } } }).expect(400);
+    await calibrate({ sensors: { 'PM2.5': { gain: 1, offset: 0 } }, reference_station_id: 'nowhere' }).expect(400);
+
+    expect(await CalibrationProfile.countDocuments()).toBe(0);
+  });
+
+  test('should let operators calibrate devices they do not own', async () => {
+    const strangerToken = (await siweLogin(app, TEST_PRIVATE_KEYS[1])).body.data.tokens.access_token;
+    await calibrate({ sensors: {} }, strangerToken).expect(404);
+
+    await User.updateOne({ walletAddress: testAccount(1).address.toLowerCase() }, { $set: { roles: ['operator'] } });
+    const operatorToken = (await siweLogin(app, TEST_PRIVATE_KEYS[1])).body.data.tokens.access_token;
+    const res = await calibrate({ sensors: { CO: { gain: 1.1, offset: 0 } } }, operatorToken).expect(201);
+    expect(res.body.data.created_by).toBe(testAccount(1).address.toLowerCase());
+
+    const [event] = await AuditEvent.find({ action: 'device.calibration_updated' }).lean();
+    expect(event.target.id).toBe(deviceId);
+  });
+});
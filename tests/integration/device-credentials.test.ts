@@ -0,0 +1,113 @@
+import request from 'supertest';
+import app from '@/app';
+import Device from '@/models/Device';
+import DeviceCredential from '@/models/DeviceCredential';
+import AQIReading from '@/models/AQIReading';
+import { registerTestDevice } from '../helpers/device.helper';
+import { siweLogin, TEST_PRIVATE_KEYS } from '../helpers/siwe.helper';
+
+describe('Device Credentials Integration', () => {
+  let accessToken: string;
+  let deviceId: string;
+  let apiKey: string;
+
+  const ingest = (key: string, body: Record<string, unknown> = {}) =>
+    request(app)
+      .post('/api/v1/ingest')
+      .set('X-Device-Key', key)
+      .send({ sensor_data: { CO: 1.2 }, timestamp: Date.now(), ...body });
+
+  beforeEach(async () => {
+    ({ accessToken, deviceId, apiKey } = await registerTestDevice(app));
+  });
+
+  test('should issue an API key at registration and never store it in plain text', async () => {
+    expect(apiKey).toMatch(/^csk_[a-f0-9]{16}_/);
+
+    const stored = await DeviceCredential.findOne({ device_id: deviceId });
+    expect(stored).not.toBeNull();
+    expect(stored!.key_hash).not.toContain(apiKey.split('_')[2]);
+  });
+
+  test('should ingest with the device key and resolve device and owner from it', async () => {
+    const res = await ingest(apiKey).expect(201);
+
+    expect(res.body.data.device_id).toBe(deviceId);
+    const reading = await AQIReading.findOne({ reading_id: res.body.data.reading_id });
+    expect(reading!.owner_id).toBe((await Device.findOne({ device_id: deviceId }))!.owner_id);
+  });
+
+  test('should reject a key used for another device_id', async () => {
+    await ingest(apiKey, { device_id: 'someone-elses-device' }).expect(403);
+  });
+
+  test('should reject unknown keys', async () => {
+    const res = await ingest(`${apiKey.slice(0, -4)}AAAA`).expect(401);
+    expect(res.body.error.code).toBe('INVALID_DEVICE_KEY');
+  });
+
+  test('should keep accepting the owner bearer token', async () => {
+    await request(app)
+      .post('/api/v1/ingest')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ device_id: deviceId, sensor_data: { CO: 1.2 }, timestamp: Date.now() })
+      .expect(201);
+  });
+
+  test('should retire the old key on rotation', async () => {
+    const rotated = await request(app)
+      .post(`/api/v1/devices/${deviceId}/credentials`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(201);
+
+    await ingest(apiKey).expect(401);
+    await ingest(rotated.body.data.api_key).expect(201);
+
+    const list = await request(app)
+      .get(`/api/v1/devices/${deviceId}/credentials`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+    expect(list.body.data).toHaveLength(2);
+    expect(list.body.data.filter((c: any) => c.active)).toHaveLength(1);
+    expect(list.body.data[0]).not.toHaveProperty('key_hash');
+  });
+
+  test('should keep the old key working during a rotation grace period', async () => {
+    await request(app)
+      .post(`/api/v1/devices/${deviceId}/credentials`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ grace_period_seconds: 3600 })
+      .expect(201);
+
+    await ingest(apiKey).expect(201);
+  });
+
+  test('should revoke a single key', async () => {
+    const keyId = apiKey.split('_')[1];
+
+    await request(app)
+      .delete(`/api/v1/devices/${deviceId}/credentials/${keyId}`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+    await ingest(apiKey).expect(401);
+  });
+
+  test('should not let another wallet manage the credentials', async () => {
+    const other = await siweLogin(app, TEST_PRIVATE_KEYS[1]);
+
+    await request(app)
+      .post(`/api/v1/devices/${deviceId}/credentials`)
+      .set('Authorization', `Bearer ${other.body.data.tokens.access_token}`)
+      .expect(404);
+  });
+
+  test('should revoke all keys when the device is deleted', async () => {
+    await request(app)
+      .delete(`/api/v1/devices/${deviceId}`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+    await ingest(apiKey).expect(401);
+  });
+});
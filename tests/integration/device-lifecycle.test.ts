@@ -0,0 +1,146 @@
+import request from 'supertest';
+import app from '@/app';
+import User from '@/models/User';
+import Device from '@/models/Device';
+import DeviceCredential from '@/models/DeviceCredential';
+import AQIReading from '@/models/AQIReading';
+import AuditEvent from '@/models/AuditEvent';
+import { registerTestDevice } from '../helpers/device.helper';
+
+describe('Device Lifecycle Integration', () => {
+  let accessToken: string;
+  let deviceId: string;
+  let apiKey: string;
+
+  const patch = (body: Record<string, unknown>) =>
+    request(app)
+      .patch(`/api/v1/devices/${deviceId}`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send(body);
+
+  const ingest = (sensor_data: Record<string, number> = { CO: 1.2 }) =>
+    request(app)
+      .post('/api/v1/ingest')
+      .set('X-Device-Key', apiKey)
+      .send({ sensor_data, timestamp: Date.now() });
+
+  beforeEach(async () => {
+    ({ accessToken, deviceId, apiKey } = await registerTestDevice(app, ['CO']));
+  });
+
+  test('should start the history at revision 1 on registration', async () => {
+    const res = await request(app)
+      .get(`/api/v1/devices/${deviceId}/history`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+    expect(res.body.data).toHaveLength(1);
+    expect(res.body.data[0]).toMatchObject({ revision: 1, action: 'registered' });
+  });
+
+  test('should change sensor types and record the change', async () => {
+    const res = await patch({ sensor_types: ['CO', 'PM2.5'], reason: 'Added PM sensor' }).expect(200);
+
+    expect(res.body.data.sensor_meta.sensor_types).toEqual(['CO', 'PM2.5']);
+    expect(res.body.data.revision).toBe(2);
+
+    const device = await Device.findOne({ device_id: deviceId }).lean();
+    expect(device!.change_history![1]).toMatchObject({
+      revision: 2,
+      action: 'updated',
+      reason: 'Added PM sensor',
+      changes: { 'sensor_meta.sensor_types': { from: ['CO'], to: ['CO', 'PM2.5'] } }
+    });
+
+    await ingest({ 'PM2.5': 35 }).expect(201);
+  });
+
+  test('should reject sensors the station does not have', async () => {
+    const res = await patch({ sensor_types: ['Radon'] }).expect(400);
+    expect(res.body.error.message).toContain('Radon');
+  });
+
+  test('should pause and resume ingestion', async () => {
+    await patch({ status: 'inactive' }).expect(200);
+    await ingest().expect(400);
+
+    await patch({ status: 'active' }).expect(200);
+    await ingest().expect(201);
+  });
+
+  test('should tag readings with the device revision they were ingested under', async () => {
+    const first = await ingest().expect(201);
+    await patch({ sensor_types: ['CO', 'PM2.5'] }).expect(200);
+    await ingest({ CO: 1.4, 'PM2.5': 30 }).expect(201);
+
+    const reading = await AQIReading.findOne({ reading_id: first.body.data.reading_id }).lean();
+    expect(reading!.meta.device_revisions).toEqual([1, 2]);
+  });
+
+  test('should decommission without deleting the device or its readings', async () => {
+    const ingested = await ingest().expect(201);
+
+    const res = await request(app)
+      .post(`/api/v1/devices/${deviceId}/decommission`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ reason: 'Sensor destroyed' })
+      .expect(200);
+
+    expect(res.body.data.status).toBe('decommissioned');
+    expect(res.body.data.decommissioned_at).toBeTruthy();
+
+    expect(await Device.countDocuments({ device_id: deviceId })).toBe(1);
+    expect(await AQIReading.countDocuments({ reading_id: ingested.body.data.reading_id })).toBe(1);
+
+    const user = await User.findOne({ devices: deviceId });
+    expect(user).toBeNull();
+
+    const key = await DeviceCredential.findOne({ device_id: deviceId });
+    expect(key!.revoked_reason).toBe('device_decommissioned');
+    await ingest().expect(401);
+
+    const audit = await AuditEvent.findOne({ action: 'device.decommissioned' }).lean();
+    expect(audit!.metadata).toMatchObject({ reason: 'Sensor destroyed' });
+  });
+
+  test('should refuse changes to a decommissioned device', async () => {
+    await request(app)
+      .post(`/api/v1/devices/${deviceId}/decommission`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+    const res = await patch({ status: 'active' }).expect(409);
+    expect(res.body.error.code).toBe('DEVICE_DECOMMISSIONED');
+
+    await request(app)
+      .post(`/api/v1/devices/${deviceId}/decommission`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(409);
+  });
+
+  test('should not let status be set to decommissioned through PATCH', async () => {
+    await patch({ status: 'decommissioned' }).expect(400);
+  });
+
+  test('should show heartbeat fields in the device list', async () => {
+    await ingest({ CO: 1.1 }).expect(201);
+
+    const res = await request(app)
+      .get('/api/v1/devices')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+    const [device] = res.body.data.devices;
+    expect(device.last_seen_at).toBeTruthy();
+    expect(device.last_ingestion_at).toBeTruthy();
+    expect(Object.keys(device.sensor_last_seen)).toEqual(['CO']);
+  });
+
+  test('should return 404 for devices of other owners', async () => {
+    await request(app)
+      .patch('/api/v1/devices/unknown-device')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ status: 'inactive' })
+      .expect(404);
+  });
+});
@@ -3,6 +3,7 @@ import app from '@/app';
 import User from '@/models/User';
 import Device from '@/models/Device';
 import { getRedisClient } from '@/database/redis.connection';
+import { siweLogin, testAccount } from '../helpers/siwe.helper';
 
 describe('Device Registration Integration', () => {
   let accessToken: string;
@@ -13,10 +14,8 @@ describe('Device Registration Integration', () => {
     await User.deleteMany({});
     await getRedisClient().flushdb();
 
-    walletAddress = '0x1234567890abcdef1234567890abcdef12345678';
-    const loginRes = await request(app)
-      .post('/api/v1/auth/login')
-      .send({ wallet_address: walletAddress });
+    walletAddress = testAccount().address.toLowerCase();
+    const loginRes = await siweLogin(app);
 
     accessToken = loginRes.body.data.tokens.access_token;
   });
@@ -167,6 +166,12 @@ describe('Device Registration Integration', () => {
       expect(res.body.data.devices.length).toBe(2);
       expect(res.body.data.count).toBe(2);
       expect(res.body.data.limit_reached).toBe(false);
+      expect(res.body.data.quota).toMatchObject({
+        tier: 'community',
+        max_active_devices: 3,
+        active_devices: 2,
+        remaining: 1
+      });
     });
   });
 
@@ -0,0 +1,141 @@
+import request from 'supertest';
+import app from '@/app';
+import User from '@/models/User';
+import Device from '@/models/Device';
+import AQIReading from '@/models/AQIReading';
+import { registerTestDevice } from '../helpers/device.helper';
+import { siweLogin, testAccount, TEST_PRIVATE_KEYS } from '../helpers/siwe.helper';
+
+describe('Device Transfer Integration', () => {
+  const sellerWallet = testAccount(0).address.toLowerCase();
+  const buyerWallet = testAccount(1).address.toLowerCase();
+
+  let sellerToken: string;
+  let buyerToken: string;
+  let deviceId: string;
+  let apiKey: string;
+
+  const register = (token: string) =>
+    request(app)
+      .post('/api/v1/devices/register')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        city_id: 'delhi',
+        station_id: 'delhi_chandni_chowk_iitm_11603',
+        sensor_types: ['CO']
+      })
+      .expect(201);
+
+  const offer = (to_wallet: string = buyerWallet) =>
+    request(app)
+      .post(`/api/v1/devices/${deviceId}/transfer`)
+      .set('Authorization', `Bearer ${sellerToken}`)
+      .send({ to_wallet });
+
+  const accept = (token: string = buyerToken) =>
+    request(app)
+      .post(`/api/v1/devices/${deviceId}/transfer/accept`)
+      .set('Authorization', `Bearer ${token}`);
+
+  const ingest = (key: string, timestamp: number = Date.now()) =>
+    request(app)
+      .post('/api/v1/ingest')
+      .set('X-Device-Key', key)
+      .send({ sensor_data: { CO: 1.2 }, timestamp });
+
+  beforeEach(async () => {
+    ({ accessToken: sellerToken, deviceId, apiKey } = await registerTestDevice(app, ['CO']));
+    buyerToken = (await siweLogin(app, TEST_PRIVATE_KEYS[1])).body.data.tokens.access_token;
+  });
+
+  test('should list the offer for the recipient only', async () => {
+    await offer().expect(201);
+
+    const incoming = await request(app)
+      .get('/api/v1/devices/transfers/incoming')
+      .set('Authorization', `Bearer ${buyerToken}`)
+      .expect(200);
+    expect(incoming.body.data).toHaveLength(1);
+    expect(incoming.body.data[0]).toMatchObject({ device_id: deviceId, from_owner: sellerWallet });
+
+    const own = await request(app)
+      .get('/api/v1/devices/transfers/incoming')
+      .set('Authorization', `Bearer ${sellerToken}`)
+      .expect(200);
+    expect(own.body.data).toHaveLength(0);
+  });
+
+  test('should move the device, its readings and its key to the new owner', async () => {
+    await ingest(apiKey).expect(201);
+    await offer().expect(201);
+
+    const res = await accept().expect(200);
+    expect(res.body.data.device.owner_id).toBe(buyerWallet);
+    expect(res.body.data.device.ownership_epoch).toBe(1);
+    const newKey = res.body.data.credential.api_key;
+
+    await ingest(apiKey).expect(401);
+    await ingest(newKey).expect(201);
+
+    const readings = await AQIReading.find({ device_id: deviceId }).sort({ reading_id: 1 }).lean();
+    expect(readings).toHaveLength(2);
+    expect(readings[0].owner_id).toBe(sellerWallet);
+    expect(readings[1].owner_id).toBe(buyerWallet);
+    expect(readings[1].reading_id).toMatch(/_T1$/);
+
+    const seller = await User.findOne({ walletAddress: sellerWallet }).lean();
+    const buyer = await User.findOne({ walletAddress: buyerWallet }).lean();
+    expect(seller!.devices).not.toContain(deviceId);
+    expect(buyer!.devices).toContain(deviceId);
+
+    const device = await Device.findOne({ device_id: deviceId }).lean();
+    expect(device!.change_history!.map(change => change.action)).toEqual([
+      'registered',
+      'transfer_initiated',
+      'ownership_transferred'
+    ]);
+  });
+
+  test('should not accept samples from before the transfer under the new owner', async () => {
+    await offer().expect(201);
+    const res = await accept().expect(200);
+
+    const stale = await ingest(res.body.data.credential.api_key, Date.now() - 60_000).expect(400);
+    expect(stale.body.error.message).toContain('predates');
+  });
+
+  test('should hide the offer from any other wallet', async () => {
+    await offer().expect(201);
+
+    const res = await accept(sellerToken).expect(404);
+    expect(res.body.error.code).toBe('TRANSFER_NOT_FOUND');
+  });
+
+  test('should close the offer when the owner cancels it', async () => {
+    await offer().expect(201);
+    await request(app)
+      .delete(`/api/v1/devices/${deviceId}/transfer`)
+      .set('Authorization', `Bearer ${sellerToken}`)
+      .expect(200);
+
+    await accept().expect(404);
+  });
+
+  test('should reject transfers to yourself or to a malformed wallet', async () => {
+    await offer(sellerWallet).expect(400);
+    await offer('not-a-wallet').expect(400);
+  });
+
+  test('should respect the device limit of the new owner', async () => {
+    for (let i = 0; i < 3; i++) {
+      await register(buyerToken);
+    }
+    await offer().expect(201);
+
+    const res = await accept().expect(403);
+    expect(res.body.error.code).toBe('DEVICE_LIMIT_REACHED');
+
+    const device = await Device.findOne({ device_id: deviceId }).lean();
+    expect(device!.owner_id).toBe(sellerWallet);
+  });
+});
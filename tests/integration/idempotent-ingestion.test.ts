@@ -0,0 +1,76 @@
+import request from 'supertest';
+import app from '@/app';
+import Device from '@/models/Device';
+import AQIReading from '@/models/AQIReading';
+import { registerTestDevice } from '../helpers/device.helper';
+
+describe('Idempotent Ingestion', () => {
+  let apiKey: string;
+  let timestamp: number;
+
+  const ingest = (body: Record<string, unknown>, idempotencyKey?: string) => {
+    const req = request(app)
+      .post('/api/v1/ingest')
+      .set('X-Device-Key', apiKey);
+    if (idempotencyKey !== undefined) {
+      req.set('Idempotency-Key', idempotencyKey);
+    }
+    return req.send({ sensor_data: { CO: 1.2 }, timestamp, ...body });
+  };
+
+  beforeEach(async () => {
+    ({ apiKey } = await registerTestDevice(app));
+    timestamp = Date.now();
+  });
+
+  test('should answer a retried request with the original response and store the sample once', async () => {
+    const first = await ingest({}, 'sample-0001').expect(201);
+    await ingest({ sensor_data: { CO: 1.5 }, timestamp: timestamp + 1000 }).expect(201);
+
+    const retry = await ingest({}, 'sample-0001').expect(201);
+
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+    expect(retry.body).toEqual(first.body);
+    expect(retry.body.data.ingestion_count).toBe(1);
+
+    const reading = await AQIReading.findOne({ reading_id: first.body.data.reading_id }).lean();
+    expect(reading!.sensor_data).toEqual({ CO: [1.2, 1.5] });
+    expect(reading!.meta.ingestion_count).toBe(2);
+  });
+
+  test('should recognise retries by sequence number', async () => {
+    const first = await ingest({ sequence: 41 }).expect(201);
+    const retry = await ingest({ sequence: 41 }).expect(201);
+    await ingest({ sequence: 42, sensor_data: { CO: 1.3 } }).expect(201);
+
+    expect(retry.body).toEqual(first.body);
+    const reading = await AQIReading.findOne({ reading_id: first.body.data.reading_id }).lean();
+    expect(reading!.sensor_data).toEqual({ CO: [1.2, 1.3] });
+  });
+
+  test('should still answer a retry once the batch was picked up for verification', async () => {
+    const first = await ingest({ sequence: 1 }).expect(201);
+    await AQIReading.updateOne({ reading_id: first.body.data.reading_id }, { $set: { status: 'PROCESSING' } });
+
+    const retry = await ingest({ sequence: 1 }).expect(201);
+    expect(retry.body).toEqual(first.body);
+
+    const res = await ingest({ sequence: 2 }).expect(201);
+    expect(res.body.data.supplements).toBe(first.body.data.reading_id);
+
+    const lateRetry = await ingest({ sequence: 2 }).expect(201);
+    expect(lateRetry.body).toEqual(res.body);
+  });
+
+  test('should refuse a key reused for a different sample', async () => {
+    await ingest({}, 'sample-0001').expect(201);
+
+    const res = await ingest({ sensor_data: { CO: 9.9 } }, 'sample-0001').expect(422);
+    expect(res.body.error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+
+    await ingest({}, 'not a valid key').expect(400);
+    await ingest({ sequence: -1 }).expect(400);
+    await ingest({ sequence: '3' }).expect(400);
+  });
+});
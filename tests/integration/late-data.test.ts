@@ -0,0 +1,93 @@
+import request from 'supertest';
+import app from '@/app';
+import Device from '@/models/Device';
+import AQIReading from '@/models/AQIReading';
+import { Derivative } from '@/models/Derivative';
+import AuditEvent from '@/models/AuditEvent';
+import { processPendingBatches } from '@/jobs/batch-processor.job';
+import { getDerivativeStaleness } from '@/services/derivative.service';
+import { registerTestDevice } from '../helpers/device.helper';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Late Data', () => {
+  let apiKey: string;
+  let timestamp: number;
+
+  const ingest = (sensor_data: Record<string, number>, offset: number) =>
+    request(app)
+      .post('/api/v1/ingest')
+      .set('X-Device-Key', apiKey)
+      .send({ sensor_data, timestamp: timestamp + offset });
+
+  beforeEach(async () => {
+    await Derivative.deleteMany({});
+    ({ apiKey } = await registerTestDevice(app));
+    timestamp = Date.now() - 2 * HOUR;
+  });
+
+  test('should keep a batch picked up for verification unchanged and flag its derivatives stale', async () => {
+    const first = await ingest({ CO: 1.2 }, 0).expect(201);
+    const reading_id = first.body.data.reading_id;
+
+    await processPendingBatches();
+    await Derivative.create({ derivative_id: 'deriv_daily', type: 'DAILY', parent_data_ids: [reading_id], content: 'daily' });
+
+    const late = await ingest({ CO: 1.5 }, 1000).expect(201);
+    expect(late.body.data).toMatchObject({
+      reading_id: `${reading_id}_S1`,
+      supplements: reading_id,
+      ingestion_count: 1
+    });
+
+    const primary = await AQIReading.findOne({ reading_id }).lean();
+    expect(primary!.sensor_data).toEqual({ CO: [1.2] });
+    expect(primary!.supplemental_reading_ids).toEqual([`${reading_id}_S1`]);
+
+    const supplemental = await AQIReading.findOne({ reading_id: `${reading_id}_S1` }).lean();
+    expect(supplemental!.supplement).toEqual({ primary_reading_id: reading_id, sequence: 1 });
+    expect(supplemental!.batch_window).toEqual(primary!.batch_window);
+
+    const derivative = await Derivative.findOne({ derivative_id: 'deriv_daily' }).lean();
+    expect(derivative!.stale!.supplemental_reading_ids).toEqual([`${reading_id}_S1`]);
+  });
+
+  test('should audit batches when they are created and closed, without their samples', async () => {
+    const reading_id = (await ingest({ CO: 1.2 }, 0).expect(201)).body.data.reading_id;
+    await ingest({ CO: 1.3 }, 1000).expect(201);
+    await processPendingBatches();
+
+    // Audit events are appended in order, so the closing event follows the creating one
+    const events = await AuditEvent.find({ 'target.id': reading_id }).sort({ sequence: 1 }).lean();
+    expect(events.map(event => event.action)).toEqual(['reading.batch_created', 'reading.batch_closed']);
+    expect(events[1].after).toMatchObject({ ingestion_count: 2, content_hash: expect.any(String) });
+    expect(events[1].after).not.toHaveProperty('sensor_data');
+  });
+
+  test('should open the next supplemental batch once the last one is picked up', async () => {
+    const reading_id = (await ingest({ CO: 1.2 }, 0).expect(201)).body.data.reading_id;
+    await processPendingBatches();
+
+    await ingest({ CO: 1.5 }, 1000).expect(201);
+    expect((await ingest({ CO: 1.6 }, 2000).expect(201)).body.data.reading_id).toBe(`${reading_id}_S1`);
+
+    const result = await processPendingBatches();
+    expect(result.processed_count).toBe(1);
+    expect((await AQIReading.findOne({ reading_id: `${reading_id}_S1` }).lean())!.status).toBe('PROCESSING');
+
+    expect((await ingest({ CO: 1.7 }, 3000).expect(201)).body.data.reading_id).toBe(`${reading_id}_S2`);
+    expect((await AQIReading.findOne({ reading_id }).lean())!.supplemental_reading_ids)
+      .toEqual([`${reading_id}_S1`, `${reading_id}_S2`]);
+  });
+
+  test('should mark new derivatives stale unless they include the supplemental batches', async () => {
+    const reading_id = (await ingest({ CO: 1.2 }, 0).expect(201)).body.data.reading_id;
+    await processPendingBatches();
+    await ingest({ CO: 1.5 }, 1000).expect(201);
+
+    expect(await getDerivativeStaleness([reading_id])).toMatchObject({
+      supplemental_reading_ids: [`${reading_id}_S1`]
+    });
+    expect(await getDerivativeStaleness([reading_id, `${reading_id}_S1`])).toBeUndefined();
+  });
+});
@@ -7,6 +7,7 @@ import UserDerivativeSale from '../../src/models/UserDerivativeSale';
 import * as StoryService from '../../src/services/story.service';
 import * as IpfsService from '../../src/services/ipfs.service';
 import { getRedisClient } from '../../src/database/redis.connection';
+import { siweLogin, testAccount, TEST_PRIVATE_KEYS } from '../helpers/siwe.helper';
 
 // Mock services
 jest.mock('../../src/services/story.service');
@@ -30,10 +31,8 @@ describe('Multi-Level Marketplace Integration', () => {
 
     beforeEach(async () => {
         // 1. Create a user and log in
-        userWallet = '0x1234567890abcdef1234567890abcdef12345678';
-        const loginRes = await request(app)
-            .post('/api/v1/auth/login')
-            .send({ wallet_address: userWallet });
+        userWallet = testAccount().address.toLowerCase();
+        const loginRes = await siweLogin(app);
         accessToken = loginRes.body.data.tokens.access_token;
 
         // 2. Create a parent asset for the user
@@ -109,10 +108,7 @@ describe('Multi-Level Marketplace Integration', () => {
 
         it('should fail if user does not own the parent asset', async () => {
             // Arrange
-            const anotherUserWallet = '0xanotherwalletaddress1234567890abcdef1234'
-            const loginRes = await request(app)
-            .post('/api/v1/auth/login')
-            .send({ wallet_address: anotherUserWallet });
+            const loginRes = await siweLogin(app, TEST_PRIVATE_KEYS[1]);
             const anotherUserToken = loginRes.body.data.tokens.access_token;
             
             const derivativeData = {
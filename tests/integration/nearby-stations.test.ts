@@ -0,0 +1,138 @@
+import request from 'supertest';
+import app from '@/app';
+import User from '@/models/User';
+import Device from '@/models/Device';
+import AuditEvent from '@/models/AuditEvent';
+import StationCatalog from '@/models/StationCatalog';
+import StationLocation from '@/models/StationLocation';
+import { refreshConfig, reloadConfig } from '@/services/config.service';
+import { syncStationLocations } from '@/database/station-catalog.repository';
+import { backfillDeviceLocations } from '@/services/device.service';
+import { getRedisClient } from '@/database/redis.connection';
+import { siweLogin } from '../helpers/siwe.helper';
+
+// Chandni Chowk station
+const lat = 28.6506;
+const lon = 77.2303;
+
+describe('GET /api/v1/config/stations/nearby', () => {
+  let accessToken: string;
+
+  const nearby = (query: Record<string, unknown>) =>
+    request(app).get('/api/v1/config/stations/nearby').query(query);
+
+  beforeAll(async () => {
+    await Device.init();
+    await StationLocation.init();
+  });
+
+  beforeEach(async () => {
+    await User.deleteMany({});
+    await Device.deleteMany({});
+    await AuditEvent.collection.deleteMany({});
+    await StationCatalog.deleteMany({});
+    await StationLocation.deleteMany({});
+    await getRedisClient().flushdb();
+    await reloadConfig();
+
+    const loginRes = await siweLogin(app);
+    accessToken = loginRes.body.data.tokens.access_token;
+  });
+
+  test('should return stations closest first with their sensors', async () => {
+    const res = await nearby({ lat, lon, radius_km: 10 }).expect(200);
+
+    const stations = res.body.data.stations;
+    expect(stations[0]).toMatchObject({ station_id: 'delhi_chandni_chowk_iitm_11603', distance_km: 0, city_id: 'delhi' });
+    expect(stations[0].available_sensors.length).toBeGreaterThan(0);
+
+    const distances = stations.map((station: any) => station.distance_km);
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+  });
+
+  test('should leave out stations beyond the radius', async () => {
+    const res = await nearby({ lat, lon, radius_km: 1 }).expect(200);
+    expect(res.body.data.stations.map((station: any) => station.station_id)).toEqual(['delhi_chandni_chowk_iitm_11603']);
+  });
+
+  test('should follow the latest catalog version', async () => {
+    const seeded = await StationCatalog.findOne({ version: 1 }).lean();
+    const retired = structuredClone(seeded!.cities).map(city => ({
+      ...city,
+      stations: city.stations.map(station =>
+        station.station_id === 'delhi_chandni_chowk_iitm_11603' ? { ...station, status: 'retired' as const } : station
+      )
+    }));
+    await StationCatalog.create({ version: 2, cities: retired, action: 'station_retired', changed_by: '0xother' });
+    await refreshConfig();
+
+    const res = await nearby({ lat, lon, radius_km: 1 }).expect(200);
+    expect(res.body.data.stations).toEqual([]);
+
+    // A writer that falls behind does not bring the station back
+    await syncStationLocations(seeded!);
+    const location = await StationLocation.findOne({ station_id: 'delhi_chandni_chowk_iitm_11603' }).lean();
+    expect(location).toMatchObject({ status: 'retired', catalog_version: 2 });
+  });
+
+  test('should include active devices only', async () => {
+    const register = (station_id: string) =>
+      request(app)
+        .post('/api/v1/devices/register')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ city_id: 'delhi', station_id, sensor_types: ['PM2.5'] })
+        .expect(201);
+
+    const near = await register('delhi_chandni_chowk_iitm_11603');
+    const far = await register('delhi_sri_aurobindo_marg_dpcc_10484');
+    const inactive = await register('delhi_new_delhi_8118');
+    await Device.updateOne({ device_id: inactive.body.data.device_id }, { $set: { status: 'inactive' } });
+
+    const res = await nearby({ lat, lon, radius_km: 20 }).expect(200);
+    const devices = res.body.data.devices;
+    expect(devices.map((device: any) => device.device_id)).toEqual([
+      near.body.data.device_id,
+      far.body.data.device_id
+    ]);
+    expect(devices[0]).toMatchObject({ station_id: 'delhi_chandni_chowk_iitm_11603', sensor_types: ['PM2.5'] });
+    expect(devices[0]).not.toHaveProperty('owner_id');
+  });
+
+  test('should locate devices registered before nearby search', async () => {
+    await Device.collection.insertOne({
+      device_id: 'legacy_device',
+      owner_id: '0x0000000000000000000000000000000000000001',
+      status: 'active',
+      sensor_meta: {
+        city: 'Delhi',
+        city_id: 'delhi',
+        station: 'Chandni Chowk - IITM',
+        station_id: 'delhi_chandni_chowk_iitm_11603',
+        coordinates: { latitude: lat, longitude: lon },
+        sensor_types: ['CO']
+      }
+    });
+
+    expect(await backfillDeviceLocations()).toBe(1);
+    expect(await backfillDeviceLocations()).toBe(0);
+
+    const res = await nearby({ lat, lon }).expect(200);
+    expect(res.body.data.devices[0].device_id).toBe('legacy_device');
+    expect(res.body.data.radius_km).toBe(10);
+  });
+
+  test('should validate coordinates and radius', async () => {
+    await nearby({ lon }).expect(400);
+    await nearby({ lat: 91, lon }).expect(400);
+    await nearby({ lat, lon: 'east' }).expect(400);
+    await nearby({ lat, lon, radius_km: 0 }).expect(400);
+    await nearby({ lat, lon, radius_km: 1000 }).expect(400);
+  });
+
+  test('should reject blank and non-finite parameters', async () => {
+    await nearby({ lat: '', lon }).expect(400);
+    await nearby({ lat, lon: ' ' }).expect(400);
+    await nearby({ lat, lon, radius_km: '' }).expect(400);
+    await nearby({ lat, lon, radius_km: 'Infinity' }).expect(400);
+  });
+});
@@ -0,0 +1,177 @@
+import request from 'supertest';
+import app from '@/app';
+import Device from '@/models/Device';
+import AQIReading from '@/models/AQIReading';
+import Asset from '@/models/Asset';
+import { Derivative } from '@/models/Derivative';
+import { getSampleTimestamps } from '@/services/verification.service';
+import { IAQIReading } from '@/types/aqi-reading.types';
+import { buildMerkleTree, MERKLE_LEAF_VERSION } from '@/utils/merkle.utils';
+import { registerTestDevice } from '../helpers/device.helper';
+import { siweLogin, testAccount, TEST_PRIVATE_KEYS } from '../helpers/siwe.helper';
+
+describe('Reading Merkle Proofs', () => {
+  let ownerToken: string;
+  let buyerToken: string;
+  let readingId: string;
+
+  const getProof = (token: string, query: string) =>
+    request(app)
+      .get(`/api/v1/reading/${readingId}/proof?${query}`)
+      .set('Authorization', `Bearer ${token}`);
+
+  // Stands in for the verifier job: publishes the root of the stored batch
+  const markVerified = async (merkle_leaf_version = MERKLE_LEAF_VERSION) => {
+    const reading = await AQIReading.findOne({ reading_id: readingId }).lean<IAQIReading>();
+    const { root } = buildMerkleTree(reading!.sensor_data as any, getSampleTimestamps(reading!));
+    await AQIReading.updateOne({ reading_id: readingId }, {
+      $set: {
+        status: 'COMPLETE',
+        processing: {
+          merkle_root: root,
+          merkle_leaf_version,
+          content_hash: 'c'.repeat(64),
+          ipfs_hash: 'QmBatch',
+          ipfs_uri: 'ipfs://QmBatch',
+          derivative_id: 'deriv_daily'
+        }
+      }
+    });
+    return root;
+  };
+
+  beforeEach(async () => {
+    await Asset.deleteMany({});
+    await Derivative.deleteMany({});
+    const device = await registerTestDevice(app);
+    ownerToken = device.accessToken;
+    buyerToken = (await siweLogin(app, TEST_PRIVATE_KEYS[1])).body.data.tokens.access_token;
+
+    for (const [i, sensor_data] of [{ CO: 1.2, 'PM2.5': 80 }, { CO: 1.4, 'PM2.5': 92 }, { 'PM2.5': 75 }].entries()) {
+      const res = await request(app)
+        .post('/api/v1/ingest')
+        .set('X-Device-Key', device.apiKey)
+        .send({ sensor_data, timestamp: Date.now() - (3 - i) * 1000 })
+        .expect(201);
+      readingId = res.body.data.reading_id;
+    }
+
+    await Derivative.create([
+      {
+        derivative_id: 'deriv_daily',
+        type: 'DAILY',
+        parent_data_ids: [readingId],
+        meta_parent_id: 'deriv_monthly',
+        content: 'daily',
+        ip_id: '0xdaily',
+        is_minted: true
+      },
+      {
+        derivative_id: 'deriv_monthly',
+        type: 'MONTHLY',
+        parent_data_ids: [readingId],
+        child_derivative_ids: ['deriv_daily'],
+        content: 'monthly',
+        is_minted: false
+      }
+    ]);
+  });
+
+  test('should prove a value that a client can check against the published root', async () => {
+    const root = await markVerified();
+
+    const res = await getProof(ownerToken, 'sensor=PM2.5&index=1').expect(200);
+    const proof = res.body.data;
+
+    expect(proof.root).toBe(root);
+    expect(proof.leaf.preimage).toMatchObject({
+      sensor_type: 'PM2.5',
+      value: 92,
+      index: 3,            // After the two CO values
+      leaf_version: MERKLE_LEAF_VERSION
+    });
+    expect(typeof proof.leaf.preimage.timestamp).toBe('number');
+    expect(proof.ipfs).toEqual({ cid: 'QmBatch', uri: 'ipfs://QmBatch', content_hash: 'c'.repeat(64) });
+    expect(proof.derivatives.daily).toMatchObject({ derivative_id: 'deriv_daily', type: 'DAILY', ip_id: '0xdaily' });
+    expect(proof.derivatives.monthly).toMatchObject({ derivative_id: 'deriv_monthly', type: 'MONTHLY' });
+
+    const verified = await request(app)
+      .post('/api/v1/verify/proof')
+      .send({ preimage: proof.leaf.preimage, proof: proof.proof, root: proof.root, reading_id: readingId })
+      .expect(200);
+    expect(verified.body.data).toEqual({ valid: true, leaf: proof.leaf.hash, root, published_root_matches: true });
+
+    const byLeaf = await request(app)
+      .post('/api/v1/verify/proof')
+      .send({ leaf: proof.leaf.hash, proof: proof.proof, root: proof.root })
+      .expect(200);
+    expect(byLeaf.body.data.valid).toBe(true);
+  });
+
+  test('should reject a proof for a value that was not in the batch', async () => {
+    await markVerified();
+    const { body } = await getProof(ownerToken, 'sensor=PM2.5&index=1').expect(200);
+
+    const res = await request(app)
+      .post('/api/v1/verify/proof')
+      .send({ preimage: { ...body.data.leaf.preimage, value: 12 }, proof: body.data.proof, root: body.data.root })
+      .expect(200);
+    expect(res.body.data.valid).toBe(false);
+
+    const otherRoot = await request(app)
+      .post('/api/v1/verify/proof')
+      .send({ leaf: body.data.leaf.hash, proof: body.data.proof, root: 'f'.repeat(64), reading_id: readingId })
+      .expect(200);
+    expect(otherRoot.body.data).toMatchObject({ valid: false, published_root_matches: false });
+  });
+
+  test('should give proofs to wallets licensing a derivative of the reading only', async () => {
+    await markVerified();
+
+    await getProof(buyerToken, 'sensor=CO&index=0').expect(404);
+
+    await Asset.create({
+      asset_id: 'asset_1',
+      owner_wallet: testAccount(1).address.toLowerCase(),
+      derivative_id: 'deriv_monthly',
+      primitive_data_ids: [readingId],
+      ip_id: '0xmonthly',
+      token_id: '1',
+      access_type: 'license',
+      purchase_price: 10,
+      purchase_tx_hash: '0xabc',
+      metadata: { derivative_type: 'MONTHLY', content_hash: 'c'.repeat(64), ipfs_uri: 'ipfs://QmMonthly' }
+    });
+
+    const res = await getProof(buyerToken, 'sensor=CO&index=0').expect(200);
+    expect(res.body.data.leaf.preimage).toMatchObject({ sensor_type: 'CO', value: 1.2, index: 0 });
+  });
+
+  test('should explain why a proof cannot be given', async () => {
+    const notVerified = await getProof(ownerToken, 'sensor=CO&index=0').expect(409);
+    expect(notVerified.body.error.code).toBe('READING_NOT_VERIFIED');
+
+    await markVerified(1);
+    const legacy = await getProof(ownerToken, 'sensor=CO&index=0').expect(409);
+    expect(legacy.body.error.code).toBe('PROOF_UNAVAILABLE');
+
+    await markVerified();
+    expect((await getProof(ownerToken, 'sensor=CO&index=2').expect(404)).body.error.code).toBe('SAMPLE_NOT_FOUND');
+    expect((await getProof(ownerToken, 'sensor=NO2&index=0').expect(404)).body.error.code).toBe('SAMPLE_NOT_FOUND');
+    await getProof(ownerToken, 'sensor=CO&index=-1').expect(400);
+    await getProof(ownerToken, 'sensor=CO').expect(400);
+  });
+
+  test('should validate proofs sent for checking', async () => {
+    await request(app).post('/api/v1/verify/proof').send({ proof: [], root: 'a'.repeat(64) }).expect(400);
+    await request(app).post('/api/v1/verify/proof').send({ leaf: 'a'.repeat(64), proof: ['xyz'], root: 'a'.repeat(64) }).expect(400);
+    await request(app)
+      .post('/api/v1/verify/proof')
+      .send({
+        preimage: { index: 0, leaf_version: 1, sensor_type: 'CO', timestamp: null, value: 1 },
+        proof: [],
+        root: 'a'.repeat(64)
+      })
+      .expect(400);
+  });
+});
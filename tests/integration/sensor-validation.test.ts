@@ -0,0 +1,51 @@
+import request from 'supertest';
+import app from '@/app';
+import Device from '@/models/Device';
+import AQIReading from '@/models/AQIReading';
+import { registerTestDevice } from '../helpers/device.helper';
+
+describe('Sensor Value Validation', () => {
+  let apiKey: string;
+  let timestamp: number;
+
+  const ingest = (body: Record<string, unknown>) =>
+    request(app)
+      .post('/api/v1/ingest')
+      .set('X-Device-Key', apiKey)
+      .send({ timestamp: timestamp++, ...body });
+
+  beforeEach(async () => {
+    ({ apiKey } = await registerTestDevice(app, ['CO', 'PM2.5', 'Temperature']));
+    timestamp = Date.now();
+  });
+
+  test('should store values converted to the canonical units', async () => {
+    const res = await ingest({
+      sensor_data: { CO: 1, Temperature: 77, 'PM2.5': 40 },
+      units: { CO: 'ppm', Temperature: '°F', 'PM2.5': 'ug/m3' }
+    }).expect(201);
+
+    const reading = await AQIReading.findOne({ reading_id: res.body.data.reading_id }).lean();
+    const sensorData = reading!.sensor_data as Record<string, number[]>;
+    expect(Object.keys(sensorData)).toEqual(['CO', 'Temperature', 'PM2.5']);
+    expect(sensorData.Temperature[0]).toBeCloseTo(25, 10);
+    // 1 ppm of CO at 25 °C
+    expect(sensorData.CO[0]).toBeCloseTo(1144.9, 0);
+    expect(sensorData['PM2.5']).toEqual([40]);
+  });
+
+  test('should reject values outside the plausible range and accept sub-zero temperatures', async () => {
+    const res = await ingest({ sensor_data: { 'PM2.5': 99999 } }).expect(400);
+    expect(res.body.error.message).toContain('PM2.5');
+
+    await ingest({ sensor_data: { CO: 60, 'PM2.5': 40 }, units: { CO: 'ppm' } }).expect(400);
+    await ingest({ sensor_data: { Temperature: 120 } }).expect(400);
+    await ingest({ sensor_data: { Temperature: -5, 'PM2.5': 40 } }).expect(201);
+  });
+
+  test('should reject units that cannot be converted', async () => {
+    await ingest({ sensor_data: { 'PM2.5': 40 }, units: { 'PM2.5': 'ppb' } }).expect(400);
+    await ingest({ sensor_data: { 'PM2.5': 40 }, units: { CO: 'ppm' } }).expect(400);
+    await ingest({ sensor_data: { 'PM2.5': 40 }, units: 'µg/m³' }).expect(400);
+  });
+});
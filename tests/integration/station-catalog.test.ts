@@ -0,0 +1,219 @@
+import request from 'supertest';
+import app from '@/app';
+import User from '@/models/User';
+import Device from '@/models/Device';
+import AuditEvent from '@/models/AuditEvent';
+import StationCatalog from '@/models/StationCatalog';
+import StationLocation from '@/models/StationLocation';
+import { getCatalogVersion, getStationById, reloadConfig } from '@/services/config.service';
+import { buildNewStation } from '@/services/station-catalog.service';
+import { getRedisClient } from '@/database/redis.connection';
+import { siweLogin, testAccount, TEST_PRIVATE_KEYS } from '../helpers/siwe.helper';
+
+const newStation = {
+  city_id: 'mumbai',
+  city_name: 'Mumbai',
+  country: 'India',
+  station_id: 'mumbai_bandra_kurla_complex',
+  station_name: 'Bandra Kurla Complex',
+  coordinates: { latitude: 19.0634, longitude: 72.8626 },
+  provider: 'MPCB',
+  available_sensors: [
+    { sensor_type: 'PM2.5', unit: 'µg/m³', description: 'Fine particulate matter' },
+    { sensor_type: 'PM10', unit: 'µg/m³', description: 'Coarse particulate matter' }
+  ]
+};
+
+describe('Station Catalog', () => {
+  let adminToken: string;
+  let providerToken: string;
+
+  const admin = () => ({ Authorization: `Bearer ${adminToken}` });
+
+  const register = (station_id: string, sensor_types: string[]) =>
+    request(app)
+      .post('/api/v1/devices/register')
+      .set('Authorization', `Bearer ${providerToken}`)
+      .send({ city_id: station_id.split('_')[0], station_id, sensor_types });
+
+  beforeEach(async () => {
+    await User.deleteMany({});
+    await Device.deleteMany({});
+    await AuditEvent.collection.deleteMany({});
+    await StationCatalog.deleteMany({});
+    await StationLocation.deleteMany({});
+    await getRedisClient().flushdb();
+    await reloadConfig();
+
+    await User.create({ walletAddress: testAccount(0).address.toLowerCase(), roles: ['admin'] });
+    adminToken = (await siweLogin(app, TEST_PRIVATE_KEYS[0])).body.data.tokens.access_token;
+    providerToken = (await siweLogin(app, TEST_PRIVATE_KEYS[1])).body.data.tokens.access_token;
+  });
+
+  test('should seed the catalog from the bundled presets', async () => {
+    const catalog = await StationCatalog.findOne({ version: 1 }).lean();
+    expect(catalog!.action).toBe('seeded');
+
+    const res = await request(app).get('/api/v1/config/presets').expect(200);
+    expect(res.body.version).toBe(1);
+    expect(res.headers.etag).toBe('"stations-v1"');
+    expect(res.body.cities[0].city_id).toBe('delhi');
+    expect(res.body.sensors).toContainEqual({ sensor_type: 'PM2.5', unit: 'µg/m³', min: 0, max: 1000 });
+
+    await request(app)
+      .get('/api/v1/config/presets')
+      .set('If-None-Match', '"stations-v1"')
+      .expect(304);
+  });
+
+  test('should publish a created station as a new version', async () => {
+    const created = await request(app)
+      .post('/api/v1/admin/stations')
+      .set(admin())
+      .send(newStation)
+      .expect(201);
+    expect(created.body.data).toMatchObject({ station_id: newStation.station_id, status: 'active' });
+
+    const res = await request(app)
+      .get('/api/v1/config/presets')
+      .set('If-None-Match', '"stations-v1"')
+      .expect(200);
+    expect(res.headers.etag).toBe('"stations-v2"');
+    const mumbai = res.body.cities.find((city: any) => city.city_id === 'mumbai');
+    expect(mumbai.stations[0].station_id).toBe(newStation.station_id);
+
+    await register(newStation.station_id, ['PM2.5']).expect(201);
+
+    const [event] = (await request(app)
+      .get('/api/v1/admin/audit-events?action=station.created')
+      .set(admin())
+      .expect(200)).body.data.events;
+    expect(event.metadata.catalog_version).toBe(2);
+  });
+
+  test('should reject duplicate stations and incomplete new cities', async () => {
+    await request(app).post('/api/v1/admin/stations').set(admin()).send(newStation).expect(201);
+
+    const duplicate = await request(app).post('/api/v1/admin/stations').set(admin()).send(newStation).expect(409);
+    expect(duplicate.body.error.code).toBe('STATION_EXISTS');
+
+    const { city_name, country, ...withoutCity } = newStation;
+    await request(app)
+      .post('/api/v1/admin/stations')
+      .set(admin())
+      .send({ ...withoutCity, city_id: 'pune', station_id: 'pune_shivajinagar' })
+      .expect(400);
+
+    const wrongUnit = await request(app)
+      .post('/api/v1/admin/stations')
+      .set(admin())
+      .send({
+        ...newStation,
+        station_id: 'mumbai_worli',
+        available_sensors: [{ sensor_type: 'PM2.5', unit: 'mg/m³', description: 'Fine particulate matter' }]
+      })
+      .expect(400);
+    expect(wrongUnit.body.error.message).toContain('µg/m³');
+
+    expect(getCatalogVersion()).toBe(2);
+  });
+
+  test('should not remove sensors that devices still use', async () => {
+    await register('delhi_chandni_chowk_iitm_11603', ['CO']).expect(201);
+
+    const res = await request(app)
+      .patch('/api/v1/admin/stations/delhi_chandni_chowk_iitm_11603')
+      .set(admin())
+      .send({ available_sensors: [{ sensor_type: 'PM2.5', unit: 'µg/m³', description: 'Fine particulate matter' }] })
+      .expect(400);
+    expect(res.body.error.message).toContain('CO');
+
+    const renamed = await request(app)
+      .patch('/api/v1/admin/stations/delhi_chandni_chowk_iitm_11603')
+      .set(admin())
+      .send({ station_name: 'Chandni Chowk', reason: 'Shorter name' })
+      .expect(200);
+    expect(renamed.body.data.station_name).toBe('Chandni Chowk');
+    expect(renamed.body.data.available_sensors.length).toBeGreaterThan(1);
+  });
+
+  test('should hide retired stations from new devices only', async () => {
+    const station_id = 'delhi_chandni_chowk_iitm_11603';
+    await register(station_id, ['CO']).expect(201);
+
+    await request(app)
+      .post(`/api/v1/admin/stations/${station_id}/retire`)
+      .set(admin())
+      .send({ reason: 'Site closed' })
+      .expect(200);
+
+    const presets = await request(app).get('/api/v1/config/presets').expect(200);
+    const stations = presets.body.cities.flatMap((city: any) => city.stations);
+    expect(stations.map((station: any) => station.station_id)).not.toContain(station_id);
+
+    const rejected = await register(station_id, ['CO']).expect(400);
+    expect(rejected.body.error.message).toContain('retired');
+    expect(getStationById(station_id)!.status).toBe('retired');
+
+    await request(app)
+      .post(`/api/v1/admin/stations/${station_id}/retire`)
+      .set(admin())
+      .expect(400);
+  });
+
+  test('should pick up versions written by another instance', async () => {
+    const latest = await StationCatalog.findOne({ version: 1 }).lean();
+    await StationCatalog.create({
+      version: 2,
+      cities: [...latest!.cities, { city_id: 'pune', city_name: 'Pune', country: 'India', stations: [] }],
+      action: 'station_updated',
+      changed_by: '0xother',
+    });
+
+    const res = await request(app).get('/api/v1/config/presets').expect(200);
+    expect(res.body.version).toBe(2);
+    expect(getCatalogVersion()).toBe(2);
+  });
+
+  test('should register devices at stations added by another instance', async () => {
+    const latest = await StationCatalog.findOne({ version: 1 }).lean();
+    await StationCatalog.create({
+      version: 2,
+      cities: [
+        ...latest!.cities,
+        { city_id: 'mumbai', city_name: 'Mumbai', country: 'India', stations: [buildNewStation(newStation)] },
+      ],
+      action: 'station_created',
+      changed_by: '0xother',
+    });
+
+    await register(newStation.station_id, ['PM2.5']).expect(201);
+    expect(getCatalogVersion()).toBe(2);
+  });
+
+  test('should keep station management to operators and admins', async () => {
+    await request(app)
+      .post('/api/v1/admin/stations')
+      .set('Authorization', `Bearer ${providerToken}`)
+      .send(newStation)
+      .expect(403);
+  });
+
+  test('should let operators read the catalog but only admins change it', async () => {
+    await User.updateOne({ walletAddress: testAccount(1).address.toLowerCase() }, { $set: { roles: ['operator'] } });
+    const operatorToken = (await siweLogin(app, TEST_PRIVATE_KEYS[1])).body.data.tokens.access_token;
+    const operator = { Authorization: `Bearer ${operatorToken}` };
+
+    await request(app).get('/api/v1/admin/stations').set(operator).expect(200);
+    await request(app).post('/api/v1/admin/stations').set(operator).send(newStation).expect(403);
+    await request(app)
+      .patch('/api/v1/admin/stations/delhi_chandni_chowk_iitm_11603')
+      .set(operator)
+      .send({ station_name: 'Chandni Chowk' })
+      .expect(403);
+    await request(app)
+      .post('/api/v1/admin/stations/delhi_chandni_chowk_iitm_11603/retire')
+      .set(operator)
+      .expect(403);
+  });
+});
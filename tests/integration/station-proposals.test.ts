@@ -0,0 +1,165 @@
+import request from 'supertest';
+import app from '@/app';
+import User from '@/models/User';
+import Device from '@/models/Device';
+import AuditEvent from '@/models/AuditEvent';
+import StationCatalog from '@/models/StationCatalog';
+import StationLocation from '@/models/StationLocation';
+import StationProposal from '@/models/StationProposal';
+import { getStationById, reloadConfig } from '@/services/config.service';
+import { getRedisClient } from '@/database/redis.connection';
+import { siweLogin, testAccount, TEST_PRIVATE_KEYS } from '../helpers/siwe.helper';
+
+const proposedStation = {
+  city_id: 'bengaluru',
+  city_name: 'Bengaluru',
+  country: 'India',
+  station_id: 'bengaluru_hebbal',
+  station_name: 'Hebbal',
+  coordinates: { latitude: 13.0354, longitude: 77.597 },
+  available_sensors: [
+    { sensor_type: 'PM2.5', unit: 'µg/m³', description: 'Fine particulate matter' },
+    { sensor_type: 'Radon', unit: 'Bq/m³', description: 'Radon' }
+  ],
+  note: 'Rooftop of our office'
+};
+
+describe('Station Proposals', () => {
+  const proposerAddress = testAccount(1).address.toLowerCase();
+  let adminToken: string;
+  let proposerToken: string;
+
+  const propose = (body: Record<string, unknown> = proposedStation) =>
+    request(app)
+      .post('/api/v1/config/stations/proposals')
+      .set('Authorization', `Bearer ${proposerToken}`)
+      .send(body);
+
+  const review = (proposal_id: string, decision: string, body: Record<string, unknown> = {}) =>
+    request(app)
+      .post(`/api/v1/admin/station-proposals/${proposal_id}/${decision}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(body);
+
+  beforeEach(async () => {
+    await User.deleteMany({});
+    await Device.deleteMany({});
+    await AuditEvent.collection.deleteMany({});
+    await StationCatalog.deleteMany({});
+    await StationLocation.deleteMany({});
+    await StationProposal.deleteMany({});
+    await getRedisClient().flushdb();
+    await reloadConfig();
+
+    await User.create({ walletAddress: testAccount(0).address.toLowerCase(), roles: ['admin'] });
+    adminToken = (await siweLogin(app, TEST_PRIVATE_KEYS[0])).body.data.tokens.access_token;
+    proposerToken = (await siweLogin(app, TEST_PRIVATE_KEYS[1])).body.data.tokens.access_token;
+  });
+
+  test('should require a signed-in wallet', async () => {
+    await request(app).post('/api/v1/config/stations/proposals').send(proposedStation).expect(401);
+  });
+
+  test('should open a station to devices once approved', async () => {
+    const created = await propose().expect(201);
+    expect(created.body.data).toMatchObject({ status: 'pending', proposed_by: proposerAddress });
+    const { proposal_id } = created.body.data;
+
+    const pending = await request(app)
+      .get('/api/v1/admin/station-proposals?status=pending')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(pending.body.data).toHaveLength(1);
+
+    const register = () =>
+      request(app)
+        .post('/api/v1/devices/register')
+        .set('Authorization', `Bearer ${proposerToken}`)
+        .send({ city_id: 'bengaluru', station_id: 'bengaluru_hebbal', sensor_types: ['Radon'] });
+    await register().expect(400);
+
+    const approved = await review(proposal_id, 'approve', { note: 'Verified on site' }).expect(200);
+    expect(approved.body.data).toMatchObject({ status: 'approved', station_id: 'bengaluru_hebbal' });
+
+    await register().expect(201);
+
+    const mine = await request(app)
+      .get('/api/v1/config/stations/proposals')
+      .set('Authorization', `Bearer ${proposerToken}`)
+      .expect(200);
+    expect(mine.body.data[0]).toMatchObject({ status: 'approved', review_note: 'Verified on site' });
+
+    await review(proposal_id, 'reject').expect(409);
+  });
+
+  test('should merge a duplicate into the existing station', async () => {
+    const station_id = 'delhi_chandni_chowk_iitm_11603';
+    const created = await propose({
+      ...proposedStation,
+      city_id: 'delhi',
+      station_id: 'delhi_chandni_chowk_rooftop'
+    }).expect(201);
+
+    await review(created.body.data.proposal_id, 'merge').expect(400);
+    const merged = await review(created.body.data.proposal_id, 'merge', { station_id }).expect(200);
+    expect(merged.body.data).toMatchObject({ status: 'merged', station_id });
+
+    const sensors = getStationById(station_id)!.available_sensors.map(sensor => sensor.sensor_type);
+    expect(sensors).toContain('Radon');
+    expect(getStationById('delhi_chandni_chowk_rooftop')).toBeNull();
+  });
+
+  test('should keep sensors added to the station while a merge is being applied', async () => {
+    const station_id = 'delhi_chandni_chowk_iitm_11603';
+    const created = await propose({
+      ...proposedStation,
+      city_id: 'delhi',
+      station_id: 'delhi_chandni_chowk_rooftop'
+    }).expect(201);
+
+    // Another admin adds a sensor after the merge read the station
+    const claim = StationProposal.findOneAndUpdate.bind(StationProposal);
+    const spy = jest.spyOn(StationProposal, 'findOneAndUpdate').mockImplementationOnce(((...args: Parameters<typeof claim>) => ({
+      lean: async () => {
+        const seeded = await StationCatalog.findOne({ version: 1 }).lean();
+        const cities = structuredClone(seeded!.cities);
+        const station = cities.flatMap(city => city.stations).find(s => s.station_id === station_id)!;
+        station.available_sensors.push({ sensor_type: 'Noise', unit: 'dB', description: 'Sound level' });
+        await StationCatalog.create({ version: 2, sensors: seeded!.sensors, cities, action: 'station_updated', changed_by: '0xother' });
+        return claim(...args).lean();
+      }
+    })) as any);
+
+    await review(created.body.data.proposal_id, 'merge', { station_id }).expect(200);
+    spy.mockRestore();
+
+    const sensors = getStationById(station_id)!.available_sensors.map(sensor => sensor.sensor_type);
+    expect(sensors).toEqual(expect.arrayContaining(['Noise', 'Radon']));
+    expect(await StationCatalog.countDocuments()).toBe(3);
+  });
+
+  test('should leave the catalog untouched on rejection', async () => {
+    const created = await propose().expect(201);
+
+    const rejected = await review(created.body.data.proposal_id, 'reject', { note: 'Indoor location' }).expect(200);
+    expect(rejected.body.data.status).toBe('rejected');
+    expect(getStationById('bengaluru_hebbal')).toBeNull();
+    expect(await StationCatalog.countDocuments()).toBe(1);
+  });
+
+  test('should reject proposals for existing or already proposed stations', async () => {
+    const existing = await propose({ ...proposedStation, city_id: 'delhi', station_id: 'delhi_chandni_chowk_iitm_11603' });
+    expect(existing.status).toBe(409);
+
+    await propose().expect(201);
+    await propose().expect(400);
+
+    const { city_name, country, ...withoutCity } = proposedStation;
+    await propose({ ...withoutCity, station_id: 'bengaluru_jayanagar' }).expect(400);
+  });
+
+  test('should return 404 for unknown proposals', async () => {
+    const res = await review('unknown', 'approve').expect(404);
+    expect(res.body.error.code).toBe('PROPOSAL_NOT_FOUND');
+  });
+});
@@ -0,0 +1,119 @@
+import AuditEvent from '@/models/AuditEvent';
+import {
+  appendAuditEvent,
+  queryAuditEvents,
+  verifyAuditChain,
+} from '@/services/audit.service';
+import { AUDIT_CONFIG } from '@/config/constants';
+
+describe('Audit Service', () => {
+  const buyer = '0x1234567890abcdef1234567890abcdef12345678';
+  const provider = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+  afterEach(async () => {
+    // The model refuses deletes; clear through the driver
+    await AuditEvent.collection.deleteMany({});
+  });
+
+  test('should chain each event to the previous one', async () => {
+    const first = await appendAuditEvent({
+      actor: provider,
+      action: 'device.registered',
+      target: { type: 'device', id: 'device_1' },
+      after: { device_id: 'device_1', status: 'active' },
+    });
+    const second = await appendAuditEvent({
+      actor: buyer,
+      action: 'marketplace.derivative_purchased',
+      target: { type: 'derivative', id: 'deriv_1' },
+      before: { is_minted: false },
+      after: { is_minted: true },
+    });
+
+    expect(first.sequence).toBe(1);
+    expect(first.prev_hash).toBe(AUDIT_CONFIG.GENESIS_HASH);
+    expect(second.sequence).toBe(2);
+    expect(second.prev_hash).toBe(first.hash);
+    expect(await verifyAuditChain()).toEqual({ valid: true, checked: 2 });
+  });
+
+  test('should keep the chain gapless under concurrent appends', async () => {
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        appendAuditEvent({ actor: buyer, action: 'auth.login', target: { type: 'session', id: `family_${i}` } })
+      )
+    );
+
+    const sequences = (await AuditEvent.find().sort({ sequence: 1 }).lean()).map(event => event.sequence);
+    expect(sequences).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect((await verifyAuditChain()).valid).toBe(true);
+  });
+
+  test('should refuse updates and deletes through the model', async () => {
+    const event = await appendAuditEvent({ actor: buyer, action: 'auth.login', target: { type: 'session', id: 'family' } });
+
+    await expect(AuditEvent.updateOne({ sequence: event.sequence }, { actor: provider })).rejects.toThrow('AUDIT_LOG_APPEND_ONLY');
+    await expect(AuditEvent.deleteMany({})).rejects.toThrow('AUDIT_LOG_APPEND_ONLY');
+    expect(await AuditEvent.countDocuments()).toBe(1);
+  });
+
+  test('should detect an event edited behind its back', async () => {
+    for (const id of ['deriv_1', 'deriv_2', 'deriv_3']) {
+      await appendAuditEvent({
+        actor: buyer,
+        action: 'marketplace.derivative_purchased',
+        target: { type: 'derivative', id },
+        metadata: { price: 100 },
+      });
+    }
+    await AuditEvent.collection.updateOne({ sequence: 2 }, { $set: { actor: provider } });
+
+    const result = await verifyAuditChain();
+    expect(result).toMatchObject({ valid: false, checked: 1, broken_at: 2 });
+  });
+
+  test('should detect a removed event', async () => {
+    for (const id of ['family_1', 'family_2', 'family_3']) {
+      await appendAuditEvent({ actor: buyer, action: 'auth.login', target: { type: 'session', id } });
+    }
+    await AuditEvent.collection.deleteOne({ sequence: 2 });
+
+    const result = await verifyAuditChain();
+    expect(result).toMatchObject({ valid: false, checked: 1, broken_at: 2 });
+  });
+
+  test('should filter by actor, action and time range, newest first', async () => {
+    await appendAuditEvent({ actor: buyer, action: 'auth.login', target: { type: 'session', id: 'family' } });
+    await appendAuditEvent({ actor: buyer, action: 'marketplace.derivative_purchased', target: { type: 'derivative', id: 'deriv_1' } });
+    await appendAuditEvent({ actor: provider, action: 'marketplace.derivative_purchased', target: { type: 'derivative', id: 'deriv_2' } });
+
+    const byActor = await queryAuditEvents({ actor: buyer.toUpperCase().replace('0X', '0x') });
+    expect(byActor.events.map(event => event.sequence)).toEqual([2, 1]);
+
+    const purchases = await queryAuditEvents({ action: 'marketplace.derivative_purchased' });
+    expect(purchases.events.map(event => event.target.id)).toEqual(['deriv_2', 'deriv_1']);
+
+    const future = await queryAuditEvents({ from: new Date(Date.now() + 60_000) });
+    expect(future.events).toHaveLength(0);
+  });
+
+  test('should page with before_sequence', async () => {
+    for (let i = 0; i < 5; i++) {
+      await appendAuditEvent({ actor: buyer, action: 'auth.login', target: { type: 'session', id: `family_${i}` } });
+    }
+
+    const first = await queryAuditEvents({ limit: 2 });
+    expect(first.events.map(event => event.sequence)).toEqual([5, 4]);
+    expect(first.next_cursor).toBe(4);
+
+    const last = await queryAuditEvents({ limit: 2, before_sequence: 2 });
+    expect(last.events.map(event => event.sequence)).toEqual([1]);
+    expect(last.next_cursor).toBeNull();
+  });
+
+  test('should reject invalid filters', async () => {
+    await expect(queryAuditEvents({ action: 'unknown' as any })).rejects.toThrow('VALIDATION_ERROR');
+    await expect(queryAuditEvents({ from: new Date('not a date') })).rejects.toThrow('VALIDATION_ERROR');
+    await expect(queryAuditEvents({ limit: AUDIT_CONFIG.MAX_PAGE_SIZE + 1 })).rejects.toThrow('VALIDATION_ERROR');
+  });
+});
@@ -0,0 +1,55 @@
+import { calibrateSample } from '@/services/calibration.service';
+import { ICalibrationProfile } from '@/types/device.types';
+
+describe('Calibration Service', () => {
+  const makeProfile = (sensors: ICalibrationProfile['sensors']): ICalibrationProfile => ({
+    device_id: 'device_calibration_1',
+    version: 1,
+    sensors,
+    created_by: '0x1234567890abcdef1234567890abcdef12345678',
+    created_at: new Date('2026-03-01T12:00:00Z')
+  });
+
+  describe('calibrateSample', () => {
+    it('should return raw values without a profile', () => {
+      expect(calibrateSample(null, { 'PM2.5': 35, CO: 1.2 })).toEqual({ 'PM2.5': 35, CO: 1.2 });
+    });
+
+    it('should apply gain and offset to calibrated sensors only', () => {
+      const profile = makeProfile({ 'PM2.5': { gain: 0.8, offset: 2 } });
+      expect(calibrateSample(profile, { 'PM2.5': 50, CO: 1.2 })).toEqual({ 'PM2.5': 42, CO: 1.2 });
+    });
+
+    it('should remove hygroscopic growth using the RH of the same sample', () => {
+      const profile = makeProfile({ 'PM2.5': { gain: 0.8, offset: 2, humidity_correction: { kappa: 0.4 } } });
+
+      // At 50% RH the growth factor is 1 + 0.4 * 0.5 / 0.5 = 1.4
+      const corrected = calibrateSample(profile, { 'PM2.5': 70, RH: 50 });
+      expect(corrected['PM2.5']).toBeCloseTo(42, 10);
+      expect(corrected.RH).toBe(50);
+    });
+
+    it('should skip the humidity correction when the sample has no RH', () => {
+      const profile = makeProfile({ 'PM2.5': { gain: 1, offset: 0, humidity_correction: { kappa: 0.4 } } });
+      expect(calibrateSample(profile, { 'PM2.5': 70 })).toEqual({ 'PM2.5': 70 });
+    });
+
+    it('should cap RH so saturated samples stay finite', () => {
+      const profile = makeProfile({ PM10: { gain: 1, offset: 0, humidity_correction: { kappa: 0.5 } } });
+      const saturated = calibrateSample(profile, { PM10: 100, RH: 100 });
+      const capped = calibrateSample(profile, { PM10: 100, RH: 95 });
+      expect(saturated.PM10).toBeCloseTo(capped.PM10, 10);
+      expect(Number.isFinite(saturated.PM10)).toBe(true);
+    });
+
+    it('should not correct below zero', () => {
+      const profile = makeProfile({ CO: { gain: 1, offset: -5 } });
+      expect(calibrateSample(profile, { CO: 1.2 })).toEqual({ CO: 0 });
+    });
+
+    it('should keep calibrated temperatures below zero', () => {
+      const profile = makeProfile({ Temperature: { gain: 1, offset: -2 } });
+      expect(calibrateSample(profile, { Temperature: -5 })).toEqual({ Temperature: -7 });
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import Device from '@/models/Device';
+import { evaluateDeviceHealth, recordDeviceHeartbeat } from '@/services/device-health.service';
+import { checkDeviceHealth } from '@/jobs/device-health.job';
+import { DEVICE_HEALTH_CONFIG } from '@/config/constants';
+import { IDevice } from '@/types/device.types';
+import { logger } from '@/utils/logger';
+
+describe('Device Health', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+  const offlineMinutes = DEVICE_HEALTH_CONFIG.OFFLINE_AFTER_SECONDS / 60;
+
+  const makeDevice = (overrides: Partial<IDevice> = {}): IDevice => ({
+    device_id: 'device_health_1',
+    owner_id: '0x1234567890abcdef1234567890abcdef12345678',
+    sensor_meta: {
+      city: 'New Delhi',
+      city_id: 'delhi',
+      station: 'Chandni Chowk - IITM',
+      station_id: 'delhi_chandni_chowk_iitm_11603',
+      coordinates: { latitude: 28.656, longitude: 77.227 },
+      sensor_types: ['CO', 'PM2.5']
+    },
+    status: 'active',
+    registered_at: minutesAgo(24 * 60),
+    last_updated: minutesAgo(24 * 60),
+    ...overrides
+  });
+
+  describe('evaluateDeviceHealth', () => {
+    test('should be online when every declared sensor reported recently', () => {
+      const device = makeDevice({
+        last_seen_at: minutesAgo(1),
+        sensor_last_seen: { CO: minutesAgo(1), 'PM2.5': minutesAgo(2) }
+      });
+      expect(evaluateDeviceHealth(device, now)).toEqual({ health: 'online', missing_sensors: [] });
+    });
+
+    test('should be offline after the configured silence', () => {
+      const device = makeDevice({ last_seen_at: minutesAgo(offlineMinutes + 1) });
+      expect(evaluateDeviceHealth(device, now).health).toBe('offline');
+    });
+
+    test('should be degraded when a declared sensor stops reporting', () => {
+      const device = makeDevice({
+        last_seen_at: minutesAgo(1),
+        sensor_last_seen: { CO: minutesAgo(1), 'PM2.5': minutesAgo(offlineMinutes * 3) }
+      });
+      expect(evaluateDeviceHealth(device, now)).toEqual({ health: 'degraded', missing_sensors: ['PM2.5'] });
+    });
+
+    test('should give a new registration time to send its first sample', () => {
+      const device = makeDevice({ registered_at: minutesAgo(5), last_updated: minutesAgo(5) });
+      expect(evaluateDeviceHealth(device, now).health).toBe('online');
+    });
+  });
+
+  describe('checkDeviceHealth', () => {
+    let notifySpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      notifySpy = jest.spyOn(logger, 'notify').mockImplementation(() => logger);
+    });
+
+    afterEach(async () => {
+      notifySpy.mockRestore();
+      await Device.deleteMany({});
+    });
+
+    test('should mark silent devices offline once and notify', async () => {
+      await Device.create(makeDevice({ last_seen_at: minutesAgo(offlineMinutes + 5) }));
+
+      const first = await checkDeviceHealth(now);
+      expect(first).toMatchObject({ checked_count: 1, offline_count: 1, changed_count: 1 });
+      expect(notifySpy).toHaveBeenCalledWith(
+        expect.stringContaining('offline'),
+        expect.objectContaining({ event: 'DEVICE_OFFLINE', device_id: 'device_health_1' })
+      );
+
+      const second = await checkDeviceHealth(now);
+      expect(second.changed_count).toBe(0);
+      expect(notifySpy).toHaveBeenCalledTimes(1);
+
+      const stored = await Device.findOne({ device_id: 'device_health_1' }).lean();
+      expect(stored!.health).toBe('offline');
+      expect(stored!.health_changed_at).toEqual(now);
+    });
+
+    test('should report recovery after a heartbeat', async () => {
+      await Device.create(makeDevice({ last_seen_at: minutesAgo(offlineMinutes + 5) }));
+      await checkDeviceHealth(now);
+
+      const device = await Device.findOne({ device_id: 'device_health_1' }).lean<IDevice>();
+      await recordDeviceHeartbeat(device!, ['CO', 'PM2.5'], minutesAgo(1));
+
+      await checkDeviceHealth(now);
+      expect(notifySpy).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({ event: 'DEVICE_RECOVERED', previous_health: 'offline' })
+      );
+
+      const stored = await Device.findOne({ device_id: 'device_health_1' }).lean();
+      expect(stored!.health).toBe('online');
+      expect(stored!.sensor_last_seen!['PM2.5']).toEqual(minutesAgo(1));
+    });
+
+    test('should skip devices that are not active', async () => {
+      await Device.create(makeDevice({ status: 'inactive', last_seen_at: minutesAgo(offlineMinutes + 5) }));
+
+      const result = await checkDeviceHealth(now);
+      expect(result.checked_count).toBe(0);
+      expect(notifySpy).not.toHaveBeenCalled();
+    });
+  });
+});
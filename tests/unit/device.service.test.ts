@@ -5,11 +5,13 @@ import {
 } from '@/services/device.service';
 import { DeviceRegistrationRequest } from '@/types/device.types';
 import Device from '@/models/Device';
+import DeviceCredential from '@/models/DeviceCredential';
 import User from '@/models/User';
 
 describe('Device Service', () => {
   afterEach(async () => {
     await Device.deleteMany({});
+    await DeviceCredential.deleteMany({});
     await User.deleteMany({});
   });
 
@@ -46,11 +48,12 @@ describe('Device Service', () => {
       sensor_types: ['CO', 'PM2.5'],
     };
 
-    const device = await registerDevice(owner_id, request);
+    const { device, credential } = await registerDevice(owner_id, request);
 
     expect(device.device_id).toBeTruthy();
     expect(device.owner_id).toBe(owner_id);
     expect(device.sensor_meta.sensor_types).toEqual(['CO', 'PM2.5']);
+    expect(await DeviceCredential.countDocuments({ device_id: device.device_id, key_id: credential.key_id })).toBe(1);
   });
 
   test('should enforce 3-device limit', async () => {
@@ -73,4 +76,21 @@ describe('Device Service', () => {
       'DEVICE_LIMIT_REACHED'
     );
   });
+
+  test('should allow larger fleets on higher quota tiers', async () => {
+    const owner_id = '0x1234567890abcdef1234567890abcdef12345678';
+    await User.create({ walletAddress: owner_id, devices: [], quota_tier: 'institutional' });
+
+    const request: DeviceRegistrationRequest = {
+      city_id: 'delhi',
+      station_id: 'delhi_chandni_chowk_iitm_11603',
+      sensor_types: ['CO'],
+    };
+
+    for (let i = 0; i < 4; i++) {
+      await registerDevice(owner_id, request);
+    }
+
+    expect(await Device.countDocuments({ owner_id })).toBe(4);
+  });
 });
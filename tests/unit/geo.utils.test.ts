@@ -0,0 +1,33 @@
+import { distanceKm, toGeoPoint } from '@/utils/geo.utils';
+
+describe('Geo Utils', () => {
+  describe('distanceKm', () => {
+    it('should be zero for the same point', () => {
+      const point = { latitude: 28.6506, longitude: 77.2303 };
+      expect(distanceKm(point, point)).toBe(0);
+    });
+
+    it('should match the known distance between two Delhi stations', () => {
+      const chandniChowk = { latitude: 28.6506, longitude: 77.2303 };
+      const newDelhi = { latitude: 28.6139, longitude: 77.209 };
+
+      expect(distanceKm(chandniChowk, newDelhi)).toBeCloseTo(4.62, 1);
+      expect(distanceKm(newDelhi, chandniChowk)).toBeCloseTo(distanceKm(chandniChowk, newDelhi), 10);
+    });
+
+    it('should handle points across the antimeridian', () => {
+      const west = { latitude: 0, longitude: 179.9 };
+      const east = { latitude: 0, longitude: -179.9 };
+      expect(distanceKm(west, east)).toBeCloseTo(22.24, 1);
+    });
+  });
+
+  describe('toGeoPoint', () => {
+    it('should put longitude first', () => {
+      expect(toGeoPoint({ latitude: 28.6506, longitude: 77.2303 })).toEqual({
+        type: 'Point',
+        coordinates: [77.2303, 28.6506]
+      });
+    });
+  });
+});
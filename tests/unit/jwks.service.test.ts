@@ -0,0 +1,112 @@
+import jwt from 'jsonwebtoken';
+import { createPublicKey, generateKeyPairSync } from 'crypto';
+import { getJwks, loadSigningKeys, reloadSigningKeys } from '@/services/jwks.service';
+import { generateAccessToken, verifyAccessToken } from '@/services/token.service';
+import { TOKEN_CONFIG } from '@/config/constants';
+
+jest.mock('@/redis/client', () => ({
+  redisClient: {
+    exists: jest.fn().mockResolvedValue({ success: true, data: false }),
+  },
+}));
+
+const newKey = (kid: string) => ({
+  kid,
+  private_key: generateKeyPairSync('rsa', { modulusLength: 2048 })
+    .privateKey.export({ format: 'pem', type: 'pkcs8' })
+    .toString(),
+});
+
+describe('JWKS Service', () => {
+  const walletAddress = '0x1234567890abcdef1234567890abcdef12345678';
+  const oldKey = newKey('key-2026-01');
+  const nextKey = newKey('key-2026-07');
+
+  afterEach(() => {
+    delete process.env.JWT_SIGNING_KEYS;
+    delete process.env.JWT_ACTIVE_KID;
+    reloadSigningKeys();
+  });
+
+  const useKeys = (keys: object[], activeKid?: string) => {
+    process.env.JWT_SIGNING_KEYS = JSON.stringify(keys);
+    if (activeKid) {
+      process.env.JWT_ACTIVE_KID = activeKid;
+    } else {
+      delete process.env.JWT_ACTIVE_KID;
+    }
+    reloadSigningKeys();
+  };
+
+  test('should sign access tokens with RS256 and the active kid', async () => {
+    useKeys([oldKey]);
+
+    const token = await generateAccessToken(walletAddress);
+    const { header, payload } = jwt.decode(token, { complete: true }) as jwt.Jwt;
+
+    expect(header.alg).toBe('RS256');
+    expect(header.kid).toBe(oldKey.kid);
+    expect(payload).toMatchObject({ iss: TOKEN_CONFIG.ISSUER, aud: TOKEN_CONFIG.AUDIENCE });
+  });
+
+  test('should publish public keys that verify issued tokens', async () => {
+    useKeys([oldKey]);
+    const token = await generateAccessToken(walletAddress);
+
+    const { keys } = getJwks();
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).toMatchObject({ kid: oldKey.kid, kty: 'RSA', alg: 'RS256', use: 'sig' });
+    expect(keys[0]).not.toHaveProperty('d');
+
+    const publicKey = createPublicKey({ key: keys[0] as any, format: 'jwk' });
+    expect(() => jwt.verify(token, publicKey, { algorithms: ['RS256'] })).not.toThrow();
+  });
+
+  test('should keep verifying tokens from a retired key after rotation', async () => {
+    useKeys([oldKey]);
+    const oldToken = await generateAccessToken(walletAddress);
+
+    useKeys([oldKey, nextKey], nextKey.kid);
+    const newToken = await generateAccessToken(walletAddress);
+
+    expect(jwt.decode(newToken, { complete: true })?.header.kid).toBe(nextKey.kid);
+    expect((await verifyAccessToken(oldToken)).valid).toBe(true);
+    expect((await verifyAccessToken(newToken)).valid).toBe(true);
+    expect(getJwks().keys.map(key => key.kid)).toEqual([oldKey.kid, nextKey.kid]);
+  });
+
+  test('should reject tokens once their key is removed', async () => {
+    useKeys([oldKey]);
+    const oldToken = await generateAccessToken(walletAddress);
+
+    useKeys([nextKey]);
+    const result = await verifyAccessToken(oldToken);
+    expect(result.valid).toBe(false);
+    expect(result.error).toBe('Unknown signing key');
+  });
+
+  test('should refuse an active kid without a private key', () => {
+    const publicOnly = {
+      kid: 'public-only',
+      public_key: createPublicKey(oldKey.private_key).export({ format: 'pem', type: 'spki' }).toString(),
+    };
+    useKeys([publicOnly], 'public-only');
+
+    expect(() => getJwks()).toThrow('JWT_ACTIVE_KID');
+  });
+
+  test('should only fall back to an ephemeral key outside production', () => {
+    const nodeEnv = process.env.NODE_ENV;
+    try {
+      process.env.NODE_ENV = 'production';
+      reloadSigningKeys();
+      expect(() => loadSigningKeys()).toThrow('JWT_SIGNING_KEYS must be set in production');
+
+      process.env.NODE_ENV = 'development';
+      reloadSigningKeys();
+      expect(getJwks().keys[0].kid).toMatch(/^ephemeral-/);
+    } finally {
+      process.env.NODE_ENV = nodeEnv;
+    }
+  });
+});
@@ -1,4 +1,14 @@
-import { buildMerkleTree, generateLeafHash, verifyMerkleProof, getMerkleProof } from '@/utils/merkle.utils';
+import crypto from 'crypto';
+import {
+  buildMerkleTree,
+  buildLeafPreimage,
+  generateLeafHash,
+  getLeafIndex,
+  hashLeafPreimage,
+  verifyMerkleProof,
+  getMerkleProof,
+  MERKLE_LEAF_VERSION
+} from '@/utils/merkle.utils';
 
 describe('Merkle Tree Utils', () => {
   describe('generateLeafHash', () => {
@@ -26,6 +36,24 @@ describe('Merkle Tree Utils', () => {
       
       expect(hash1).not.toBe(hash2);
     });
+
+    it('should hash the canonical JSON of the versioned leaf', () => {
+      const timestamp = Date.parse('2024-12-04T15:10:00Z');
+      const expected = crypto.createHash('sha256')
+        .update(`{"index":3,"leaf_version":${MERKLE_LEAF_VERSION},"sensor_type":"NO2","timestamp":${timestamp},"value":10.5}`)
+        .digest('hex');
+
+      expect(generateLeafHash('NO2', 10.5, timestamp, 3)).toBe(expected);
+      expect(generateLeafHash('NO2', 10.5, new Date(timestamp), 3)).toBe(expected);
+    });
+
+    it('should generate different hash for different timestamps', () => {
+      const hash1 = generateLeafHash('NO2', 10, Date.parse('2024-12-04T15:10:00Z'), 0);
+      const hash2 = generateLeafHash('NO2', 10, Date.parse('2024-12-04T15:10:05Z'), 0);
+      const hash3 = generateLeafHash('NO2', 10, null, 0);
+
+      expect(new Set([hash1, hash2, hash3]).size).toBe(3);
+    });
   });
 
   describe('buildMerkleTree', () => {
@@ -48,12 +76,10 @@ describe('Merkle Tree Utils', () => {
         'NO2': [10, 12],
         'PM2.5': [35, 38]
       };
-      const timestamps = [
-        new Date('2024-01-01T12:00:00Z'),
-        new Date('2024-01-01T12:00:05Z'),
-        new Date('2024-01-01T12:00:10Z'),
-        new Date('2024-01-01T12:00:15Z'),
-      ];
+      const timestamps = {
+        'NO2': [Date.parse('2024-01-01T12:00:00Z'), Date.parse('2024-01-01T12:00:05Z')],
+        'PM2.5': [Date.parse('2024-01-01T12:00:00Z'), Date.parse('2024-01-01T12:00:05Z')],
+      };
 
       const { root: root1 } = buildMerkleTree(sensorData, timestamps);
       const { root: root2 } = buildMerkleTree(sensorData, timestamps);
@@ -61,6 +87,24 @@ describe('Merkle Tree Utils', () => {
       expect(root1).toBe(root2);
     });
 
+    it('should not depend on when the tree is built or on key order', async () => {
+      const timestamps = { 'NO2': [1704110400000, null], 'PM2.5': [1704110400000, 1704110405000] };
+      const { root: root1 } = buildMerkleTree({ 'PM2.5': [35, 38], 'NO2': [10, 12] }, timestamps);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const { root: root2 } = buildMerkleTree({ 'NO2': [10, 12], 'PM2.5': [35, 38] }, timestamps);
+
+      expect(root1).toBe(root2);
+    });
+
+    it('should return different root for different sample timestamps', () => {
+      const sensorData = { 'NO2': [10, 12] };
+
+      const { root: root1 } = buildMerkleTree(sensorData, { 'NO2': [1704110400000, 1704110405000] });
+      const { root: root2 } = buildMerkleTree(sensorData, { 'NO2': [1704110400000, 1704110410000] });
+
+      expect(root1).not.toBe(root2);
+    });
+
     it('should return different root for different data', () => {
       const sensorData1 = { 'NO2': [10, 12] };
       const sensorData2 = { 'NO2': [10, 13] };
@@ -98,6 +142,31 @@ describe('Merkle Tree Utils', () => {
       expect(isValid).toBe(true);
     });
 
+    it('should prove each value from its published preimage', () => {
+      const sensorData = { 'PM2.5': [35, 38, 36], 'NO2': [10, 12] };
+      const timestamps = { 'PM2.5': [1000, 2000, 3000], 'NO2': [1000, null] };
+      const { root, tree } = buildMerkleTree(sensorData, timestamps);
+
+      for (const [sensorType, values] of Object.entries(sensorData)) {
+        values.forEach((value, i) => {
+          const leafIndex = getLeafIndex(sensorData, sensorType, i);
+          const preimage = buildLeafPreimage(sensorType, value, timestamps[sensorType as keyof typeof timestamps][i], leafIndex);
+
+          expect(verifyMerkleProof(hashLeafPreimage(preimage), getMerkleProof(tree, leafIndex), root)).toBe(true);
+        });
+      }
+    });
+
+    it('should place values after those of sensors sorted before them', () => {
+      const sensorData = { 'PM2.5': [35, 38], 'CO': [1], 'NO2': [10, 12] };
+
+      expect(getLeafIndex(sensorData, 'CO', 0)).toBe(0);
+      expect(getLeafIndex(sensorData, 'NO2', 1)).toBe(2);
+      expect(getLeafIndex(sensorData, 'PM2.5', 0)).toBe(3);
+      expect(getLeafIndex(sensorData, 'PM2.5', 2)).toBe(-1);
+      expect(getLeafIndex(sensorData, 'O3', 0)).toBe(-1);
+    });
+
     it('should reject invalid proof', () => {
       const sensorData = { 'NO2': [10, 12, 15, 13] };
       const { root, tree, leaves } = buildMerkleTree(sensorData);
@@ -0,0 +1,84 @@
+import { evaluateReadingQuality } from '@/services/quality.service';
+import { IAQIReading } from '@/types/aqi-reading.types';
+import { QUALITY_CONFIG } from '@/config/constants';
+
+const START = new Date('2024-12-04T15:00:00Z').getTime();
+
+// One sample a minute for the whole hour unless fewer values are given
+const buildReading = (sensor_data: Record<string, number[]>): IAQIReading => ({
+  reading_id: 'device-123_20241204_H15',
+  device_id: 'device-123',
+  batch_window: {
+    start: new Date(START),
+    end: new Date(START + 60 * 60 * 1000),
+    hour_index: 15
+  },
+  sensor_data,
+  sample_meta: Object.fromEntries(Object.entries(sensor_data).map(([sensorType, values]) => [
+    sensorType,
+    values.map((_, i) => ({ timestamp: START + i * 60 * 1000 }))
+  ]))
+} as unknown as IAQIReading);
+
+// Noisy but plausible values around a level
+const series = (level: number, count = 60): number[] =>
+  Array.from({ length: count }, (_, i) => level + ((i * 7) % 5) - 2);
+
+describe('Quality Service', () => {
+  describe('evaluateReadingQuality', () => {
+    it('should give a full batch of plausible values a perfect score', () => {
+      const quality = evaluateReadingQuality(buildReading({ 'PM2.5': series(40), PM10: series(80) }), {});
+
+      expect(quality.flags).toEqual([]);
+      expect(quality.score).toBe(100);
+      expect(quality.version).toBe(QUALITY_CONFIG.VERSION);
+    });
+
+    it('should flag spikes against the baseline of earlier batches', () => {
+      const values = series(40);
+      values[10] = 600;
+
+      const quality = evaluateReadingQuality(buildReading({ 'PM2.5': values }), { 'PM2.5': series(40, 120) });
+
+      expect(quality.flags).toEqual([expect.objectContaining({ check: 'spike', sensor_type: 'PM2.5', indices: [10] })]);
+      expect(quality.score).toBe(98);
+    });
+
+    it('should not flag a batch that moves away from a short history', () => {
+      const quality = evaluateReadingQuality(buildReading({ 'PM2.5': series(300) }), { 'PM2.5': [40, 41] });
+      expect(quality.flags).toEqual([]);
+    });
+
+    it('should flag runs of identical values as a stuck sensor', () => {
+      const values = series(40);
+      values.fill(37, 20, 20 + QUALITY_CONFIG.FLATLINE_MIN_SAMPLES);
+
+      const quality = evaluateReadingQuality(buildReading({ 'PM2.5': values }), {});
+
+      const flatline = quality.flags.find(flag => flag.check === 'flatline');
+      expect(flatline!.indices).toHaveLength(QUALITY_CONFIG.FLATLINE_MIN_SAMPLES);
+      expect(flatline!.indices![0]).toBe(20);
+    });
+
+    it('should flag sensors with fewer samples than the expected cadence gives', () => {
+      const quality = evaluateReadingQuality(buildReading({ 'PM2.5': series(40, 12), PM10: series(80) }), {});
+
+      expect(quality.flags).toEqual([
+        { check: 'low_sample_count', sensor_type: 'PM2.5', detail: '12 of 60 expected samples' }
+      ]);
+      // Coverage of 12/60 and 60/60 averages to 0.6
+      expect(quality.score).toBe(60);
+    });
+
+    it('should flag PM2.5 above PM10 sampled at the same time', () => {
+      const pm25 = series(40);
+      pm25[5] = 85;
+
+      const quality = evaluateReadingQuality(buildReading({ 'PM2.5': pm25, PM10: series(80) }), {});
+
+      expect(quality.flags).toEqual([
+        expect.objectContaining({ check: 'inconsistent_pair', sensor_type: 'PM2.5', related_sensor: 'PM10', indices: [5] })
+      ]);
+    });
+  });
+});
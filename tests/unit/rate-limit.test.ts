@@ -0,0 +1,116 @@
+import express from 'express';
+import request from 'supertest';
+import { hitRateLimit } from '@/redis/rate-limit.repository';
+import { rateLimit } from '@/middleware/rateLimit';
+import { getRedisClient } from '@/database/redis.connection';
+
+describe('Rate Limiting', () => {
+  afterEach(async () => {
+    await getRedisClient().flushdb();
+  });
+
+  describe('hitRateLimit', () => {
+    test('should allow hits up to the limit and then reject with a retry delay', async () => {
+      const first = await hitRateLimit('test:a', 2, 60);
+      const second = await hitRateLimit('test:a', 2, 60);
+      const third = await hitRateLimit('test:a', 2, 60);
+
+      expect(first.data).toMatchObject({ allowed: true, remaining: 1 });
+      expect(second.data).toMatchObject({ allowed: true, remaining: 0 });
+      expect(third.data?.allowed).toBe(false);
+      expect(third.data?.retry_after_seconds).toBeGreaterThan(0);
+      expect(third.data?.retry_after_seconds).toBeLessThanOrEqual(60);
+    });
+
+    test('should not count rejected hits', async () => {
+      await hitRateLimit('test:b', 1, 60);
+      await hitRateLimit('test:b', 1, 60);
+      await hitRateLimit('test:b', 1, 60);
+
+      const members = await getRedisClient().zcard('ratelimit:test:b');
+      expect(members).toBe(1);
+    });
+
+    test('should let hits through again once they leave the window', async () => {
+      await hitRateLimit('test:c', 1, 1);
+      expect((await hitRateLimit('test:c', 1, 1)).data?.allowed).toBe(false);
+
+      await new Promise(resolve => setTimeout(resolve, 1100));
+      expect((await hitRateLimit('test:c', 1, 1)).data?.allowed).toBe(true);
+    });
+  });
+
+  describe('rateLimit middleware', () => {
+    const buildApp = (keyBy: Parameters<typeof rateLimit>[0]['keyBy'], trustProxy: number | boolean = false) => {
+      const app = express();
+      app.set('trust proxy', trustProxy);
+      app.use(express.json());
+      // Stands in for authenticateDeviceOrUser
+      app.use((req, res, next) => {
+        const device_id = req.get('X-Test-Device');
+        const wallet = req.get('X-Test-Wallet');
+        if (device_id) req.device = { device_id } as any;
+        if (wallet) req.user = { walletAddress: wallet } as any;
+        next();
+      });
+      app.post(
+        '/limited',
+        rateLimit({ name: 'test', limit: 2, windowSeconds: 60, keyBy, enabled: true }),
+        (req, res) => { res.json({ success: true }); }
+      );
+      return app;
+    };
+
+    test('should answer 429 with Retry-After once the limit is reached', async () => {
+      const app = buildApp('ip');
+
+      const ok = await request(app).post('/limited').expect(200);
+      expect(ok.headers['ratelimit-limit']).toBe('2');
+      expect(ok.headers['ratelimit-remaining']).toBe('1');
+
+      await request(app).post('/limited').expect(200);
+      const limited = await request(app).post('/limited').expect(429);
+
+      expect(limited.body.error.code).toBe('RATE_LIMITED');
+      expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+    });
+
+    test('should key IP limits on the forwarded client address behind a trusted proxy', async () => {
+      const app = buildApp('ip', 1);
+
+      await request(app).post('/limited').set('X-Forwarded-For', '203.0.113.1').expect(200);
+      await request(app).post('/limited').set('X-Forwarded-For', '203.0.113.1').expect(200);
+      await request(app).post('/limited').set('X-Forwarded-For', '203.0.113.1').expect(429);
+      await request(app).post('/limited').set('X-Forwarded-For', '203.0.113.2').expect(200);
+    });
+
+    test('should keep separate buckets per device', async () => {
+      const app = buildApp('device');
+
+      await request(app).post('/limited').set('X-Test-Device', 'a').expect(200);
+      await request(app).post('/limited').set('X-Test-Device', 'a').expect(200);
+      await request(app).post('/limited').set('X-Test-Device', 'a').expect(429);
+      await request(app).post('/limited').set('X-Test-Device', 'b').expect(200);
+    });
+
+    test('should key bearer token callers by wallet, whatever device_id they send', async () => {
+      const app = buildApp('device');
+
+      await request(app).post('/limited').set('X-Test-Wallet', '0xabc').send({ device_id: 'a' }).expect(200);
+      await request(app).post('/limited').set('X-Test-Wallet', '0xabc').send({ device_id: 'b' }).expect(200);
+      await request(app).post('/limited').set('X-Test-Wallet', '0xabc').send({ device_id: 'c' }).expect(429);
+      await request(app).post('/limited').set('X-Test-Wallet', '0xdef').send({ device_id: 'a' }).expect(200);
+    });
+
+    test('should do nothing when disabled', async () => {
+      const app = express();
+      app.get('/open', rateLimit({ name: 'off', limit: 1, windowSeconds: 60, keyBy: 'ip', enabled: false }), (req, res) => {
+        res.json({ success: true });
+      });
+
+      await request(app).get('/open').expect(200);
+      const second = await request(app).get('/open').expect(200);
+      expect(second.headers['ratelimit-limit']).toBeUndefined();
+    });
+  });
+});
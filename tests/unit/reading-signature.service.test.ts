@@ -0,0 +1,80 @@
+import {
+  buildSignedReadingPayload,
+  parseSigningKey,
+  verifyReadingSignature,
+  verifySignedReading,
+} from '@/services/reading-signature.service';
+import { IDevice } from '@/types/device.types';
+import { createTestSigner, signReading } from '../helpers/reading-signature.helper';
+
+describe('Reading Signature Service', () => {
+  const reading = {
+    device_id: 'device-123',
+    sensor_data: { 'PM2.5': 35, NO2: 10 },
+    timestamp: 1733324400000,
+    nonce: 'nonce-0001',
+  };
+
+  test('should serialize the signed payload with sorted keys', () => {
+    expect(buildSignedReadingPayload({ ...reading, sensor_data: { NO2: 10, 'PM2.5': 35 } })).toBe(
+      '{"device_id":"device-123","nonce":"nonce-0001","sensor_data":{"NO2":10,"PM2.5":35},"timestamp":1733324400000}'
+    );
+  });
+
+  test.each(['ed25519', 'secp256k1'] as const)('should verify %s signatures', algorithm => {
+    const signer = createTestSigner(algorithm);
+    const signing_key = parseSigningKey(signer.signing_key);
+    const signed = signReading(signer, reading);
+
+    expect(verifyReadingSignature(signing_key, signed)).toBe(true);
+    expect(verifyReadingSignature(signing_key, { ...signed, sensor_data: { 'PM2.5': 36, NO2: 10 } })).toBe(false);
+    expect(verifyReadingSignature(signing_key, { ...signed, nonce: 'nonce-0002' })).toBe(false);
+  });
+
+  test('should reject signatures from another key', () => {
+    const signing_key = parseSigningKey(createTestSigner().signing_key);
+    const signed = signReading(createTestSigner(), reading);
+
+    expect(verifyReadingSignature(signing_key, signed)).toBe(false);
+  });
+
+  test('should reject malformed public keys', () => {
+    expect(() => parseSigningKey({ algorithm: 'ed25519', public_key: 'abcd' })).toThrow('VALIDATION_ERROR');
+    expect(() => parseSigningKey({ algorithm: 'secp256k1', public_key: 'zz' })).toThrow('VALIDATION_ERROR');
+    expect(() => parseSigningKey({ algorithm: 'rsa' as any, public_key: '00' })).toThrow('VALIDATION_ERROR');
+  });
+
+  describe('verifySignedReading', () => {
+    const signer = createTestSigner();
+    const device = {
+      device_id: reading.device_id,
+      signing_key: parseSigningKey(signer.signing_key),
+    } as IDevice;
+
+    test('should return the signature record and reject a replayed nonce', async () => {
+      const signed = signReading(signer, { ...reading, nonce: 'replay-test-1' });
+
+      const record = await verifySignedReading(device, signed);
+      expect(record?.signature).toBe(signed.signature);
+      expect(record?.public_key).toBe(device.signing_key!.public_key);
+
+      await expect(verifySignedReading(device, signed)).rejects.toThrow('NONCE_REPLAYED');
+    });
+
+    test('should not burn the nonce when the signature is invalid', async () => {
+      const signed = signReading(signer, { ...reading, nonce: 'replay-test-2' });
+      const forged = { ...signed, sensor_data: { 'PM2.5': 1, NO2: 1 } };
+
+      await expect(verifySignedReading(device, forged)).rejects.toThrow('SIGNATURE_INVALID');
+      await expect(verifySignedReading(device, signed)).resolves.not.toBeNull();
+    });
+
+    test('should require signature and nonce for devices with a signing key', async () => {
+      await expect(verifySignedReading(device, { ...reading, nonce: undefined })).rejects.toThrow('VALIDATION_ERROR');
+    });
+
+    test('should accept unsigned readings from devices without a key', async () => {
+      await expect(verifySignedReading({ device_id: 'legacy' } as IDevice, reading)).resolves.toBeNull();
+    });
+  });
+});
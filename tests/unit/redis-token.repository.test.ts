@@ -5,6 +5,7 @@ import {
   storeRefreshToken,
   getRefreshToken,
   revokeRefreshToken,
+  claimRefreshToken,
 } from '@/redis/token.repository';
 import { RedisAccessTokenData, RedisRefreshTokenData } from '@/types/redis.types';
 import { redisClient } from '@/redis/client';
@@ -14,6 +15,7 @@ jest.mock('@/redis/client', () => ({
     set: jest.fn().mockResolvedValue({ success: true }),
     get: jest.fn(),
     delete: jest.fn().mockResolvedValue({ success: true, data: true }),
+    setIfNotExists: jest.fn(),
   },
 }));
 
@@ -82,6 +84,33 @@ describe('Redis Token Repository', () => {
     expect(redisClient.set).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ revoked: true }));
   });
 
+  test('should keep the reason a refresh token was first revoked for', async () => {
+    const data: RedisRefreshTokenData = {
+      walletAddress: '0x123',
+      jti: 'refresh-jti-rotated',
+      token_family: 'family-456',
+      issued_at: Date.now(),
+      expires_at: Date.now() + 604800000,
+      revoked: true,
+      revoked_reason: 'refresh',
+    };
+    (redisClient.get as jest.Mock).mockResolvedValue({ success: true, data });
+
+    await revokeRefreshToken(data.jti, 'logout');
+
+    expect(redisClient.set).not.toHaveBeenCalled();
+  });
+
+  test('should let only the first claim on a refresh token rotate it', async () => {
+    (redisClient.setIfNotExists as jest.Mock)
+      .mockResolvedValueOnce({ success: true, data: true })
+      .mockResolvedValueOnce({ success: true, data: false });
+
+    expect((await claimRefreshToken('refresh-jti-claim')).data).toBe(true);
+    expect((await claimRefreshToken('refresh-jti-claim')).data).toBe(false);
+    expect(redisClient.setIfNotExists).toHaveBeenCalledWith('refresh:refresh-jti-claim:rotated', expect.any(Number), expect.any(Number));
+  });
+
   test('should delete access token', async () => {
     const jti = 'test-jti-delete';
     const walletAddress = '0x123';
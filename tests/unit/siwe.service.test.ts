@@ -0,0 +1,51 @@
+import { issueNonce, verifySiweLogin } from '@/services/siwe.service';
+import { signSiweMessage, testAccount, TEST_PRIVATE_KEYS } from '../helpers/siwe.helper';
+
+describe('SIWE Service', () => {
+  test('should verify a correctly signed message and return the lowercase address', async () => {
+    const { nonce } = await issueNonce();
+    const { message, signature } = await signSiweMessage(TEST_PRIVATE_KEYS[0], nonce);
+
+    const walletAddress = await verifySiweLogin(message, signature);
+    expect(walletAddress).toBe(testAccount().address.toLowerCase());
+  });
+
+  test('should only accept a nonce once', async () => {
+    const { nonce } = await issueNonce();
+    const { message, signature } = await signSiweMessage(TEST_PRIVATE_KEYS[0], nonce);
+
+    await verifySiweLogin(message, signature);
+    await expect(verifySiweLogin(message, signature)).rejects.toThrow('SIWE_NONCE_INVALID');
+  });
+
+  test('should not consume the nonce when the signature is invalid', async () => {
+    const { nonce } = await issueNonce();
+    const { message, signature } = await signSiweMessage(TEST_PRIVATE_KEYS[0], nonce);
+    const { signature: wrongSignature } = await signSiweMessage(TEST_PRIVATE_KEYS[1], nonce);
+
+    await expect(verifySiweLogin(message, wrongSignature)).rejects.toThrow('SIWE_SIGNATURE_INVALID');
+    await expect(verifySiweLogin(message, signature)).resolves.toBeTruthy();
+  });
+
+  test('should reject wrong domain, wrong URI, wrong chain and expired messages', async () => {
+    const { nonce } = await issueNonce();
+
+    const wrongDomain = await signSiweMessage(TEST_PRIVATE_KEYS[0], nonce, { domain: 'evil.example.com' });
+    await expect(verifySiweLogin(wrongDomain.message, wrongDomain.signature)).rejects.toThrow('SIWE_DOMAIN_MISMATCH');
+
+    const wrongUri = await signSiweMessage(TEST_PRIVATE_KEYS[0], nonce, { uri: 'https://evil.example.com/login' });
+    await expect(verifySiweLogin(wrongUri.message, wrongUri.signature)).rejects.toThrow('SIWE_URI_MISMATCH');
+
+    const wrongChain = await signSiweMessage(TEST_PRIVATE_KEYS[0], nonce, { chainId: 1 });
+    await expect(verifySiweLogin(wrongChain.message, wrongChain.signature)).rejects.toThrow('SIWE_CHAIN_MISMATCH');
+
+    const expired = await signSiweMessage(TEST_PRIVATE_KEYS[0], nonce, {
+      expirationTime: new Date(Date.now() - 1000),
+    });
+    await expect(verifySiweLogin(expired.message, expired.signature)).rejects.toThrow('SIWE_MESSAGE_EXPIRED');
+  });
+
+  test('should reject malformed messages', async () => {
+    await expect(verifySiweLogin('not a siwe message', '0x00')).rejects.toThrow('SIWE_MESSAGE_INVALID');
+  });
+});
@@ -1,8 +1,10 @@
 import {
   getCurrentBatchWindow,
   generateReadingId,
+  generateSupplementalReadingId,
   isWithinCurrentWindow,
-  getPastBatchWindows
+  getPastBatchWindows,
+  getBatchSampleLimit
 } from '@/utils/time-window.utils';
 
 describe('Time Window Utils', () => {
@@ -42,6 +44,23 @@ describe('Time Window Utils', () => {
       expect(window.end).toEqual(new Date('2025-11-13T00:00:00.000Z'));
       expect(window.hour_index).toBe(23);
     });
+
+    it('should align 15 minute windows to the quarter hour', () => {
+      const window = getCurrentBatchWindow(new Date('2025-11-12T14:35:00.000Z'), 15);
+
+      expect(window.start).toEqual(new Date('2025-11-12T14:30:00.000Z'));
+      expect(window.end).toEqual(new Date('2025-11-12T14:45:00.000Z'));
+      expect(window.hour_index).toBe(14);
+      expect(window.duration_minutes).toBe(15);
+    });
+
+    it('should align 6 hour windows to UTC midnight', () => {
+      const window = getCurrentBatchWindow(new Date('2025-11-12T23:45:00.000Z'), 360);
+
+      expect(window.start).toEqual(new Date('2025-11-12T18:00:00.000Z'));
+      expect(window.end).toEqual(new Date('2025-11-13T00:00:00.000Z'));
+      expect(window.hour_index).toBe(18);
+    });
   });
 
   describe('generateReadingId', () => {
@@ -68,6 +87,33 @@ describe('Time Window Utils', () => {
       const readingId = generateReadingId(deviceId, window);
       expect(readingId).toBe('test-device_20251112_H09');
     });
+
+    it('should suffix the ownership epoch once a device has changed hands', () => {
+      const window = {
+        start: new Date('2025-11-12T09:00:00.000Z'),
+        end: new Date('2025-11-12T10:00:00.000Z'),
+        hour_index: 9
+      };
+
+      expect(generateReadingId('test-device', window, 0)).toBe('test-device_20251112_H09');
+      expect(generateReadingId('test-device', window, 2)).toBe('test-device_20251112_H09_T2');
+    });
+
+    it('should add the start minute and window length for windows other than an hour', () => {
+      const quarter = getCurrentBatchWindow(new Date('2025-11-12T09:20:00.000Z'), 15);
+      const sixHours = getCurrentBatchWindow(new Date('2025-11-12T09:20:00.000Z'), 360);
+
+      expect(generateReadingId('test-device', quarter)).toBe('test-device_20251112_H0915_W15');
+      expect(generateReadingId('test-device', sixHours, 1)).toBe('test-device_20251112_H0600_W360_T1');
+      expect(generateReadingId('test-device', getCurrentBatchWindow(quarter.start, 60))).toBe('test-device_20251112_H09');
+    });
+  });
+
+  describe('generateSupplementalReadingId', () => {
+    it('should suffix the sequence to the reading ID it adds to', () => {
+      expect(generateSupplementalReadingId('test-device_20251112_H09', 1)).toBe('test-device_20251112_H09_S1');
+      expect(generateSupplementalReadingId('test-device_20251112_H09_T2', 3)).toBe('test-device_20251112_H09_T2_S3');
+    });
   });
 
   describe('isWithinCurrentWindow', () => {
@@ -121,4 +167,21 @@ describe('Time Window Utils', () => {
       }
     });
   });
+
+  describe('getBatchSampleLimit', () => {
+    const at = new Date('2025-11-12T14:35:00.000Z');
+
+    it('should allow the configured cap for hourly windows', () => {
+      expect(getBatchSampleLimit(getCurrentBatchWindow(at))).toBe(720);
+    });
+
+    it('should scale the cap to shorter and longer windows', () => {
+      expect(getBatchSampleLimit(getCurrentBatchWindow(at, 15))).toBe(180);
+      expect(getBatchSampleLimit(getCurrentBatchWindow(at, 120))).toBe(1440);
+    });
+
+    it('should treat batches stored without a window length as hourly', () => {
+      expect(getBatchSampleLimit({ ...getCurrentBatchWindow(at, 15), duration_minutes: undefined })).toBe(720);
+    });
+  });
 });
@@ -8,6 +8,8 @@ import {
 import { AccessTokenPayload, RefreshTokenPayload } from '@/types/token.types';
 import { redisClient } from '@/redis/client';
 import * as tokenRepository from '@/redis/token.repository';
+import { getActiveSigningKey } from '@/services/jwks.service';
+import { TOKEN_CONFIG } from '@/config/constants';
 
 jest.mock('@/redis/client', () => ({
   redisClient: {
@@ -49,10 +51,13 @@ describe('Token Service', () => {
     expect(result.payload?.walletAddress).toBe(walletAddress);
   });
 
-  test('should reject expired token', async () => {
+  test('should reject an expired RS256 token', async () => {
+    const token = await generateAccessToken(walletAddress);
+    const { kid } = jwt.decode(token, { complete: true })!.header;
     const expiredToken = jwt.sign(
-      { walletAddress: '0x123', exp: Math.floor(Date.now() / 1000) - 100 },
-      process.env.JWT_SECRET!
+      { walletAddress, token_type: 'access', jti: 'expired', exp: Math.floor(Date.now() / 1000) - 100 },
+      getActiveSigningKey().privateKey,
+      { algorithm: 'RS256', keyid: kid, issuer: TOKEN_CONFIG.ISSUER, audience: TOKEN_CONFIG.AUDIENCE }
     );
 
     const result = await verifyAccessToken(expiredToken);
@@ -60,6 +65,59 @@ describe('Token Service', () => {
     expect(result.error).toContain('jwt expired');
   });
 
+  test('should reject legacy HS256 tokens by default', async () => {
+    const legacyToken = jwt.sign(
+      { walletAddress: '0x123', token_type: 'access', jti: 'legacy' },
+      process.env.JWT_SECRET!,
+      { issuer: TOKEN_CONFIG.ISSUER, audience: TOKEN_CONFIG.AUDIENCE, expiresIn: '1h' }
+    );
+
+    const result = await verifyAccessToken(legacyToken);
+    expect(result.valid).toBe(false);
+    expect(result.error).toBe('Missing key id');
+  });
+
+  describe('with legacy HS256 tokens accepted', () => {
+    const loadVerifier = (until: Date): typeof verifyAccessToken => {
+      process.env.JWT_ACCEPT_LEGACY_HS256 = 'true';
+      process.env.JWT_LEGACY_HS256_UNTIL = until.toISOString();
+      let verify: typeof verifyAccessToken;
+      jest.isolateModules(() => {
+        verify = require('@/services/token.service').verifyAccessToken;
+      });
+      delete process.env.JWT_ACCEPT_LEGACY_HS256;
+      delete process.env.JWT_LEGACY_HS256_UNTIL;
+      return verify!;
+    };
+
+    const signLegacy = (options: jwt.SignOptions) =>
+      jwt.sign({ walletAddress: '0x123', token_type: 'access', jti: 'legacy' }, process.env.JWT_SECRET!, options);
+
+    test('should accept them without issuer and audience until the cutoff', async () => {
+      const verify = loadVerifier(new Date(Date.now() + 60 * 60 * 1000));
+
+      expect((await verify(signLegacy({ expiresIn: '1h' }))).valid).toBe(true);
+    });
+
+    test('should reject expired token', async () => {
+      const verify = loadVerifier(new Date(Date.now() + 60 * 60 * 1000));
+      const expiredToken = jwt.sign(
+        { walletAddress: '0x123', exp: Math.floor(Date.now() / 1000) - 100 },
+        process.env.JWT_SECRET!
+      );
+
+      const result = await verify(expiredToken);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('jwt expired');
+    });
+
+    test('should reject them once the cutoff has passed', async () => {
+      const verify = loadVerifier(new Date(Date.now() - 1000));
+
+      expect((await verify(signLegacy({ expiresIn: '1h' }))).error).toBe('Missing key id');
+    });
+  });
+
   test('should generate token pair with different tokens', async () => {
     const pair = await generateTokenPair(walletAddress);
     expect(pair.access_token).toBeTruthy();
@@ -0,0 +1,41 @@
+import { convertUnit, normalizeUnit } from '@/utils/units.utils';
+
+describe('Units Utils', () => {
+  describe('normalizeUnit', () => {
+    it('should map other spellings to one unit', () => {
+      expect(normalizeUnit('ug/m3')).toBe('µg/m³');
+      expect(normalizeUnit('μg/m³')).toBe('µg/m³');
+      expect(normalizeUnit(' degC ')).toBe('°C');
+      expect(normalizeUnit('ppb')).toBe('ppb');
+    });
+  });
+
+  describe('convertUnit', () => {
+    it('should scale within a quantity', () => {
+      expect(convertUnit(1.5, 'ppm', 'ppb')).toBe(1500);
+      expect(convertUnit(2, 'mg/m3', 'µg/m³')).toBe(2000);
+      expect(convertUnit(12, 'ug/m3', 'µg/m³')).toBe(12);
+    });
+
+    it('should convert gases between ppb and µg/m³ at the air temperature', () => {
+      // NO2 (46.0055 g/mol) at 25 °C: 1 ppb is about 1.88 µg/m³
+      expect(convertUnit(100, 'ppb', 'µg/m³', { molarMass: 46.0055, temperatureC: 25 })).toBeCloseTo(188.04, 1);
+      expect(convertUnit(100, 'ppb', 'µg/m³', { molarMass: 46.0055, temperatureC: 0 })).toBeCloseTo(205.25, 1);
+
+      const there = convertUnit(40, 'ppb', 'µg/m³', { molarMass: 48, temperatureC: 30 })!;
+      expect(convertUnit(there, 'µg/m³', 'ppb', { molarMass: 48, temperatureC: 30 })).toBeCloseTo(40, 10);
+    });
+
+    it('should convert temperatures', () => {
+      expect(convertUnit(212, '°F', '°C')).toBeCloseTo(100, 10);
+      expect(convertUnit(273.15, 'K', '°C')).toBeCloseTo(0, 10);
+      expect(convertUnit(-40, '°C', 'F')).toBeCloseTo(-40, 10);
+    });
+
+    it('should return null for units that cannot be converted', () => {
+      expect(convertUnit(100, 'ppb', 'µg/m³')).toBeNull();
+      expect(convertUnit(100, 'ppb', '°C')).toBeNull();
+      expect(convertUnit(100, 'furlongs', 'µg/m³')).toBeNull();
+    });
+  });
+});
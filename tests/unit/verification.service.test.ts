@@ -1,5 +1,6 @@
 import AQIReading from '@/models/AQIReading';
-import { buildIPFSMetadata } from '@/services/verification.service';
+import { buildIPFSMetadata, getSampleTimestamps } from '@/services/verification.service';
+import { buildMerkleTree, MERKLE_LEAF_VERSION } from '@/utils/merkle.utils';
 import { IAQIReading } from '@/types/aqi-reading.types';
 
 describe('Verification Service', () => {
@@ -43,6 +44,8 @@ describe('Verification Service', () => {
       expect(metadata.data_type).toBe('aqi_sensor_batch');
       expect(metadata.batch_identity.reading_id).toBe('device-123_20241204_H15');
       expect(metadata.batch_identity.device_id).toBe('device-123');
+      // Batches stored without a window length are hourly
+      expect(metadata.batch_identity.batch_window.duration_minutes).toBe(60);
       expect(metadata.location_metadata.city).toBe('New Delhi');
       expect(metadata.sensor_data['NO2']).toBeDefined();
       expect(metadata.sensor_data['NO2'].values).toEqual([10, 12, 15, 13]);
@@ -54,7 +57,46 @@ describe('Verification Service', () => {
       expect(metadata.provenance.data_source).toBe('ClearSky IoT Device Network');
     });
 
-    it('should include sensor units in metadata', () => {
+    it('should include device signatures when the batch was signed', () => {
+      const mockReading: Partial<IAQIReading> = {
+        reading_id: 'signed',
+        device_id: 'device-123',
+        owner_id: '0x123',
+        batch_window: {
+          start: new Date(),
+          end: new Date(),
+          hour_index: 0
+        },
+        sensor_data: { 'NO2': [10] },
+        meta: {
+          location: {} as any,
+          ingestion_count: 1,
+          last_ingestion: new Date(),
+          data_points_count: { 'NO2': 1 }
+        },
+        signatures: [{
+          timestamp: 1733324400000,
+          nonce: 'nonce-0001',
+          sensor_data: { 'NO2': 10 },
+          signature: 'c'.repeat(128),
+          algorithm: 'ed25519',
+          public_key: 'd'.repeat(64),
+          received_at: new Date()
+        }],
+        created_at: new Date(),
+        updated_at: new Date()
+      };
+
+      const metadata = buildIPFSMetadata(mockReading as IAQIReading, 'root', 'hash');
+      const { device_signatures } = metadata.cryptographic_proofs;
+
+      expect(device_signatures.signed_fields).toEqual(['device_id', 'sensor_data', 'timestamp', 'nonce']);
+      expect(device_signatures.signatures).toHaveLength(1);
+      expect(device_signatures.signatures[0].signature).toBe('c'.repeat(128));
+      expect(device_signatures.signatures[0].public_key).toBe('d'.repeat(64));
+    });
+
+    it('should include the canonical sensor units from the station catalog', () => {
       const mockReading: Partial<IAQIReading> = {
         reading_id: 'test',
         device_id: 'test',
@@ -89,7 +131,96 @@ describe('Verification Service', () => {
 
       expect(metadata.sensor_data['NO2'].unit).toBe('ppb');
       expect(metadata.sensor_data['PM2.5'].unit).toBe('µg/m³');
-      expect(metadata.sensor_data['CO'].unit).toBe('ppm');
+      expect(metadata.sensor_data['CO'].unit).toBe('µg/m³');
+    });
+
+    it('should publish what a verifier needs to rebuild the merkle root', () => {
+      const mockReading: Partial<IAQIReading> = {
+        reading_id: 'rebuild',
+        device_id: 'device-123',
+        owner_id: '0x123',
+        batch_window: {
+          start: new Date('2024-12-04T15:00:00Z'),
+          end: new Date('2024-12-04T16:00:00Z'),
+          hour_index: 15
+        },
+        sensor_data: {
+          'PM2.5': [35, 38, 36],
+          'NO2': [10, 12, 15]
+        },
+        // The first sample predates sample_meta
+        sample_meta: {
+          'PM2.5': [{ timestamp: null }, { timestamp: 1733324700000, nonce: 'nonce-0002' }, { timestamp: 1733325000000 }],
+          'NO2': [{ timestamp: null }, { timestamp: 1733324700000, nonce: 'nonce-0002' }, { timestamp: 1733325000000 }]
+        },
+        meta: {
+          location: {} as any,
+          ingestion_count: 3,
+          last_ingestion: new Date(),
+          data_points_count: { 'NO2': 3, 'PM2.5': 3 }
+        },
+        created_at: new Date(),
+        updated_at: new Date()
+      };
+      const reading = mockReading as IAQIReading;
+      const { root } = buildMerkleTree(reading.sensor_data as any, getSampleTimestamps(reading));
+
+      const metadata = JSON.parse(JSON.stringify(buildIPFSMetadata(reading, root, 'hash')));
+      const values = Object.fromEntries(
+        Object.entries<any>(metadata.sensor_data).map(([sensorType, entry]) => [sensorType, entry.values])
+      );
+      const timestamps = Object.fromEntries(
+        Object.entries<any>(metadata.sensor_data).map(([sensorType, entry]) => [sensorType, entry.timestamps])
+      );
+
+      expect(metadata.sensor_data['NO2'].timestamps).toEqual([null, 1733324700000, 1733325000000]);
+      expect(metadata.sensor_data['NO2'].nonces).toEqual([null, 'nonce-0002', null]);
+      expect(metadata.cryptographic_proofs.merkle_leaf_version).toBe(MERKLE_LEAF_VERSION);
+      expect(buildMerkleTree(values, timestamps).root).toBe(metadata.cryptographic_proofs.merkle_root);
+    });
+
+    it('should publish the QA flags and quality score', () => {
+      const mockReading: Partial<IAQIReading> = {
+        reading_id: 'qa',
+        device_id: 'device-123',
+        owner_id: '0x123',
+        batch_window: {
+          start: new Date('2024-12-04T15:00:00Z'),
+          end: new Date('2024-12-04T16:00:00Z'),
+          hour_index: 15
+        },
+        sensor_data: {
+          'PM2.5': [35, 380, 36]
+        },
+        meta: {
+          location: {} as any,
+          ingestion_count: 3,
+          last_ingestion: new Date(),
+          data_points_count: { 'PM2.5': 3 }
+        },
+        quality: {
+          score: 4,
+          flags: [
+            { check: 'low_sample_count', sensor_type: 'PM2.5', detail: '3 of 60 expected samples' },
+            { check: 'spike', sensor_type: 'PM2.5', indices: [1], detail: '1 value(s) more than 6 x 10 from the baseline median 36' }
+          ],
+          version: 1,
+          assessed_at: new Date('2024-12-04T16:30:00Z')
+        },
+        created_at: new Date(),
+        updated_at: new Date()
+      };
+
+      const metadata = buildIPFSMetadata(mockReading as IAQIReading, 'root', 'hash');
+
+      expect(metadata.data_quality).toMatchObject({
+        score: 4,
+        version: 1,
+        assessed_at: '2024-12-04T16:30:00.000Z',
+        flags: mockReading.quality!.flags
+      });
+      expect(metadata.data_quality.method).toBeDefined();
+      expect(metadata.sensor_data['PM2.5'].values).toEqual([35, 380, 36]);
     });
 
     it('should calculate correct statistics', () => {